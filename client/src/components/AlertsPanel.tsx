@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Bell, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAlerts, useAlertRules, useAlertRuleMutations } from "@/hooks/use-alerts";
+import { formatAlert } from "@/lib/alerts";
+import { ALERT_METRICS, ALERT_METRIC_UNITS, ALERT_OPERATORS, type AlertScope, type AlertMetric } from "@shared/alerts";
+
+const EMPTY_RULE = {
+  name: "",
+  scope: "edge" as AlertScope,
+  metric: "errorRate" as AlertMetric,
+  operator: ">",
+  threshold: "",
+  forMinutes: "5",
+  service: "",
+  webhookUrls: ""
+};
+
+export default function AlertsPanel() {
+  const { data: alerts = [] } = useAlerts();
+  const { data: rules = [] } = useAlertRules();
+  const { createRule, updateRule, deleteRule } = useAlertRuleMutations();
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_RULE);
+
+  const firingCount = alerts.filter(alert => alert.status === "firing").length;
+
+  const handleScopeChange = (scope: AlertScope) => {
+    const metric = ALERT_METRICS[scope].includes(draft.metric) ? draft.metric : ALERT_METRICS[scope][0];
+    setDraft({ ...draft, scope, metric });
+  };
+
+  const handleCreate = () => {
+    createRule.mutate({
+      name: draft.name,
+      scope: draft.scope,
+      metric: draft.metric,
+      operator: draft.operator,
+      threshold: parseFloat(draft.threshold),
+      forSeconds: Math.round((parseFloat(draft.forMinutes) || 0) * 60),
+      service: draft.service || null,
+      webhookUrls: draft.webhookUrls.split(",").map(url => url.trim()).filter(Boolean)
+    }, {
+      onSuccess: () => {
+        setDraft(EMPTY_RULE);
+        setIsAdding(false);
+      },
+      onError: (error) => {
+        toast({ title: "Failed to create alert rule", description: error.message, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <div className="p-4">
+      <h3 className="text-sm font-semibold text-slate-200 mb-3 flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-2 h-2 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full mr-2"></div>
+          Alerts
+          <Bell className="w-3 h-3 text-slate-400 ml-2" />
+          {firingCount > 0 && (
+            <Badge variant="destructive" className="text-xs px-1 py-0 ml-2">{firingCount}</Badge>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setIsAdding(!isAdding)}>
+          <Plus className="w-3 h-3" />
+        </Button>
+      </h3>
+
+      {alerts.length > 0 && (
+        <div className="space-y-1 mb-3">
+          {alerts.map(alert => (
+            <div key={alert.id} className="text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-slate-200 truncate" title={alert.key}>{alert.key}</span>
+                <Badge
+                  variant={alert.status === "firing" ? "destructive" : "outline"}
+                  className="text-xs px-1 py-0 shrink-0"
+                >
+                  {alert.status}
+                </Badge>
+              </div>
+              <div className="text-slate-400 truncate" title={formatAlert(alert)}>{formatAlert(alert)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdding && (
+        <div className="space-y-2 mb-3 p-2 rounded border border-slate-700">
+          <Input
+            placeholder="Rule name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="h-7 text-xs"
+          />
+          <div className="flex gap-1">
+            <Select value={draft.scope} onValueChange={(value) => handleScopeChange(value as AlertScope)}>
+              <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="edge">Edge</SelectItem>
+                <SelectItem value="service">Service</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={draft.metric} onValueChange={(value) => setDraft({ ...draft, metric: value as AlertMetric })}>
+              <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {ALERT_METRICS[draft.scope].map(metric => (
+                  <SelectItem key={metric} value={metric}>{metric} ({ALERT_METRIC_UNITS[metric]})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-1">
+            <Select value={draft.operator} onValueChange={(value) => setDraft({ ...draft, operator: value })}>
+              <SelectTrigger className="h-7 w-16 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {ALERT_OPERATORS.map(operator => (
+                  <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              placeholder="Threshold"
+              value={draft.threshold}
+              onChange={(e) => setDraft({ ...draft, threshold: e.target.value })}
+              className="h-7 text-xs"
+            />
+            <Input
+              type="number"
+              min={0}
+              title="Minutes the condition must hold before firing"
+              value={draft.forMinutes}
+              onChange={(e) => setDraft({ ...draft, forMinutes: e.target.value })}
+              className="h-7 w-16 text-xs"
+            />
+            <span className="text-xs text-slate-400 self-center">min</span>
+          </div>
+          <Input
+            placeholder="Service (optional)"
+            value={draft.service}
+            onChange={(e) => setDraft({ ...draft, service: e.target.value })}
+            className="h-7 text-xs"
+          />
+          <Input
+            placeholder="Webhook URLs, comma-separated"
+            value={draft.webhookUrls}
+            onChange={(e) => setDraft({ ...draft, webhookUrls: e.target.value })}
+            className="h-7 text-xs"
+          />
+          <Button
+            size="sm"
+            className="h-7 w-full text-xs"
+            disabled={!draft.name || draft.threshold === "" || createRule.isPending}
+            onClick={handleCreate}
+          >
+            Create rule
+          </Button>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No alert rules yet</p>
+      ) : (
+        <div className="space-y-1">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center gap-2 text-xs">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRule.mutate({ id: rule.id, enabled })}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200 truncate">{rule.name}</div>
+                <div className="text-slate-400 truncate">
+                  {rule.scope} {rule.metric} {rule.operator} {rule.threshold}
+                  {ALERT_METRIC_UNITS[rule.metric as AlertMetric]}
+                  {rule.forSeconds > 0 && ` for ${Math.round(rule.forSeconds / 60)}m`}
+                  {rule.service && ` • ${rule.service}`}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-slate-400 hover:text-red-400"
+                onClick={() => deleteRule.mutate(rule.id)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { ShieldCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CONFORMANCE_COLORS, CONFORMANCE_LABELS, conformanceColor, formatConformance } from "@/lib/conformance";
+import type { Diagram } from "@shared/schema";
+import type { ConformanceFinding, ConformanceReport } from "@shared/conformance";
+
+interface ConformancePanelProps {
+  diagramId: number | null;
+  onDiagramChange: (diagramId: number) => void;
+  report: ConformanceReport | null;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+export default function ConformancePanel({ diagramId, onDiagramChange, report, isLoading, onClose }: ConformancePanelProps) {
+  const { data: diagrams = [] } = useQuery<Diagram[]>({ queryKey: ["/api/diagrams"] });
+
+  return (
+    <div className="h-56 shrink-0 border-t border-purple-500/20 bg-slate-900 text-slate-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+        <div className="flex items-center gap-2 text-sm font-semibold min-w-0">
+          <ShieldCheck className="w-4 h-4 text-purple-300" />
+          Conformance to
+          <Select
+            value={diagramId !== null ? String(diagramId) : undefined}
+            onValueChange={(value) => onDiagramChange(parseInt(value))}
+          >
+            <SelectTrigger className="w-48 h-7 text-xs">
+              <SelectValue placeholder="Select declared diagram" />
+            </SelectTrigger>
+            <SelectContent>
+              {diagrams.map(diagram => (
+                <SelectItem key={diagram.id} value={String(diagram.id)}>
+                  {diagram.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-1">
+          {report && (Object.keys(CONFORMANCE_COLORS) as ConformanceFinding[])
+            .filter(finding => report.summary[finding] > 0)
+            .map(finding => (
+              <Badge
+                key={finding}
+                variant="outline"
+                className="text-xs px-1 py-0"
+                style={{ borderColor: CONFORMANCE_COLORS[finding], color: CONFORMANCE_COLORS[finding] }}
+              >
+                {CONFORMANCE_LABELS[finding]} {report.summary[finding]}
+              </Badge>
+            ))}
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {diagramId === null ? (
+        <p className="p-4 text-xs text-muted-foreground">
+          {diagrams.length > 0 ? "Select the saved diagram that declares the intended topology" : "Save a diagram to check traffic against it"}
+        </p>
+      ) : isLoading || !report ? (
+        <p className="p-4 text-xs text-muted-foreground">Checking observed traffic...</p>
+      ) : report.findings.length === 0 ? (
+        <p className="p-4 text-xs text-muted-foreground">Observed traffic matches {report.diagram.name}</p>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="px-4 py-2 space-y-1">
+            {report.findings.map(entry => {
+              const [summary, ...details] = formatConformance(entry);
+              return (
+                <div key={`${entry.element}-${entry.id}`} className="flex items-center gap-2 text-xs">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: conformanceColor(entry) }} />
+                  <Badge variant="outline" className="text-[10px] px-1 py-0 shrink-0">{entry.element}</Badge>
+                  <span className="text-slate-200 truncate" title={entry.id}>{entry.label}</span>
+                  <span className="text-slate-300 shrink-0">{summary}</span>
+                  <span className="text-slate-500 truncate">{details.join(' • ')}</span>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
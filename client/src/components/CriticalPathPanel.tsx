@@ -0,0 +1,86 @@
+import { Route } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { criticalPathColor } from "@/lib/criticalPath";
+import type { CriticalPathResponse } from "@/hooks/use-critical-path";
+
+interface CriticalPathPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  operation: string | null;
+  onOperationChange: (operation: string | null) => void;
+  summary: CriticalPathResponse | null;
+  isLoading: boolean;
+}
+
+export default function CriticalPathPanel({
+  enabled,
+  onEnabledChange,
+  operation,
+  onOperationChange,
+  summary,
+  isLoading
+}: CriticalPathPanelProps) {
+  return (
+    <div className="p-4">
+      <h3 className="text-sm font-semibold text-slate-200 mb-3 flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-2 h-2 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full mr-2"></div>
+          Critical Path
+          <Route className="w-3 h-3 text-slate-400 ml-2" />
+        </div>
+        <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+      </h3>
+
+      {enabled && (
+        isLoading || !summary ? (
+          <p className="text-xs text-muted-foreground">Analyzing traces...</p>
+        ) : summary.entryOperations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No traces in the selected window</p>
+        ) : (
+          <div className="space-y-2">
+            <Select
+              value={operation || summary.operation || undefined}
+              onValueChange={(value) => onOperationChange(value)}
+            >
+              <SelectTrigger className="w-full h-8 text-xs">
+                <SelectValue placeholder="Entry operation" />
+              </SelectTrigger>
+              <SelectContent>
+                {summary.entryOperations.map(entry => (
+                  <SelectItem key={entry.operation} value={entry.operation}>
+                    {entry.operation} ({entry.traces})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="text-xs text-muted-foreground">
+              {summary.traceCount} traces analyzed
+            </div>
+
+            <div className="space-y-1">
+              {summary.services.map(service => (
+                <div key={service.service} className="text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-200 truncate" title={service.service}>{service.service}</span>
+                    <Badge variant="outline" className="text-xs px-1 py-0">
+                      {Math.round(service.share * 100)}% • {service.avgMs.toFixed(1)}ms
+                    </Badge>
+                  </div>
+                  <div className="h-1 mt-1 rounded bg-slate-700">
+                    <div
+                      className="h-1 rounded"
+                      style={{ width: `${service.share * 100}%`, backgroundColor: criticalPathColor(service.share) }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
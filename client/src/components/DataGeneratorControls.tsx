@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,36 +7,78 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Play, Pause, Square, RefreshCw, Settings, Database, Activity } from "lucide-react";
+import { Play, Pause, Square, RefreshCw, Settings, Database, Activity, Upload, RotateCcw } from "lucide-react";
 import { 
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
 import TimeRangeControls from "./TimeRangeControls";
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { setLiveFilters } from '@/lib/liveStream';
+import { useLiveMessages, useLiveStatus } from '@/hooks/use-live-stream';
+import { useScenario, useScenarioMutations } from '@/hooks/use-scenario';
+import { useToast } from '@/hooks/use-toast';
+import type { GeneratorName, GeneratorStatus } from '@shared/generators';
+
+// Network events kept for the real-time diagram, as with the initial /api/network/events fetch
+const MAX_LIVE_EVENTS = 100;
+// Pushed traces are batched into one topology refresh
+const LIVE_REFRESH_DELAY_MS = 1000;
+// Filter inputs re-subscribe once typing pauses instead of on every keystroke
+const LIVE_FILTER_DEBOUNCE_MS = 400;
+
+type DataFormat = 'network' | 'opentelemetry' | 'realistic-otel';
+
+const GENERATOR_BY_FORMAT: Record<DataFormat, GeneratorName> = {
+  network: 'network',
+  opentelemetry: 'otel',
+  'realistic-otel': 'realistic'
+};
+const GENERATOR_STATUS_REFRESH_MS = 10000;
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
 
 interface DataGeneratorControlsProps {
   onDataUpdate?: (data: any) => void;
   onBeforeUpdate?: () => void;
   isActive: boolean;
   onActiveChange: (active: boolean) => void;
+  onTimeRangeChange?: (range: { from: Date; to: Date }) => void;
+  onCompareChange?: (baseline: { from: Date; to: Date } | null) => void;
 }
 
 export default function DataGeneratorControls({ 
   onDataUpdate, 
   onBeforeUpdate,
   isActive, 
-  onActiveChange 
+  onActiveChange,
+  onTimeRangeChange,
+  onCompareChange
 }: DataGeneratorControlsProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [interval, setInterval] = useState(2000);
   const [generatorInterval, setGeneratorInterval] = useState('5000');
-  const [format, setFormat] = useState<'network' | 'opentelemetry' | 'realistic-otel'>('realistic-otel');
+  const [generatorSeed, setGeneratorSeed] = useState('');
+  const [format, setFormat] = useState<DataFormat>('realistic-otel');
   const [isLoading, setIsLoading] = useState(false);
   const [eventCount, setEventCount] = useState(0);
   const autoUpdateIntervalRef = useRef<number | null>(null);
   const isGeneratingRef = useRef(false);
+  const liveEventsRef = useRef<any[]>([]);
+  const liveRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [liveFilterInput, setLiveFilterInput] = useState({ tenants: '', services: '', statuses: '' });
+  const liveStatus = useLiveStatus();
+  const isLive = liveStatus === 'open';
+  const { data: generators } = useQuery<GeneratorStatus[]>({
+    queryKey: ['/api/generators'],
+    refetchInterval: GENERATOR_STATUS_REFRESH_MS
+  });
+  const activeGenerator = generators?.find(generator => generator.running && generator.name === GENERATOR_BY_FORMAT[format]);
+  const { data: scenarioState } = useScenario();
+  const { loadScenario, resetScenario } = useScenarioMutations();
+  const scenarioFileRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
   
   // Time range controls state
   const [timeRange, setTimeRange] = useState<{ from: Date; to: Date }>({
@@ -48,7 +91,8 @@ export default function DataGeneratorControls({
   // Time range control handlers
   const handleTimeRangeChange = (range: { from: Date; to: Date }) => {
     setTimeRange(range);
-    setTimeout(() => fetchRecentEvents(), 0);
+    onTimeRangeChange?.(range);
+    setTimeout(() => fetchRecentEvents(range), 0);
   };
 
   const handleIntervalChange = (intervalMs: number) => {
@@ -103,33 +147,19 @@ export default function DataGeneratorControls({
       
       let eventCount = 0;
       if (format === 'opentelemetry' || format === 'realistic-otel') {
-        console.error('🚨 📡 Making traces API request');
-        const tracesResponse = await apiRequest("GET", `/api/otel/traces?limit=20`);
-        console.error('🚨 📡 Traces API response received');
-        const traces = await tracesResponse.json() as any[];
-        console.error('🚨 📡 Traces parsed:', traces.length);
-        
-        // Fetch spans for all traces
-        console.error('🚨 📡 Starting to fetch spans for', traces.length, 'traces');
-        const allSpans: any[] = [];
-        for (const trace of traces) {
-          try {
-            const spansResponse = await apiRequest("GET", `/api/otel/traces/${trace.traceId}/spans`);
-            const spans = await spansResponse.json() as any[];
-            allSpans.push(...spans);
-          } catch (error) {
-            console.warn(`Failed to fetch spans for trace ${trace.traceId}:`, error);
-          }
-        }
-        
-        console.error('🚨 📡 About to call onDataUpdate with traces:', traces.length, 'spans:', allSpans.length);
-        onDataUpdate?.({ traces, spans: allSpans });
-        console.error('🚨 📡 onDataUpdate called successfully');
-        eventCount = traces.length + allSpans.length;
+        // The server aggregates spans into the dependency graph for the whole window
+        const params = new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() });
+        const topologyResponse = await apiRequest("GET", `/api/topology?${params}`);
+        const topology = await topologyResponse.json();
+        console.log('📊 Topology:', topology.stats.nodeCount, 'nodes,', topology.stats.edgeCount, 'edges');
+
+        onDataUpdate?.({ topology });
+        eventCount = topology.stats.totalConnections;
       } else {
         const eventsResponse = await apiRequest("GET", '/api/network/events?limit=100');
         const events = await eventsResponse.json() as any[];
         console.log('📊 Found', events.length, 'events, oldest:', events[0]?.timestamp, ', newest:', events[events.length-1]?.timestamp);
+        liveEventsRef.current = events;
         onDataUpdate?.(events);
         eventCount = events.length;
       }
@@ -150,16 +180,11 @@ export default function DataGeneratorControls({
       setIsGenerating(true);
       onBeforeUpdate?.();
       
-      let endpoint;
-      if (format === 'opentelemetry') {
-        endpoint = '/api/otel/start';
-      } else if (format === 'realistic-otel') {
-        endpoint = '/api/otel/realistic/start';
-      } else {
-        endpoint = '/api/network/start';
-      }
-      
-      await apiRequest("POST", endpoint, { interval: parseInt(generatorInterval) });
+      // Numeric seeds go as numbers so they match the seed the server reports back
+      const trimmedSeed = generatorSeed.trim();
+      const seed = trimmedSeed === '' ? undefined : /^\d+$/.test(trimmedSeed) ? parseInt(trimmedSeed) : trimmedSeed;
+      await apiRequest("POST", `/api/generators/${GENERATOR_BY_FORMAT[format]}/start`, { interval: parseInt(generatorInterval), seed });
+      queryClient.invalidateQueries({ queryKey: ['/api/generators'] });
       
       onActiveChange(true);
       isGeneratingRef.current = true;
@@ -175,16 +200,8 @@ export default function DataGeneratorControls({
 
   const handleStopGeneration = async () => {
     try {
-      let endpoint;
-      if (format === 'opentelemetry') {
-        endpoint = '/api/otel/stop';
-      } else if (format === 'realistic-otel') {
-        endpoint = '/api/otel/realistic/stop';
-      } else {
-        endpoint = '/api/network/stop';
-      }
-      
-      await apiRequest("POST", endpoint);
+      await apiRequest("POST", `/api/generators/${GENERATOR_BY_FORMAT[format]}/stop`);
+      queryClient.invalidateQueries({ queryKey: ['/api/generators'] });
       
       onActiveChange(false);
       isGeneratingRef.current = false;
@@ -202,23 +219,62 @@ export default function DataGeneratorControls({
     }
   };
 
+  const handleScenarioFile = async (file: File | undefined) => {
+    if (!file) return;
+    loadScenario.mutate(await file.text(), {
+      onSuccess: (state) => {
+        toast({ title: `Сценарий «${state.scenario.name}» загружен` });
+      },
+      onError: (error) => {
+        toast({ title: "Не удалось загрузить сценарий", description: error.message, variant: "destructive" });
+      }
+    });
+  };
+
   const handleManualRefresh = () => {
     onBeforeUpdate?.();
     fetchRecentEvents();
   };
 
-  // Auto-refresh effect
+  // Pushed data replaces polling while the live stream is connected
+  const isLiveUpdating = isAutoRefreshing && isActive;
+
+  useLiveMessages('network-events', (message) => {
+    if (format !== 'network') return;
+    liveEventsRef.current = [...liveEventsRef.current, ...message.events].slice(-MAX_LIVE_EVENTS);
+    onDataUpdate?.(liveEventsRef.current);
+    setEventCount(liveEventsRef.current.length);
+  }, isLiveUpdating);
+
+  useLiveMessages('trace', () => {
+    if (format === 'network' || liveRefreshTimerRef.current) return;
+    liveRefreshTimerRef.current = setTimeout(() => {
+      liveRefreshTimerRef.current = null;
+      fetchRecentEvents(undefined, true);
+    }, LIVE_REFRESH_DELAY_MS);
+  }, isLiveUpdating);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setLiveFilters({
+      tenants: splitList(liveFilterInput.tenants),
+      services: splitList(liveFilterInput.services),
+      statuses: splitList(liveFilterInput.statuses)
+    }), LIVE_FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [liveFilterInput]);
+
+  // Auto-refresh effect (polling fallback while the live stream is down)
   useEffect(() => {
     console.error('🚨 🔄 useEffect triggered: isAutoRefreshing=', isAutoRefreshing, 'refreshInterval=', refreshInterval, 'isActive=', isActive, 'current interval:', autoUpdateIntervalRef.current);
     console.log('🔄 useEffect triggered: isAutoRefreshing=', isAutoRefreshing, 'refreshInterval=', refreshInterval, 'isActive=', isActive, 'current interval:', autoUpdateIntervalRef.current);
-    if (isAutoRefreshing && isActive) {
+    if (isAutoRefreshing && isActive && !isLive) {
       console.error('🚨 🔄 CONDITIONS MET - starting generator updates');
       startGeneratorUpdates();
     } else {
       console.error('🚨 🔄 CONDITIONS NOT MET - stopping generator updates', {
         isAutoRefreshing,
         isActive,
-        reason: !isAutoRefreshing ? 'auto-refresh disabled' : 'generator inactive'
+        reason: !isAutoRefreshing ? 'auto-refresh disabled' : !isActive ? 'generator inactive' : 'live stream connected'
       });
       stopGeneratorUpdates();
     }
@@ -227,7 +283,21 @@ export default function DataGeneratorControls({
       console.log('🔄 useEffect cleanup called');
       stopGeneratorUpdates();
     };
-  }, [isAutoRefreshing, refreshInterval, isActive]);
+  }, [isAutoRefreshing, refreshInterval, isActive, isLive]);
+
+  // The server knows what is running, so a reloaded page picks up the running generator and its format
+  useEffect(() => {
+    if (!generators) return;
+    const running = generators.find(generator => generator.running && generator.name !== 'metrics');
+    if (running) {
+      const runningFormat = (Object.keys(GENERATOR_BY_FORMAT) as DataFormat[])
+        .find(candidate => GENERATOR_BY_FORMAT[candidate] === running.name);
+      if (runningFormat && runningFormat !== format) setFormat(runningFormat);
+      if (!isActive) onActiveChange(true);
+    } else if (isActive) {
+      onActiveChange(false);
+    }
+  }, [generators]);
 
   // Initialize auto-refresh on mount
   useEffect(() => {
@@ -260,6 +330,9 @@ export default function DataGeneratorControls({
   useEffect(() => {
     return () => {
       stopGeneratorUpdates();
+      if (liveRefreshTimerRef.current) {
+        clearTimeout(liveRefreshTimerRef.current);
+      }
     };
   }, []);
 
@@ -303,7 +376,7 @@ export default function DataGeneratorControls({
           <Label htmlFor="format-select" className="text-sm font-medium">
             Формат:
           </Label>
-          <Select value={format} onValueChange={(value: 'network' | 'opentelemetry' | 'realistic-otel') => setFormat(value)}>
+          <Select value={format} onValueChange={(value: DataFormat) => setFormat(value)} disabled={isActive}>
             <SelectTrigger className="w-40" id="format-select">
               <SelectValue />
             </SelectTrigger>
@@ -358,17 +431,105 @@ export default function DataGeneratorControls({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor="generator-seed">Seed (воспроизводимые данные)</Label>
+                <Input
+                  id="generator-seed"
+                  placeholder="Случайно"
+                  value={generatorSeed}
+                  onChange={(e) => setGeneratorSeed(e.target.value)}
+                  disabled={isActive}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Фильтры live-потока (через запятую)</Label>
+                <Input
+                  placeholder="Tenant"
+                  value={liveFilterInput.tenants}
+                  onChange={(e) => setLiveFilterInput({ ...liveFilterInput, tenants: e.target.value })}
+                />
+                <Input
+                  placeholder="Service"
+                  value={liveFilterInput.services}
+                  onChange={(e) => setLiveFilterInput({ ...liveFilterInput, services: e.target.value })}
+                />
+                <Input
+                  placeholder="Status (200, 5xx, error)"
+                  value={liveFilterInput.statuses}
+                  onChange={(e) => setLiveFilterInput({ ...liveFilterInput, statuses: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Сценарий</Label>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="truncate" title={scenarioState?.scenario.description}>
+                    {scenarioState?.scenario.name ?? '—'}
+                  </span>
+                  {scenarioState?.source === 'custom' && <Badge variant="secondary">загружен</Badge>}
+                </div>
+                {scenarioState?.activeFaults.map((fault, index) => (
+                  <Badge key={index} variant="destructive" className="w-fit">
+                    {fault.type}: {fault.service}
+                  </Badge>
+                ))}
+                <input
+                  ref={scenarioFileRef}
+                  type="file"
+                  accept=".yaml,.yml,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleScenarioFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => scenarioFileRef.current?.click()}
+                    disabled={loadScenario.isPending}
+                  >
+                    <Upload className="h-4 w-4 mr-1" />
+                    Загрузить
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resetScenario.mutate()}
+                    disabled={scenarioState?.source !== 'custom' || resetScenario.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    По умолчанию
+                  </Button>
+                </div>
+              </div>
             </div>
           </PopoverContent>
         </Popover>
 
         <div className="flex items-center gap-2">
           {isActive && (
-            <Badge variant="outline" className="flex items-center gap-1">
+            <Badge
+              variant="outline"
+              className="flex items-center gap-1"
+              title={activeGenerator ? `${activeGenerator.eventsProduced} записей, интервал ${activeGenerator.intervalMs} мс${activeGenerator.seed === null ? '' : `, seed ${activeGenerator.seed}`}` : undefined}
+            >
               <div className="h-2 w-2 bg-green-500 rounded-full animate-pulse" />
               Активен
             </Badge>
           )}
+
+          {activeGenerator?.lastError && (
+            <Badge variant="destructive" title={`${activeGenerator.lastError.at}: ${activeGenerator.lastError.message}`}>
+              Ошибка генератора
+            </Badge>
+          )}
+
+          {isLiveUpdating && (
+            <Badge variant="outline" title={isLive ? 'Live stream connected' : 'Polling until the live stream reconnects'}>
+              {isLive ? 'Live' : 'Polling'}
+            </Badge>
+          )}
           
           {eventCount > 0 && (
             <Badge variant="secondary">
@@ -384,6 +545,7 @@ export default function DataGeneratorControls({
             onRefreshToggle={handleRefreshToggle}
             isRefreshing={isAutoRefreshing}
             currentInterval={refreshInterval}
+            onCompareChange={onCompareChange}
           />
         </div>
       </div>
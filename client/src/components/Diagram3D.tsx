@@ -2,8 +2,15 @@ import { useEffect, useRef, useState, useCallback } from "react";
 import * as THREE from "three";
 import { Computer } from "lucide-react";
 import ServiceMetricsPopup from "./ServiceMetricsPopup";
-import type { DiagramData, DiagramSettings } from "@/types/diagram";
+import type { DiagramData, DiagramSettings, RedMetrics } from "@/types/diagram";
+import { formatRedMetrics } from "@/lib/redMetrics";
+import { criticalPathColor } from "@/lib/criticalPath";
+import { diffColor } from "@/lib/topologyDiff";
+import { conformanceColor, formatConformance } from "@/lib/conformance";
+import { SLO_HEALTH_COLORS, worstSloHealth } from "@/lib/slo";
+import { useLiveMessages, useLiveStatus } from "@/hooks/use-live-stream";
 import type { ServiceMetrics } from "@shared/schema";
+import type { ConformanceEntry } from "@shared/conformance";
 
 // Import refactored modules
 import { 
@@ -28,7 +35,8 @@ import {
   updateSceneIncrementally, 
   createOrientationCube,
   getCachedMaterial,
-  createArrowSystem
+  createArrowSystem,
+  createBadgeSprite
 } from "./diagram3d/scene-utils";
 import type { MagistralConnection, CameraState, Obstacle } from "./diagram3d/types";
 
@@ -66,6 +74,8 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
     statusCounts: Record<string, number>;
     sourceLabel: string;
     targetLabel: string;
+    red?: RedMetrics;
+    conformance?: ConformanceEntry;
   }>({
     visible: false,
     x: 0,
@@ -117,12 +127,26 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
     }
   }, []);
 
-  // Load metrics on mount and periodically refresh
+  // Load metrics on mount; updates are pushed over the live stream
   useEffect(() => {
     fetchServiceMetrics();
+  }, [fetchServiceMetrics]);
+
+  useLiveMessages('service-metrics', (message) => {
+    setServiceMetrics(prev => {
+      const metricsMap = new Map(prev);
+      message.metrics.forEach(metric => metricsMap.set(metric.serviceName, metric));
+      return metricsMap;
+    });
+  });
+
+  // Poll only while the live stream is down
+  const liveStatus = useLiveStatus();
+  useEffect(() => {
+    if (liveStatus === 'open') return;
     const interval = setInterval(fetchServiceMetrics, 10000); // Refresh every 10 seconds
     return () => clearInterval(interval);
-  }, [fetchServiceMetrics]);
+  }, [fetchServiceMetrics, liveStatus]);
 
   // Initialize scene and camera only once
   useEffect(() => {
@@ -179,8 +203,13 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
 
     window.addEventListener('resize', handleResize);
 
+    // The container also shrinks when the trace waterfall panel opens
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(mountRef.current);
+
     return () => {
       window.removeEventListener('resize', handleResize);
+      resizeObserver.disconnect();
       
       if (mountRef.current && renderer && mountRef.current.contains(renderer.domElement)) {
         mountRef.current.removeChild(renderer.domElement);
@@ -626,7 +655,8 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
       
       let hoveredArrow = null;
       for (const intersect of intersects) {
-        if (intersect.object.userData?.isArrow) {
+        // Branch arrow heads carry the edge they belong to
+        if (intersect.object.userData?.isArrow || (intersect.object.userData?.isArrowHead && intersect.object.userData?.edgeData)) {
           hoveredArrow = intersect.object;
           break;
         }
@@ -640,8 +670,10 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
           x: event.clientX - rect.left,
           y: event.clientY - rect.top,
           statusCounts: edgeData.statusCounts || {},
-          sourceLabel: hoveredArrow.userData.sourceLabel || '',
-          targetLabel: hoveredArrow.userData.targetLabel || ''
+          sourceLabel: hoveredArrow.userData.sourceLabel || edgeData.source || '',
+          targetLabel: hoveredArrow.userData.targetLabel || edgeData.target || '',
+          red: edgeData.red,
+          conformance: edgeData.conformance
         });
         // Change cursor to pointer when hovering over arrows
         renderer.domElement.style.cursor = 'pointer';
@@ -2482,6 +2514,7 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
               isBranchArrow: true,
               endpointId: targetNode.id,
               traceId: matchingEdge?.traceId,
+              edgeData: matchingEdge,
               branchType: 'incoming',
               originalColor: isForwardMagistral ? 0x10B981 : 0x8B5CF6
             });
@@ -2701,6 +2734,7 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
                         isBranchArrow: true,
                         endpointId: sourceNode.id,
                         traceId: matchingEdge?.traceId,
+                        edgeData: matchingEdge,
                         branchType: 'outgoing',
                         originalColor: isForwardMagistral ? 0x10B981 : 0x8B5CF6
                       });
@@ -3154,6 +3188,66 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
     }
   }, [settings.brightness]);
 
+  // Recolor endpoint cylinders by their compare mode change, conformance finding or critical path share;
+  // palette colors return when all are off
+  useEffect(() => {
+    if (!data) return;
+    const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+
+    sceneObjectsRef.current.forEach((object, key) => {
+      if (!key.startsWith('endpoint-') || !(object instanceof THREE.Mesh)) return;
+
+      if (object.userData.paletteColor === undefined) {
+        object.userData.paletteColor = object.userData.originalColor;
+      }
+      const node = nodeById.get(object.userData.nodeId);
+      const hex = diffColor(node?.diff) || conformanceColor(node?.conformance) || (node?.criticalPathShare !== undefined ? criticalPathColor(node.criticalPathShare) : undefined);
+      const color = hex ? parseInt(hex.slice(1), 16) : object.userData.paletteColor;
+
+      if (color !== undefined && color !== object.userData.originalColor) {
+        object.material = getCachedMaterial(color);
+        object.userData.originalColor = color;
+      }
+    });
+  }, [data]);
+
+  // Firing alerts float as red count badges above their endpoint cylinders, SLO status as a dot beside them
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !data) return;
+
+    Array.from(sceneObjectsRef.current.keys())
+      .filter(key => key.startsWith('alert-badge-') || key.startsWith('slo-badge-'))
+      .forEach(key => {
+        const badge = sceneObjectsRef.current.get(key) as THREE.Sprite;
+        scene.remove(badge);
+        badge.material.map?.dispose();
+        badge.material.dispose();
+        sceneObjectsRef.current.delete(key);
+      });
+
+    const addBadge = (key: string, badge: THREE.Sprite, cylinder: THREE.Object3D, offsetX: number, nodeId: string) => {
+      const top = new THREE.Box3().setFromObject(cylinder).max.y;
+      badge.position.set(cylinder.position.x + offsetX, top + 8, cylinder.position.z);
+      badge.scale.set(12, 12, 1);
+      badge.userData = { isBadge: true, nodeId };
+      scene.add(badge);
+      sceneObjectsRef.current.set(key, badge);
+    };
+
+    data.nodes.forEach(node => {
+      const cylinder = sceneObjectsRef.current.get(`endpoint-${node.id}`);
+      if (!cylinder) return;
+
+      if (node.alerts?.length) {
+        addBadge(`alert-badge-${node.id}`, createBadgeSprite('#DC2626', String(node.alerts.length)), cylinder, 8, node.id);
+      }
+      if (node.slos?.length) {
+        addBadge(`slo-badge-${node.id}`, createBadgeSprite(SLO_HEALTH_COLORS[worstSloHealth(node.slos)]), cylinder, -8, node.id);
+      }
+    });
+  }, [data]);
+
   // Track if highlighting has been applied to prevent multiple passes
   const highlightingAppliedRef = useRef<string | null>(null);
   
@@ -3956,7 +4050,7 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
   }
 
   return (
-    <div className="flex-1 relative">
+    <div className="flex-1 relative min-h-0 overflow-hidden">
       <div ref={mountRef} className="w-full h-full" />
       
       {/* Toggle button for legend */}
@@ -4089,6 +4183,20 @@ export default function Diagram3D({ data, settings, selectedTraceId, onLODUpdate
               <div className="text-xs text-gray-500">No status data</div>
             )}
           </div>
+          {tooltip.red && (
+            <div className="mt-2 pt-2 border-t border-gray-200 space-y-1">
+              {formatRedMetrics(tooltip.red).map(line => (
+                <div key={line} className="text-xs">{line}</div>
+              ))}
+            </div>
+          )}
+          {tooltip.conformance && (
+            <div className="mt-2 pt-2 border-t border-gray-200 space-y-1">
+              {formatConformance(tooltip.conformance).map(line => (
+                <div key={line} className="text-xs">{line}</div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
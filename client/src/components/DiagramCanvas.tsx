@@ -3,16 +3,42 @@ import * as d3 from "d3";
 import { Button } from "@/components/ui/button";
 import { ZoomIn, ZoomOut, RotateCcw, Crosshair, Maximize, Image, FileDown } from "lucide-react";
 import { applyLayout, exportAsSVG, exportAsPNG } from "@/lib/diagramUtils";
+import { formatRedMetrics } from "@/lib/redMetrics";
+import { criticalPathColor } from "@/lib/criticalPath";
+import { diffColor, formatTopologyDiff } from "@/lib/topologyDiff";
+import { conformanceColor, formatConformance } from "@/lib/conformance";
+import { formatAlert } from "@/lib/alerts";
+import { SLO_HEALTH_COLORS, formatSloStatus, worstSloHealth } from "@/lib/slo";
 import type { DiagramData, DiagramSettings, LayoutType } from "@/types/diagram";
 
 interface DiagramCanvasProps {
   data: DiagramData | null;
   settings: DiagramSettings;
   layout: LayoutType;
+  selectedTraceId?: string | null;
   onApplyLayout?: () => void;
 }
 
-export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasProps) {
+const edgeHasTrace = (edge: any, traceId: string) =>
+  !!edge.traceId && edge.traceId.split(',').map((id: string) => id.trim()).includes(traceId);
+
+const endpointId = (end: any) => typeof end === 'string' ? end : end.id;
+
+// In compare mode edges take the color of their most significant change, in conformance mode of their finding
+const edgeStroke = (d: any) => {
+  if (d.diff) return diffColor(d.diff) || "#9ca3af";
+  if (d.conformance) return conformanceColor(d.conformance) || "#9ca3af";
+  if (d.trafficType === 'inter-service') return "#DC2626";
+  if (d.trafficType === 'intra-service') return "#059669";
+  if (d.trafficType === 'external') return "#7C3AED";
+  return "#000000";
+};
+
+// Disappeared in compare mode, or declared but without traffic in conformance mode
+const isAbsent = (d: any) => d.diff?.changes.includes('removed')
+  || d.conformance?.state === 'unused-edge' || d.conformance?.state === 'unobserved';
+
+export default function DiagramCanvas({ data, settings, layout, selectedTraceId }: DiagramCanvasProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [zoomLevel, setZoomLevel] = useState(100);
   const [transform, setTransform] = useState(d3.zoomIdentity);
@@ -245,6 +271,40 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
     const straightEdges = allEdges.filter(d => !d.coords.path);
     const curvedEdges = allEdges.filter(d => d.coords.path);
 
+    // Connection count plus RED metrics for the selected window and compare mode changes when available
+    const showEdgeTooltip = (event: any, d: any) => {
+      const lines = d.connectionCount && d.connectionCount > 1 ? [d.connectionCount.toString()] : [];
+      if (d.red) {
+        lines.push(...formatRedMetrics(d.red));
+      }
+      if (d.diff) {
+        lines.push(...formatTopologyDiff(d.diff));
+      }
+      if (d.conformance) {
+        lines.push(...formatConformance(d.conformance));
+      }
+      if (d.alerts) {
+        lines.push(...d.alerts.map(formatAlert));
+      }
+      if (lines.length === 0) return;
+
+      const tooltip = d3.select("body").append("div")
+        .attr("class", "connection-tooltip")
+        .style("position", "absolute")
+        .style("background", "rgba(0, 0, 0, 0.8)")
+        .style("color", "white")
+        .style("padding", "8px")
+        .style("border-radius", "4px")
+        .style("font-size", "12px")
+        .style("pointer-events", "none")
+        .style("z-index", "1000");
+
+      lines.forEach(line => tooltip.append("div").text(line));
+
+      tooltip.style("left", (event.pageX + 10) + "px")
+        .style("top", (event.pageY - 10) + "px");
+    };
+
     // Draw straight edges as lines
     const lines = edgeGroup.selectAll("line")
       .data(straightEdges)
@@ -253,35 +313,16 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
       .attr("y1", (d: any) => d.coords.y1)
       .attr("x2", (d: any) => d.coords.x2)
       .attr("y2", (d: any) => d.coords.y2)
-      .attr("stroke", (d: any) => {
-        if (d.trafficType === 'inter-service') return "#DC2626";
-        if (d.trafficType === 'intra-service') return "#059669";
-        if (d.trafficType === 'external') return "#7C3AED";
-        return "#000000";
-      })
+      .attr("stroke", edgeStroke)
       .attr("stroke-width", (d: any) => {
         const count = d.connectionCount || 1;
         return Math.max(1, Math.min(5, count)); // Scale from 1px to 5px
       })
+      .attr("stroke-dasharray", (d: any) => isAbsent(d) ? "6 4" : null)
       .attr("marker-end", settings.showArrows ? "url(#arrowhead)" : null)
       .attr("class", "edge")
       .on("mouseover", function(event: any, d: any) {
-        if (d.connectionCount && d.connectionCount > 1) {
-          const tooltip = d3.select("body").append("div")
-            .attr("class", "connection-tooltip")
-            .style("position", "absolute")
-            .style("background", "rgba(0, 0, 0, 0.8)")
-            .style("color", "white")
-            .style("padding", "8px")
-            .style("border-radius", "4px")
-            .style("font-size", "12px")
-            .style("pointer-events", "none")
-            .style("z-index", "1000")
-            .text(d.connectionCount.toString());
-          
-          tooltip.style("left", (event.pageX + 10) + "px")
-            .style("top", (event.pageY - 10) + "px");
-        }
+        showEdgeTooltip(event, d);
       })
       .on("mouseout", function() {
         d3.selectAll(".connection-tooltip").remove();
@@ -292,36 +333,17 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
       .data(curvedEdges)
       .enter().append("path")
       .attr("d", (d: any) => d.coords.path)
-      .attr("stroke", (d: any) => {
-        if (d.trafficType === 'inter-service') return "#DC2626";
-        if (d.trafficType === 'intra-service') return "#059669";
-        if (d.trafficType === 'external') return "#7C3AED";
-        return "#000000";
-      })
+      .attr("stroke", edgeStroke)
       .attr("stroke-width", (d: any) => {
         const count = d.connectionCount || 1;
         return Math.max(1, Math.min(5, count)); // Scale from 1px to 5px
       })
+      .attr("stroke-dasharray", (d: any) => isAbsent(d) ? "6 4" : null)
       .attr("fill", "none")
       .attr("marker-end", settings.showArrows ? "url(#arrowhead)" : null)
       .attr("class", "edge")
       .on("mouseover", function(event: any, d: any) {
-        if (d.connectionCount && d.connectionCount > 1) {
-          const tooltip = d3.select("body").append("div")
-            .attr("class", "connection-tooltip")
-            .style("position", "absolute")
-            .style("background", "rgba(0, 0, 0, 0.8)")
-            .style("color", "white")
-            .style("padding", "8px")
-            .style("border-radius", "4px")
-            .style("font-size", "12px")
-            .style("pointer-events", "none")
-            .style("z-index", "1000")
-            .text(d.connectionCount.toString());
-          
-          tooltip.style("left", (event.pageX + 10) + "px")
-            .style("top", (event.pageY - 10) + "px");
-        }
+        showEdgeTooltip(event, d);
       })
       .on("mouseout", function() {
         d3.selectAll(".connection-tooltip").remove();
@@ -332,6 +354,7 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
       .selectAll("g")
       .data(nodes)
       .enter().append("g")
+      .attr("class", "node")
       .attr("transform", (d: any) => `translate(${d.x},${d.y})`)
       .call(d3.drag<any, any>()
         .on("start", function(event, d: any) {
@@ -453,11 +476,56 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
       }
     };
 
+    // Critical path analysis, when enabled, recolors nodes by how often their service is the bottleneck;
+    // compare and conformance modes outline changed or unexpected nodes and dash the ones without traffic
     node.append("circle")
       .attr("r", 20)
-      .attr("fill", getNodeColor())
+      .attr("fill", (d: any) => d.criticalPathShare !== undefined ? criticalPathColor(d.criticalPathShare) : getNodeColor())
+      .attr("fill-opacity", (d: any) => isAbsent(d) ? 0.35 : 1)
+      .attr("stroke", (d: any) => diffColor(d.diff) || conformanceColor(d.conformance) || "#fff")
+      .attr("stroke-width", (d: any) => diffColor(d.diff) || conformanceColor(d.conformance) ? 4 : 3)
+      .attr("stroke-dasharray", (d: any) => isAbsent(d) ? "4 3" : null);
+
+    node.filter((d: any) => !!d.diff || !!d.conformance || !!d.alerts || !!d.slos)
+      .append("title")
+      .text((d: any) => [
+        d.diff?.label || d.label,
+        ...(d.diff ? formatTopologyDiff(d.diff) : []),
+        ...(d.conformance ? formatConformance(d.conformance) : []),
+        ...(d.alerts || []).map(formatAlert),
+        ...(d.slos || []).map(formatSloStatus)
+      ].join("\n"));
+
+    // SLO status dot on the top-left, colored by the worst SLO on the node
+    node.filter((d: any) => !!d.slos?.length)
+      .append("circle")
+      .attr("class", "slo-badge")
+      .attr("cx", -15)
+      .attr("cy", -15)
+      .attr("r", 6)
+      .attr("fill", (d: any) => SLO_HEALTH_COLORS[worstSloHealth(d.slos)])
+      .attr("stroke", "#fff")
+      .attr("stroke-width", 1.5);
+
+    // Firing alerts show as a red count badge on the node's top-right
+    const alertBadge = node.filter((d: any) => !!d.alerts?.length)
+      .append("g")
+      .attr("class", "alert-badge")
+      .attr("transform", "translate(15, -15)");
+
+    alertBadge.append("circle")
+      .attr("r", 8)
+      .attr("fill", "#DC2626")
       .attr("stroke", "#fff")
-      .attr("stroke-width", 3);
+      .attr("stroke-width", 1.5);
+
+    alertBadge.append("text")
+      .attr("text-anchor", "middle")
+      .attr("dy", "0.35em")
+      .attr("fill", "white")
+      .attr("font-size", "10px")
+      .attr("font-weight", "700")
+      .text((d: any) => d.alerts.length);
 
     // Add labels if enabled
     if (settings.showLabels) {
@@ -479,6 +547,29 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
 
   }, [data, settings, layout]);
 
+  // Dim everything outside the selected trace's path
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+
+    if (!selectedTraceId) {
+      svg.selectAll(".edge").attr("opacity", 1);
+      svg.selectAll(".node").attr("opacity", 1);
+      return;
+    }
+
+    const traceNodes = new Set<string>();
+    svg.selectAll(".edge").each((d: any) => {
+      if (edgeHasTrace(d, selectedTraceId)) {
+        traceNodes.add(endpointId(d.source));
+        traceNodes.add(endpointId(d.target));
+      }
+    });
+
+    svg.selectAll(".edge").attr("opacity", (d: any) => edgeHasTrace(d, selectedTraceId) ? 1 : 0.1);
+    svg.selectAll(".node").attr("opacity", (d: any) => traceNodes.has(d.id) ? 1 : 0.2);
+  }, [data, settings, layout, selectedTraceId]);
+
   const handleZoomIn = () => {
     if (svgRef.current) {
       const svg = d3.select(svgRef.current);
@@ -542,7 +633,7 @@ export default function DiagramCanvas({ data, settings, layout }: DiagramCanvasP
   }
 
   return (
-    <div className="flex-1 flex flex-col bg-gray-50">
+    <div className="flex-1 flex flex-col min-h-0 bg-gray-50">
       {/* Canvas Toolbar */}
       <div className="bg-white border-b border-gray-200 px-4 py-3">
         <div className="flex items-center justify-between">
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { History, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Diagram, DiagramRevision } from "@shared/schema";
+import type { DiagramRevisionDiff } from "@shared/diagramDiff";
+import type { DiagramData, DiagramSettings, LayoutType } from "@/types/diagram";
+
+type RevisionSummary = Omit<DiagramRevision, "data" | "settings"> & { nodeCount: number; edgeCount: number };
+
+interface DiagramHistoryProps {
+  data: DiagramData | null;
+  layout: LayoutType;
+  settings: DiagramSettings;
+  onDiagramRestore: (diagram: Diagram) => void;
+}
+
+// Sets (node.endpoints) do not survive JSON, so they are dropped before saving
+function serializeData(data: DiagramData) {
+  return {
+    nodes: data.nodes.map(({ endpoints, ...node }) => node),
+    edges: data.edges
+  };
+}
+
+function describeDiff(diff: DiagramRevisionDiff): string {
+  const parts = [
+    diff.nodes.added.length && `+${diff.nodes.added.length} nodes`,
+    diff.nodes.removed.length && `-${diff.nodes.removed.length} nodes`,
+    diff.edges.added.length && `+${diff.edges.added.length} edges`,
+    diff.edges.removed.length && `-${diff.edges.removed.length} edges`,
+    (diff.nodes.changed.length + diff.edges.changed.length) && `${diff.nodes.changed.length + diff.edges.changed.length} changed`,
+    diff.settings.length && `settings: ${diff.settings.map(s => s.key).join(', ')}`,
+    diff.layout && `layout: ${diff.layout.from} → ${diff.layout.to}`
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' • ') : 'No changes';
+}
+
+export default function DiagramHistory({ data, layout, settings, onDiagramRestore }: DiagramHistoryProps) {
+  const [selectedDiagramId, setSelectedDiagramId] = useState<number | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+
+  const { data: diagrams = [] } = useQuery<Diagram[]>({ queryKey: ["/api/diagrams"] });
+
+  const { data: revisions = [] } = useQuery<RevisionSummary[]>({
+    queryKey: [`/api/diagrams/${selectedDiagramId}/revisions`],
+    enabled: selectedDiagramId !== null
+  });
+
+  // Compare the selected revision against the latest one
+  const { data: diff } = useQuery<DiagramRevisionDiff>({
+    queryKey: [`/api/diagrams/${selectedDiagramId}/revisions/diff?from=${selectedRevision}`],
+    enabled: selectedDiagramId !== null && selectedRevision !== null
+  });
+
+  const invalidateHistory = (diagramId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/diagrams"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/diagrams/${diagramId}/revisions`] });
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith(`/api/diagrams/${diagramId}/revisions/diff`)
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: name || diagrams.find(d => d.id === selectedDiagramId)?.name || "Untitled diagram",
+        data: serializeData(data!),
+        layout,
+        settings
+      };
+      const response = selectedDiagramId !== null
+        ? await apiRequest("PATCH", `/api/diagrams/${selectedDiagramId}`, payload)
+        : await apiRequest("POST", "/api/diagrams", payload);
+      return response.json() as Promise<Diagram>;
+    },
+    onSuccess: (diagram) => {
+      setSelectedDiagramId(diagram.id);
+      invalidateHistory(diagram.id);
+      toast({ title: "Diagram saved", description: `${diagram.name} saved as a new revision` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save diagram", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const response = await apiRequest("POST", `/api/diagrams/${selectedDiagramId}/revisions/${revision}/restore`);
+      return response.json() as Promise<Diagram>;
+    },
+    onSuccess: (diagram, revision) => {
+      invalidateHistory(diagram.id);
+      setSelectedRevision(null);
+      onDiagramRestore(diagram);
+      toast({ title: "Revision restored", description: `${diagram.name} restored to revision ${revision}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore revision", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="p-4">
+      <h3 className="text-sm font-semibold text-slate-200 mb-3 flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-2 h-2 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full mr-2"></div>
+          Diagram History
+        </div>
+        <History className="w-3 h-3 text-slate-400" />
+      </h3>
+
+      <div className="space-y-2 mb-3">
+        <Select
+          value={selectedDiagramId !== null ? String(selectedDiagramId) : "new"}
+          onValueChange={(value) => {
+            setSelectedDiagramId(value === "new" ? null : parseInt(value));
+            setSelectedRevision(null);
+          }}
+        >
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue placeholder="Select diagram" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="new">New diagram</SelectItem>
+            {diagrams.map(diagram => (
+              <SelectItem key={diagram.id} value={String(diagram.id)}>
+                {diagram.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={selectedDiagramId !== null ? "Keep current name" : "Diagram name"}
+            className="h-8 text-xs"
+          />
+          <Button
+            size="sm"
+            className="h-8"
+            disabled={!data || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            <Save className="w-3 h-3 mr-1" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {selectedDiagramId !== null && (
+        <ScrollArea className="h-40">
+          <div className="space-y-1">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={`border rounded-lg p-2 cursor-pointer transition-colors ${
+                  selectedRevision === revision.revision
+                    ? 'bg-blue-900/40 border-blue-400 border-2'
+                    : 'border-slate-600/30 hover:bg-slate-700/30'
+                }`}
+                onClick={() => setSelectedRevision(selectedRevision === revision.revision ? null : revision.revision)}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={index === 0 ? "default" : "outline"} className="text-xs px-1 py-0">
+                      r{revision.revision}
+                    </Badge>
+                    <span className="text-xs text-slate-300">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      disabled={restoreMutation.isPending}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        restoreMutation.mutate(revision.revision);
+                      }}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {revision.nodeCount} nodes • {revision.edgeCount} edges • {revision.layout}
+                </div>
+                {selectedRevision === revision.revision && diff && index > 0 && (
+                  <div className="text-xs text-slate-300 mt-1">
+                    Since r{revision.revision}: {describeDiff(diff)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -157,7 +157,7 @@ export default function FileUpload({ onFileProcessed, onMultipleFilesProcessed,
     try {
       for (const file of files) {
         if (!validateFileType(file)) {
-          onError(`Invalid file type: ${file.name}. Please upload CSV or Excel files only.`);
+          onError(`Invalid file type: ${file.name}. Please upload CSV, Excel, JSON trace, Kubernetes manifest, docker-compose or OpenAPI files only.`);
           continue;
         }
         
@@ -198,7 +198,9 @@ export default function FileUpload({ onFileProcessed, onMultipleFilesProcessed,
     accept: {
       'text/csv': ['.csv'],
       'application/vnd.ms-excel': ['.xls'],
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/json': ['.json'],
+      'application/x-yaml': ['.yaml', '.yml']
     },
     multiple: true,
     disabled: isProcessing
@@ -227,7 +229,7 @@ export default function FileUpload({ onFileProcessed, onMultipleFilesProcessed,
           ) : (
             <>
               <Upload className="w-8 h-8 text-gray-400 mx-auto mb-3" />
-              <p className="text-sm font-medium text-foreground mb-1">Drop your CSV or Excel files here</p>
+              <p className="text-sm font-medium text-foreground mb-1">Drop your CSV, Excel, trace JSON, Kubernetes, docker-compose or OpenAPI files here</p>
               <p className="text-xs text-muted-foreground">or click to browse (select multiple files)</p>
             </>
           )}
@@ -237,11 +239,11 @@ export default function FileUpload({ onFileProcessed, onMultipleFilesProcessed,
       <div className="mt-4 space-y-2">
         <div className="flex items-center text-xs text-muted-foreground">
           <FileText className="w-3 h-3 mr-2" />
-          <span>Supported formats: CSV, Excel (.xlsx, .xls)</span>
+          <span>Supported formats: CSV, Excel (.xlsx, .xls), Zipkin v2 / Jaeger JSON, Kubernetes manifests (YAML or kubectl JSON), docker-compose, OpenAPI 3 / Swagger 2 (YAML or JSON)</span>
         </div>
         <div className="flex items-center text-xs text-muted-foreground">
           <AlertCircle className="w-3 h-3 mr-2" />
-          <span>Required columns: source, target</span>
+          <span>Required columns: source, target (CSV/Excel)</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { RedMetrics, RedMetricsResponse } from "@/types/diagram";
+
+type SortKey = 'name' | keyof RedMetrics;
+
+interface RedRow extends RedMetrics {
+  name: string;
+}
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'rate', label: 'Req/s' },
+  { key: 'errorRate', label: 'Err %' },
+  { key: 'p50', label: 'p50' },
+  { key: 'p90', label: 'p90' },
+  { key: 'p99', label: 'p99' }
+];
+
+interface RedMetricsTableProps {
+  redMetrics: RedMetricsResponse | null;
+}
+
+export default function RedMetricsTable({ redMetrics }: RedMetricsTableProps) {
+  const [view, setView] = useState<'services' | 'edges'>('services');
+  const [sortKey, setSortKey] = useState<SortKey>('rate');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  if (!redMetrics) return null;
+
+  const rows: RedRow[] = view === 'services'
+    ? redMetrics.services.map(({ service, ...metrics }) => ({ name: service, ...metrics }))
+    : redMetrics.edges.map(({ source, target, ...metrics }) => ({ name: `${source} → ${target}`, ...metrics }));
+
+  rows.sort((a, b) => {
+    const result = sortKey === 'name'
+      ? a.name.localeCompare(b.name)
+      : (a[sortKey] as number) - (b[sortKey] as number);
+    return sortDesc ? -result : result;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== 'name');
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-slate-400">
+          RED ({Math.round(redMetrics.windowSeconds / 60)} min)
+        </span>
+        <Select value={view} onValueChange={(value) => setView(value as 'services' | 'edges')}>
+          <SelectTrigger className="w-28 h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="services">Services</SelectItem>
+            <SelectItem value="edges">Edges</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No requests in the selected window</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-slate-600/30">
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(column => (
+                  <TableHead
+                    key={column.key}
+                    className="h-7 px-2 cursor-pointer select-none text-slate-300"
+                    onClick={() => handleSort(column.key)}
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {column.label}
+                      {sortKey === column.key && (sortDesc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                    </span>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.name}>
+                  <TableCell className="px-2 py-1 max-w-[120px] truncate text-slate-200" title={row.name}>{row.name}</TableCell>
+                  <TableCell className="px-2 py-1 text-slate-300">{row.rate.toFixed(2)}</TableCell>
+                  <TableCell className={`px-2 py-1 ${row.errorRate > 5 ? 'text-red-300' : 'text-slate-300'}`}>{row.errorRate.toFixed(1)}</TableCell>
+                  <TableCell className="px-2 py-1 text-slate-300">{row.p50}</TableCell>
+                  <TableCell className="px-2 py-1 text-slate-300">{row.p90}</TableCell>
+                  <TableCell className="px-2 py-1 text-slate-300">{row.p99}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { History, Pause, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { REPLAY_SPEEDS, type ReplayFormat } from "@/lib/replay";
+import type { ReplayControlsState } from "@/hooks/use-replay";
+
+interface ReplayControlsProps {
+  replay: ReplayControlsState;
+  format: ReplayFormat;
+  onFormatChange: (format: ReplayFormat) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+export default function ReplayControls({ replay, format, onFormatChange, onClose }: ReplayControlsProps) {
+  const { timeline } = replay;
+  const total = timeline?.steps.length || 0;
+  const unit = format === 'network' ? 'events' : 'traces';
+
+  return (
+    <div className="shrink-0 flex items-center gap-3 px-4 py-2 border-b border-purple-500/20 bg-slate-900 text-slate-200">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <History className="w-4 h-4 text-purple-300" />
+        Replay
+      </div>
+
+      <Select value={format} onValueChange={(value) => onFormatChange(value as ReplayFormat)}>
+        <SelectTrigger className="w-36 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="otel">OpenTelemetry</SelectItem>
+          <SelectItem value="network">Network events</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        disabled={!timeline || total === 0}
+        onClick={replay.togglePlaying}
+      >
+        {replay.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+
+      {replay.isLoading || !timeline ? (
+        <span className="flex-1 text-xs text-muted-foreground">Loading recorded traffic...</span>
+      ) : total === 0 ? (
+        <span className="flex-1 text-xs text-muted-foreground">No recorded {unit} in the selected window</span>
+      ) : (
+        <>
+          <span className="text-xs font-mono text-slate-400">{formatTime(timeline.start)}</span>
+          <Slider
+            className="flex-1"
+            min={timeline.start}
+            max={timeline.end}
+            step={Math.max(1, Math.round((timeline.end - timeline.start) / 1000))}
+            value={[replay.position]}
+            onValueChange={([value]) => replay.seek(value)}
+          />
+          <span className="text-xs font-mono text-slate-400">{formatTime(timeline.end)}</span>
+          <Badge variant="outline" className="text-xs font-mono px-1 py-0">
+            {formatTime(replay.position)} • {replay.stepCount}/{total} {unit}
+          </Badge>
+          {timeline.truncated && (
+            <Badge
+              variant="outline"
+              className="text-xs px-1 py-0 border-amber-500/50 text-amber-300"
+              title={`Only the first ${total} ${unit} of the window are replayed; choose a shorter time range to see the rest`}
+            >
+              Truncated
+            </Badge>
+          )}
+        </>
+      )}
+
+      <Select value={String(replay.speed)} onValueChange={(value) => replay.setSpeed(Number(value))}>
+        <SelectTrigger className="w-20 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {REPLAY_SPEEDS.map(speed => (
+            <SelectItem key={speed} value={String(speed)}>{speed}x</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -3,13 +3,20 @@ import LayoutControls from "./LayoutControls";
 import Statistics from "./Statistics";
 import TraceList from "./TraceList";
 import UnifiedSettings from "./UnifiedSettings";
-import type { ParsedFileData, DiagramSettings, LayoutType, DiagramData } from "@/types/diagram";
+import DiagramHistory from "./DiagramHistory";
+import CriticalPathPanel from "./CriticalPathPanel";
+import AlertsPanel from "./AlertsPanel";
+import SloPanel from "./SloPanel";
+import type { CriticalPathResponse } from "@/hooks/use-critical-path";
+import type { Diagram } from "@shared/schema";
+import type { ParsedFileData, DiagramSettings, LayoutType, DiagramData, RedMetricsResponse } from "@/types/diagram";
 
 interface SidebarProps {
   layout: LayoutType;
   settings: DiagramSettings;
   stats: ParsedFileData["stats"] | null;
   data: DiagramData | null;
+  redMetrics?: RedMetricsResponse | null;
   onLayoutChange: (layout: LayoutType) => void;
   onSpacingChange: (spacing: number) => void;
   onApplyLayout: () => void;
@@ -20,6 +27,15 @@ interface SidebarProps {
   lodLevel?: 'high' | 'medium' | 'low';
   relativeDistance?: number;
   serviceCount?: number;
+  onDiagramRestore: (diagram: Diagram) => void;
+  criticalPath: {
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+    operation: string | null;
+    onOperationChange: (operation: string | null) => void;
+    summary: CriticalPathResponse | null;
+    isLoading: boolean;
+  };
 }
 
 export default function Sidebar({
@@ -27,6 +43,7 @@ export default function Sidebar({
   settings,
   stats,
   data,
+  redMetrics,
   onLayoutChange,
   onSpacingChange,
   onApplyLayout,
@@ -36,7 +53,9 @@ export default function Sidebar({
   onTraceSelect,
   lodLevel,
   relativeDistance,
-  serviceCount
+  serviceCount,
+  onDiagramRestore,
+  criticalPath
 }: SidebarProps) {
   const [sidebarWidth, setSidebarWidth] = useState(320); // Default width
   const [isResizing, setIsResizing] = useState(false);
@@ -86,13 +105,26 @@ export default function Sidebar({
           serviceCount={serviceCount}
         />
         
-        <Statistics stats={stats} data={data} />
+        <Statistics stats={stats} data={data} redMetrics={redMetrics} />
+
+        <SloPanel />
         
         <TraceList 
           data={data} 
           selectedTraceId={selectedTraceId}
           onTraceSelect={onTraceSelect}
         />
+
+        <CriticalPathPanel {...criticalPath} />
+
+        <AlertsPanel />
+
+        <DiagramHistory
+          data={data}
+          layout={layout}
+          settings={settings}
+          onDiagramRestore={onDiagramRestore}
+        />
       </div>
       
       {/* Resize handle */}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Plus, Target, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSloStatus, useSloMutations } from "@/hooks/use-slos";
+import { SLO_HEALTH_COLORS } from "@/lib/slo";
+import type { SloObjective } from "@shared/slo";
+
+const EMPTY_SLO = {
+  name: "",
+  objective: "availability" as SloObjective,
+  target: "99.9",
+  latencyThresholdMs: "",
+  windowDays: "30",
+  service: "",
+  operation: "",
+  tenant: ""
+};
+
+export default function SloPanel() {
+  const { data: statuses = [] } = useSloStatus();
+  const { createSlo, deleteSlo } = useSloMutations();
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_SLO);
+
+  const handleCreate = () => {
+    createSlo.mutate({
+      name: draft.name,
+      objective: draft.objective,
+      target: parseFloat(draft.target),
+      latencyThresholdMs: draft.objective === "latency" ? parseFloat(draft.latencyThresholdMs) : null,
+      windowDays: parseInt(draft.windowDays) || 30,
+      service: draft.service,
+      operation: draft.operation || null,
+      tenant: draft.tenant || null
+    }, {
+      onSuccess: () => {
+        setDraft(EMPTY_SLO);
+        setIsAdding(false);
+      },
+      onError: (error) => {
+        toast({ title: "Failed to create SLO", description: error.message, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <div className="p-4">
+      <h3 className="text-sm font-semibold text-slate-200 mb-3 flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="w-2 h-2 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full mr-2"></div>
+          SLOs
+          <Target className="w-3 h-3 text-slate-400 ml-2" />
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setIsAdding(!isAdding)}>
+          <Plus className="w-3 h-3" />
+        </Button>
+      </h3>
+
+      {isAdding && (
+        <div className="space-y-2 mb-3 p-2 rounded border border-slate-700">
+          <Input
+            placeholder="SLO name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="h-7 text-xs"
+          />
+          <div className="flex gap-1">
+            <Select value={draft.objective} onValueChange={(value) => setDraft({ ...draft, objective: value as SloObjective })}>
+              <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="availability">Availability</SelectItem>
+                <SelectItem value="latency">Latency</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.1"
+              title="Target, % of good requests"
+              value={draft.target}
+              onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+              className="h-7 w-20 text-xs"
+            />
+            <span className="text-xs text-slate-400 self-center">%</span>
+          </div>
+          <div className="flex gap-1">
+            {draft.objective === "latency" && (
+              <Input
+                type="number"
+                placeholder="Threshold, ms"
+                value={draft.latencyThresholdMs}
+                onChange={(e) => setDraft({ ...draft, latencyThresholdMs: e.target.value })}
+                className="h-7 text-xs"
+              />
+            )}
+            <Input
+              type="number"
+              min={1}
+              max={90}
+              title="Compliance window, days"
+              value={draft.windowDays}
+              onChange={(e) => setDraft({ ...draft, windowDays: e.target.value })}
+              className="h-7 w-16 text-xs"
+            />
+            <span className="text-xs text-slate-400 self-center">days</span>
+          </div>
+          <Input
+            placeholder="Service"
+            value={draft.service}
+            onChange={(e) => setDraft({ ...draft, service: e.target.value })}
+            className="h-7 text-xs"
+          />
+          <div className="flex gap-1">
+            <Input
+              placeholder="Operation (optional)"
+              value={draft.operation}
+              onChange={(e) => setDraft({ ...draft, operation: e.target.value })}
+              className="h-7 text-xs"
+            />
+            <Input
+              placeholder="Tenant (optional)"
+              value={draft.tenant}
+              onChange={(e) => setDraft({ ...draft, tenant: e.target.value })}
+              className="h-7 text-xs"
+            />
+          </div>
+          <Button
+            size="sm"
+            className="h-7 w-full text-xs"
+            disabled={!draft.name || !draft.service || !draft.target || createSlo.isPending}
+            onClick={handleCreate}
+          >
+            Create SLO
+          </Button>
+        </div>
+      )}
+
+      {statuses.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No SLOs defined</p>
+      ) : (
+        <div className="space-y-3">
+          {statuses.map(({ slo, sli, budgetRemaining, burnRates, status, total }) => (
+            <div key={slo.id} className="text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: SLO_HEALTH_COLORS[status] }} />
+                <span className="text-slate-200 truncate flex-1" title={slo.operation ? `${slo.service} ${slo.operation}` : slo.service}>
+                  {slo.name}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0 text-slate-400 hover:text-red-400"
+                  onClick={() => deleteSlo.mutate(slo.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+              <div className="flex justify-between text-slate-400">
+                <span>
+                  {slo.objective === "latency" ? `≤ ${slo.latencyThresholdMs}ms` : "availability"} • target {slo.target}% / {slo.windowDays}d
+                </span>
+                <span className="text-slate-200">{sli === null ? "—" : `${sli}%`}</span>
+              </div>
+              {budgetRemaining !== null && (
+                <>
+                  <Progress value={Math.max(0, budgetRemaining * 100)} className="h-1.5" />
+                  <div className="flex justify-between text-slate-400">
+                    <span>Error budget {Math.round(budgetRemaining * 100)}% left</span>
+                    <span>{total} req</span>
+                  </div>
+                </>
+              )}
+              <div className="flex gap-2 text-slate-400">
+                {burnRates.map(rate => (
+                  <span
+                    key={rate.name}
+                    className={rate.burning ? "text-amber-400" : undefined}
+                    title={`Burn rate over the long and short window; burning above ${rate.threshold}x in both`}
+                  >
+                    {rate.name} {rate.long}x / {rate.short}x
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { CheckCircle, AlertCircle, XCircle, Activity, Filter } from "lucide-react";
 import { useState } from "react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { DiagramStats, DiagramData } from "@/types/diagram";
+import RedMetricsTable from "./RedMetricsTable";
+import type { DiagramStats, DiagramData, RedMetricsResponse } from "@/types/diagram";
 
 interface StatisticsProps {
   stats: DiagramStats | null;
   data: DiagramData | null;
+  redMetrics?: RedMetricsResponse | null;
 }
 
 function calculateStatusStats(data: DiagramData | null, selectedConnection?: string) {
@@ -54,7 +56,7 @@ function getConnectionOptions(data: DiagramData | null) {
   return ['all', ...connections];
 }
 
-export default function Statistics({ stats, data }: StatisticsProps) {
+export default function Statistics({ stats, data, redMetrics = null }: StatisticsProps) {
   const [selectedConnection, setSelectedConnection] = useState<string>('all');
   const connectionOptions = getConnectionOptions(data);
   const statusStats = calculateStatusStats(data, selectedConnection);
@@ -148,6 +150,8 @@ export default function Statistics({ stats, data }: StatisticsProps) {
           );
         })}
       </div>
+
+      <RedMetricsTable redMetrics={redMetrics} />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock } from "lucide-react";
+import { Calendar, Clock, GitCompare } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -22,6 +22,7 @@ interface TimeRangeControlsProps {
   onRefreshToggle: (enabled: boolean) => void;
   isRefreshing: boolean;
   currentInterval: number;
+  onCompareChange?: (baseline: { from: Date; to: Date } | null) => void;
 }
 
 const TIME_RANGES = [
@@ -35,6 +36,24 @@ const TIME_RANGES = [
   { label: "Last 24 hours", value: 24 * 60 * 60 * 1000 },
 ];
 
+// Baselines relative to the selected range; 0 means the window right before it
+const COMPARE_OFFSETS = [
+  { label: "Previous window", value: 0 },
+  { label: "1 hour earlier", value: 60 * 60 * 1000 },
+  { label: "1 day earlier", value: 24 * 60 * 60 * 1000 },
+  { label: "1 week earlier", value: 7 * 24 * 60 * 60 * 1000 },
+];
+
+type CompareMode =
+  | { label: string; offsetMs: number }
+  | { label: string; from: Date; to: Date };
+
+function baselineFor(range: { from: Date; to: Date }, mode: CompareMode) {
+  if ('from' in mode) return { from: mode.from, to: mode.to };
+  const offset = mode.offsetMs || range.to.getTime() - range.from.getTime();
+  return { from: new Date(range.from.getTime() - offset), to: new Date(range.to.getTime() - offset) };
+}
+
 const REFRESH_INTERVALS = [
   { label: "Off", value: 0 },
   { label: "1s", value: 1000 },
@@ -50,19 +69,41 @@ export default function TimeRangeControls({
   onIntervalChange,
   onRefreshToggle,
   isRefreshing,
-  currentInterval
+  currentInterval,
+  onCompareChange
 }: TimeRangeControlsProps) {
   const [selectedRange, setSelectedRange] = useState("15m");
   const [customFrom, setCustomFrom] = useState("");
   const [customTo, setCustomTo] = useState("");
   const [isCustomRange, setIsCustomRange] = useState(false);
+  const [currentRange, setCurrentRange] = useState(() => ({
+    from: new Date(Date.now() - 15 * 60 * 1000),
+    to: new Date()
+  }));
+  const [compareMode, setCompareMode] = useState<CompareMode | null>(null);
+  const [baselineFrom, setBaselineFrom] = useState("");
+  const [baselineTo, setBaselineTo] = useState("");
+
+  // Relative baselines follow the selected range
+  const applyRange = (range: { from: Date; to: Date }) => {
+    setCurrentRange(range);
+    onTimeRangeChange(range);
+    if (compareMode) {
+      onCompareChange?.(baselineFor(range, compareMode));
+    }
+  };
+
+  const applyCompareMode = (mode: CompareMode | null) => {
+    setCompareMode(mode);
+    onCompareChange?.(mode ? baselineFor(currentRange, mode) : null);
+  };
 
   const handleQuickRangeSelect = (rangeMs: number, label: string) => {
     const now = new Date();
     const from = new Date(now.getTime() - rangeMs);
     setSelectedRange(label);
     setIsCustomRange(false);
-    onTimeRangeChange({ from, to: now });
+    applyRange({ from, to: now });
   };
 
   const handleCustomRangeApply = () => {
@@ -70,13 +111,21 @@ export default function TimeRangeControls({
       const from = new Date(customFrom);
       const to = new Date(customTo);
       if (from < to) {
-        onTimeRangeChange({ from, to });
+        applyRange({ from, to });
         setIsCustomRange(true);
         setSelectedRange("Custom");
       }
     }
   };
 
+  const handleBaselineApply = () => {
+    const from = new Date(baselineFrom);
+    const to = new Date(baselineTo);
+    if (from < to) {
+      applyCompareMode({ label: "Custom baseline", from, to });
+    }
+  };
+
 
 
   return (
@@ -143,6 +192,75 @@ export default function TimeRangeControls({
         </PopoverContent>
       </Popover>
 
+      {/* Compare mode: diff the selected range against a baseline window */}
+      {onCompareChange && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant={compareMode ? "default" : "outline"} size="sm" className="h-8">
+              <GitCompare className="w-3 h-3 mr-1" />
+              {compareMode ? `vs ${compareMode.label}` : "Compare"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80">
+            <div className="space-y-4">
+              <div>
+                <Label className="text-xs font-medium mb-2 block">Baseline</Label>
+                <div className="grid grid-cols-2 gap-1">
+                  {COMPARE_OFFSETS.map((offset) => (
+                    <Button
+                      key={offset.label}
+                      variant={compareMode?.label === offset.label ? "default" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs justify-start"
+                      onClick={() => applyCompareMode({ label: offset.label, offsetMs: offset.value })}
+                    >
+                      {offset.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-xs font-medium mb-2 block">Custom baseline</Label>
+                <div className="space-y-2">
+                  <Input
+                    type="datetime-local"
+                    value={baselineFrom}
+                    onChange={(e) => setBaselineFrom(e.target.value)}
+                    className="h-7 text-xs"
+                  />
+                  <Input
+                    type="datetime-local"
+                    value={baselineTo}
+                    onChange={(e) => setBaselineTo(e.target.value)}
+                    className="h-7 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    onClick={handleBaselineApply}
+                    disabled={!baselineFrom || !baselineTo}
+                    className="h-7 w-full text-xs"
+                  >
+                    Compare with custom baseline
+                  </Button>
+                </div>
+              </div>
+
+              {compareMode && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 w-full text-xs"
+                  onClick={() => applyCompareMode(null)}
+                >
+                  Stop comparing
+                </Button>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+
       {/* Refresh Interval */}
       <Select 
         value={currentInterval.toString()} 
@@ -0,0 +1,73 @@
+import { GitCompare, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CHANGE_COLORS, CHANGE_LABELS, diffColor, formatTopologyDiff } from "@/lib/topologyDiff";
+import type { TopologyChange, TopologyDiff } from "@shared/topologyDiff";
+
+interface TopologyDiffPanelProps {
+  diff: TopologyDiff | null;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+const formatWindow = (window: { from: string; to: string }) =>
+  `${new Date(window.from).toLocaleString()} – ${new Date(window.to).toLocaleTimeString()}`;
+
+export default function TopologyDiffPanel({ diff, isLoading, onClose }: TopologyDiffPanelProps) {
+  return (
+    <div className="h-56 shrink-0 border-t border-purple-500/20 bg-slate-900 text-slate-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+        <div className="flex items-center gap-2 text-sm font-semibold min-w-0">
+          <GitCompare className="w-4 h-4 text-purple-300" />
+          Topology changes
+          {diff && (
+            <span className="text-xs text-muted-foreground font-normal truncate">
+              {formatWindow(diff.baseline)} → {formatWindow(diff.comparison)}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {diff && (Object.keys(CHANGE_LABELS) as TopologyChange[])
+            .filter(change => diff.summary[change] > 0)
+            .map(change => (
+              <Badge
+                key={change}
+                variant="outline"
+                className="text-xs px-1 py-0"
+                style={{ borderColor: CHANGE_COLORS[change], color: CHANGE_COLORS[change] }}
+              >
+                {CHANGE_LABELS[change]} {diff.summary[change]}
+              </Badge>
+            ))}
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !diff ? (
+        <p className="p-4 text-xs text-muted-foreground">Comparing windows...</p>
+      ) : diff.changes.length === 0 ? (
+        <p className="p-4 text-xs text-muted-foreground">No changes between the two windows</p>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="px-4 py-2 space-y-1">
+            {diff.changes.map(entry => {
+              const [summary, ...details] = formatTopologyDiff(entry);
+              return (
+                <div key={`${entry.element}-${entry.id}`} className="flex items-center gap-2 text-xs">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: diffColor(entry) }} />
+                  <Badge variant="outline" className="text-[10px] px-1 py-0 shrink-0">{entry.element}</Badge>
+                  <span className="text-slate-200 truncate" title={entry.id}>{entry.label}</span>
+                  <span className="text-slate-300 shrink-0">{summary}</span>
+                  <span className="text-slate-500 truncate">{details.join(' • ')}</span>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
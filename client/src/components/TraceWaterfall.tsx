@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { ChartGantt, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { getTraceWaterfall, type OtelSpan } from "@/lib/opentelemetryProcessor";
+import type { CriticalPath } from "@shared/criticalPath";
+
+interface TraceWaterfallProps {
+  traceId: string;
+  spans: OtelSpan[];
+  criticalPath: CriticalPath | null;
+  isLoading: boolean;
+  onTraceSelect: (traceId: string | null) => void;
+}
+
+const KIND_COLORS: Record<string, string> = {
+  'server': '#3b82f6',
+  'client': '#8b5cf6',
+  'producer': '#f59e0b',
+  'consumer': '#14b8a6',
+  'internal': '#64748b'
+};
+
+const AXIS_TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(ms < 10 ? 2 : 1)}ms`;
+
+function AttributeList({ attributes }: { attributes: Record<string, any> | undefined }) {
+  const entries = Object.entries(attributes || {});
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">—</p>;
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {entries.map(([key, value]) => (
+        <div key={key} className="flex gap-2 text-xs font-mono">
+          <span className="text-slate-400 shrink-0">{key}</span>
+          <span className="text-slate-200 break-all">{typeof value === 'object' ? JSON.stringify(value) : String(value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function TraceWaterfall({ traceId, spans, criticalPath, isLoading, onTraceSelect }: TraceWaterfallProps) {
+  const [selectedSpanId, setSelectedSpanId] = useState<string | null>(null);
+  const { rows, totalMs } = getTraceWaterfall(spans);
+  const selected = rows.find(row => row.span.spanId === selectedSpanId);
+  const scale = totalMs > 0 ? totalMs : 1;
+  const criticalSegments = (spanId: string) => criticalPath?.segments.filter(segment => segment.spanId === spanId) || [];
+  const selectedCriticalMs = selected
+    ? criticalSegments(selected.span.spanId).reduce((sum, segment) => sum + segment.endMs - segment.startMs, 0)
+    : 0;
+
+  return (
+    <div className="h-72 shrink-0 border-t border-purple-500/20 bg-slate-900 text-slate-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <ChartGantt className="w-4 h-4 text-purple-300" />
+          Trace
+          <Badge variant="outline" className="text-xs font-mono px-1 py-0">{traceId}</Badge>
+          <span className="text-xs text-muted-foreground font-normal">
+            {rows.length} spans • {formatMs(totalMs)}
+            {criticalPath && (
+              <span className="text-amber-300">
+                {' '}• critical: {criticalPath.services.map(s => `${s.service} ${formatMs(s.ms)}`).join(', ')}
+              </span>
+            )}
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onTraceSelect(null)}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="p-4 text-xs text-muted-foreground">Loading spans...</p>
+      ) : rows.length === 0 ? (
+        <p className="p-4 text-xs text-muted-foreground">No spans stored for this trace</p>
+      ) : (
+        <div className="flex flex-1 min-h-0">
+          <ScrollArea className="flex-1">
+            <div className="px-4 py-2">
+              {/* Time axis */}
+              <div className="flex text-[10px] text-slate-500 mb-1">
+                <div className="w-64 shrink-0" />
+                <div className="relative flex-1 h-4">
+                  {AXIS_TICKS.map(tick => (
+                    <span
+                      key={tick}
+                      className="absolute -translate-x-1/2"
+                      style={{ left: `${tick * 100}%` }}
+                    >
+                      {formatMs(totalMs * tick)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {rows.map(row => (
+                <div
+                  key={row.span.spanId}
+                  className={`flex items-center h-6 cursor-pointer rounded ${
+                    selectedSpanId === row.span.spanId ? 'bg-blue-900/40' : 'hover:bg-slate-700/30'
+                  }`}
+                  onClick={() => setSelectedSpanId(selectedSpanId === row.span.spanId ? null : row.span.spanId)}
+                >
+                  <div
+                    className="w-64 shrink-0 truncate text-xs"
+                    style={{ paddingLeft: `${row.level * 12}px` }}
+                    title={`${row.span.serviceName}: ${row.span.operationName}`}
+                  >
+                    <span className="text-slate-400">{row.span.serviceName}</span>{' '}
+                    <span className="text-slate-200">{row.span.operationName}</span>
+                  </div>
+                  <div className="relative flex-1 h-3">
+                    <div
+                      className={`absolute h-full rounded-sm ${row.span.status === 'error' ? 'ring-1 ring-red-500' : ''}`}
+                      style={{
+                        left: `${(row.offsetMs / scale) * 100}%`,
+                        width: `max(2px, ${(row.durationMs / scale) * 100}%)`,
+                        backgroundColor: row.span.status === 'error' ? '#ef4444' : KIND_COLORS[row.span.kind] || KIND_COLORS.internal
+                      }}
+                    />
+                    {/* Time this span spent on the critical path */}
+                    {criticalSegments(row.span.spanId).map(segment => (
+                      <div
+                        key={segment.startMs}
+                        className="absolute -bottom-1 h-0.5 bg-amber-400"
+                        style={{
+                          left: `${(segment.startMs / scale) * 100}%`,
+                          width: `${((segment.endMs - segment.startMs) / scale) * 100}%`
+                        }}
+                      />
+                    ))}
+                  </div>
+                  <span className="w-16 shrink-0 text-right text-[10px] text-slate-400">{formatMs(row.durationMs)}</span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {selected && (
+            <ScrollArea className="w-80 shrink-0 border-l border-slate-700">
+              <div className="p-3 space-y-3">
+                <div>
+                  <div className="text-sm font-semibold">{selected.span.operationName}</div>
+                  <div className="text-xs text-slate-400">{selected.span.serviceName}</div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline" className="text-xs px-1 py-0">{selected.span.kind}</Badge>
+                  <Badge variant={selected.span.status === 'error' ? 'destructive' : 'outline'} className="text-xs px-1 py-0">
+                    {selected.span.status}
+                  </Badge>
+                  <Badge variant="outline" className="text-xs px-1 py-0">
+                    {formatMs(selected.durationMs)} @ {formatMs(selected.offsetMs)}
+                  </Badge>
+                  {selectedCriticalMs > 0 && (
+                    <Badge variant="outline" className="text-xs px-1 py-0 border-amber-400 text-amber-300">
+                      critical {formatMs(selectedCriticalMs)}
+                    </Badge>
+                  )}
+                </div>
+                {selected.span.statusMessage && (
+                  <p className="text-xs text-red-300">{selected.span.statusMessage}</p>
+                )}
+
+                <div>
+                  <div className="text-xs font-medium text-slate-300 mb-1">Attributes</div>
+                  <AttributeList attributes={selected.span.attributes} />
+                </div>
+
+                <div>
+                  <div className="text-xs font-medium text-slate-300 mb-1">Events ({selected.span.events?.length || 0})</div>
+                  {(selected.span.events || []).map((event, index) => (
+                    <div key={index} className="mb-2">
+                      <div className="text-xs text-slate-200">
+                        {event.name}
+                        {event.timestamp && (
+                          <span className="text-slate-500 ml-1">
+                            +{formatMs(new Date(event.timestamp).getTime() - new Date(selected.span.startTime).getTime())}
+                          </span>
+                        )}
+                      </div>
+                      <AttributeList attributes={event.attributes} />
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <div className="text-xs font-medium text-slate-300 mb-1">Links ({selected.span.links?.length || 0})</div>
+                  {(selected.span.links || []).map((link, index) => (
+                    <div key={index} className="mb-2">
+                      <button
+                        className="text-xs font-mono text-blue-300 hover:underline"
+                        onClick={() => onTraceSelect(link.traceId)}
+                      >
+                        {link.traceId}:{link.spanId}
+                      </button>
+                      <AttributeList attributes={link.attributes} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -215,4 +215,29 @@ export function getCachedMaterial(
   
   materialsCache.set(key, material);
   return material;
-}
\ No newline at end of file
+}
+// Round billboard badge (alert count, SLO status) drawn on a canvas; drawn over the scene
+export function createBadgeSprite(color: string, text: string = ''): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  canvas.width = 64;
+  canvas.height = 64;
+
+  context.fillStyle = color;
+  context.beginPath();
+  context.arc(32, 32, 28, 0, Math.PI * 2);
+  context.fill();
+  context.strokeStyle = '#FFFFFF';
+  context.lineWidth = 4;
+  context.stroke();
+
+  if (text) {
+    context.fillStyle = '#FFFFFF';
+    context.font = 'bold 32px Arial';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, 32, 34);
+  }
+
+  return new THREE.Sprite(new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false }));
+}
@@ -0,0 +1,50 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AlertRule, InsertAlertRule } from "@shared/schema";
+import type { ActiveAlert } from "@shared/alerts";
+
+// The engine evaluates every 30s; polling at half that keeps badges reasonably fresh
+const ALERTS_REFRESH_MS = 15000;
+
+export function useAlerts() {
+  return useQuery<ActiveAlert[]>({
+    queryKey: ["/api/alerts"],
+    refetchInterval: ALERTS_REFRESH_MS
+  });
+}
+
+export function useAlertRules() {
+  return useQuery<AlertRule[]>({ queryKey: ["/api/alerts/rules"] });
+}
+
+const invalidateAlerts = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+};
+
+export function useAlertRuleMutations() {
+  const createRule = useMutation({
+    mutationFn: async (rule: Partial<InsertAlertRule>) => {
+      const response = await apiRequest("POST", "/api/alerts/rules", rule);
+      return response.json() as Promise<AlertRule>;
+    },
+    onSuccess: invalidateAlerts
+  });
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<InsertAlertRule> & { id: number }) => {
+      const response = await apiRequest("PATCH", `/api/alerts/rules/${id}`, updates);
+      return response.json() as Promise<AlertRule>;
+    },
+    onSuccess: invalidateAlerts
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/alerts/rules/${id}`);
+    },
+    onSuccess: invalidateAlerts
+  });
+
+  return { createRule, updateRule, deleteRule };
+}
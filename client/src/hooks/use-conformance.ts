@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ConformanceReport } from "@shared/conformance";
+import type { TimeWindow } from "@/hooks/use-topology-diff";
+
+export function useConformance(diagramId: number | null, window: TimeWindow, source: 'spans' | 'events') {
+  return useQuery<ConformanceReport>({
+    queryKey: ["/api/conformance", diagramId, source, window.from.toISOString(), window.to.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        diagramId: String(diagramId),
+        from: window.from.toISOString(),
+        to: window.to.toISOString(),
+        source
+      });
+      const response = await apiRequest("GET", `/api/conformance?${params}`);
+      return response.json();
+    },
+    enabled: diagramId !== null
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CriticalPathSummary } from "@shared/criticalPath";
+
+export type CriticalPathResponse = CriticalPathSummary & {
+  entryOperations: Array<{ operation: string; traces: number }>;
+};
+
+export function useCriticalPath(range: { from: Date; to: Date }, operation: string | null, enabled: boolean) {
+  return useQuery<CriticalPathResponse>({
+    queryKey: ["/api/critical-path", range.from.toISOString(), range.to.toISOString(), operation],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() });
+      if (operation) {
+        params.set("operation", operation);
+      }
+      const response = await apiRequest("GET", `/api/critical-path?${params}`);
+      return response.json();
+    },
+    enabled
+  });
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from "react";
+import { subscribeLive, getLiveStatus, onLiveStatusChange, type LiveMessage, type LiveStatus } from "@/lib/liveStream";
+
+// Subscribe to pushed messages of one type while the component is mounted and `enabled`
+export function useLiveMessages<T extends LiveMessage["type"]>(
+  type: T,
+  handler: (message: Extract<LiveMessage, { type: T }>) => void,
+  enabled = true
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeLive(message => {
+      if (message.type === type) {
+        handlerRef.current(message as Extract<LiveMessage, { type: T }>);
+      }
+    });
+  }, [type, enabled]);
+}
+
+export function useLiveStatus(): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>(getLiveStatus);
+
+  useEffect(() => {
+    setStatus(getLiveStatus());
+    return onLiveStatusChange(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { RedMetricsResponse } from "@/types/diagram";
+
+// Ranges ending within this margin of "now" are treated as sliding windows
+const LIVE_RANGE_MARGIN_MS = 60 * 1000;
+const REFRESH_INTERVAL_MS = 15000;
+
+export function useRedMetrics(range: { from: Date; to: Date }) {
+  const { windowMs, isLive } = useMemo(() => ({
+    windowMs: range.to.getTime() - range.from.getTime(),
+    isLive: Date.now() - range.to.getTime() < LIVE_RANGE_MARGIN_MS
+  }), [range]);
+
+  return useQuery<RedMetricsResponse>({
+    queryKey: ["/api/red", range.from.toISOString(), range.to.toISOString(), isLive],
+    queryFn: async () => {
+      const to = isLive ? new Date() : range.to;
+      const from = new Date(to.getTime() - windowMs);
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+      const response = await apiRequest("GET", `/api/red?${params}`);
+      return response.json();
+    },
+    refetchInterval: isLive ? REFRESH_INTERVAL_MS : false,
+    staleTime: 0
+  });
+}
@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  buildReplayTimeline,
+  replayStepIndex,
+  advanceReplay,
+  type ReplayFormat,
+  type ReplayResponse,
+  type ReplayState
+} from "@/lib/replay";
+
+const TICK_MS = 100;
+
+// Plays back recorded traffic of a time window; `position` is the replay clock in epoch ms
+export function useReplay(range: { from: Date; to: Date }, format: ReplayFormat, enabled: boolean) {
+  const { data: response, isPending } = useQuery<ReplayResponse>({
+    queryKey: ["/api/replay", format, range.from.toISOString(), range.to.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ format, from: range.from.toISOString(), to: range.to.toISOString() });
+      const response = await apiRequest("GET", `/api/replay?${params}`);
+      return response.json();
+    },
+    enabled
+  });
+
+  const timeline = useMemo(() => response ? buildReplayTimeline(response) : null, [response]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // A new window starts over from its beginning
+  useEffect(() => {
+    setPlaying(false);
+    setPosition(timeline?.start ?? 0);
+  }, [timeline]);
+
+  useEffect(() => {
+    if (!playing || !timeline) return;
+
+    let last = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const elapsed = (now - last) * speed;
+      last = now;
+      setPosition(prev => {
+        const next = Math.min(timeline.end, prev + elapsed);
+        if (next >= timeline.end) setPlaying(false);
+        return next;
+      });
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [playing, speed, timeline]);
+
+  const stateRef = useRef<{ timeline: typeof timeline; state: ReplayState }>({ timeline: null, state: { index: 0, data: null } });
+  const index = timeline ? replayStepIndex(timeline, position) : 0;
+
+  const data = useMemo(() => {
+    if (!timeline) return null;
+    if (stateRef.current.timeline !== timeline) {
+      stateRef.current = { timeline, state: { index: 0, data: null } };
+    }
+    stateRef.current.state = advanceReplay(stateRef.current.state, timeline, index);
+    return stateRef.current.state.data;
+  }, [timeline, index]);
+
+  const togglePlaying = () => {
+    if (!timeline) return;
+    // Playing from the end restarts the replay
+    if (!playing && position >= timeline.end) {
+      setPosition(timeline.start);
+    }
+    setPlaying(!playing);
+  };
+
+  return {
+    timeline,
+    isLoading: enabled && isPending,
+    data,
+    position,
+    seek: setPosition,
+    playing,
+    togglePlaying,
+    speed,
+    setSpeed,
+    stepCount: index
+  };
+}
+
+export type ReplayControlsState = ReturnType<typeof useReplay>;
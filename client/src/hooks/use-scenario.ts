@@ -0,0 +1,48 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ScenarioState } from "@shared/scenario";
+
+// Faults switch on and off by the scenario clock, so the active list is polled
+const SCENARIO_REFRESH_MS = 15000;
+
+export function useScenario() {
+  return useQuery<ScenarioState>({
+    queryKey: ["/api/scenario"],
+    refetchInterval: SCENARIO_REFRESH_MS
+  });
+}
+
+const setScenarioState = (state: ScenarioState) => {
+  queryClient.setQueryData(["/api/scenario"], state);
+};
+
+export function useScenarioMutations() {
+  // Scenario files are YAML or JSON; the server parses both from text
+  const loadScenario = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await fetch("/api/scenario", {
+        method: "PUT",
+        headers: { "Content-Type": "text/yaml" },
+        body: text,
+        credentials: "include"
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const details = Object.entries(body.errors || {}).map(([path, messages]) => `${path}: ${(messages as string[]).join(', ')}`);
+        throw new Error([body.message, ...details].join('\n'));
+      }
+      return body as ScenarioState;
+    },
+    onSuccess: setScenarioState
+  });
+
+  const resetScenario = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/scenario");
+      return response.json() as Promise<ScenarioState>;
+    },
+    onSuccess: setScenarioState
+  });
+
+  return { loadScenario, resetScenario };
+}
@@ -0,0 +1,37 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InsertSlo, Slo } from "@shared/schema";
+import type { SloStatus } from "@shared/slo";
+
+// The shortest burn window is 5 minutes, so a 30s refresh is plenty
+const SLO_REFRESH_MS = 30000;
+
+export function useSloStatus() {
+  return useQuery<SloStatus[]>({
+    queryKey: ["/api/slos/status"],
+    refetchInterval: SLO_REFRESH_MS
+  });
+}
+
+const invalidateSlos = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/slos/status"] });
+};
+
+export function useSloMutations() {
+  const createSlo = useMutation({
+    mutationFn: async (slo: Partial<InsertSlo>) => {
+      const response = await apiRequest("POST", "/api/slos", slo);
+      return response.json() as Promise<Slo>;
+    },
+    onSuccess: invalidateSlos
+  });
+
+  const deleteSlo = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/slos/${id}`);
+    },
+    onSuccess: invalidateSlos
+  });
+
+  return { createSlo, deleteSlo };
+}
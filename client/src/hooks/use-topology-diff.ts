@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TopologyDiff } from "@shared/topologyDiff";
+
+export type TimeWindow = { from: Date; to: Date };
+
+export function useTopologyDiff(baseline: TimeWindow | null, comparison: TimeWindow, source: 'spans' | 'events') {
+  return useQuery<TopologyDiff>({
+    queryKey: [
+      "/api/topology/diff",
+      source,
+      baseline?.from.toISOString(),
+      baseline?.to.toISOString(),
+      comparison.from.toISOString(),
+      comparison.to.toISOString()
+    ],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        baselineFrom: baseline!.from.toISOString(),
+        baselineTo: baseline!.to.toISOString(),
+        from: comparison.from.toISOString(),
+        to: comparison.to.toISOString(),
+        source
+      });
+      const response = await apiRequest("GET", `/api/topology/diff?${params}`);
+      return response.json();
+    },
+    enabled: !!baseline
+  });
+}
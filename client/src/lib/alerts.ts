@@ -0,0 +1,43 @@
+import { ALERT_METRIC_UNITS, edgeAlertKey, type ActiveAlert } from '@shared/alerts';
+import type { DiagramData } from '@/types/diagram';
+
+// Attach firing alerts: service alerts to every node of the service, edge alerts to the edge and the
+// node it calls, since the callee is usually where the errors or latency come from
+export function applyAlerts(data: DiagramData, alerts: ActiveAlert[] | null | undefined): DiagramData {
+  const firing = (alerts || []).filter(alert => alert.status === 'firing');
+  if (firing.length === 0) return data;
+
+  const byService = new Map<string, ActiveAlert[]>();
+  const byEdge = new Map<string, ActiveAlert[]>();
+  const byTarget = new Map<string, ActiveAlert[]>();
+  const push = (map: Map<string, ActiveAlert[]>, key: string, alert: ActiveAlert) => map.set(key, [...(map.get(key) || []), alert]);
+
+  firing.forEach(alert => {
+    if (alert.scope === 'service') {
+      push(byService, alert.key, alert);
+    } else {
+      push(byEdge, alert.key, alert);
+      push(byTarget, alert.key.split('->')[1], alert);
+    }
+  });
+
+  return {
+    nodes: data.nodes.map(node => {
+      const nodeAlerts = [...(byService.get(node.service || node.id) || []), ...(byTarget.get(node.id) || [])];
+      return nodeAlerts.length > 0 ? { ...node, alerts: nodeAlerts } : node;
+    }),
+    edges: data.edges.map(edge => {
+      const source = typeof edge.source === 'string' ? edge.source : (edge.source as any).id;
+      const target = typeof edge.target === 'string' ? edge.target : (edge.target as any).id;
+      const edgeAlerts = byEdge.get(edgeAlertKey(source, target));
+      return edgeAlerts ? { ...edge, alerts: edgeAlerts } : edge;
+    })
+  };
+}
+
+// "payment error rate: errorRate 7.5% > 5%"
+export function formatAlert(alert: ActiveAlert): string {
+  const unit = ALERT_METRIC_UNITS[alert.metric] || '';
+  const value = alert.value === null ? '—' : `${Number(alert.value.toFixed(2))}${unit}`;
+  return `${alert.ruleName}: ${alert.metric} ${value} ${alert.operator} ${alert.threshold}${unit}`;
+}
@@ -0,0 +1,29 @@
+import type { ConformanceEntry, ConformanceFinding, ConformanceState } from '@shared/conformance';
+
+export const CONFORMANCE_LABELS: Record<ConformanceState, string> = {
+  'undeclared-call': 'Undeclared call',
+  'unknown-service': 'Unknown service',
+  'unused-edge': 'Unused edge',
+  'conformant': 'As declared',
+  'unobserved': 'No traffic'
+};
+
+export const CONFORMANCE_COLORS: Record<ConformanceFinding, string> = {
+  'undeclared-call': '#ef4444',
+  'unknown-service': '#f59e0b',
+  'unused-edge': '#94a3b8'
+};
+
+// Findings stand out; conformant and unobserved elements keep their usual color
+export function conformanceColor(entry: ConformanceEntry | undefined): string | undefined {
+  return entry && entry.state in CONFORMANCE_COLORS ? CONFORMANCE_COLORS[entry.state as ConformanceFinding] : undefined;
+}
+
+// Tooltip and finding list lines: the state, then the traffic observed in the window
+export function formatConformance(entry: ConformanceEntry): string[] {
+  const lines = [CONFORMANCE_LABELS[entry.state]];
+  if (entry.calls > 0) {
+    lines.push(`${entry.calls} calls${entry.errors > 0 ? `, ${entry.errors} errors` : ''}`);
+  }
+  return lines;
+}
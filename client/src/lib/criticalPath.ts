@@ -0,0 +1,25 @@
+import type { CriticalPathSummary } from '@shared/criticalPath';
+import type { DiagramData } from '@/types/diagram';
+
+// Attach each service's critical path share (0-1) to its nodes
+export function applyCriticalPath(data: DiagramData, summary: CriticalPathSummary | null | undefined): DiagramData {
+  if (!summary) return data;
+
+  const shares = new Map(summary.services.map(service => [service.service, service.share]));
+
+  return {
+    ...data,
+    nodes: data.nodes.map(node => ({ ...node, criticalPathShare: shares.get(node.service || node.id) ?? 0 }))
+  };
+}
+
+// Slate for services never on the critical path, through amber to red for the usual bottleneck
+export function criticalPathColor(share: number): string {
+  const stops = [[100, 116, 139], [245, 158, 11], [220, 38, 38]];
+  const position = Math.max(0, Math.min(1, share)) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const t = position - index;
+  const channel = (i: number) => Math.round(stops[index][i] + (stops[index + 1][i] - stops[index][i]) * t);
+
+  return '#' + [0, 1, 2].map(i => channel(i).toString(16).padStart(2, '0')).join('');
+}
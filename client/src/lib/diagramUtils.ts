@@ -1,5 +1,6 @@
 import * as d3 from "d3";
-import type { DiagramNode, DiagramEdge, LayoutType } from "@/types/diagram";
+import type { DiagramNode, DiagramEdge, DiagramData, LayoutType } from "@/types/diagram";
+import { exportDiagram, DIAGRAM_EXPORT_FORMATS, type DiagramExportFormat } from "@shared/diagramExport";
 
 export function applyForceLayout(
   nodes: DiagramNode[],
@@ -253,6 +254,18 @@ export function applyLayout(
   }
 }
 
+// Positions for a draw.io export when the diagram isn't on the 2D canvas: the service-grouped layout at the
+// canvas size, on copies so the data on screen keeps its own positions
+export function layoutForExport(data: DiagramData, spacing: number = 100): DiagramData {
+  return applyServiceGroupedLayout(
+    data.nodes.map(node => ({ ...node })),
+    data.edges.map(edge => ({ ...edge })),
+    800,
+    600,
+    spacing
+  );
+}
+
 export function exportAsSVG(svgElement: SVGSVGElement, filename: string = "diagram.svg") {
   const serializer = new XMLSerializer();
   const svgString = serializer.serializeToString(svgElement);
@@ -295,3 +308,16 @@ export function exportAsPNG(svgElement: SVGSVGElement, filename: string = "diagr
   const svgBlob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
   img.src = URL.createObjectURL(svgBlob);
 }
+
+export function exportAsText(data: DiagramData, format: DiagramExportFormat, name: string = "diagram") {
+  const { extension, contentType } = DIAGRAM_EXPORT_FORMATS[format];
+  const blob = new Blob([exportDiagram(data, format, name)], { type: `${contentType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}.${extension}`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -1,6 +1,6 @@
 import type { ParsedFileData, DiagramData, DiagramNode, DiagramEdge } from "@/types/diagram";
 
-interface NetworkEvent {
+export interface NetworkEvent {
   id: number;
   source: string;
   target: string;
@@ -20,6 +20,9 @@ interface NetworkEvent {
   metadata: any;
 }
 
+// Events served from rollups for long time ranges stand for many calls
+const eventWeight = (event: NetworkEvent): number => event.metadata?.rollup?.calls ?? 1;
+
 // Convert network events from database to diagram format
 export function processNetworkEvents(events: NetworkEvent[]): ParsedFileData {
   const allNodes = new Map<string, DiagramNode>();
@@ -34,15 +37,17 @@ export function processNetworkEvents(events: NetworkEvent[]): ParsedFileData {
     const targetId = event.target;
     const connectionKey = `${sourceId}->${targetId}`;
     
+    const weight = eventWeight(event);
+
     // Track connection counts
-    connectionCounts.set(connectionKey, (connectionCounts.get(connectionKey) || 0) + 1);
+    connectionCounts.set(connectionKey, (connectionCounts.get(connectionKey) || 0) + weight);
     
     // Track status codes for this connection
     if (!statusCounts.has(connectionKey)) {
       statusCounts.set(connectionKey, {});
     }
     const statusCount = statusCounts.get(connectionKey)!;
-    statusCount[event.status] = (statusCount[event.status] || 0) + 1;
+    statusCount[event.status] = (statusCount[event.status] || 0) + weight;
     
     // Track trace IDs for this connection
     if (event.traceId) {
@@ -1,3 +1,5 @@
+import { processOpenTelemetryData } from './opentelemetryProcessor';
+
 export async function parseFile(file: File): Promise<any> {
   const formData = new FormData();
   formData.append('file', file);
@@ -12,17 +14,28 @@ export async function parseFile(file: File): Promise<any> {
     throw new Error(error.message || 'Failed to parse file');
   }
 
-  return response.json();
+  const result = await response.json();
+
+  // Zipkin/Jaeger imports come back as traces and spans
+  if (result.traces && result.spans) {
+    return processOpenTelemetryData(result.traces, result.spans);
+  }
+
+  return result;
 }
 
 export function validateFileType(file: File): boolean {
   const allowedTypes = [
     'text/csv',
     'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/json',
+    'application/x-yaml',
+    'application/yaml',
+    'text/yaml'
   ];
   
-  const allowedExtensions = ['.csv', '.xlsx', '.xls'];
+  const allowedExtensions = ['.csv', '.xlsx', '.xls', '.json', '.yaml', '.yml'];
   const hasValidType = allowedTypes.includes(file.type);
   const hasValidExtension = allowedExtensions.some(ext => 
     file.name.toLowerCase().endsWith(ext)
@@ -0,0 +1,121 @@
+import type { NetworkEvent, Trace, ServiceMetrics } from '@shared/schema';
+
+export interface LiveFilters {
+  tenants: string[];
+  services: string[];
+  statuses: string[];
+}
+
+export interface LiveCursor {
+  events: number;
+  traces: number;
+}
+
+// Mirrors the server's LiveMessage; dates arrive as ISO strings
+export type LiveMessage =
+  | { type: 'ready'; cursor: LiveCursor; replayed: number }
+  | { type: 'network-events'; events: NetworkEvent[]; cursor: LiveCursor }
+  | { type: 'trace'; trace: Trace; cursor: LiveCursor }
+  | { type: 'service-metrics'; metrics: ServiceMetrics[] }
+  | { type: 'error'; message: string };
+
+export type LiveStatus = 'connecting' | 'open' | 'closed';
+
+type Listener = (message: LiveMessage) => void;
+
+const LIVE_STREAM_PATH = '/api/live';
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// One socket per page, shared by every subscriber and opened while anyone listens
+let socket: WebSocket | null = null;
+let status: LiveStatus = 'closed';
+let cursor: LiveCursor | null = null;
+let filters: LiveFilters = { tenants: [], services: [], statuses: [] };
+let reconnectDelay = 1000;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+const statusListeners = new Set<(status: LiveStatus) => void>();
+
+function setStatus(next: LiveStatus) {
+  status = next;
+  statusListeners.forEach(listener => listener(next));
+}
+
+function sendSubscribe() {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ type: 'subscribe', filters, cursor }));
+  }
+}
+
+function connect() {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}${LIVE_STREAM_PATH}`);
+  socket = ws;
+  setStatus('connecting');
+
+  ws.onopen = () => {
+    reconnectDelay = 1000;
+    setStatus('open');
+    // Resume from the last delivered cursor so a reconnect does not drop events
+    sendSubscribe();
+  };
+
+  ws.onmessage = (event) => {
+    const message = JSON.parse(event.data) as LiveMessage;
+    if ('cursor' in message) {
+      cursor = message.cursor;
+    }
+    listeners.forEach(listener => listener(message));
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setStatus('closed');
+    if (listeners.size > 0) {
+      console.log(`📡 Live stream closed, reconnecting in ${reconnectDelay}ms`);
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+  };
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setStatus('closed');
+}
+
+export function subscribeLive(listener: Listener): () => void {
+  listeners.add(listener);
+  if (!socket && !reconnectTimer) {
+    connect();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+}
+
+// Filters apply to the whole connection; changing them re-subscribes from the current cursor
+export function setLiveFilters(next: LiveFilters) {
+  filters = next;
+  sendSubscribe();
+}
+
+export function getLiveStatus(): LiveStatus {
+  return status;
+}
+
+export function onLiveStatusChange(listener: (status: LiveStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
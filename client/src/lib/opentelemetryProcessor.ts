@@ -1,7 +1,8 @@
 import type { DiagramData, DiagramNode, DiagramEdge, ParsedFileData, DiagramStats } from '@/types/diagram';
+import { getSpanHierarchy } from '@shared/spanHierarchy';
 
 // OpenTelemetry types matching server schema
-interface OtelTrace {
+export interface OtelTrace {
   id: number;
   traceId: string;
   serviceName: string;
@@ -19,7 +20,7 @@ interface OtelTrace {
   createdAt: string;
 }
 
-interface OtelSpan {
+export interface OtelSpan {
   id: number;
   traceId: string;
   spanId: string;
@@ -325,33 +326,60 @@ export function convertTracesForDisplay(traces: OtelTrace[]): Array<{
   }));
 }
 
-// Get span hierarchy for a trace
-export function getSpanHierarchy(spans: OtelSpan[]): Array<OtelSpan & { level: number; children: string[] }> {
-  const spanMap = new Map(spans.map(span => [span.spanId, span]));
-  const hierarchy: Array<OtelSpan & { level: number; children: string[] }> = [];
-  
-  // Find root spans (no parent)
-  const rootSpans = spans.filter(span => !span.parentSpanId);
-  
-  function buildHierarchy(span: OtelSpan, level: number = 0): void {
-    const children = spans.filter(s => s.parentSpanId === span.spanId).map(s => s.spanId);
-    
-    hierarchy.push({
-      ...span,
-      level,
-      children
-    });
-    
-    // Process children
-    children.forEach(childId => {
-      const childSpan = spanMap.get(childId);
-      if (childSpan) {
-        buildHierarchy(childSpan, level + 1);
-      }
-    });
+// Span tree for a trace, shared with server-side critical path analysis
+export { getSpanHierarchy };
+
+export interface WaterfallRow {
+  span: OtelSpan;
+  level: number;
+  offsetMs: number;
+  durationMs: number;
+}
+
+// Span bars on a shared time axis, in hierarchy order; offsets relative to the earliest span
+export function getTraceWaterfall(spans: OtelSpan[]): { rows: WaterfallRow[]; totalMs: number } {
+  if (spans.length === 0) {
+    return { rows: [], totalMs: 0 };
   }
-  
-  rootSpans.forEach(rootSpan => buildHierarchy(rootSpan));
-  
-  return hierarchy;
-}
\ No newline at end of file
+
+  const durationMs = (span: OtelSpan) => span.duration !== null
+    ? span.duration / 1000000
+    : span.endTime ? new Date(span.endTime).getTime() - new Date(span.startTime).getTime() : 0;
+
+  const traceStart = Math.min(...spans.map(span => new Date(span.startTime).getTime()));
+  const rows = getSpanHierarchy(spans).map(({ level, children, ...span }) => ({
+    span,
+    level,
+    offsetMs: new Date(span.startTime).getTime() - traceStart,
+    durationMs: durationMs(span)
+  }));
+  const totalMs = Math.max(...rows.map(row => row.offsetMs + row.durationMs));
+
+  return { rows, totalMs };
+}
+
+// Tag diagram edges that a trace passed through with its trace ID, so the existing
+// trace highlighting covers the whole path and not only the sampled trace IDs
+export function markTracePath(data: DiagramData, traceId: string, spans: OtelSpan[]): DiagramData {
+  const spanMap = new Map(spans.map(span => [span.spanId, span]));
+  const pathKeys = new Set<string>();
+
+  spans.forEach(span => {
+    const parent = span.parentSpanId ? spanMap.get(span.parentSpanId) : undefined;
+    if (!parent) return;
+    pathKeys.add(`${parent.serviceName}_${parent.operationName}->${span.serviceName}_${span.operationName}`);
+    pathKeys.add(`${parent.serviceName}->${span.serviceName}`);
+  });
+
+  let changed = false;
+  const edges = data.edges.map(edge => {
+    const traceIds = edge.traceId ? edge.traceId.split(',').map(id => id.trim()) : [];
+    if (!pathKeys.has(`${edge.source}->${edge.target}`) || traceIds.includes(traceId)) {
+      return edge;
+    }
+    changed = true;
+    return { ...edge, traceId: [...traceIds, traceId].join(',') };
+  });
+
+  return changed ? { ...data, edges } : data;
+}
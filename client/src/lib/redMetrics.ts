@@ -0,0 +1,31 @@
+import type { DiagramData, RedMetrics, RedMetricsResponse } from '@/types/diagram';
+
+// Attach RED metrics to edges (by source/target node id) and nodes (by service)
+export function applyRedMetrics(data: DiagramData, red: RedMetricsResponse | null | undefined): DiagramData {
+  if (!red) return data;
+
+  const edgeMetrics = new Map(red.edges.map(({ source, target, ...metrics }) => [`${source}->${target}`, metrics]));
+  const serviceMetrics = new Map(red.services.map(({ service, ...metrics }) => [service, metrics]));
+
+  return {
+    nodes: data.nodes.map(node => {
+      const metrics = serviceMetrics.get(node.service || node.id);
+      return metrics ? { ...node, red: metrics } : node;
+    }),
+    edges: data.edges.map(edge => {
+      const source = typeof edge.source === 'string' ? edge.source : (edge.source as any).id;
+      const target = typeof edge.target === 'string' ? edge.target : (edge.target as any).id;
+      const metrics = edgeMetrics.get(`${source}->${target}`);
+      return metrics ? { ...edge, red: metrics } : edge;
+    })
+  };
+}
+
+// Tooltip lines for an edge or service
+export function formatRedMetrics(red: RedMetrics): string[] {
+  return [
+    `Rate: ${red.rate.toFixed(2)} req/s (${red.requests})`,
+    `Errors: ${red.errors} (${red.errorRate.toFixed(1)}%)`,
+    `p50 / p90 / p99: ${red.p50} / ${red.p90} / ${red.p99} ms`
+  ];
+}
@@ -0,0 +1,103 @@
+import type { ParsedFileData } from '@/types/diagram';
+import { processNetworkEvents, mergeEventData, type NetworkEvent } from '@/lib/eventProcessor';
+import {
+  processOpenTelemetryData,
+  mergeOpenTelemetryData,
+  type OtelTrace,
+  type OtelSpan
+} from '@/lib/opentelemetryProcessor';
+
+export type ReplayFormat = 'network' | 'otel';
+
+// /api/replay response; records are ordered oldest first, and `truncated` marks a window with
+// more records than the limit
+export type ReplayResponse =
+  | { format: 'network'; from: string; to: string; truncated: boolean; events: NetworkEvent[] }
+  | { format: 'otel'; from: string; to: string; truncated: boolean; traces: OtelTrace[]; spans: OtelSpan[] };
+
+// A trace is replayed as a whole at its start time so every parent → child call is counted once
+export type ReplayStep =
+  | { time: number; event: NetworkEvent }
+  | { time: number; trace: OtelTrace; spans: OtelSpan[] };
+
+export interface ReplayTimeline {
+  format: ReplayFormat;
+  start: number;
+  end: number;
+  truncated: boolean;
+  steps: ReplayStep[];
+}
+
+// Diagram after the first `index` steps of a timeline
+export interface ReplayState {
+  index: number;
+  data: ParsedFileData | null;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+
+export function buildReplayTimeline(response: ReplayResponse): ReplayTimeline {
+  let steps: ReplayStep[];
+
+  if (response.format === 'network') {
+    steps = response.events.map(event => ({ time: new Date(event.timestamp).getTime(), event }));
+  } else {
+    const spansByTrace = new Map<string, OtelSpan[]>();
+    response.spans.forEach(span => {
+      if (!spansByTrace.has(span.traceId)) spansByTrace.set(span.traceId, []);
+      spansByTrace.get(span.traceId)!.push(span);
+    });
+    steps = response.traces.map(trace => ({
+      time: new Date(trace.startTime).getTime(),
+      trace,
+      spans: spansByTrace.get(trace.traceId) || []
+    }));
+  }
+
+  steps.sort((a, b) => a.time - b.time);
+  return {
+    format: response.format,
+    start: new Date(response.from).getTime(),
+    end: new Date(response.to).getTime(),
+    truncated: !!response.truncated,
+    steps
+  };
+}
+
+// Number of steps recorded at or before `time`
+export function replayStepIndex(timeline: ReplayTimeline, time: number): number {
+  let low = 0;
+  let high = timeline.steps.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (timeline.steps[mid].time <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Feed a batch of steps into the diagram the same way live data is merged
+function applySteps(data: ParsedFileData | null, steps: ReplayStep[]): ParsedFileData | null {
+  if (steps.length === 0) return data;
+
+  const events = steps.flatMap(step => 'event' in step ? [step.event] : []);
+  if (events.length > 0) {
+    return mergeEventData(data, processNetworkEvents(events));
+  }
+
+  const traces = steps.flatMap(step => 'trace' in step ? [step.trace] : []);
+  const spans = steps.flatMap(step => 'trace' in step ? step.spans : []);
+  return mergeOpenTelemetryData(data, processOpenTelemetryData(traces, spans));
+}
+
+// Move to step `index`: playing forward only merges the new steps, seeking back rebuilds from the start
+export function advanceReplay(state: ReplayState, timeline: ReplayTimeline, index: number): ReplayState {
+  if (index === state.index) return state;
+  if (index > state.index) {
+    return { index, data: applySteps(state.data, timeline.steps.slice(state.index, index)) };
+  }
+  return { index, data: applySteps(null, timeline.steps.slice(0, index)) };
+}
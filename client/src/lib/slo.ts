@@ -0,0 +1,44 @@
+import type { SloHealth, SloStatus } from '@shared/slo';
+import type { DiagramData, DiagramNode } from '@/types/diagram';
+
+export const SLO_HEALTH_COLORS: Record<SloHealth, string> = {
+  ok: '#16A34A',
+  burning: '#F59E0B',
+  exhausted: '#DC2626',
+  'no-data': '#94A3B8'
+};
+
+const HEALTH_ORDER: SloHealth[] = ['exhausted', 'burning', 'ok', 'no-data'];
+
+// Service-level nodes show every SLO of the service; endpoint nodes only those selecting their operation
+const matchesNode = (node: DiagramNode, { slo }: SloStatus) => {
+  const service = node.service || node.id;
+  if (service !== slo.service) return false;
+  if (slo.tenant && node.tenant && node.tenant !== slo.tenant) return false;
+  return !slo.operation || node.id === service || node.id === `${slo.service}_${slo.operation}`;
+};
+
+export function applySloStatus(data: DiagramData, statuses: SloStatus[] | null | undefined): DiagramData {
+  if (!statuses || statuses.length === 0) return data;
+
+  return {
+    ...data,
+    nodes: data.nodes.map(node => {
+      const matching = statuses.filter(status => matchesNode(node, status));
+      return matching.length > 0 ? { ...node, slos: matching } : node;
+    })
+  };
+}
+
+export function worstSloHealth(statuses: SloStatus[]): SloHealth {
+  return HEALTH_ORDER.find(health => statuses.some(status => status.status === health)) || 'no-data';
+}
+
+const percent = (value: number | null, digits = 2) => value === null ? '—' : `${Number(value.toFixed(digits))}%`;
+
+// "Checkout availability: 99.95% (target 99.9%), budget 48% left"
+export function formatSloStatus({ slo, sli, budgetRemaining, burnRates }: SloStatus): string {
+  const budget = budgetRemaining === null ? 'no data' : `budget ${percent(budgetRemaining * 100, 0)} left`;
+  const burning = burnRates.filter(rate => rate.burning).map(rate => `${rate.name} burn ${rate.long}x`);
+  return [`${slo.name}: ${percent(sli, 3)} (target ${slo.target}%), ${budget}`, ...burning].join(', ');
+}
@@ -0,0 +1,44 @@
+import type { TopologyChange, TopologyDiffEntry } from '@shared/topologyDiff';
+
+export const CHANGE_LABELS: Record<TopologyChange, string> = {
+  'added': 'New',
+  'removed': 'Disappeared',
+  'errors-up': 'Error rate up',
+  'errors-down': 'Error rate down',
+  'traffic-up': 'Traffic up',
+  'traffic-down': 'Traffic down'
+};
+
+export const CHANGE_COLORS: Record<TopologyChange, string> = {
+  'added': '#22c55e',
+  'removed': '#94a3b8',
+  'errors-up': '#ef4444',
+  'errors-down': '#14b8a6',
+  'traffic-up': '#3b82f6',
+  'traffic-down': '#f59e0b'
+};
+
+// Color of the most significant change (entries list them in that order); undefined when unchanged
+export function diffColor(entry: TopologyDiffEntry | undefined): string | undefined {
+  const change = entry?.changes[0];
+  return change ? CHANGE_COLORS[change] : undefined;
+}
+
+const formatRate = (rate: number) => rate >= 1 ? `${rate.toFixed(1)}/s` : `${(rate * 60).toFixed(1)}/min`;
+
+// Tooltip and change list lines: what changed, then baseline → comparison figures
+export function formatTopologyDiff(entry: TopologyDiffEntry): string[] {
+  const lines = [entry.changes.map(change => CHANGE_LABELS[change]).join(', ') || 'Unchanged'];
+  const { baseline, comparison } = entry;
+
+  if (baseline && comparison) {
+    lines.push(`Traffic: ${formatRate(baseline.rate)} → ${formatRate(comparison.rate)}`);
+    lines.push(`Errors: ${baseline.errorRate.toFixed(1)}% → ${comparison.errorRate.toFixed(1)}%`);
+  } else {
+    const metrics = (baseline || comparison)!;
+    lines.push(`Traffic: ${formatRate(metrics.rate)} (${metrics.calls} calls)`);
+    lines.push(`Errors: ${metrics.errorRate.toFixed(1)}%`);
+  }
+
+  return lines;
+}
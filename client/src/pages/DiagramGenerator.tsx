@@ -1,15 +1,37 @@
 import { useState, useMemo, useEffect } from "react";
-import { ChartGantt, Download, HelpCircle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { ChartGantt, Download, HelpCircle, History, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import Sidebar from "@/components/Sidebar";
 import DiagramCanvas from "@/components/DiagramCanvas";
 import Diagram3D from "@/components/Diagram3D";
 import HelpPanel from "@/components/HelpPanel";
 import DataGeneratorControls from "@/components/DataGeneratorControls";
+import TraceWaterfall from "@/components/TraceWaterfall";
+import ReplayControls from "@/components/ReplayControls";
+import TopologyDiffPanel from "@/components/TopologyDiffPanel";
+import ConformancePanel from "@/components/ConformancePanel";
 import { processNetworkEvents, mergeEventData } from "@/lib/eventProcessor";
-import { processOpenTelemetryData, mergeOpenTelemetryData } from "@/lib/opentelemetryProcessor";
-import type { ParsedFileData, DiagramSettings, LayoutType } from "@/types/diagram";
+import { applyRedMetrics } from "@/lib/redMetrics";
+import { exportAsText, layoutForExport } from "@/lib/diagramUtils";
+import { markTracePath, type OtelSpan } from "@/lib/opentelemetryProcessor";
+import { useRedMetrics } from "@/hooks/use-red-metrics";
+import { applyCriticalPath } from "@/lib/criticalPath";
+import { useCriticalPath } from "@/hooks/use-critical-path";
+import { applyAlerts } from "@/lib/alerts";
+import { useAlerts } from "@/hooks/use-alerts";
+import { applySloStatus } from "@/lib/slo";
+import { useSloStatus } from "@/hooks/use-slos";
+import { useReplay } from "@/hooks/use-replay";
+import { useTopologyDiff, type TimeWindow } from "@/hooks/use-topology-diff";
+import { useConformance } from "@/hooks/use-conformance";
+import type { ReplayFormat } from "@/lib/replay";
+import type { ParsedFileData, DiagramSettings, LayoutType, DiagramData } from "@/types/diagram";
+import type { Diagram } from "@shared/schema";
+import type { CriticalPath } from "@shared/criticalPath";
+import { DIAGRAM_EXPORT_FORMATS, type DiagramExportFormat } from "@shared/diagramExport";
 
 export default function DiagramGenerator() {
   const [data, setData] = useState<ParsedFileData | null>(null);
@@ -52,6 +74,39 @@ export default function DiagramGenerator() {
     serviceCount: number 
   }>({ level: 'high', relativeDistance: 0, serviceCount: 0 });
   
+  const [timeRange, setTimeRange] = useState<{ from: Date; to: Date }>(() => ({
+    from: new Date(Date.now() - 15 * 60 * 1000),
+    to: new Date()
+  }));
+  const { data: redMetrics } = useRedMetrics(timeRange);
+  const { data: alerts } = useAlerts();
+  const { data: sloStatuses } = useSloStatus();
+
+  const { data: selectedTrace, isPending: isTraceSpansPending } = useQuery<{ spans: OtelSpan[]; criticalPath: CriticalPath | null }>({
+    queryKey: [`/api/otel/traces/${selectedTraceId}`],
+    enabled: !!selectedTraceId
+  });
+  const traceSpans = useMemo(() => selectedTrace?.spans || [], [selectedTrace]);
+
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [criticalPathOperation, setCriticalPathOperation] = useState<string | null>(null);
+  const { data: criticalPath, isPending: isCriticalPathPending } = useCriticalPath(timeRange, criticalPathOperation, showCriticalPath);
+
+  const [isReplayMode, setIsReplayMode] = useState(false);
+  const [replayFormat, setReplayFormat] = useState<ReplayFormat>("otel");
+  const replay = useReplay(timeRange, replayFormat, isReplayMode);
+
+  // Compare mode diffs the selected range against a baseline window from the data source on screen
+  const [compareBaseline, setCompareBaseline] = useState<TimeWindow | null>(null);
+  const diffSource = realTimeData && !openTelemetryData ? 'events' : 'spans';
+  const { data: topologyDiff, isPending: isTopologyDiffPending } = useTopologyDiff(compareBaseline, timeRange, diffSource);
+
+  // Conformance mode checks the selected range's traffic against a saved diagram of the intended topology
+  const [isConformanceMode, setIsConformanceMode] = useState(false);
+  const [conformanceDiagramId, setConformanceDiagramId] = useState<number | null>(null);
+  const { data: conformance, isPending: isConformancePending } = useConformance(
+    isConformanceMode ? conformanceDiagramId : null, timeRange, diffSource);
+  
   const { toast } = useToast();
 
   const handleFileProcessed = (newData: ParsedFileData, newFileName: string) => {
@@ -117,6 +172,28 @@ export default function DiagramGenerator() {
     });
   };
 
+  // Load a saved diagram revision; live data would otherwise take priority over it
+  const handleDiagramRestore = (diagram: Diagram) => {
+    const diagramData = diagram.data as DiagramData;
+    setRealTimeData(null);
+    setIsRealTimeMode(false);
+    setOpenTelemetryData(null);
+    setIsOpenTelemetryMode(false);
+    setData({
+      data: diagramData,
+      stats: {
+        nodeCount: diagramData.nodes.length,
+        edgeCount: diagramData.edges.length,
+        totalConnections: diagramData.edges.reduce((sum, edge) => sum + (edge.connectionCount || 1), 0),
+        connectedComponents: 1
+      }
+    });
+    setFileName(diagram.name);
+    setLayout(diagram.layout as LayoutType);
+    setSettings(prev => ({ ...prev, ...(diagram.settings as Partial<DiagramSettings>) }));
+    setRefreshLayout(prev => prev + 1);
+  };
+
   const handleBeforeUpdate = () => {
     // This will be called before data updates to save camera state
     if (diagram3DRef && diagram3DRef.saveCameraState) {
@@ -153,37 +230,20 @@ export default function DiagramGenerator() {
     });
   };
 
-  const handleOpenTelemetryDataUpdate = (otelData: { traces: any[]; spans: any[] }) => {
-    console.error('🚨 🎯 handleOpenTelemetryDataUpdate START, traces:', otelData.traces?.length, 'spans:', otelData.spans?.length);
-    if (!otelData.traces || otelData.traces.length === 0) {
+  const handleTopologyUpdate = (topology: ParsedFileData) => {
+    if (topology.data.nodes.length === 0) {
       setOpenTelemetryData(null);
       setIsOpenTelemetryMode(false);
       setRefreshLayout(prev => prev + 1);
       return;
     }
-    
-    const processedData = processOpenTelemetryData(otelData.traces, otelData.spans);
-    console.error(`🚨 🔄 Setting OTEL data:`, {
-      tracesCount: otelData.traces.length,
-      spansCount: otelData.spans.length,
-      processedNodes: processedData.data.nodes.length,
-      processedEdges: processedData.data.edges.length
-    });
-    console.log(`🔄 Setting OTEL data:`, {
-      tracesCount: otelData.traces.length,
-      spansCount: otelData.spans.length,
-      processedNodes: processedData.data.nodes.length,
-      processedEdges: processedData.data.edges.length
-    });
-    console.error('🚨 🎯 About to setOpenTelemetryData with:', {
-      processedDataExists: !!processedData,
-      nodes: processedData?.data?.nodes?.length,
-      edges: processedData?.data?.edges?.length
+
+    console.log(`🔄 Setting OTEL topology:`, {
+      nodes: topology.data.nodes.length,
+      edges: topology.data.edges.length
     });
-    setOpenTelemetryData(processedData);
-    console.error('🚨 🎯 setOpenTelemetryData called - state should update');
+    setOpenTelemetryData(topology);
     setIsOpenTelemetryMode(true);
-    console.error('🚨 🎯 setIsOpenTelemetryMode(true) called');
     
     // Auto-switch to 3D mode for OpenTelemetry data
     if (layout !== "3d-network") {
@@ -194,9 +254,8 @@ export default function DiagramGenerator() {
     
     toast({
       title: "OpenTelemetry data loaded",
-      description: `${otelData.traces.length} traces • ${processedData.stats.nodeCount} nodes • ${processedData.stats.edgeCount} connections`,
+      description: `${topology.stats.totalConnections} calls • ${topology.stats.nodeCount} nodes • ${topology.stats.edgeCount} connections`,
     });
-    console.error('🚨 🎯 handleOpenTelemetryDataUpdate END - openTelemetryData state should be set');
   };
 
   const handleDataGeneratorUpdate = (data: any) => {
@@ -204,17 +263,13 @@ export default function DiagramGenerator() {
       hasData: !!data,
       dataType: typeof data,
       isArray: Array.isArray(data),
-      hasTraces: data && typeof data === 'object' && 'traces' in data,
-      hasSpans: data && typeof data === 'object' && 'spans' in data,
-      dataKeys: data && typeof data === 'object' ? Object.keys(data) : [],
-      tracesLength: data?.traces?.length,
-      spansLength: data?.spans?.length
+      hasTopology: data && typeof data === 'object' && 'topology' in data,
+      dataKeys: data && typeof data === 'object' ? Object.keys(data) : []
     });
     
-    // Check if this is OpenTelemetry data (has traces and spans)
-    if (data && typeof data === 'object' && 'traces' in data && 'spans' in data) {
-      console.error('🚨 ⚡ Calling handleOpenTelemetryDataUpdate with traces:', data.traces.length, 'spans:', data.spans.length);
-      handleOpenTelemetryDataUpdate(data);
+    // OpenTelemetry data arrives as a server-side topology
+    if (data && typeof data === 'object' && 'topology' in data) {
+      handleTopologyUpdate(data.topology);
     } else if (Array.isArray(data)) {
       console.error('🚨 ⚡ Calling handleRealTimeDataUpdate with array data:', data.length);
       // This is network events data
@@ -231,8 +286,26 @@ export default function DiagramGenerator() {
       hasRealTimeData: !!realTimeData, 
       hasFileData: !!data
     });
-    // Priority: OpenTelemetry > Real Time > File Data
-    const result = openTelemetryData || realTimeData || data;
+    // Priority: Replay > Compare > Conformance > OpenTelemetry > Real Time > File Data
+    const diffData: ParsedFileData | null = compareBaseline && topologyDiff ? {
+      data: topologyDiff.data,
+      stats: {
+        nodeCount: topologyDiff.data.nodes.length,
+        edgeCount: topologyDiff.data.edges.length,
+        totalConnections: topologyDiff.data.edges.reduce((sum, edge) => sum + (edge.connectionCount || 1), 0),
+        connectedComponents: 1
+      }
+    } : null;
+    const conformanceData: ParsedFileData | null = isConformanceMode && conformance ? {
+      data: conformance.data,
+      stats: {
+        nodeCount: conformance.data.nodes.length,
+        edgeCount: conformance.data.edges.length,
+        totalConnections: conformance.data.edges.reduce((sum, edge) => sum + (edge.connectionCount || 0), 0),
+        connectedComponents: 1
+      }
+    } : null;
+    const result = isReplayMode ? replay.data : diffData || conformanceData || openTelemetryData || realTimeData || data;
     
     console.error('🚨 📊 useMemo recalculating displayData', { 
       hasRealTime: !!realTimeData, 
@@ -261,14 +334,39 @@ export default function DiagramGenerator() {
       resultEdges: result?.data?.edges?.length || 0
     });
     return result;
-  }, [realTimeData, data, openTelemetryData]);
+  }, [realTimeData, data, openTelemetryData, isReplayMode, replay.data, compareBaseline, topologyDiff, isConformanceMode, conformance]);
 
-  const handleExport = () => {
-    // This will be handled by the DiagramCanvas component
-    toast({
-      title: "Export options",
-      description: "Use the export buttons in the canvas toolbar",
-    });
+  // RED metrics for the selected time window attached to edges and nodes, the selected trace's
+  // full path tagged on edges for highlighting, critical path shares on nodes, firing alerts and SLO status as badges
+  const diagramData = useMemo(() => {
+    if (!displayData) return null;
+    let result = applyRedMetrics(displayData.data, redMetrics);
+    if (selectedTraceId && traceSpans.length > 0) {
+      result = markTracePath(result, selectedTraceId, traceSpans);
+    }
+    if (showCriticalPath) {
+      result = applyCriticalPath(result, criticalPath);
+    }
+    result = applySloStatus(applyAlerts(result, alerts), sloStatuses);
+    return { ...displayData, data: result };
+  }, [displayData, redMetrics, selectedTraceId, traceSpans, showCriticalPath, criticalPath, alerts, sloStatuses]);
+
+  // Text exports of the diagram on screen; SVG and PNG are in the canvas toolbar
+  const handleExport = (format: DiagramExportFormat) => {
+    if (!diagramData) {
+      toast({
+        title: "Nothing to export",
+        description: "Load a file or start a data generator first",
+        variant: "destructive",
+      });
+      return;
+    }
+    // draw.io keeps coordinates: the 2D canvas lays out the nodes it is given in place, so they already
+    // carry its positions; the 3D view has no 2D positions of its own
+    const exported = format === "drawio" && layout === "3d-network"
+      ? layoutForExport(diagramData.data, settings.nodeSpacing)
+      : diagramData.data;
+    exportAsText(exported, format, fileName.replace(/\.[^.]+$/, "") || "diagram");
   };
 
   return (
@@ -306,17 +404,52 @@ export default function DiagramGenerator() {
                 onBeforeUpdate={handleBeforeUpdate}
                 isActive={isDataGeneratorActive}
                 onActiveChange={setIsDataGeneratorActive}
+                onTimeRangeChange={setTimeRange}
+                onCompareChange={setCompareBaseline}
               />
             </div>
             
             <div className="flex items-center space-x-3">
               <Button
-                onClick={handleExport}
-                className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transition-all duration-200 border-0 ring-1 ring-purple-500/30"
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsReplayMode(!isReplayMode)}
+                className={`h-9 px-3 text-purple-200 hover:text-white hover:bg-purple-500/20 rounded-xl transition-all duration-200 ${
+                  isReplayMode ? 'bg-purple-500/30 text-white' : ''
+                }`}
               >
-                <Download className="w-4 h-4 mr-2" />
-                <span className="hidden sm:inline font-medium">Export</span>
+                <History className="w-4 h-4 mr-2" />
+                <span className="hidden sm:inline font-medium">Replay</span>
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsConformanceMode(!isConformanceMode)}
+                className={`h-9 px-3 text-purple-200 hover:text-white hover:bg-purple-500/20 rounded-xl transition-all duration-200 ${
+                  isConformanceMode ? 'bg-purple-500/30 text-white' : ''
+                }`}
+              >
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                <span className="hidden sm:inline font-medium">Conformance</span>
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transition-all duration-200 border-0 ring-1 ring-purple-500/30"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    <span className="hidden sm:inline font-medium">Export</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs">Export diagram as</DropdownMenuLabel>
+                  {(Object.keys(DIAGRAM_EXPORT_FORMATS) as DiagramExportFormat[]).map(format => (
+                    <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+                      {DIAGRAM_EXPORT_FORMATS[format].label} (.{DIAGRAM_EXPORT_FORMATS[format].extension})
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 variant="ghost"
                 size="sm"
@@ -334,8 +467,9 @@ export default function DiagramGenerator() {
         <Sidebar
           layout={layout}
           settings={settings}
-          stats={displayData?.stats || null}
-          data={displayData?.data || null}
+          stats={diagramData?.stats || null}
+          data={diagramData?.data || null}
+          redMetrics={redMetrics || null}
           onLayoutChange={handleLayoutChange}
           onSpacingChange={handleSpacingChange}
           onApplyLayout={handleApplyLayout}
@@ -354,7 +488,7 @@ export default function DiagramGenerator() {
               handleSpacingChange(0); // Parameter doesn't matter, just triggers cache clear
             }
           }}
-          hasData={!!displayData}
+          hasData={!!diagramData}
           selectedTraceId={selectedTraceId}
           onTraceSelect={(traceId) => {
             console.log('🎯 onTraceSelect called with:', traceId);
@@ -363,24 +497,73 @@ export default function DiagramGenerator() {
           lodLevel={lodInfo.level}
           relativeDistance={lodInfo.relativeDistance}
           serviceCount={lodInfo.serviceCount}
+          onDiagramRestore={handleDiagramRestore}
+          criticalPath={{
+            enabled: showCriticalPath,
+            onEnabledChange: setShowCriticalPath,
+            operation: criticalPathOperation,
+            onOperationChange: setCriticalPathOperation,
+            summary: criticalPath || null,
+            isLoading: isCriticalPathPending
+          }}
         />
 
-        {layout === "3d-network" ? (
-          <Diagram3D
-            data={displayData?.data || null}
-            settings={settings}
-            onApplyLayout={handleApplyLayout}
-            selectedTraceId={selectedTraceId}
-            onLODUpdate={handleLODUpdate}
-          />
-        ) : (
-          <DiagramCanvas
-            data={displayData?.data || null}
-            settings={settings}
-            layout={layout}
-            key={refreshLayout} // Force re-render when layout is applied
-          />
-        )}
+        <div className="flex flex-col flex-1 min-w-0">
+          {isReplayMode && (
+            <ReplayControls
+              replay={replay}
+              format={replayFormat}
+              onFormatChange={setReplayFormat}
+              onClose={() => setIsReplayMode(false)}
+            />
+          )}
+
+          {layout === "3d-network" ? (
+            <Diagram3D
+              data={diagramData?.data || null}
+              settings={settings}
+              onApplyLayout={handleApplyLayout}
+              selectedTraceId={selectedTraceId}
+              onLODUpdate={handleLODUpdate}
+            />
+          ) : (
+            <DiagramCanvas
+              data={diagramData?.data || null}
+              settings={settings}
+              layout={layout}
+              selectedTraceId={selectedTraceId}
+              key={refreshLayout} // Force re-render when layout is applied
+            />
+          )}
+
+          {compareBaseline && !isReplayMode && (
+            <TopologyDiffPanel
+              diff={topologyDiff || null}
+              isLoading={isTopologyDiffPending}
+              onClose={() => setCompareBaseline(null)}
+            />
+          )}
+
+          {isConformanceMode && !isReplayMode && (
+            <ConformancePanel
+              diagramId={conformanceDiagramId}
+              onDiagramChange={setConformanceDiagramId}
+              report={conformance || null}
+              isLoading={isConformancePending}
+              onClose={() => setIsConformanceMode(false)}
+            />
+          )}
+
+          {selectedTraceId && (
+            <TraceWaterfall
+              traceId={selectedTraceId}
+              spans={traceSpans}
+              criticalPath={selectedTrace?.criticalPath || null}
+              isLoading={isTraceSpansPending}
+              onTraceSelect={setSelectedTraceId}
+            />
+          )}
+        </div>
       </div>
 
       <HelpPanel isOpen={helpOpen} onClose={() => setHelpOpen(false)} />
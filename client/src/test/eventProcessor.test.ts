@@ -94,6 +94,18 @@ describe('Event Processor', () => {
       });
     });
 
+    it('should weight rollup events by their call count', () => {
+      const rollupEvents = [
+        { ...mockNetworkEvents[0], id: -1, traceId: undefined, metadata: { rollup: { calls: 120 } } },
+        { ...mockNetworkEvents[0], id: -2, status: '500', traceId: undefined, metadata: { rollup: { calls: 3 } } }
+      ];
+      const result = processNetworkEvents(rollupEvents as any);
+
+      expect(result.data.edges).toHaveLength(1);
+      expect(result.data.edges[0].connectionCount).toBe(123);
+      expect(result.data.edges[0].statusCounts).toEqual({ '200': 120, '500': 3 });
+    });
+
     it('should include trace IDs in edges', () => {
       const result = processNetworkEvents(mockNetworkEvents);
 
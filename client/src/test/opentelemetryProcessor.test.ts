@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getSpanHierarchy, getTraceWaterfall, markTracePath, type OtelSpan } from '@/lib/opentelemetryProcessor';
+import type { DiagramData } from '@/types/diagram';
+
+const span = (spanId: string, parentSpanId: string | null, serviceName: string, operationName: string, startMs: number, durationMs: number): OtelSpan => ({
+  id: 0,
+  traceId: 'trace-001',
+  spanId,
+  parentSpanId,
+  operationName,
+  serviceName,
+  tenant: 'tenant-a',
+  system: 'system-1',
+  kind: parentSpanId ? 'server' : 'client',
+  startTime: new Date(Date.UTC(2025, 0, 6, 12, 0, 0, startMs)).toISOString(),
+  endTime: null,
+  duration: durationMs * 1000000,
+  status: 'ok',
+  statusMessage: null,
+  attributes: {},
+  events: [],
+  links: [],
+  resource: {},
+  createdAt: '2025-01-06T12:00:00Z'
+});
+
+const spans = [
+  span('c', 'a', 'payment', 'charge', 40, 20),
+  span('a', null, 'gateway', 'route', 0, 100),
+  span('b', 'a', 'auth', 'verify', 10, 15),
+  span('d', 'missing', 'audit', 'record', 120, 5)
+];
+
+describe('OpenTelemetry Processor', () => {
+  it('should order children by start time and keep orphan spans as roots', () => {
+    const hierarchy = getSpanHierarchy(spans);
+
+    expect(hierarchy.map(s => [s.spanId, s.level])).toEqual([
+      ['a', 0], ['b', 1], ['c', 1], ['d', 0]
+    ]);
+  });
+
+  it('should place spans on a shared time axis', () => {
+    const { rows, totalMs } = getTraceWaterfall(spans);
+
+    expect(totalMs).toBe(125);
+    expect(rows.find(r => r.span.spanId === 'c')).toMatchObject({ offsetMs: 40, durationMs: 20, level: 1 });
+  });
+
+  it('should tag edges on the trace path with the trace ID', () => {
+    const data: DiagramData = {
+      nodes: [],
+      edges: [
+        { id: 'e1', source: 'gateway_route', target: 'payment_charge', traceId: 'trace-999' },
+        { id: 'e2', source: 'gateway', target: 'auth' },
+        { id: 'e3', source: 'payment_charge', target: 'audit_record' }
+      ]
+    };
+
+    const result = markTracePath(data, 'trace-001', spans);
+
+    expect(result.edges.map(e => e.traceId)).toEqual(['trace-999,trace-001', 'trace-001', undefined]);
+    expect(markTracePath(result, 'trace-001', spans)).toBe(result);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyRedMetrics, formatRedMetrics } from '@/lib/redMetrics';
+import type { DiagramData, RedMetricsResponse } from '@/types/diagram';
+
+const metrics = { requests: 120, rate: 0.133, errors: 6, errorRate: 5, avg: 48.2, p50: 40, p90: 95.5, p99: 210 };
+
+const data: DiagramData = {
+  nodes: [
+    { id: 'gateway_route', label: 'route', type: 'endpoint', x: 0, y: 0, service: 'gateway' },
+    { id: 'payment_charge', label: 'charge', type: 'endpoint', x: 0, y: 0, service: 'payment' }
+  ],
+  edges: [
+    { id: 'e1', source: 'gateway_route', target: 'payment_charge' },
+    { id: 'e2', source: 'payment_charge', target: 'gateway_route' }
+  ]
+};
+
+const red: RedMetricsResponse = {
+  from: '2025-01-06T12:00:00.000Z',
+  to: '2025-01-06T12:15:00.000Z',
+  windowSeconds: 900,
+  edges: [{ source: 'gateway_route', target: 'payment_charge', ...metrics }],
+  services: [{ service: 'payment', ...metrics }]
+};
+
+describe('RED metrics', () => {
+  it('should attach edge metrics by source and target', () => {
+    const result = applyRedMetrics(data, red);
+
+    expect(result.edges[0].red).toEqual(metrics);
+    expect(result.edges[1].red).toBeUndefined();
+  });
+
+  it('should attach service metrics to nodes of that service', () => {
+    const result = applyRedMetrics(data, red);
+
+    expect(result.nodes.find(n => n.service === 'payment')?.red).toEqual(metrics);
+    expect(result.nodes.find(n => n.service === 'gateway')?.red).toBeUndefined();
+  });
+
+  it('should leave data untouched without metrics', () => {
+    expect(applyRedMetrics(data, undefined)).toBe(data);
+  });
+
+  it('should format tooltip lines', () => {
+    expect(formatRedMetrics(metrics)).toEqual([
+      'Rate: 0.13 req/s (120)',
+      'Errors: 6 (5.0%)',
+      'p50 / p90 / p99: 40 / 95.5 / 210 ms'
+    ]);
+  });
+});
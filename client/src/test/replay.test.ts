@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { buildReplayTimeline, replayStepIndex, advanceReplay, type ReplayResponse } from '@/lib/replay';
+import type { OtelTrace, OtelSpan } from '@/lib/opentelemetryProcessor';
+import type { NetworkEvent } from '@/lib/eventProcessor';
+
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 6, 12, 0, seconds)).toISOString();
+
+const trace = (traceId: string, seconds: number): OtelTrace => ({
+  id: 0,
+  traceId,
+  serviceName: 'gateway',
+  serviceVersion: '1.0.0',
+  tenant: 'tenant-a',
+  system: 'system-1',
+  startTime: at(seconds),
+  endTime: null,
+  duration: null,
+  spanCount: 2,
+  status: 'ok',
+  statusMessage: null,
+  attributes: {},
+  resource: {},
+  createdAt: at(seconds)
+});
+
+const span = (traceId: string, spanId: string, parentSpanId: string | null, serviceName: string, seconds: number): OtelSpan => ({
+  id: 0,
+  traceId,
+  spanId,
+  parentSpanId,
+  operationName: 'handle',
+  serviceName,
+  tenant: 'tenant-a',
+  system: 'system-1',
+  kind: 'server',
+  startTime: at(seconds),
+  endTime: null,
+  duration: 1000000,
+  status: 'ok',
+  statusMessage: null,
+  attributes: {},
+  events: [],
+  links: [],
+  resource: {},
+  createdAt: at(seconds)
+});
+
+const otelReplay: ReplayResponse = {
+  format: 'otel',
+  from: at(0),
+  to: at(60),
+  traces: [trace('t2', 30), trace('t1', 10)],
+  spans: [
+    span('t1', 'a', null, 'gateway', 10),
+    span('t1', 'b', 'a', 'orders', 11),
+    span('t2', 'c', null, 'gateway', 30),
+    span('t2', 'd', 'c', 'payment', 31)
+  ]
+};
+
+describe('Replay', () => {
+  it('should order steps chronologically and group spans by trace', () => {
+    const timeline = buildReplayTimeline(otelReplay);
+
+    expect(timeline.start).toBe(Date.parse(at(0)));
+    expect(timeline.end).toBe(Date.parse(at(60)));
+    expect(timeline.steps.map(step => 'trace' in step && step.trace.traceId)).toEqual(['t1', 't2']);
+    expect(timeline.steps.map(step => 'trace' in step && step.spans.length)).toEqual([2, 2]);
+  });
+
+  it('should count the steps recorded up to a time', () => {
+    const timeline = buildReplayTimeline(otelReplay);
+
+    expect(replayStepIndex(timeline, Date.parse(at(5)))).toBe(0);
+    expect(replayStepIndex(timeline, Date.parse(at(10)))).toBe(1);
+    expect(replayStepIndex(timeline, Date.parse(at(60)))).toBe(2);
+  });
+
+  it('should grow the topology as traces are replayed and rebuild when seeking back', () => {
+    const timeline = buildReplayTimeline(otelReplay);
+
+    const first = advanceReplay({ index: 0, data: null }, timeline, 1);
+    expect(first.data?.data.edges.map(e => e.id)).toEqual(['gateway_handle-orders_handle']);
+
+    const both = advanceReplay(first, timeline, 2);
+    expect(both.data?.data.edges.map(e => e.id).sort()).toEqual([
+      'gateway_handle-orders_handle',
+      'gateway_handle-payment_handle'
+    ]);
+
+    const back = advanceReplay(both, timeline, 1);
+    expect(back.data?.data.edges.map(e => e.id)).toEqual(['gateway_handle-orders_handle']);
+    expect(advanceReplay(back, timeline, 0).data).toBeNull();
+  });
+
+  it('should replay network events with the latest status per connection', () => {
+    const event = (id: number, seconds: number, status: string) => ({
+      id,
+      source: 'api_auth',
+      target: 'db_query',
+      sourceService: 'api',
+      targetService: 'db',
+      sourceTenant: 'tenant-a',
+      targetTenant: 'tenant-a',
+      sourceSystem: 'system-1',
+      targetSystem: 'system-1',
+      sourceLabel: 'auth',
+      targetLabel: 'query',
+      status,
+      method: 'GET',
+      responseTime: 20,
+      timestamp: at(seconds),
+      metadata: {}
+    }) as NetworkEvent;
+
+    const timeline = buildReplayTimeline({
+      format: 'network',
+      from: at(0),
+      to: at(60),
+      events: [event(2, 20, '500'), event(1, 5, '200')]
+    });
+
+    const before = advanceReplay({ index: 0, data: null }, timeline, replayStepIndex(timeline, Date.parse(at(10))));
+    const after = advanceReplay(before, timeline, replayStepIndex(timeline, Date.parse(at(30))));
+
+    expect(before.data?.data.edges[0].statusCounts).toEqual({ '200': 1 });
+    expect(after.data?.data.edges[0].statusCounts).toEqual({ '500': 1 });
+  });
+});
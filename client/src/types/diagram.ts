@@ -1,3 +1,8 @@
+import type { TopologyDiffEntry } from '@shared/topologyDiff';
+import type { ConformanceEntry } from '@shared/conformance';
+import type { ActiveAlert } from '@shared/alerts';
+import type { SloStatus } from '@shared/slo';
+
 export interface DiagramNode {
   id: string;
   label: string;
@@ -16,6 +21,12 @@ export interface DiagramNode {
   traceId?: string;
   nodeType?: string;
   endpoints?: Set<any>;
+  red?: RedMetrics;
+  criticalPathShare?: number; // fraction of traces where the service is on the critical path
+  diff?: TopologyDiffEntry; // set in compare mode
+  conformance?: ConformanceEntry; // set when checking against a declared diagram
+  alerts?: ActiveAlert[]; // firing alerts on the service or its incoming edges
+  slos?: SloStatus[]; // SLOs whose selector matches the node
 }
 
 export interface DiagramEdge {
@@ -36,6 +47,41 @@ export interface DiagramEdge {
   statusCounts?: Record<string, number>;
   latency?: number;
   trafficType?: string;
+  errorCount?: number;
+  latencyStats?: EdgeLatencyStats;
+  red?: RedMetrics;
+  diff?: TopologyDiffEntry; // set in compare mode
+  conformance?: ConformanceEntry;
+  alerts?: ActiveAlert[];
+}
+
+// Per-edge latency distribution in ms, computed server-side by /api/topology
+export interface EdgeLatencyStats {
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+// Rate/Errors/Duration over the selected time window; durations in ms
+export interface RedMetrics {
+  requests: number;
+  rate: number;
+  errors: number;
+  errorRate: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface RedMetricsResponse {
+  from: string;
+  to: string;
+  windowSeconds: number;
+  edges: Array<RedMetrics & { source: string; target: string }>;
+  services: Array<RedMetrics & { service: string }>;
 }
 
 export interface DiagramData {
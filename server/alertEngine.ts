@@ -0,0 +1,319 @@
+import { z } from "zod";
+import { db } from "./db";
+import { alertRules, alertStates, insertAlertRuleSchema, type AlertRule, type AlertState, type ServiceMetrics } from "@shared/schema";
+import { eq, and, inArray, desc } from "drizzle-orm";
+import {
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  RESOURCE_ALERT_METRICS,
+  edgeAlertKey,
+  type ActiveAlert,
+  type AlertMetric,
+  type AlertOperator,
+  type AlertStatus
+} from "@shared/alerts";
+import { getRedMetrics, type RedMetrics } from "./redMetrics";
+import { getLatestServiceMetrics } from "./serviceMetricsGenerator";
+
+type RedResult = Awaited<ReturnType<typeof getRedMetrics>>;
+
+export const alertRuleSchema = insertAlertRuleSchema.extend({
+  name: z.string().min(1),
+  scope: z.enum(["edge", "service"]),
+  metric: z.string(),
+  operator: z.enum(ALERT_OPERATORS as [AlertOperator, ...AlertOperator[]]).default(">"),
+  threshold: z.number(),
+  forSeconds: z.number().int().min(0).default(0),
+  windowSeconds: z.number().int().min(60).max(24 * 60 * 60).default(300),
+  webhookUrls: z.array(z.string().url()).default([])
+}).refine(rule => ALERT_METRICS[rule.scope].includes(rule.metric as AlertMetric), {
+  message: "Metric is not available for this scope",
+  path: ["metric"]
+});
+
+export interface AlertStateFields {
+  status: AlertStatus;
+  value: number | null;
+  pendingSince: Date | null;
+  firedAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+export interface AlertNotification {
+  status: "firing" | "resolved";
+  rule: Pick<AlertRule, "id" | "name" | "scope" | "metric" | "operator" | "threshold" | "forSeconds">;
+  key: string;
+  value: number | null;
+  firedAt: string | null;
+  resolvedAt: string | null;
+}
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Resolved alerts stay listed for a day, then their state rows are deleted
+export const RESOLVED_ALERT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Edges and services seen over this window are evaluated even when silent in a rule's window
+export const KNOWN_TOPOLOGY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const LATENCY_ALERT_METRICS: readonly AlertMetric[] = ["p50", "p90", "p99"];
+
+export function breachesThreshold(value: number, operator: string, threshold: number): boolean {
+  switch (operator) {
+    case ">=": return value >= threshold;
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+    default: return value > threshold;
+  }
+}
+
+// pending → firing once the condition held for `forSeconds`; firing → resolved when it clears.
+// A pending alert that clears, and a resolved one older than RESOLVED_ALERT_TTL_MS, is dropped
+// (state null) without a notification
+export function nextAlertState(
+  previous: AlertStateFields | undefined,
+  value: number | null,
+  breaching: boolean,
+  forSeconds: number,
+  now: Date
+): { state: AlertStateFields | null; notify: "firing" | "resolved" | null } {
+  if (!breaching) {
+    if (previous?.status === "firing") {
+      return { state: { ...previous, status: "resolved", value, resolvedAt: now }, notify: "resolved" };
+    }
+    const keepResolved = previous?.status === "resolved"
+      && (!previous.resolvedAt || now.getTime() - previous.resolvedAt.getTime() < RESOLVED_ALERT_TTL_MS);
+    return { state: previous && keepResolved ? previous : null, notify: null };
+  }
+
+  if (previous?.status === "firing") {
+    return { state: { ...previous, value }, notify: null };
+  }
+
+  const pendingSince = previous?.status === "pending" && previous.pendingSince ? previous.pendingSince : now;
+  if (now.getTime() - pendingSince.getTime() >= forSeconds * 1000) {
+    return { state: { status: "firing", value, pendingSince, firedAt: now, resolvedAt: null }, notify: "firing" };
+  }
+  return { state: { status: "pending", value, pendingSince, firedAt: null, resolvedAt: null }, notify: null };
+}
+
+const touchesService = (nodeId: string, service: string) => nodeId === service || nodeId.startsWith(`${service}_`);
+
+// The rule's alerting keys in a RED result with their metrics
+function redEntries(rule: AlertRule, red: RedResult | null): Array<[string, RedMetrics]> {
+  if (!red) return [];
+  if (rule.scope === "edge") {
+    return red.edges
+      .filter(edge => !rule.service || touchesService(edge.source, rule.service) || touchesService(edge.target, rule.service))
+      .map(edge => [edgeAlertKey(edge.source, edge.target), edge]);
+  }
+  return red.services
+    .filter(service => !rule.service || service.service === rule.service)
+    .map(service => [service.service, service]);
+}
+
+// Keys the rule is evaluated for besides those with traffic in its window
+export function knownAlertKeys(rule: AlertRule, known: RedResult | null, previousKeys: Iterable<string>): string[] {
+  return Array.from(new Set([...redEntries(rule, known).map(([key]) => key), ...Array.from(previousKeys)]));
+}
+
+// Current value of the rule's metric per alerting key. A known key without traffic has a rate of
+// 0; latency without calls has no value and is skipped
+export function collectAlertValues(
+  rule: AlertRule,
+  red: RedResult | null,
+  resources: ServiceMetrics[],
+  knownKeys: string[] = []
+): Map<string, number> {
+  const values = new Map<string, number>();
+  const metric = rule.metric as AlertMetric;
+
+  if (rule.scope === "service" && (RESOURCE_ALERT_METRICS as readonly string[]).includes(metric)) {
+    resources
+      .filter(sample => !rule.service || sample.serviceName === rule.service)
+      .forEach(sample => values.set(sample.serviceName, Number(sample[metric as keyof ServiceMetrics])));
+    return values;
+  }
+
+  redEntries(rule, red)
+    .filter(([, metrics]) => metrics.requests > 0 || !LATENCY_ALERT_METRICS.includes(metric))
+    .forEach(([key, metrics]) => values.set(key, metrics[metric as keyof RedMetrics]));
+  if (metric === "rate") {
+    knownKeys.filter(key => !values.has(key)).forEach(key => values.set(key, 0));
+  }
+  return values;
+}
+
+export function buildAlertNotification(rule: AlertRule, key: string, state: AlertStateFields, status: "firing" | "resolved"): AlertNotification {
+  const { id, name, scope, metric, operator, threshold, forSeconds } = rule;
+  return {
+    status,
+    rule: { id, name, scope, metric, operator, threshold, forSeconds },
+    key,
+    value: state.value,
+    firedAt: state.firedAt?.toISOString() || null,
+    resolvedAt: state.resolvedAt?.toISOString() || null
+  };
+}
+
+// Sent in the background so a slow receiver never holds up rule evaluation; failures are logged
+function deliverWebhooks(urls: string[], notification: AlertNotification) {
+  Promise.allSettled(urls.map(url => fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(notification),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  }))).then(results => results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`❌ Alert webhook ${urls[index]} failed:`, result.reason);
+    } else if (!result.value.ok) {
+      console.error(`❌ Alert webhook ${urls[index]} responded ${result.value.status}`);
+    }
+  }));
+}
+
+// Evaluate every enabled rule once; RED metrics are computed once per distinct window, plus once
+// over KNOWN_TOPOLOGY_WINDOW_MS for rate rules
+export async function evaluateAlertRules(now: Date = new Date()) {
+  const rules = await db.select().from(alertRules).where(eq(alertRules.enabled, true));
+  if (rules.length === 0) return;
+
+  const existing = await db.select().from(alertStates).where(inArray(alertStates.ruleId, rules.map(rule => rule.id)));
+  const redByWindow = new Map<number, Promise<RedResult>>();
+  const needsResources = rules.some(rule => (RESOURCE_ALERT_METRICS as readonly string[]).includes(rule.metric));
+  const resources = needsResources ? await getLatestServiceMetrics() : [];
+  const known = rules.some(rule => rule.metric === "rate")
+    ? await getRedMetrics({ from: new Date(now.getTime() - KNOWN_TOPOLOGY_WINDOW_MS), to: now })
+    : null;
+
+  for (const rule of rules) {
+    const usesRed = !(RESOURCE_ALERT_METRICS as readonly string[]).includes(rule.metric);
+    if (usesRed && !redByWindow.has(rule.windowSeconds)) {
+      redByWindow.set(rule.windowSeconds, getRedMetrics({ from: new Date(now.getTime() - rule.windowSeconds * 1000), to: now }));
+    }
+    const red = usesRed ? await redByWindow.get(rule.windowSeconds)! : null;
+
+    const previousByKey = new Map<string, AlertState>(
+      existing.filter(state => state.ruleId === rule.id).map(state => [state.key, state])
+    );
+    const values = collectAlertValues(rule, red, resources, knownAlertKeys(rule, known, previousByKey.keys()));
+    const keys = new Set([...Array.from(values.keys()), ...Array.from(previousByKey.keys())]);
+
+    for (const key of Array.from(keys)) {
+      const previous = previousByKey.get(key);
+      const value = values.get(key) ?? null;
+      const breaching = value !== null && breachesThreshold(value, rule.operator, rule.threshold);
+      const { state, notify } = nextAlertState(previous as AlertStateFields | undefined, value, breaching, rule.forSeconds, now);
+
+      if (!state) {
+        if (previous) await db.delete(alertStates).where(eq(alertStates.id, previous.id));
+        continue;
+      }
+      if (state !== previous) {
+        const fields = {
+          status: state.status,
+          value: state.value,
+          pendingSince: state.pendingSince,
+          firedAt: state.firedAt,
+          resolvedAt: state.resolvedAt,
+          updatedAt: now
+        };
+        await db.insert(alertStates)
+          .values({ ruleId: rule.id, key, ...fields })
+          .onConflictDoUpdate({ target: [alertStates.ruleId, alertStates.key], set: fields });
+      }
+
+      if (notify) {
+        console.log(`🔔 Alert "${rule.name}" ${notify} for ${key} (${rule.metric} = ${value})`);
+        deliverWebhooks(rule.webhookUrls as string[], buildAlertNotification(rule, key, state, notify));
+      }
+    }
+  }
+}
+
+let alertInterval: NodeJS.Timeout | null = null;
+let isEvaluating = false;
+
+export function startAlertEngine(intervalMs: number = 30000) {
+  if (alertInterval) {
+    clearInterval(alertInterval);
+  }
+
+  alertInterval = setInterval(async () => {
+    // Skip a tick rather than overlap a slow evaluation
+    if (isEvaluating) return;
+    isEvaluating = true;
+    try {
+      await evaluateAlertRules();
+    } catch (error) {
+      console.error('❌ Error evaluating alert rules:', error);
+    } finally {
+      isEvaluating = false;
+    }
+  }, intervalMs);
+
+  console.log(`🔔 Alert engine started with ${intervalMs}ms interval`);
+}
+
+export function stopAlertEngine() {
+  if (alertInterval) {
+    clearInterval(alertInterval);
+    alertInterval = null;
+    console.log('⏹️ Alert engine stopped');
+  }
+}
+
+export async function listAlertRules() {
+  return db.select().from(alertRules).orderBy(alertRules.id);
+}
+
+export async function createAlertRule(rule: z.infer<typeof alertRuleSchema>) {
+  const [created] = await db.insert(alertRules).values(rule).returning();
+  return created;
+}
+
+// Updates are validated as a whole rule so scope and metric stay consistent
+export async function updateAlertRule(id: number, updates: Record<string, unknown>) {
+  const [current] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+  if (!current) return undefined;
+
+  const { id: _id, createdAt, ...fields } = current;
+  const rule = alertRuleSchema.parse({ ...fields, ...updates });
+  const [updated] = await db.update(alertRules).set(rule).where(eq(alertRules.id, id)).returning();
+
+  // A changed condition starts over instead of resolving against the old threshold
+  await db.delete(alertStates).where(eq(alertStates.ruleId, id));
+  return updated;
+}
+
+export async function deleteAlertRule(id: number) {
+  const deleted = await db.delete(alertRules).where(eq(alertRules.id, id)).returning({ id: alertRules.id });
+  return deleted.length > 0;
+}
+
+// Alert states joined with their rules, newest change first
+export async function getAlerts(statuses: AlertStatus[]): Promise<ActiveAlert[]> {
+  const rows = await db
+    .select({ state: alertStates, rule: alertRules })
+    .from(alertStates)
+    .innerJoin(alertRules, eq(alertStates.ruleId, alertRules.id))
+    .where(and(inArray(alertStates.status, statuses), eq(alertRules.enabled, true)))
+    .orderBy(desc(alertStates.updatedAt))
+    .limit(500);
+
+  return rows.map(({ state, rule }) => ({
+    id: state.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    scope: rule.scope as ActiveAlert["scope"],
+    metric: rule.metric as AlertMetric,
+    operator: rule.operator as AlertOperator,
+    threshold: rule.threshold,
+    key: state.key,
+    status: state.status as AlertStatus,
+    value: state.value,
+    pendingSince: state.pendingSince?.toISOString() || null,
+    firedAt: state.firedAt?.toISOString() || null,
+    resolvedAt: state.resolvedAt?.toISOString() || null
+  }));
+}
@@ -0,0 +1,82 @@
+import type { Edge, Node } from "@shared/schema";
+import { extractHosts, toTopologyImport, type TopologyImport } from "./k8sImport";
+
+// Topology of a local environment from docker-compose.yml: every service becomes a node with its
+// first network as the tenant and the project as the system; edges come from depends_on, links and
+// service hostnames in the environment
+
+type ComposeFile = Record<string, any>;
+
+const DEFAULT_NETWORK = "default";
+const DEFAULT_PROJECT = "docker-compose";
+
+// Top-level `services` map, as opposed to Kubernetes manifests and OpenAPI specs
+export function isComposeFile(json: unknown): boolean {
+  if (!json || typeof json !== "object" || Array.isArray(json)) return false;
+  const file = json as ComposeFile;
+  return !!file.services && typeof file.services === "object" && !Array.isArray(file.services)
+    && !file.apiVersion && !file.kind && !file.openapi && !file.swagger;
+}
+
+// Short (`[a, b]`) and long (`{ a: { ... } }`) syntax both list names
+const names = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : value && typeof value === "object" ? Object.keys(value) : [];
+
+// `environment` as a map or as KEY=value strings
+function environment(value: unknown): Array<[string, string]> {
+  if (Array.isArray(value)) {
+    return value.map(String).filter(entry => entry.includes("="))
+      .map(entry => [entry.slice(0, entry.indexOf("=")), entry.slice(entry.indexOf("=") + 1)]);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([, entry]) => entry !== null && entry !== undefined)
+      .map(([name, entry]) => [name, String(entry)]);
+  }
+  return [];
+}
+
+export function buildComposeTopology(file: ComposeFile): TopologyImport {
+  const services: Array<[string, ComposeFile]> = Object.entries(file.services || {})
+    .map(([name, service]) => [name, (service || {}) as ComposeFile]);
+  const serviceNames = new Set(services.map(([name]) => name));
+  const system = file.name || DEFAULT_PROJECT;
+  const edges = new Map<string, Edge>();
+
+  const nodes: Node[] = services.map(([name, service]) => ({
+    id: name,
+    label: name,
+    service: name,
+    tenant: names(service.networks)[0] || DEFAULT_NETWORK,
+    system,
+    nodeType: "service"
+  }));
+
+  // Names a service is reachable by on its networks: the service name, container_name, hostname and aliases
+  const hosts = new Map<string, string>();
+  services.forEach(([name, service]) => {
+    const networkAliases = service.networks && !Array.isArray(service.networks)
+      ? Object.values<ComposeFile | null>(service.networks).flatMap(network => network?.aliases || [])
+      : [];
+    [name, service.container_name, service.hostname, ...networkAliases]
+      .filter(Boolean)
+      .forEach(host => hosts.set(String(host).toLowerCase(), name));
+  });
+
+  const addEdge = (source: string, target: string | undefined, label: string) => {
+    if (!target || source === target || !serviceNames.has(target)) return;
+    const id = `${source}->${target}:${label}`;
+    if (!edges.has(id)) edges.set(id, { id, source, target, label });
+  };
+
+  services.forEach(([name, service]) => {
+    names(service.depends_on).forEach(target => addEdge(name, target, "depends_on"));
+    // `service` or `service:alias`
+    (service.links || []).forEach((link: string) => addEdge(name, String(link).split(":")[0], "link"));
+    environment(service.environment).forEach(([variable, value]) => {
+      extractHosts(value).forEach(host => addEdge(name, hosts.get(host), `env ${variable}`));
+    });
+  });
+
+  return toTopologyImport(nodes, Array.from(edges.values()));
+}
@@ -0,0 +1,86 @@
+import { db } from "./db";
+import { traces, spans } from "@shared/schema";
+import { sql, and, eq, gte, lte, isNull, inArray, desc, asc, type SQL } from "drizzle-orm";
+import { computeCriticalPath, aggregateCriticalPaths, type CriticalPath } from "@shared/criticalPath";
+
+export interface CriticalPathQuery {
+  from: Date;
+  to: Date;
+  tenant?: string;
+  operation?: string; // entry operation as `${service}_${operation}`
+  limit: number;
+}
+
+// Entry operations listed for selection in the sidebar
+const MAX_ENTRY_OPERATIONS = 20;
+
+// Trace with its spans and critical path
+export async function getTraceWithCriticalPath(traceId: string) {
+  const [trace] = await db.select().from(traces).where(eq(traces.traceId, traceId));
+  const traceSpans = await db
+    .select()
+    .from(spans)
+    .where(eq(spans.traceId, traceId))
+    .orderBy(asc(spans.startTime));
+
+  if (!trace && traceSpans.length === 0) {
+    return null;
+  }
+
+  return {
+    trace: trace || null,
+    spans: traceSpans,
+    criticalPath: computeCriticalPath(traceSpans)
+  };
+}
+
+// Services most often on the critical path of traces entering through one operation
+export async function getCriticalPathSummary(query: CriticalPathQuery) {
+  const entryKey = sql<string>`${spans.serviceName} || '_' || ${spans.operationName}`;
+  const rootConditions: SQL[] = [
+    isNull(spans.parentSpanId),
+    gte(spans.startTime, query.from),
+    lte(spans.startTime, query.to)
+  ];
+  if (query.tenant) {
+    rootConditions.push(eq(spans.tenant, query.tenant));
+  }
+
+  const entryOperations = await db
+    .select({ operation: entryKey, traces: sql<number>`count(distinct ${spans.traceId})::int` })
+    .from(spans)
+    .where(and(...rootConditions))
+    .groupBy(spans.serviceName, spans.operationName)
+    .orderBy(desc(sql`count(distinct ${spans.traceId})`))
+    .limit(MAX_ENTRY_OPERATIONS);
+
+  const operation = query.operation || entryOperations[0]?.operation || null;
+  if (!operation) {
+    return { entryOperations, ...aggregateCriticalPaths(null, []) };
+  }
+
+  const traceRows = await db
+    .selectDistinct({ traceId: spans.traceId, startTime: spans.startTime })
+    .from(spans)
+    .where(and(...rootConditions, eq(entryKey, operation)))
+    .orderBy(desc(spans.startTime))
+    .limit(query.limit);
+
+  const traceIds = traceRows.map(row => row.traceId);
+  const traceSpans = traceIds.length > 0
+    ? await db.select().from(spans).where(inArray(spans.traceId, traceIds))
+    : [];
+
+  const spansByTrace = new Map<string, typeof traceSpans>();
+  traceSpans.forEach(span => {
+    const list = spansByTrace.get(span.traceId) || [];
+    list.push(span);
+    spansByTrace.set(span.traceId, list);
+  });
+
+  const paths = Array.from(spansByTrace.values())
+    .map(list => computeCriticalPath(list))
+    .filter((path): path is CriticalPath => path !== null);
+
+  return { entryOperations, ...aggregateCriticalPaths(operation, paths) };
+}
@@ -0,0 +1,211 @@
+import { GENERATOR_NAMES, type GeneratorBatchJob, type GeneratorName, type GeneratorStatus } from "@shared/generators";
+import { createRandom, normalizeSeed, type GenerationOptions, type Random, type Seed } from "./seededRandom";
+import { generateNetworkEvents } from "./networkGenerator";
+import { generateOpenTelemetryTraces } from "./opentelemetryGenerator";
+import { generateRealisticTraces } from "./realisticOtelGenerator";
+import { generateAndStoreMetricsForAllServices } from "./serviceMetricsGenerator";
+import { getScenarioElapsedSeconds, getScenarioLoadedAt } from "./scenario";
+import { recordIngested } from "./selfMetrics";
+
+export interface GeneratorDefinition {
+  name: GeneratorName;
+  description: string;
+  defaultIntervalMs: number;
+  run: (options: GenerationOptions) => Promise<number>; // one generation pass; resolves to the number of rows written
+  exclusiveWith?: GeneratorName[]; // generators stopped when this one starts
+}
+
+export const MIN_GENERATOR_INTERVAL_MS = 100;
+export const MAX_GENERATOR_BATCH_COUNT = 10000;
+
+// The two trace generators write the same service graph, so only one of them runs at a time
+export const GENERATORS: GeneratorDefinition[] = [
+  { name: "network", description: "Network events", defaultIntervalMs: 2000, run: generateNetworkEvents },
+  { name: "otel", description: "OpenTelemetry traces", defaultIntervalMs: 5000, run: generateOpenTelemetryTraces, exclusiveWith: ["realistic"] },
+  { name: "realistic", description: "Realistic Gateway → API Bus → Business Services traces", defaultIntervalMs: 2000, run: generateRealisticTraces, exclusiveWith: ["otel"] },
+  { name: "metrics", description: "Service resource metrics", defaultIntervalMs: 30000, run: generateAndStoreMetricsForAllServices }
+];
+
+interface GeneratorState {
+  definition: GeneratorDefinition;
+  timer: NodeJS.Timeout | null;
+  isRunning: boolean; // a pass is in flight
+  intervalMs: number;
+  seed: number | null;
+  random: Random;
+  runId: string | null; // caller's prefix for generated trace and span IDs
+  startedAt: Date | null;
+  ticks: number; // interval ticks since the start, the run's own clock
+  eventsProduced: number;
+  lastRunAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+  batch: GeneratorBatchJob | null;
+}
+
+export const isGeneratorName = (name: string): name is GeneratorName => (GENERATOR_NAMES as readonly string[]).includes(name);
+
+export function createGeneratorManager(definitions: GeneratorDefinition[]) {
+  const states = new Map<GeneratorName, GeneratorState>(definitions.map(definition => [definition.name, {
+    definition,
+    timer: null,
+    isRunning: false,
+    intervalMs: definition.defaultIntervalMs,
+    seed: null,
+    random: Math.random,
+    runId: null,
+    startedAt: null,
+    ticks: 0,
+    eventsProduced: 0,
+    lastRunAt: null,
+    lastError: null,
+    batch: null
+  }]));
+
+  const toStatus = (state: GeneratorState): GeneratorStatus => ({
+    name: state.definition.name,
+    description: state.definition.description,
+    running: state.timer !== null,
+    intervalMs: state.intervalMs,
+    seed: state.seed,
+    startedAt: state.startedAt?.toISOString() || null,
+    eventsProduced: state.eventsProduced,
+    lastRunAt: state.lastRunAt?.toISOString() || null,
+    lastError: state.lastError ? { message: state.lastError.message, at: state.lastError.at.toISOString() } : null,
+    batch: state.batch ? { ...state.batch } : null
+  });
+
+  // Seconds into the active scenario, counted on the run's own clock (ticks × interval) so a
+  // seeded run meets the scenario's faults at the same passes every time; a scenario loaded
+  // after the run started counts from its load
+  const scenarioElapsedSeconds = (state: GeneratorState, tick: number, now: Date) =>
+    state.startedAt && getScenarioLoadedAt().getTime() <= state.startedAt.getTime()
+      ? tick * state.intervalMs / 1000
+      : getScenarioElapsedSeconds(now);
+
+  // A slow pass skips the next tick instead of overlapping it
+  const runOnce = async (state: GeneratorState) => {
+    const tick = state.ticks++;
+    if (state.isRunning) return;
+    state.isRunning = true;
+    try {
+      const now = new Date();
+      const rows = await state.definition.run({
+        random: state.random,
+        now,
+        runId: state.runId ?? undefined,
+        elapsedSec: scenarioElapsedSeconds(state, tick, now)
+      });
+      state.eventsProduced += rows;
+      recordIngested(state.definition.name, rows);
+    } catch (error) {
+      state.lastError = { message: error instanceof Error ? error.message : String(error), at: new Date() };
+      console.error(`❌ Generator ${state.definition.name} failed:`, error);
+    } finally {
+      state.lastRunAt = new Date();
+      state.isRunning = false;
+    }
+  };
+
+  const stop = (name: GeneratorName): GeneratorStatus | undefined => {
+    const state = states.get(name);
+    if (!state) return undefined;
+    if (state.timer) {
+      clearInterval(state.timer);
+      state.timer = null;
+      console.log(`⏹️ Generator ${name} stopped`);
+    }
+    return toStatus(state);
+  };
+
+  // Restarting a running generator applies the new interval and seed and resets its counters.
+  // A seeded run replays the same sequence of traces, with the same IDs unless runId prefixes them
+  const start = (name: GeneratorName, intervalMs?: number, seed?: Seed, runId?: string): GeneratorStatus | undefined => {
+    const state = states.get(name);
+    if (!state) return undefined;
+
+    stop(name);
+    state.definition.exclusiveWith?.forEach(other => stop(other));
+
+    state.intervalMs = intervalMs ?? state.definition.defaultIntervalMs;
+    state.seed = seed === undefined ? null : normalizeSeed(seed);
+    state.random = createRandom(state.seed);
+    state.runId = runId ?? null;
+    state.startedAt = new Date();
+    state.ticks = 0;
+    state.eventsProduced = 0;
+    state.lastError = null;
+    state.timer = setInterval(() => runOnce(state), state.intervalMs);
+    runOnce(state);
+
+    console.log(`🚀 Generator ${name} started with ${state.intervalMs}ms interval${state.seed === null ? '' : `, seed ${state.seed}`}`);
+    return toStatus(state);
+  };
+
+  // Generate `count` passes in the background, with timestamps spread evenly over the window and
+  // the scenario clock starting at `from`; independent of the interval run and not pushed to the
+  // live stream. Progress shows in the generator's status, and `done` resolves when the job ends
+  const batch = (name: GeneratorName, options: { count: number; from: Date; to: Date; seed?: Seed; runId?: string }): { job: GeneratorBatchJob; done: Promise<GeneratorBatchJob> } | undefined => {
+    const state = states.get(name);
+    if (!state) return undefined;
+    if (state.batch?.state === "running") {
+      throw new Error(`A backfill of ${name} is already running`);
+    }
+
+    const seed = options.seed === undefined ? null : normalizeSeed(options.seed);
+    const random = createRandom(seed);
+    const stepMs = (options.to.getTime() - options.from.getTime()) / options.count;
+    const job: GeneratorBatchJob = {
+      name,
+      state: "running",
+      count: options.count,
+      completed: 0,
+      rowsWritten: 0,
+      from: options.from.toISOString(),
+      to: options.to.toISOString(),
+      seed,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null
+    };
+    state.batch = job;
+
+    const done = (async () => {
+      try {
+        for (let i = 0; i < options.count; i++) {
+          const offsetMs = (i + 0.5) * stepMs;
+          const now = new Date(options.from.getTime() + offsetMs);
+          job.rowsWritten += await state.definition.run({ random, now, publish: false, runId: options.runId, elapsedSec: offsetMs / 1000 });
+          job.completed++;
+        }
+        job.state = "done";
+        console.log(`⏪ Generator ${name} backfilled ${options.count} passes (${job.rowsWritten} rows) from ${job.from} to ${job.to}`);
+      } catch (error) {
+        job.state = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Generator ${name} backfill failed after ${job.completed} passes:`, error);
+      } finally {
+        job.finishedAt = new Date().toISOString();
+        recordIngested(name, job.rowsWritten);
+      }
+      return { ...job };
+    })();
+
+    return { job: { ...job }, done };
+  };
+
+  return {
+    list: () => Array.from(states.values()).map(toStatus),
+    get: (name: GeneratorName) => {
+      const state = states.get(name);
+      return state ? toStatus(state) : undefined;
+    },
+    start,
+    stop,
+    batch,
+    stopAll: () => Array.from(states.keys()).forEach(stop)
+  };
+}
+
+export type GeneratorManager = ReturnType<typeof createGeneratorManager>;
+
+export const generatorManager = createGeneratorManager(GENERATORS);
@@ -1,11 +1,18 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { startServiceMetricsGeneration } from "./serviceMetricsGenerator";
+import { generatorManager } from "./generatorManager";
+import { startAlertEngine } from "./alertEngine";
+import { startRollupJob } from "./rollups";
+import { startRetentionJob } from "./retention";
+import { startPrometheusScraper } from "./prometheusIngest";
+import { recordHttpRequests } from "./selfMetrics";
 
 const app = express();
+app.use("/v1/traces", express.json({ limit: "16mb" })); // OTLP exporters batch large payloads
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use(recordHttpRequests);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -69,7 +76,12 @@ app.use((req, res, next) => {
     log(`serving on port ${port}`);
     
     // Start service metrics generation automatically on startup
-    startServiceMetricsGeneration(30000); // Generate metrics every 30 seconds
+    generatorManager.start("metrics", 30000); // Generate metrics every 30 seconds
     log("Service metrics generation started");
+
+    startAlertEngine(30000);
+    startRollupJob(60000);
+    startRetentionJob(10 * 60 * 1000);
+    startPrometheusScraper(30000);
   });
 })();
@@ -0,0 +1,279 @@
+import { parseAllDocuments } from "yaml";
+import type { DiagramData, Edge, Node } from "@shared/schema";
+
+// Intended topology from Kubernetes manifests: workloads, Services and Ingresses become nodes,
+// their namespace the tenant; edges come from Service selectors, Ingress backends, service
+// hostnames in container env and NetworkPolicy allow rules
+
+// Shared by the manifest, docker-compose and OpenAPI imports
+export interface TopologyImport {
+  data: DiagramData;
+  stats: { nodeCount: number; edgeCount: number; componentCount: number };
+}
+
+type Manifest = Record<string, any>;
+type Labels = Record<string, string>;
+
+interface LabelSelector {
+  matchLabels?: Labels;
+  matchExpressions?: Array<{ key: string; operator: string; values?: string[] }>;
+}
+
+interface Workload {
+  node: Node;
+  namespace: string;
+  podLabels: Labels;
+  containers: Manifest[];
+}
+
+// Pod template location per workload kind
+const POD_TEMPLATES: Record<string, (spec: Manifest) => Manifest | undefined> = {
+  Deployment: spec => spec?.template,
+  StatefulSet: spec => spec?.template,
+  DaemonSet: spec => spec?.template,
+  ReplicaSet: spec => spec?.template,
+  Job: spec => spec?.template,
+  CronJob: spec => spec?.jobTemplate?.spec?.template
+};
+
+const KIND_PREFIXES: Record<string, string> = {
+  Deployment: "deploy",
+  StatefulSet: "sts",
+  DaemonSet: "ds",
+  ReplicaSet: "rs",
+  Job: "job",
+  CronJob: "cronjob",
+  Service: "svc",
+  Ingress: "ing"
+};
+
+const namespaceOf = (manifest: Manifest) => manifest.metadata?.namespace || "default";
+
+const nodeId = (manifest: Manifest) => `${namespaceOf(manifest)}/${KIND_PREFIXES[manifest.kind]}/${manifest.metadata.name}`;
+
+// `kubectl get -o json` returns a List; a single object or an array of objects works too
+export function isKubernetesManifest(json: unknown): boolean {
+  const items = Array.isArray(json) ? json : [json];
+  return items.length > 0 && items.every(item =>
+    item !== null && typeof item === "object" && typeof (item as Manifest).apiVersion === "string" && typeof (item as Manifest).kind === "string");
+}
+
+// Unwraps Lists (and arrays) into single objects
+export function flattenManifests(documents: unknown[]): Manifest[] {
+  return documents.flatMap(document => {
+    if (!document || typeof document !== "object") return [];
+    if (Array.isArray(document)) return flattenManifests(document);
+    const manifest = document as Manifest;
+    return manifest.kind === "List" || manifest.kind?.endsWith("List") ? flattenManifests(manifest.items || []) : [manifest];
+  });
+}
+
+export function parseYamlDocuments(text: string): unknown[] {
+  const documents = parseAllDocuments(text);
+  const failed = documents.find(document => document.errors.length > 0);
+  if (failed) {
+    throw new Error(`Invalid YAML: ${failed.errors[0].message}`);
+  }
+  return documents.map(document => document.toJS());
+}
+
+export const parseKubernetesYaml = (text: string): Manifest[] => flattenManifests(parseYamlDocuments(text));
+
+export function toTopologyImport(nodes: Node[], edges: Edge[]): TopologyImport {
+  return {
+    data: { nodes, edges },
+    stats: {
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      componentCount: new Set(nodes.map(node => node.tenant)).size
+    }
+  };
+}
+
+export function matchesSelector(labels: Labels, selector: LabelSelector | undefined): boolean {
+  if (!selector) return false;
+  const matchLabels = Object.entries(selector.matchLabels || {}).every(([key, value]) => labels[key] === value);
+  const matchExpressions = (selector.matchExpressions || []).every(({ key, operator, values = [] }) => {
+    switch (operator) {
+      case "In": return key in labels && values.includes(labels[key]);
+      case "NotIn": return !(key in labels) || !values.includes(labels[key]);
+      case "Exists": return key in labels;
+      case "DoesNotExist": return !(key in labels);
+      default: return false;
+    }
+  });
+  return matchLabels && matchExpressions;
+}
+
+// Hosts in an env value: the host of every URL (postgres://user:pw@db:5432/x), otherwise each
+// comma-separated host[:port] (kafka-0:9092,kafka-1:9092)
+export function extractHosts(value: string): string[] {
+  const urlHosts = Array.from(value.matchAll(/[a-z][a-z0-9+.-]*:\/\/(?:[^@/\s]*@)?([^:/\s,;?#]+)/gi), match => match[1]);
+  if (urlHosts.length > 0) return urlHosts.map(host => host.toLowerCase());
+
+  return value.split(",")
+    .map(part => /^\s*([a-z0-9]([a-z0-9.-]*[a-z0-9])?)(:\d+)?\s*$/i.exec(part)?.[1])
+    .filter((host): host is string => Boolean(host))
+    .map(host => host.toLowerCase());
+}
+
+// Env values of a container, including those pulled in from ConfigMaps and Secrets in the import
+function containerEnv(container: Manifest, namespace: string, configs: Map<string, Record<string, string>>): Array<[string, string]> {
+  const env: Array<[string, string]> = [];
+  const source = (kind: string, name: string | undefined) => configs.get(`${namespace}/${kind}/${name}`) || {};
+
+  (container.envFrom || []).forEach((from: Manifest) => {
+    const values = from.configMapRef ? source("ConfigMap", from.configMapRef.name)
+      : from.secretRef ? source("Secret", from.secretRef.name) : {};
+    Object.entries(values).forEach(([key, value]) => env.push([`${from.prefix || ""}${key}`, String(value)]));
+  });
+
+  (container.env || []).forEach((variable: Manifest) => {
+    const configMapKey = variable.valueFrom?.configMapKeyRef;
+    const secretKey = variable.valueFrom?.secretKeyRef;
+    const value = variable.value !== undefined ? variable.value
+      : configMapKey ? source("ConfigMap", configMapKey.name)[configMapKey.key]
+      : secretKey ? source("Secret", secretKey.name)[secretKey.key] : undefined;
+    // Unquoted YAML values (ports, flags) arrive as numbers and booleans
+    if (value !== undefined && value !== null) env.push([variable.name, String(value)]);
+  });
+
+  return env;
+}
+
+export function buildKubernetesTopology(manifests: Manifest[]): TopologyImport {
+  const nodes = new Map<string, Node>();
+  const edges = new Map<string, Edge>();
+  const workloads: Workload[] = [];
+  const services: Array<{ manifest: Manifest; node: Node }> = [];
+  const configs = new Map<string, Record<string, string>>();
+  const namespaceLabels = new Map<string, Labels>();
+
+  const addNode = (manifest: Manifest): Node => {
+    const node: Node = {
+      id: nodeId(manifest),
+      label: manifest.metadata.name,
+      service: manifest.metadata.name,
+      tenant: namespaceOf(manifest),
+      system: manifest.kind,
+      nodeType: "service"
+    };
+    nodes.set(node.id, node);
+    return node;
+  };
+
+  const addEdge = (source: string, target: string, label: string) => {
+    if (source === target) return;
+    const id = `${source}->${target}:${label}`;
+    if (!edges.has(id)) edges.set(id, { id, source, target, label });
+  };
+
+  manifests.forEach(manifest => {
+    if (!manifest.metadata?.name) return;
+    const namespace = namespaceOf(manifest);
+
+    if (manifest.kind === "Namespace") {
+      namespaceLabels.set(manifest.metadata.name, manifest.metadata.labels || {});
+    } else if (manifest.kind === "ConfigMap") {
+      configs.set(`${namespace}/ConfigMap/${manifest.metadata.name}`, manifest.data || {});
+    } else if (manifest.kind === "Secret") {
+      const decoded = Object.fromEntries(Object.entries<string>(manifest.data || {})
+        .map(([key, value]) => [key, Buffer.from(String(value), "base64").toString("utf-8")]));
+      configs.set(`${namespace}/Secret/${manifest.metadata.name}`, { ...decoded, ...(manifest.stringData || {}) });
+    } else if (POD_TEMPLATES[manifest.kind]) {
+      const template = POD_TEMPLATES[manifest.kind](manifest.spec) || {};
+      workloads.push({
+        node: addNode(manifest),
+        namespace,
+        podLabels: template.metadata?.labels || {},
+        containers: [...(template.spec?.initContainers || []), ...(template.spec?.containers || [])]
+      });
+    } else if (manifest.kind === "Service") {
+      services.push({ manifest, node: addNode(manifest) });
+    }
+  });
+
+  // Every namespace carries its own name as a label, which namespaceSelectors commonly use
+  [...workloads.map(workload => workload.namespace), ...services.map(service => namespaceOf(service.manifest))].forEach(namespace => {
+    namespaceLabels.set(namespace, { "kubernetes.io/metadata.name": namespace, ...(namespaceLabels.get(namespace) || {}) });
+  });
+
+  // Service → the workloads its selector picks
+  services.forEach(({ manifest, node }) => {
+    const selector = manifest.spec?.selector;
+    if (!selector || Object.keys(selector).length === 0) return;
+    workloads
+      .filter(workload => workload.namespace === node.tenant && matchesSelector(workload.podLabels, { matchLabels: selector }))
+      .forEach(workload => addEdge(node.id, workload.node.id, "selector"));
+  });
+
+  // Ingress → backend Services (networking.k8s.io/v1 and the older extensions/v1beta1 shape)
+  manifests.filter(manifest => manifest.kind === "Ingress" && manifest.metadata?.name).forEach(manifest => {
+    const node = addNode(manifest);
+    const backends = [
+      manifest.spec?.defaultBackend,
+      manifest.spec?.backend,
+      ...(manifest.spec?.rules || []).flatMap((rule: Manifest) => (rule.http?.paths || []).map((path: Manifest) => path.backend))
+    ];
+    backends.forEach(backend => {
+      const serviceName = backend?.service?.name || backend?.serviceName;
+      const target = `${node.tenant}/svc/${serviceName}`;
+      if (serviceName && nodes.has(target)) addEdge(node.id, target, "ingress");
+    });
+  });
+
+  // Workload → Services named in its env: `name` within the namespace, `name.namespace[.svc[.cluster.local]]` across
+  const serviceHosts = (namespace: string) => {
+    const hosts = new Map<string, string>();
+    services.forEach(({ manifest, node }) => {
+      const name = manifest.metadata.name;
+      const serviceNamespace = namespaceOf(manifest);
+      [`${name}.${serviceNamespace}`, `${name}.${serviceNamespace}.svc`, `${name}.${serviceNamespace}.svc.cluster.local`]
+        .forEach(host => hosts.set(host, node.id));
+      if (serviceNamespace === namespace) hosts.set(name, node.id);
+    });
+    return hosts;
+  };
+  workloads.forEach(workload => {
+    const hosts = serviceHosts(workload.namespace);
+    workload.containers.forEach(container => {
+      containerEnv(container, workload.namespace, configs).forEach(([name, value]) => {
+        extractHosts(value).forEach(host => {
+          const target = hosts.get(host);
+          if (target) addEdge(workload.node.id, target, `env ${name}`);
+        });
+      });
+    });
+  });
+
+  // NetworkPolicy: pods its podSelector picks accept traffic from the `from` peers of its ingress
+  // rules and may send to the `to` peers of its egress rules; ipBlock peers are outside the import
+  const peerWorkloads = (peer: Manifest, policyNamespace: string) => {
+    if (!peer.podSelector && !peer.namespaceSelector) return [];
+    return workloads.filter(workload => {
+      const inNamespace = peer.namespaceSelector
+        ? matchesSelector(namespaceLabels.get(workload.namespace) || {}, peer.namespaceSelector)
+        : workload.namespace === policyNamespace;
+      return inNamespace && (!peer.podSelector || matchesSelector(workload.podLabels, peer.podSelector));
+    });
+  };
+  manifests.filter(manifest => manifest.kind === "NetworkPolicy" && manifest.metadata?.name).forEach(policy => {
+    const namespace = namespaceOf(policy);
+    const label = `network-policy ${policy.metadata.name}`;
+    const selected = workloads.filter(workload =>
+      workload.namespace === namespace && matchesSelector(workload.podLabels, policy.spec?.podSelector || {}));
+
+    (policy.spec?.ingress || []).forEach((rule: Manifest) => {
+      (rule.from || []).flatMap((peer: Manifest) => peerWorkloads(peer, namespace)).forEach((source: Workload) => {
+        selected.forEach(target => addEdge(source.node.id, target.node.id, label));
+      });
+    });
+    (policy.spec?.egress || []).forEach((rule: Manifest) => {
+      (rule.to || []).flatMap((peer: Manifest) => peerWorkloads(peer, namespace)).forEach((target: Workload) => {
+        selected.forEach(source => addEdge(source.node.id, target.node.id, label));
+      });
+    });
+  });
+
+  return toTopologyImport(Array.from(nodes.values()), Array.from(edges.values()));
+}
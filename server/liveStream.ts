@@ -0,0 +1,350 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { db } from "./db";
+import { networkEvents, traces } from "@shared/schema";
+import { and, gt, lte, asc, sql } from "drizzle-orm";
+import type { NetworkEvent, Trace, ServiceMetrics } from "@shared/schema";
+import { getLatestServiceMetrics } from "./serviceMetricsGenerator";
+
+export const LIVE_STREAM_PATH = "/api/live";
+
+// Empty lists match everything
+export interface LiveFilters {
+  tenants: string[];
+  services: string[];
+  statuses: string[];
+}
+
+// Highest delivered network_events / traces ids; a reconnecting client sends it back to resume
+export interface LiveCursor {
+  events: number;
+  traces: number;
+}
+
+export type LiveMessage =
+  | { type: "ready"; cursor: LiveCursor; replayed: number }
+  | { type: "network-events"; events: NetworkEvent[]; cursor: LiveCursor }
+  | { type: "trace"; trace: Trace; cursor: LiveCursor }
+  | { type: "service-metrics"; metrics: ServiceMetrics[] }
+  | { type: "error"; message: string };
+
+interface Subscriber {
+  filters: LiveFilters;
+  cursor: LiveCursor;
+  // Concurrent inserts can publish events out of id order, so delivered ids are tracked rather
+  // than everything below the cursor being skipped; ids at or below the floor count as delivered
+  eventsFloor: number;
+  deliveredEvents: Set<number>;
+  // Live messages are held back until the resume replay has been sent
+  ready: boolean;
+  pending: Array<() => void>;
+  send: (message: LiveMessage) => void;
+}
+
+// Rows fetched per replay query on resume
+const REPLAY_PAGE_SIZE = 1000;
+
+// Delivered event ids remembered per subscriber; older ones raise the floor
+const DELIVERED_EVENTS_LIMIT = 10000;
+
+const subscribers = new Set<Subscriber>();
+
+export const getLiveSubscriberCount = () => subscribers.size;
+
+const EMPTY_FILTERS: LiveFilters = { tenants: [], services: [], statuses: [] };
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(toList);
+  if (typeof value !== "string") return [];
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+export function parseLiveFilters(input: Record<string, unknown> | undefined): LiveFilters {
+  if (!input) return EMPTY_FILTERS;
+  return {
+    tenants: toList(input.tenants ?? input.tenant),
+    services: toList(input.services ?? input.service),
+    statuses: toList(input.statuses ?? input.status)
+  };
+}
+
+// "5xx" matches any 5xx status code
+function statusMatches(filter: string, status: string | null | undefined) {
+  if (!status) return false;
+  if (/^\dxx$/i.test(filter)) return status.startsWith(filter[0]);
+  return filter === status;
+}
+
+export function matchesLiveFilters(
+  filters: LiveFilters,
+  item: { tenants: Array<string | null | undefined>; services: Array<string | null | undefined>; status?: string | null }
+): boolean {
+  if (filters.tenants.length > 0 && !item.tenants.some(t => t && filters.tenants.includes(t))) return false;
+  if (filters.services.length > 0 && !item.services.some(s => s && filters.services.includes(s))) return false;
+  if (filters.statuses.length > 0 && item.status !== undefined && !filters.statuses.some(f => statusMatches(f, item.status))) {
+    return false;
+  }
+  return true;
+}
+
+const eventMatches = (filters: LiveFilters, event: NetworkEvent) => matchesLiveFilters(filters, {
+  tenants: [event.sourceTenant, event.targetTenant],
+  services: [event.sourceService, event.targetService],
+  status: event.status
+});
+
+const traceMatches = (filters: LiveFilters, trace: Trace) => matchesLiveFilters(filters, {
+  tenants: [trace.tenant],
+  services: [trace.serviceName],
+  status: trace.status
+});
+
+// Service metrics carry no tenant or status, so only the service filter applies
+const metricsMatch = (filters: LiveFilters, metric: ServiceMetrics) =>
+  filters.services.length === 0 || filters.services.includes(metric.serviceName);
+
+function deliver(subscriber: Subscriber, action: () => void) {
+  if (subscriber.ready) {
+    action();
+  } else {
+    subscriber.pending.push(action);
+  }
+}
+
+function sendEvents(subscriber: Subscriber, events: NetworkEvent[]) {
+  const fresh = events.filter(event => event.id > subscriber.eventsFloor && !subscriber.deliveredEvents.has(event.id));
+  if (fresh.length === 0) return;
+
+  fresh.forEach(event => subscriber.deliveredEvents.add(event.id));
+  // Sets iterate in insertion order, so the oldest deliveries are forgotten first
+  Array.from(subscriber.deliveredEvents)
+    .slice(0, Math.max(0, subscriber.deliveredEvents.size - DELIVERED_EVENTS_LIMIT))
+    .forEach(id => {
+      subscriber.deliveredEvents.delete(id);
+      subscriber.eventsFloor = Math.max(subscriber.eventsFloor, id);
+    });
+
+  subscriber.cursor = { ...subscriber.cursor, events: Math.max(subscriber.cursor.events, ...fresh.map(event => event.id)) };
+  const matching = fresh.filter(event => eventMatches(subscriber.filters, event));
+  if (matching.length > 0) {
+    subscriber.send({ type: "network-events", events: matching, cursor: subscriber.cursor });
+  }
+}
+
+// OTLP batches upsert trace rows, so an already delivered id can arrive again with new spans
+function sendTrace(subscriber: Subscriber, trace: Trace) {
+  subscriber.cursor = { ...subscriber.cursor, traces: Math.max(subscriber.cursor.traces, trace.id) };
+  if (traceMatches(subscriber.filters, trace)) {
+    subscriber.send({ type: "trace", trace, cursor: subscriber.cursor });
+  }
+}
+
+function sendMetrics(subscriber: Subscriber, metrics: ServiceMetrics[]) {
+  const matching = metrics.filter(metric => metricsMatch(subscriber.filters, metric));
+  if (matching.length > 0) {
+    subscriber.send({ type: "service-metrics", metrics: matching });
+  }
+}
+
+export function publishNetworkEvents(events: NetworkEvent[]) {
+  if (events.length === 0) return;
+  subscribers.forEach(subscriber => deliver(subscriber, () => sendEvents(subscriber, events)));
+}
+
+export function publishTrace(trace: Trace) {
+  subscribers.forEach(subscriber => deliver(subscriber, () => sendTrace(subscriber, trace)));
+}
+
+export function publishServiceMetrics(metrics: ServiceMetrics[]) {
+  if (metrics.length === 0) return;
+  subscribers.forEach(subscriber => deliver(subscriber, () => sendMetrics(subscriber, metrics)));
+}
+
+// Page through the rows after the client's cursor up to the head seen when it subscribed;
+// anything newer arrives as live messages
+async function replayPages<T extends { id: number }>(
+  after: number,
+  head: number,
+  fetchPage: (after: number, head: number) => Promise<T[]>,
+  send: (rows: T[]) => void
+): Promise<number> {
+  let replayed = 0;
+  while (after < head) {
+    const page = await fetchPage(after, head);
+    send(page);
+    replayed += page.length;
+    if (page.length < REPLAY_PAGE_SIZE) break;
+    after = page[page.length - 1].id;
+  }
+  return replayed;
+}
+
+async function currentCursor(): Promise<LiveCursor> {
+  const [eventsRow] = await db.select({ id: sql<number>`coalesce(max(${networkEvents.id}), 0)::int` }).from(networkEvents);
+  const [tracesRow] = await db.select({ id: sql<number>`coalesce(max(${traces.id}), 0)::int` }).from(traces);
+  return { events: eventsRow.id, traces: tracesRow.id };
+}
+
+// Register a subscriber: replay everything after the client's cursor (or start from "now"),
+// send the latest service metrics, then release any live messages queued in the meantime
+export async function subscribe(
+  filters: LiveFilters,
+  cursor: Partial<LiveCursor> | null,
+  send: (message: LiveMessage) => void
+): Promise<() => void> {
+  const subscriber: Subscriber = {
+    filters,
+    cursor: { events: 0, traces: 0 },
+    eventsFloor: 0,
+    deliveredEvents: new Set(),
+    ready: false,
+    pending: [],
+    send
+  };
+  subscribers.add(subscriber);
+
+  let replayed = 0;
+  try {
+    const start = await currentCursor();
+    subscriber.cursor = {
+      events: cursor?.events ?? start.events,
+      traces: cursor?.traces ?? start.traces
+    };
+    subscriber.eventsFloor = subscriber.cursor.events;
+
+    if (cursor?.events !== undefined) {
+      replayed += await replayPages(
+        cursor.events,
+        start.events,
+        (after, head) => db
+          .select()
+          .from(networkEvents)
+          .where(and(gt(networkEvents.id, after), lte(networkEvents.id, head)))
+          .orderBy(asc(networkEvents.id))
+          .limit(REPLAY_PAGE_SIZE),
+        missedEvents => sendEvents(subscriber, missedEvents)
+      );
+    }
+
+    if (cursor?.traces !== undefined) {
+      replayed += await replayPages(
+        cursor.traces,
+        start.traces,
+        (after, head) => db
+          .select()
+          .from(traces)
+          .where(and(gt(traces.id, after), lte(traces.id, head)))
+          .orderBy(asc(traces.id))
+          .limit(REPLAY_PAGE_SIZE),
+        missedTraces => missedTraces.forEach(trace => sendTrace(subscriber, trace))
+      );
+    }
+
+    sendMetrics(subscriber, await getLatestServiceMetrics());
+  } catch (error) {
+    console.error('❌ Error replaying live stream:', error);
+    send({ type: "error", message: "Failed to replay missed events" });
+  }
+
+  send({ type: "ready", cursor: subscriber.cursor, replayed });
+  subscriber.ready = true;
+  subscriber.pending.splice(0).forEach(action => action());
+
+  return () => {
+    subscribers.delete(subscriber);
+  };
+}
+
+// WebSocket channel: the client sends {type: "subscribe", filters, cursor} after connecting,
+// and again whenever its filters change
+export function attachLiveStream(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Other upgrade requests (the Vite HMR socket in development) are left alone
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url || "", "http://localhost").pathname !== LIVE_STREAM_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    let unsubscribe: (() => void) | null = null;
+    let closed = false;
+    const send = (message: LiveMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    // Subscribe messages are handled one at a time, so a re-subscribe never overlaps the replay
+    // of the previous one and leaves a subscriber behind
+    let queue: Promise<void> = Promise.resolve();
+    const resubscribe = async (message: any) => {
+      unsubscribe?.();
+      unsubscribe = null;
+      if (closed) return;
+      unsubscribe = await subscribe(parseLiveFilters(message.filters), message.cursor || null, send);
+      if (closed) unsubscribe();
+    };
+
+    ws.on("message", (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return send({ type: "error", message: "Messages must be JSON" });
+      }
+
+      if (message?.type !== "subscribe") {
+        return send({ type: "error", message: `Unknown message type: ${message?.type}` });
+      }
+
+      queue = queue.then(() => resubscribe(message));
+    });
+
+    ws.on("close", () => {
+      closed = true;
+      unsubscribe?.();
+    });
+
+    // Protocol errors (e.g. an unmasked client frame) are emitted on the socket and would
+    // otherwise crash the process as an unhandled 'error' event
+    ws.on("error", (error) => {
+      console.error('❌ Live stream socket error:', error);
+      closed = true;
+      unsubscribe?.();
+      ws.terminate();
+    });
+  });
+
+  console.log(`📡 Live stream listening on ${LIVE_STREAM_PATH}`);
+  return wss;
+}
+
+// Server-Sent Events fallback; EventSource resends the last event id ("events:traces") on reconnect
+export async function streamLiveEvents(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+
+  const lastEventId = (req.headers["last-event-id"] as string | undefined) || (req.query.cursor as string | undefined);
+  const [events, tracesCursor] = (lastEventId || "").split(":").map(Number);
+  const cursor = lastEventId && !isNaN(events) && !isNaN(tracesCursor) ? { events, traces: tracesCursor } : null;
+
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+  req.on("close", () => {
+    closed = true;
+    unsubscribe?.();
+  });
+
+  unsubscribe = await subscribe(parseLiveFilters(req.query as Record<string, unknown>), cursor, message => {
+    if (closed) return;
+    const id = "cursor" in message ? `id: ${message.cursor.events}:${message.cursor.traces}\n` : "";
+    res.write(`${id}event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+  });
+  if (closed) unsubscribe();
+}
@@ -1,148 +1,71 @@
 import { db } from "./db";
 import { networkEvents } from "@shared/schema";
 import { sql, gt, and, gte, lte, desc, asc } from "drizzle-orm";
-import type { InsertNetworkEvent } from "@shared/schema";
+import type { InsertNetworkEventAt } from "@shared/schema";
+import { publishNetworkEvents } from "./liveStream";
+import { recordRowsWritten } from "./selfMetrics";
+import { shouldUseRollups, getEdgeRollups, rollupsToEvents } from "./rollups";
+import { getActiveScenario, getScenarioElapsedSeconds, sampleTrace } from "./scenario";
+import { randomItem, type GenerationOptions } from "./seededRandom";
 
-// Tenant/System configuration matching OpenTelemetry generator
-const TENANT_SYSTEMS = {
-  'api-gateway': [
-    { name: 'gateway-main', service: 'api-gateway' },
-    { name: 'gateway-auth', service: 'api-gateway' },
-    { name: 'gateway-proxy', service: 'api-gateway' }
-  ],
-  'user-management': [
-    { name: 'user-service', service: 'user-service' },
-    { name: 'profile-service', service: 'user-service' },
-    { name: 'auth-service', service: 'user-service' }
-  ],
-  'payment-system': [
-    { name: 'payment-core', service: 'payment-service' },
-    { name: 'payment-gateway', service: 'payment-service' },
-    { name: 'billing-service', service: 'payment-service' }
-  ],
-  'inventory-system': [
-    { name: 'inventory-core', service: 'inventory-service' },
-    { name: 'stock-tracker', service: 'inventory-service' },
-    { name: 'warehouse-mgmt', service: 'inventory-service' }
-  ],
-  'notification-system': [
-    { name: 'notification-core', service: 'notification-service' },
-    { name: 'email-service', service: 'notification-service' },
-    { name: 'sms-service', service: 'notification-service' }
-  ]
-};
-
-// Flatten for easy access
-const ALL_SERVICES = Object.entries(TENANT_SYSTEMS).flatMap(([tenant, systems]) => 
-  systems.map(system => ({ ...system, tenant }))
-);
-
-const LABELS = [
-  'police-extend',
-  'auth',
-  'contact'
-];
-
-const HTTP_STATUSES = ['200', '201', '400', '401', '403', '404', '500', '502', '503'];
 const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
 
-// Trace ID management - increments every 5 events
-let currentTraceId = 1;
-let eventsInCurrentTrace = 0;
-
-// Generate realistic network events
-export function generateNetworkEvent(): InsertNetworkEvent {
-  // Increment trace ID every 5 events
-  eventsInCurrentTrace++;
-  if (eventsInCurrentTrace > 5) {
-    currentTraceId++;
-    eventsInCurrentTrace = 1;
-  }
-  
-  const traceId = `trace-${currentTraceId.toString().padStart(6, '0')}`;
-  
-  const sourceService = ALL_SERVICES[Math.floor(Math.random() * ALL_SERVICES.length)];
-  const targetService = ALL_SERVICES[Math.floor(Math.random() * ALL_SERVICES.length)];
-  
-  const sourceLabel = LABELS[Math.floor(Math.random() * LABELS.length)];
-  const targetLabel = LABELS[Math.floor(Math.random() * LABELS.length)];
-  
-  const source = `${sourceService.name}_${sourceLabel}`;
-  const target = `${targetService.name}_${targetLabel}`;
+// Network events for the calls of one trace sampled from the active scenario; deterministic for
+// a seeded options.random
+export function generateNetworkTraceEvents({ random = Math.random, now = new Date(), elapsedSec }: GenerationOptions = {}): InsertNetworkEventAt[] {
+  const traceId = `trace-${Math.floor(random() * 1000000).toString().padStart(6, '0')}`;
+  const calls = sampleTrace(getActiveScenario(), elapsedSec ?? getScenarioElapsedSeconds(now), random);
+  const method = randomItem(random, HTTP_METHODS);
   
-  // Weight status codes to be more realistic (more 200s than errors)
-  const statusWeights = {
-    '200': 0.7,
-    '201': 0.1,
-    '400': 0.05,
-    '401': 0.03,
-    '403': 0.02,
-    '404': 0.03,
-    '500': 0.02,
-    '502': 0.03,
-    '503': 0.02
-  };
-  
-  const rand = Math.random();
-  let cumulative = 0;
-  let status = '200';
-  
-  for (const [code, weight] of Object.entries(statusWeights)) {
-    cumulative += weight;
-    if (rand <= cumulative) {
-      status = code;
-      break;
-    }
-  }
-  
-  return {
-    source,
-    target,
-    sourceService: sourceService.service,
-    targetService: targetService.service,
-    sourceTenant: sourceService.tenant,
-    targetTenant: targetService.tenant,
-    sourceSystem: sourceService.name,
-    targetSystem: targetService.name,
-    sourceLabel,
-    targetLabel,
-    status,
-    method: HTTP_METHODS[Math.floor(Math.random() * HTTP_METHODS.length)],
-    responseTime: Math.floor(Math.random() * 1000) + 10, // 10-1010ms
-    traceId,
-    metadata: {
-      userAgent: 'service-mesh/1.0',
-      region: 'us-east-1'
-    }
-  };
+  return calls.flatMap((call): InsertNetworkEventAt[] => {
+    if (call.parent === null) return [];
+    const caller = calls[call.parent];
+    return [{
+      source: `${caller.service.name}_${caller.operation}`,
+      target: `${call.service.name}_${call.operation}`,
+      sourceService: caller.service.name,
+      targetService: call.service.name,
+      sourceTenant: caller.service.tenant,
+      targetTenant: call.service.tenant,
+      sourceSystem: caller.service.name,
+      targetSystem: call.service.name,
+      sourceLabel: caller.operation,
+      targetLabel: call.operation,
+      status: call.status,
+      method,
+      responseTime: Math.round(call.durationMs),
+      timestamp: new Date(now.getTime() + call.startMs),
+      traceId,
+      metadata: {
+        userAgent: 'service-mesh/1.0',
+        region: 'us-east-1'
+      }
+    }];
+  });
 }
 
-// Store network event in database
-export async function storeNetworkEvent(event: InsertNetworkEvent) {
+// Store network events in database
+export async function storeNetworkEvents(events: InsertNetworkEventAt[], publish: boolean = true) {
+  if (events.length === 0) return;
   try {
-    const result = await db.insert(networkEvents).values(event).returning();
+    const result = await db.insert(networkEvents).values(events).returning();
+    recordRowsWritten("network_events", result.length);
     if (result.length > 0) {
-      console.log(`Stored event ID ${result[0].id} at ${new Date(result[0].timestamp).toISOString()}`);
+      console.log(`Stored ${result.length} events from ID ${result[0].id} at ${new Date(result[0].timestamp).toISOString()}`);
+      if (publish) publishNetworkEvents(result);
     }
   } catch (error) {
-    console.error('Failed to store network event:', error);
+    console.error('Failed to store network events:', error);
+    throw error;
   }
 }
 
-// Start generating events at regular intervals
-export function startNetworkGenerator(intervalMs: number = 2000) {
-  console.log(`Starting network event generator (interval: ${intervalMs}ms)`);
-  
-  const interval = setInterval(async () => {
-    const event = generateNetworkEvent();
-    await storeNetworkEvent(event);
-    console.log(`Generated event: ${event.source} -> ${event.target} (${event.status})`);
-  }, intervalMs);
-  
-  return () => {
-    clearInterval(interval);
-    console.log('Network event generator stopped');
-  };
+// One generator pass, scheduled by the generator manager: the calls of one sampled trace
+export async function generateNetworkEvents(options: GenerationOptions = {}) {
+  const events = generateNetworkTraceEvents(options);
+  await storeNetworkEvents(events, options.publish);
+  events.forEach(event => console.log(`Generated event: ${event.source} -> ${event.target} (${event.status})`));
+  return events.length;
 }
 
 // Get recent events from database
@@ -177,9 +100,13 @@ export async function getEventsSince(timestamp: Date) {
   }
 }
 
-// Get events within a specific time range
+// Get events within a specific time range. Long ranges are served from edge rollups as one
+// event per edge and outcome, with the call count in metadata.rollup.calls
 export async function getEventsInRange(from: Date, to: Date, limit: number = 1000) {
   try {
+    if (shouldUseRollups(from, to)) {
+      return rollupsToEvents(await getEdgeRollups({ from, to, limit }), to);
+    }
     const events = await db
       .select()
       .from(networkEvents)
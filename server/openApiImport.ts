@@ -0,0 +1,68 @@
+import type { Edge, Node } from "@shared/schema";
+import { toTopologyImport, type TopologyImport } from "./k8sImport";
+
+// Endpoints of one service from its OpenAPI 3 or Swagger 2 spec. Node ids are `${service}_${operation}`
+// like the endpoint nodes built from spans, and the operation is the operationId, falling back to
+// `METHOD /path` (the OpenTelemetry HTTP span name), so declared endpoints line up with traced ones.
+// Response links between operations become edges
+
+type Spec = Record<string, any>;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+export function isOpenApiSpec(json: unknown): boolean {
+  if (!json || typeof json !== "object" || Array.isArray(json)) return false;
+  const spec = json as Spec;
+  return (typeof spec.openapi === "string" || spec.swagger !== undefined) && !!spec.paths && typeof spec.paths === "object";
+}
+
+// `x-service-name` names the service as traces report it; otherwise the title, slugified
+export function openApiServiceName(spec: Spec): string {
+  const explicit = spec.info?.["x-service-name"];
+  if (explicit) return String(explicit);
+  const slug = String(spec.info?.title || "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return slug || "api";
+}
+
+const operationName = (method: string, path: string, operation: Spec) =>
+  operation.operationId ? String(operation.operationId) : `${method.toUpperCase()} ${path}`;
+
+export function buildOpenApiTopology(spec: Spec): TopologyImport {
+  const service = openApiServiceName(spec);
+  const nodes = new Map<string, Node>();
+  const byOperationId = new Map<string, string>();
+  const operations: Array<{ id: string; operation: Spec }> = [];
+
+  Object.entries<Spec>(spec.paths || {}).forEach(([path, item]) => {
+    HTTP_METHODS.filter(method => item?.[method]).forEach(method => {
+      const operation = item[method] as Spec;
+      const name = operationName(method, path, operation);
+      const id = `${service}_${name}`;
+      if (!nodes.has(id)) {
+        nodes.set(id, {
+          id,
+          label: name,
+          service,
+          tenant: service,
+          system: operation.tags?.[0] || service,
+          nodeType: "endpoint"
+        });
+      }
+      if (operation.operationId) byOperationId.set(String(operation.operationId), id);
+      operations.push({ id, operation });
+    });
+  });
+
+  const edges = new Map<string, Edge>();
+  operations.forEach(({ id: source, operation }) => {
+    Object.values<Spec>(operation.responses || {}).forEach(response => {
+      Object.entries<Spec>(response?.links || {}).forEach(([name, link]) => {
+        const target = link?.operationId ? byOperationId.get(String(link.operationId)) : undefined;
+        const id = `${source}->${target}:${name}`;
+        if (target && target !== source && !edges.has(id)) edges.set(id, { id, source, target, label: `link ${name}` });
+      });
+    });
+  });
+
+  return toTopologyImport(Array.from(nodes.values()), Array.from(edges.values()));
+}
@@ -0,0 +1,198 @@
+// Minimal protobuf decoder for OTLP ExportTraceServiceRequest payloads.
+// Decodes the wire format into the same shape as OTLP/JSON so that both
+// encodings share one mapping path in otlpReceiver.ts.
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+interface ProtoField {
+  field: number;
+  wireType: number;
+  value: bigint | Buffer;
+}
+
+// Split a message buffer into its raw fields
+function readFields(buffer: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): bigint => {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    while (offset < buffer.length) {
+      const byte = buffer[offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += BigInt(7);
+    }
+    throw new Error("Truncated varint in protobuf payload");
+  };
+
+  while (offset < buffer.length) {
+    const tag = Number(readVarint());
+    const field = tag >>> 3;
+    const wireType = tag & 0x7;
+
+    switch (wireType) {
+      case WIRE_VARINT:
+        fields.push({ field, wireType, value: readVarint() });
+        break;
+      case WIRE_FIXED64:
+        fields.push({ field, wireType, value: buffer.readBigUInt64LE(offset) });
+        offset += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED: {
+        const length = Number(readVarint());
+        if (offset + length > buffer.length) {
+          throw new Error("Truncated length-delimited field in protobuf payload");
+        }
+        fields.push({ field, wireType, value: buffer.subarray(offset, offset + length) });
+        offset += length;
+        break;
+      }
+      case WIRE_FIXED32:
+        fields.push({ field, wireType, value: BigInt(buffer.readUInt32LE(offset)) });
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
+
+const asString = (value: bigint | Buffer) => (value as Buffer).toString("utf-8");
+const asHex = (value: bigint | Buffer) => (value as Buffer).toString("hex");
+
+// Convert an unsigned varint to a signed int64
+function toSigned64(value: bigint): bigint {
+  return BigInt.asIntN(64, value);
+}
+
+function decodeAnyValue(buffer: Buffer): Record<string, any> {
+  for (const { field, value } of readFields(buffer)) {
+    switch (field) {
+      case 1: return { stringValue: asString(value) };
+      case 2: return { boolValue: (value as bigint) !== BigInt(0) };
+      case 3: return { intValue: toSigned64(value as bigint).toString() };
+      case 4: {
+        const bytes = Buffer.alloc(8);
+        bytes.writeBigUInt64LE(value as bigint);
+        return { doubleValue: bytes.readDoubleLE(0) };
+      }
+      case 5: return { arrayValue: { values: readFields(value as Buffer).filter(f => f.field === 1).map(f => decodeAnyValue(f.value as Buffer)) } };
+      case 6: return { kvlistValue: { values: decodeKeyValues(value as Buffer, 1) } };
+      case 7: return { bytesValue: (value as Buffer).toString("base64") };
+    }
+  }
+  return {};
+}
+
+function decodeKeyValue(buffer: Buffer): { key: string; value: Record<string, any> } {
+  let key = "";
+  let value: Record<string, any> = {};
+  for (const f of readFields(buffer)) {
+    if (f.field === 1) key = asString(f.value);
+    if (f.field === 2) value = decodeAnyValue(f.value as Buffer);
+  }
+  return { key, value };
+}
+
+function decodeKeyValues(buffer: Buffer, fieldNumber: number) {
+  return readFields(buffer)
+    .filter(f => f.field === fieldNumber)
+    .map(f => decodeKeyValue(f.value as Buffer));
+}
+
+function decodeEvent(buffer: Buffer) {
+  const event: Record<string, any> = { attributes: [] };
+  for (const f of readFields(buffer)) {
+    if (f.field === 1) event.timeUnixNano = (f.value as bigint).toString();
+    if (f.field === 2) event.name = asString(f.value);
+    if (f.field === 3) event.attributes.push(decodeKeyValue(f.value as Buffer));
+  }
+  return event;
+}
+
+function decodeLink(buffer: Buffer) {
+  const link: Record<string, any> = { attributes: [] };
+  for (const f of readFields(buffer)) {
+    if (f.field === 1) link.traceId = asHex(f.value);
+    if (f.field === 2) link.spanId = asHex(f.value);
+    if (f.field === 3) link.traceState = asString(f.value);
+    if (f.field === 4) link.attributes.push(decodeKeyValue(f.value as Buffer));
+  }
+  return link;
+}
+
+function decodeStatus(buffer: Buffer) {
+  const status: Record<string, any> = {};
+  for (const f of readFields(buffer)) {
+    if (f.field === 2) status.message = asString(f.value);
+    if (f.field === 3) status.code = Number(f.value);
+  }
+  return status;
+}
+
+function decodeSpan(buffer: Buffer) {
+  const span: Record<string, any> = { attributes: [], events: [], links: [] };
+  for (const f of readFields(buffer)) {
+    switch (f.field) {
+      case 1: span.traceId = asHex(f.value); break;
+      case 2: span.spanId = asHex(f.value); break;
+      case 3: span.traceState = asString(f.value); break;
+      case 4: span.parentSpanId = asHex(f.value); break;
+      case 5: span.name = asString(f.value); break;
+      case 6: span.kind = Number(f.value); break;
+      case 7: span.startTimeUnixNano = (f.value as bigint).toString(); break;
+      case 8: span.endTimeUnixNano = (f.value as bigint).toString(); break;
+      case 9: span.attributes.push(decodeKeyValue(f.value as Buffer)); break;
+      case 11: span.events.push(decodeEvent(f.value as Buffer)); break;
+      case 13: span.links.push(decodeLink(f.value as Buffer)); break;
+      case 15: span.status = decodeStatus(f.value as Buffer); break;
+    }
+  }
+  return span;
+}
+
+function decodeScopeSpans(buffer: Buffer) {
+  const scopeSpans: Record<string, any> = { spans: [] };
+  for (const f of readFields(buffer)) {
+    if (f.field === 1) {
+      const scope: Record<string, any> = { attributes: [] };
+      for (const s of readFields(f.value as Buffer)) {
+        if (s.field === 1) scope.name = asString(s.value);
+        if (s.field === 2) scope.version = asString(s.value);
+        if (s.field === 3) scope.attributes.push(decodeKeyValue(s.value as Buffer));
+      }
+      scopeSpans.scope = scope;
+    }
+    if (f.field === 2) scopeSpans.spans.push(decodeSpan(f.value as Buffer));
+    if (f.field === 3) scopeSpans.schemaUrl = asString(f.value);
+  }
+  return scopeSpans;
+}
+
+function decodeResourceSpans(buffer: Buffer) {
+  const resourceSpans: Record<string, any> = { scopeSpans: [] };
+  for (const f of readFields(buffer)) {
+    if (f.field === 1) {
+      resourceSpans.resource = { attributes: decodeKeyValues(f.value as Buffer, 1) };
+    }
+    if (f.field === 2) resourceSpans.scopeSpans.push(decodeScopeSpans(f.value as Buffer));
+    if (f.field === 3) resourceSpans.schemaUrl = asString(f.value);
+  }
+  return resourceSpans;
+}
+
+// Decode an ExportTraceServiceRequest into its OTLP/JSON equivalent
+export function decodeExportTraceServiceRequest(buffer: Buffer): { resourceSpans: any[] } {
+  return {
+    resourceSpans: readFields(buffer)
+      .filter(f => f.field === 1 && f.wireType === WIRE_LENGTH_DELIMITED)
+      .map(f => decodeResourceSpans(f.value as Buffer))
+  };
+}
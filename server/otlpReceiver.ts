@@ -0,0 +1,415 @@
+import { db } from "./db";
+import { traces, spans, networkEvents } from "@shared/schema";
+import { sql, inArray } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import type { InsertTrace, InsertSpan, InsertNetworkEvent, InsertNetworkEventAt } from "@shared/schema";
+import { publishNetworkEvents, publishTrace } from "./liveStream";
+import { recordIngested, recordRowsSkipped, recordRowsWritten } from "./selfMetrics";
+
+// OTLP span kind enum values (opentelemetry/proto/trace/v1/trace.proto)
+const OTLP_SPAN_KINDS: Record<string, string> = {
+  '0': 'internal',
+  '1': 'internal',
+  '2': 'server',
+  '3': 'client',
+  '4': 'producer',
+  '5': 'consumer',
+  'SPAN_KIND_UNSPECIFIED': 'internal',
+  'SPAN_KIND_INTERNAL': 'internal',
+  'SPAN_KIND_SERVER': 'server',
+  'SPAN_KIND_CLIENT': 'client',
+  'SPAN_KIND_PRODUCER': 'producer',
+  'SPAN_KIND_CONSUMER': 'consumer'
+};
+
+const OTLP_STATUS_CODES: Record<string, string> = {
+  '0': 'unset',
+  '1': 'ok',
+  '2': 'error',
+  'STATUS_CODE_UNSET': 'unset',
+  'STATUS_CODE_OK': 'ok',
+  'STATUS_CODE_ERROR': 'error'
+};
+
+// Received events keep the span start time instead of the insert time
+export type ReceivedNetworkEvent = InsertNetworkEvent & { timestamp: Date };
+
+export interface OtlpTraceBatch {
+  trace: InsertTrace;
+  spans: InsertSpan[];
+  networkEvents: ReceivedNetworkEvent[];
+}
+
+export interface OtlpConversionResult {
+  batches: OtlpTraceBatch[];
+  rejectedSpans: number;
+  errors: string[];
+}
+
+// Convert an OTLP AnyValue into a plain JS value
+function convertAnyValue(value: any): any {
+  if (!value || typeof value !== 'object') return value;
+  if ('stringValue' in value) return value.stringValue;
+  if ('boolValue' in value) return value.boolValue;
+  if ('intValue' in value) return Number(value.intValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('bytesValue' in value) return value.bytesValue;
+  if ('arrayValue' in value) return (value.arrayValue?.values || []).map(convertAnyValue);
+  if ('kvlistValue' in value) return flattenAttributes(value.kvlistValue?.values);
+  return null;
+}
+
+// Convert an OTLP KeyValue list into a flat attribute map
+export function flattenAttributes(keyValues: any[] | undefined): Record<string, any> {
+  const attributes: Record<string, any> = {};
+  (keyValues || []).forEach(kv => {
+    if (kv && typeof kv.key === 'string') {
+      attributes[kv.key] = convertAnyValue(kv.value);
+    }
+  });
+  return attributes;
+}
+
+// Normalize a trace/span ID to lowercase hex; OTLP/JSON uses hex but some exporters send base64
+function normalizeId(value: unknown, byteLength: number): string | null {
+  if (typeof value !== 'string' || value.length === 0) return null;
+  if (value.length === byteLength * 2 && /^[0-9a-f]+$/i.test(value)) {
+    return /^0+$/.test(value) ? null : value.toLowerCase();
+  }
+  const decoded = Buffer.from(value, 'base64');
+  if (decoded.length === byteLength) {
+    const hex = decoded.toString('hex');
+    return /^0+$/.test(hex) ? null : hex;
+  }
+  return null;
+}
+
+function nanosToDate(nanos: unknown): Date | null {
+  if (nanos === undefined || nanos === null || nanos === '') return null;
+  try {
+    return new Date(Number(BigInt(String(nanos)) / BigInt(1000000)));
+  } catch {
+    return null;
+  }
+}
+
+function durationNanos(start: unknown, end: unknown): number | null {
+  try {
+    const diff = Number(BigInt(String(end)) - BigInt(String(start)));
+    return Math.max(0, diff);
+  } catch {
+    return null;
+  }
+}
+
+// Resolve tenant/system from resource attributes, falling back to the service name
+export function resolveTenantAndSystem(resource: Record<string, any>, serviceName: string) {
+  const tenant = resource['tenant'] || resource['service.namespace'] || serviceName;
+  const system = resource['system'] || serviceName;
+  return { tenant: String(tenant).slice(0, 100), system: String(system).slice(0, 100) };
+}
+
+function httpStatusOf(span: InsertSpan): string | null {
+  const attrs = (span.attributes || {}) as Record<string, any>;
+  const code = attrs['http.response.status_code'] ?? attrs['http.status_code'];
+  return code !== undefined && code !== null ? String(code) : null;
+}
+
+function httpMethodOf(span: InsertSpan): string | null {
+  const attrs = (span.attributes || {}) as Record<string, any>;
+  const method = attrs['http.request.method'] ?? attrs['http.method'];
+  return method ? String(method).slice(0, 10) : null;
+}
+
+// Derive service-to-service network events from parent/child span pairs
+export function deriveNetworkEvents(childSpans: InsertSpan[], parents: Map<string, InsertSpan>): ReceivedNetworkEvent[] {
+  const events: ReceivedNetworkEvent[] = [];
+
+  childSpans.forEach(span => {
+    if (!span.parentSpanId) return;
+    const parent = parents.get(span.parentSpanId);
+    if (!parent || parent.serviceName === span.serviceName) return;
+
+    events.push({
+      source: `${parent.serviceName}_${parent.operationName}`,
+      target: `${span.serviceName}_${span.operationName}`,
+      sourceService: parent.serviceName,
+      targetService: span.serviceName,
+      sourceTenant: parent.tenant,
+      targetTenant: span.tenant,
+      sourceSystem: parent.system,
+      targetSystem: span.system,
+      sourceLabel: parent.operationName,
+      targetLabel: span.operationName,
+      status: (httpStatusOf(span) || span.status || 'unset').slice(0, 10),
+      method: httpMethodOf(span) || httpMethodOf(parent),
+      responseTime: span.duration ? Math.round(span.duration / 1000000) : null,
+      traceId: span.traceId,
+      spanId: span.spanId,
+      timestamp: span.startTime,
+      metadata: {
+        parentSpanId: span.parentSpanId,
+        spanKind: span.kind,
+        source: 'otlp'
+      }
+    });
+  });
+
+  return events;
+}
+
+// Build the traces row for all spans of one trace in a request
+export function buildTraceRow(traceId: string, traceSpans: InsertSpan[]): InsertTrace {
+  const spanIds = new Set(traceSpans.map(s => s.spanId));
+  const root = traceSpans.find(s => !s.parentSpanId)
+    || traceSpans.find(s => !spanIds.has(s.parentSpanId as string))
+    || traceSpans[0];
+
+  const startTime = new Date(Math.min(...traceSpans.map(s => s.startTime.getTime())));
+  const endTime = new Date(Math.max(...traceSpans.map(s => (s.endTime || s.startTime).getTime())));
+  const hasErrors = traceSpans.some(s => s.status === 'error');
+  const resource = (root.resource || {}) as Record<string, any>;
+
+  return {
+    traceId,
+    serviceName: root.serviceName,
+    serviceVersion: String(resource['service.version'] || 'unknown').slice(0, 50),
+    tenant: root.tenant,
+    system: root.system,
+    startTime,
+    endTime,
+    duration: (endTime.getTime() - startTime.getTime()) * 1000000,
+    spanCount: traceSpans.length,
+    status: hasErrors ? 'error' : 'ok',
+    statusMessage: hasErrors ? 'Trace contains errors' : undefined,
+    attributes: {
+      'trace.span_count': traceSpans.length,
+      'trace.service_count': new Set(traceSpans.map(s => s.serviceName)).size,
+      'trace.root_service': root.serviceName
+    },
+    resource
+  };
+}
+
+// Map an OTLP ExportTraceServiceRequest (JSON shape) onto traces/spans/network_events rows
+export function convertOtlpTraceRequest(request: any): OtlpConversionResult {
+  if (!request || !Array.isArray(request.resourceSpans)) {
+    throw new Error("Invalid OTLP payload: 'resourceSpans' array is required");
+  }
+
+  const spansByTrace = new Map<string, InsertSpan[]>();
+  const errors: string[] = [];
+  let rejectedSpans = 0;
+
+  request.resourceSpans.forEach((resourceSpans: any) => {
+    const resource = flattenAttributes(resourceSpans?.resource?.attributes);
+    const serviceName = String(resource['service.name'] || 'unknown_service').slice(0, 255);
+    const { tenant, system } = resolveTenantAndSystem(resource, serviceName);
+
+    (resourceSpans?.scopeSpans || resourceSpans?.instrumentationLibrarySpans || []).forEach((scopeSpans: any) => {
+      const scope = scopeSpans?.scope || scopeSpans?.instrumentationLibrary || {};
+
+      (scopeSpans?.spans || []).forEach((otlpSpan: any) => {
+        const traceId = normalizeId(otlpSpan?.traceId, 16);
+        const spanId = normalizeId(otlpSpan?.spanId, 8);
+        const startTime = nanosToDate(otlpSpan?.startTimeUnixNano);
+
+        if (!traceId || !spanId || !startTime) {
+          rejectedSpans++;
+          errors.push(`Span '${otlpSpan?.name ?? 'unknown'}' has an invalid traceId, spanId or startTimeUnixNano`);
+          return;
+        }
+
+        const statusCode = OTLP_STATUS_CODES[String(otlpSpan.status?.code ?? 0)] || 'unset';
+        const attributes = flattenAttributes(otlpSpan.attributes);
+        if (scope.name) attributes['otel.scope.name'] = scope.name;
+        if (scope.version) attributes['otel.scope.version'] = scope.version;
+
+        const span: InsertSpan = {
+          traceId,
+          spanId,
+          parentSpanId: normalizeId(otlpSpan.parentSpanId, 8),
+          operationName: String(otlpSpan.name || 'unknown').slice(0, 255),
+          serviceName,
+          tenant,
+          system,
+          kind: OTLP_SPAN_KINDS[String(otlpSpan.kind ?? 0)] || 'internal',
+          startTime,
+          endTime: nanosToDate(otlpSpan.endTimeUnixNano),
+          duration: durationNanos(otlpSpan.startTimeUnixNano, otlpSpan.endTimeUnixNano),
+          status: statusCode,
+          statusMessage: otlpSpan.status?.message || undefined,
+          attributes,
+          events: (otlpSpan.events || []).map((event: any) => ({
+            name: event.name,
+            timestamp: nanosToDate(event.timeUnixNano)?.toISOString(),
+            attributes: flattenAttributes(event.attributes)
+          })),
+          links: (otlpSpan.links || []).map((link: any) => ({
+            traceId: normalizeId(link.traceId, 16),
+            spanId: normalizeId(link.spanId, 8),
+            attributes: flattenAttributes(link.attributes)
+          })),
+          resource
+        };
+
+        if (!spansByTrace.has(traceId)) {
+          spansByTrace.set(traceId, []);
+        }
+        spansByTrace.get(traceId)!.push(span);
+      });
+    });
+  });
+
+  const batches: OtlpTraceBatch[] = [];
+  spansByTrace.forEach((traceSpans, traceId) => {
+    const parents = new Map(traceSpans.map(s => [s.spanId, s]));
+    batches.push({
+      trace: buildTraceRow(traceId, traceSpans),
+      spans: traceSpans,
+      networkEvents: deriveNetworkEvents(traceSpans, parents)
+    });
+  });
+
+  return { batches, rejectedSpans, errors };
+}
+
+// Store converted OTLP batches; spans of a trace may arrive across several export requests, and
+// exporters retry whole requests, so the trace counts and network events are built only from the
+// spans this request actually inserted
+export async function storeOtlpTraces(batches: OtlpTraceBatch[]) {
+  let storedTraces = 0;
+  let storedSpans = 0;
+  let storedEvents = 0;
+
+  for (const batch of batches) {
+    const stored = await db.transaction(async (tx) => {
+      const inserted = await tx.insert(spans).values(batch.spans)
+        .onConflictDoNothing({ target: spans.spanId })
+        .returning({ spanId: spans.spanId });
+      const insertedIds = new Set(inserted.map(s => s.spanId));
+      const newSpans = batch.spans.filter(s => insertedIds.has(s.spanId));
+      if (newSpans.length === 0) return null;
+
+      // The batch that starts earlier holds the trace's root, so it names the trace
+      const startsEarlier = sql`excluded.start_time < ${traces.startTime}`;
+      const rootValue = (column: PgColumn) =>
+        sql`case when ${startsEarlier} then excluded.${sql.identifier(column.name)} else ${column} end`;
+      const startTime = sql`least(${traces.startTime}, excluded.start_time)`;
+      const endTime = sql`greatest(${traces.endTime}, excluded.end_time)`;
+      const spanCount = sql`coalesce(${traces.spanCount}, 0) + excluded.span_count`;
+
+      const [storedTrace] = await tx.insert(traces).values(buildTraceRow(batch.trace.traceId, newSpans)).onConflictDoUpdate({
+        target: traces.traceId,
+        set: {
+          spanCount,
+          startTime,
+          endTime,
+          duration: sql`round(extract(epoch from (${endTime} - ${startTime})) * 1000000000)::bigint`,
+          status: sql`case when ${traces.status} = 'error' then 'error' else excluded.status end`,
+          serviceName: rootValue(traces.serviceName),
+          serviceVersion: rootValue(traces.serviceVersion),
+          tenant: rootValue(traces.tenant),
+          system: rootValue(traces.system),
+          resource: rootValue(traces.resource),
+          attributes: sql`(case when ${startsEarlier} then excluded.attributes else ${traces.attributes} end)
+            || jsonb_build_object('trace.span_count', ${spanCount})`
+        }
+      }).returning();
+
+      const newSpanIds = Array.from(insertedIds);
+      const batchSpanIds = new Set(batch.spans.map(s => s.spanId));
+      const events = batch.networkEvents.filter(e => insertedIds.has(e.spanId as string));
+
+      // Resolve parents that were exported in an earlier request
+      const orphans = newSpans.filter(s => s.parentSpanId && !batchSpanIds.has(s.parentSpanId));
+      if (orphans.length > 0) {
+        const storedParents = await tx
+          .select()
+          .from(spans)
+          .where(inArray(spans.spanId, orphans.map(s => s.parentSpanId as string)));
+        events.push(...deriveNetworkEvents(orphans, new Map(storedParents.map(p => [p.spanId, p as InsertSpan]))));
+      }
+
+      // Resolve children that were exported before this request's parents
+      const storedChildren = await tx
+        .select()
+        .from(spans)
+        .where(inArray(spans.parentSpanId, newSpanIds));
+      const earlierChildren = storedChildren.filter(c => !insertedIds.has(c.spanId)) as InsertSpan[];
+      if (earlierChildren.length > 0) {
+        events.push(...deriveNetworkEvents(earlierChildren, new Map(newSpans.map(s => [s.spanId, s]))));
+      }
+
+      const storedNetworkEvents = events.length > 0 ? await tx.insert(networkEvents).values(events).returning() : [];
+      return { storedTrace, spanCount: newSpans.length, storedNetworkEvents };
+    });
+    if (!stored) continue;
+
+    storedTraces++;
+    storedSpans += stored.spanCount;
+    storedEvents += stored.storedNetworkEvents.length;
+    publishNetworkEvents(stored.storedNetworkEvents);
+    publishTrace(stored.storedTrace);
+  }
+
+  recordIngested("otlp", storedSpans);
+  recordRowsWritten("traces", storedTraces);
+  recordRowsWritten("spans", storedSpans);
+  recordRowsWritten("network_events", storedEvents);
+  console.log(`📥 OTLP receiver stored ${storedTraces} traces, ${storedSpans} spans and ${storedEvents} network events`);
+  return { storedSpans, storedEvents };
+}
+
+// A whole trace built by one of the trace generators
+export interface GeneratedTrace {
+  trace: InsertTrace;
+  spans: InsertSpan[];
+  networkEvents: InsertNetworkEventAt[];
+}
+
+// Store a generated trace with its spans and events; resolves to the number of rows written.
+// `kind` names the generator in logs
+export async function storeGeneratedTrace(traceData: GeneratedTrace, kind: string, publish: boolean = true) {
+  const { trace, spans: traceSpans, networkEvents: traceNetworkEvents } = traceData;
+
+  try {
+    // One transaction, so a failed pass leaves no trace without its spans or events. A trace ID
+    // that is already stored (a seeded run repeated without a run prefix) skips the whole trace
+    const stored = await db.transaction(async (tx) => {
+      const [storedTrace] = await tx.insert(traces).values(trace).onConflictDoNothing({ target: traces.traceId }).returning();
+      if (!storedTrace) return null;
+      const storedSpans = traceSpans.length > 0
+        ? await tx.insert(spans).values(traceSpans).onConflictDoNothing({ target: spans.spanId }).returning({ id: spans.id })
+        : [];
+      const storedEvents = traceNetworkEvents.length > 0
+        ? await tx.insert(networkEvents).values(traceNetworkEvents).returning()
+        : [];
+      return { storedTrace, spanCount: storedSpans.length, storedEvents };
+    });
+
+    if (!stored) {
+      recordRowsSkipped("traces", 1);
+      console.log(`⏭️ Trace ${trace.traceId} is already stored, skipped`);
+      return 0;
+    }
+    const { storedTrace, spanCount, storedEvents } = stored;
+    if (spanCount < traceSpans.length) recordRowsSkipped("spans", traceSpans.length - spanCount);
+
+    recordRowsWritten("traces", 1);
+    if (spanCount > 0) recordRowsWritten("spans", spanCount);
+    if (storedEvents.length > 0) recordRowsWritten("network_events", storedEvents.length);
+
+    // Published only once committed
+    if (publish) {
+      if (storedEvents.length > 0) publishNetworkEvents(storedEvents);
+      publishTrace(storedTrace);
+    }
+
+    console.log(`📊 Stored ${kind} trace with ${spanCount} spans and ${storedEvents.length} network events`);
+    return 1 + spanCount + storedEvents.length;
+  } catch (error) {
+    console.error(`❌ Error storing ${kind} trace:`, error);
+    throw error;
+  }
+}
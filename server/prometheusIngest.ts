@@ -0,0 +1,355 @@
+import type { InsertServiceMetrics } from "@shared/schema";
+import { markExternallyReported, storeServiceMetrics, withHealth } from "./serviceMetricsGenerator";
+import { recordIngested } from "./selfMetrics";
+
+export interface PrometheusSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+// How samples are attributed to services: the first of serviceLabels present on a sample gives
+// the service, renamed through serviceMap (label value → serviceName) when listed there
+export interface PrometheusMapping {
+  serviceLabels: string[];
+  serviceMap: Record<string, string>;
+}
+
+export interface PrometheusScrapeTarget {
+  url: string;
+  service?: string; // every sample from this target belongs to this service
+}
+
+export interface PrometheusIngestResult {
+  services: string[];
+  samples: number;
+  unmapped: number; // samples of known series without a service label
+}
+
+// Cumulative counters of one process (scrape target, instance and pod) at its previous report,
+// to turn them into rates
+interface CounterSnapshot {
+  atMs: number;
+  cpuSeconds: number;
+  requests: number;
+  errors: number;
+  durationSeconds: number;
+  receiveBytes: number;
+  transmitBytes: number;
+}
+
+type Counter = Exclude<keyof CounterSnapshot, "atMs">;
+
+const COUNTERS: Counter[] = ["cpuSeconds", "requests", "errors", "durationSeconds", "receiveBytes", "transmitBytes"];
+
+const DEFAULT_SERVICE_LABELS = ["service", "service_name", "app", "application", "container", "job"];
+
+// Denominator for memory usage when no container_spec_memory_limit_bytes is exposed
+const DEFAULT_MEMORY_LIMIT_BYTES = 1024 * 1024 * 1024;
+
+// Series read from an exposition; everything else is ignored
+const CPU_SERIES = ["container_cpu_usage_seconds_total", "process_cpu_seconds_total"];
+const MEMORY_SERIES = ["container_memory_working_set_bytes", "process_resident_memory_bytes"];
+const KNOWN_SERIES = new Set([
+  ...CPU_SERIES,
+  ...MEMORY_SERIES,
+  "container_spec_memory_limit_bytes",
+  "container_fs_usage_bytes",
+  "container_fs_limit_bytes",
+  "container_network_receive_bytes_total",
+  "container_network_transmit_bytes_total",
+  "process_start_time_seconds",
+  "http_server_requests_seconds_count",
+  "http_server_requests_seconds_sum"
+]);
+
+const previousCounters = new Map<string, CounterSnapshot>();
+
+// Snapshots of pods and targets that stopped reporting are dropped after an hour
+const COUNTER_SNAPSHOT_TTL_MS = 60 * 60 * 1000;
+
+// Source of pushed expositions; scraped ones use the target URL
+const PUSH_SOURCE = "push";
+
+function parseValue(text: string): number {
+  if (text === "+Inf" || text === "Inf") return Infinity;
+  if (text === "-Inf") return -Infinity;
+  if (text === "NaN") return NaN;
+  const value = Number(text);
+  if (text === "" || Number.isNaN(value)) throw new Error(`invalid value '${text}'`);
+  return value;
+}
+
+// Parses `{a="x",b="y"}` starting at the opening brace; returns the labels and the index after `}`
+function parseLabels(line: string, start: number): [Record<string, string>, number] {
+  const labels: Record<string, string> = {};
+  let i = start + 1;
+
+  while (true) {
+    while (line[i] === " " || line[i] === ",") i++;
+    if (line[i] === "}") return [labels, i + 1];
+
+    const nameMatch = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(line.slice(i));
+    if (!nameMatch) throw new Error("invalid label name");
+    i += nameMatch[0].length;
+    if (line[i] !== "=" || line[i + 1] !== '"') throw new Error(`expected ="..." after label ${nameMatch[0]}`);
+    i += 2;
+
+    let value = "";
+    while (line[i] !== '"') {
+      if (i >= line.length) throw new Error("unterminated label value");
+      if (line[i] === "\\") {
+        const escaped = line[i + 1];
+        value += escaped === "n" ? "\n" : escaped;
+        i += 2;
+      } else {
+        value += line[i++];
+      }
+    }
+    labels[nameMatch[0]] = value;
+    i++;
+  }
+}
+
+// Prometheus text exposition format 0.0.4 (and the OpenMetrics subset of it): comments and
+// # HELP / # TYPE lines are skipped, sample timestamps and exemplars are ignored
+export function parsePrometheusText(text: string): PrometheusSample[] {
+  const samples: PrometheusSample[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) return;
+
+    try {
+      const nameMatch = /^[a-zA-Z_:][a-zA-Z0-9_:]*/.exec(line);
+      if (!nameMatch) throw new Error("invalid metric name");
+
+      let labels: Record<string, string> = {};
+      let rest = nameMatch[0].length;
+      if (line[rest] === "{") {
+        [labels, rest] = parseLabels(line, rest);
+      }
+
+      const [value] = line.slice(rest).split(" # ")[0].trim().split(/\s+/);
+      samples.push({ name: nameMatch[0], labels, value: parseValue(value ?? "") });
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  return samples;
+}
+
+// Mapping from PROMETHEUS_SERVICE_LABELS (comma-separated label names) and PROMETHEUS_SERVICE_MAP
+// (comma-separated value=serviceName pairs)
+export function getPrometheusMapping(env: Record<string, string | undefined> = process.env): PrometheusMapping {
+  const list = (value: string | undefined) => (value || "").split(",").map(item => item.trim()).filter(Boolean);
+
+  const serviceLabels = list(env.PROMETHEUS_SERVICE_LABELS);
+  const serviceMap: Record<string, string> = {};
+  list(env.PROMETHEUS_SERVICE_MAP).forEach(pair => {
+    const [from, to] = pair.split("=").map(part => part.trim());
+    if (from && to) serviceMap[from] = to;
+  });
+
+  return { serviceLabels: serviceLabels.length > 0 ? serviceLabels : DEFAULT_SERVICE_LABELS, serviceMap };
+}
+
+// PROMETHEUS_SCRAPE_TARGETS: comma-separated URLs, each optionally prefixed with `service=`
+// to attribute all of its samples to one service
+export function getPrometheusScrapeTargets(env: Record<string, string | undefined> = process.env): PrometheusScrapeTarget[] {
+  return (env.PROMETHEUS_SCRAPE_TARGETS || "").split(",").map(item => item.trim()).filter(Boolean).map(item => {
+    const match = /^([^=/:]+)=(.+)$/.exec(item);
+    return match ? { service: match[1], url: match[2] } : { url: item };
+  });
+}
+
+function resolveServiceName(labels: Record<string, string>, mapping: PrometheusMapping): string | null {
+  const label = mapping.serviceLabels.find(name => labels[name]);
+  if (!label) return null;
+  return mapping.serviceMap[labels[label]] || labels[label];
+}
+
+const isServerError = (labels: Record<string, string>) =>
+  /^5/.test(labels.status || labels.code || "") || labels.outcome === "SERVER_ERROR";
+
+// Growth of a counter since the previous report; a counter that went down was reset
+const counterDelta = (current: number, previous: number | undefined) =>
+  previous === undefined ? current : current >= previous ? current - previous : current;
+
+// Turns one exposition into a service_metrics row per service. Counters become rates against the
+// previous report of the same process (kept in `counters` per source, instance and pod, since
+// replicas of a service restart and report independently), then add up per service; on the first
+// report CPU is averaged since process_start_time_seconds and errors and latency over the whole
+// counter lifetime
+export function mapPrometheusSamples(
+  samples: PrometheusSample[],
+  mapping: PrometheusMapping,
+  now: Date,
+  fixedService?: string,
+  counters: Map<string, CounterSnapshot> = previousCounters,
+  source: string = PUSH_SOURCE
+): { metrics: InsertServiceMetrics[]; unmapped: number } {
+  const byService = new Map<string, PrometheusSample[]>();
+  let unmapped = 0;
+
+  samples.forEach(sample => {
+    if (!KNOWN_SERIES.has(sample.name) || !Number.isFinite(sample.value)) return;
+    const serviceName = fixedService || resolveServiceName(sample.labels, mapping);
+    if (!serviceName) {
+      unmapped++;
+      return;
+    }
+    if (!byService.has(serviceName)) byService.set(serviceName, []);
+    byService.get(serviceName)!.push(sample);
+  });
+
+  const sum = (list: PrometheusSample[], name: string, filter: (labels: Record<string, string>) => boolean = () => true) =>
+    list.filter(sample => sample.name === name && filter(sample.labels)).reduce((total, sample) => total + sample.value, 0);
+  const startTimeOf = (list: PrometheusSample[]) =>
+    Math.max(...list.filter(sample => sample.name === "process_start_time_seconds").map(sample => sample.value), 0);
+
+  const metrics = Array.from(byService.entries()).map(([serviceName, serviceSamples]) => {
+    const has = (name: string) => serviceSamples.some(sample => sample.name === name);
+    const firstPresent = (names: string[]) => names.find(has);
+
+    const pods = new Set(serviceSamples.map(sample => sample.labels.pod).filter(Boolean));
+    const cpuSeries = firstPresent(CPU_SERIES);
+    const memorySeries = firstPresent(MEMORY_SERIES);
+    const serviceStartTime = startTimeOf(serviceSamples);
+
+    const byProcess = new Map<string, PrometheusSample[]>();
+    serviceSamples.forEach(sample => {
+      const key = [serviceName, source, sample.labels.instance || "", sample.labels.pod || ""].join("|");
+      if (!byProcess.has(key)) byProcess.set(key, []);
+      byProcess.get(key)!.push(sample);
+    });
+
+    // Counter growth and per-second rates, each computed per process and summed for the service
+    const deltas = Object.fromEntries(COUNTERS.map(counter => [counter, 0])) as Record<Counter, number>;
+    const rates = { ...deltas };
+    byProcess.forEach((processSamples, key) => {
+      const snapshot: CounterSnapshot = {
+        atMs: now.getTime(),
+        cpuSeconds: cpuSeries ? sum(processSamples, cpuSeries) : 0,
+        requests: sum(processSamples, "http_server_requests_seconds_count"),
+        errors: sum(processSamples, "http_server_requests_seconds_count", isServerError),
+        durationSeconds: sum(processSamples, "http_server_requests_seconds_sum"),
+        receiveBytes: sum(processSamples, "container_network_receive_bytes_total"),
+        transmitBytes: sum(processSamples, "container_network_transmit_bytes_total")
+      };
+      const previous = counters.get(key);
+      counters.set(key, snapshot);
+
+      const startTime = startTimeOf(processSamples) || serviceStartTime;
+      const elapsedSec = previous && previous.atMs < snapshot.atMs
+        ? (snapshot.atMs - previous.atMs) / 1000
+        : startTime > 0 ? Math.max(1, now.getTime() / 1000 - startTime) : 0;
+      COUNTERS.forEach(counter => {
+        const delta = counterDelta(snapshot[counter], previous?.[counter]);
+        deltas[counter] += delta;
+        rates[counter] += elapsedSec > 0 ? delta / elapsedSec : 0;
+      });
+    });
+
+    // One core per scraped process (a pod, or an instance outside Kubernetes) counts as 100%;
+    // processes are counted among those reporting the series, not the ones only serving HTTP series
+    const processesReporting = (name: string | undefined) =>
+      Math.max(1, Array.from(byProcess.values()).filter(processSamples => processSamples.some(sample => sample.name === name)).length);
+    const cpuUsage = Math.min(100, rates.cpuSeconds * 100 / processesReporting(cpuSeries));
+    const memoryLimit = sum(serviceSamples, "container_spec_memory_limit_bytes") || DEFAULT_MEMORY_LIMIT_BYTES * processesReporting(memorySeries);
+    const fsLimit = sum(serviceSamples, "container_fs_limit_bytes");
+    const requests = deltas.requests;
+    const requestRate = rates.requests;
+    const responseTime = requests > 0 ? deltas.durationSeconds / requests * 1000 : 0;
+
+    return withHealth({
+      serviceName,
+      deploymentType: pods.size > 0 ? "kubernetes" : "vm",
+      cpuUsage,
+      memoryUsage: memorySeries ? Math.min(100, sum(serviceSamples, memorySeries) / memoryLimit * 100) : 0,
+      diskUsage: fsLimit > 0 ? Math.min(100, sum(serviceSamples, "container_fs_usage_bytes") / fsLimit * 100) : 0,
+      networkIn: rates.receiveBytes / (1024 * 1024),
+      networkOut: rates.transmitBytes / (1024 * 1024),
+      podCount: pods.size > 0 ? pods.size : null,
+      // Little's law: requests in flight = arrival rate × time in the system
+      activeConnections: Math.ceil(requestRate * responseTime / 1000),
+      errorRate: requests > 0 ? deltas.errors / requests * 100 : 0,
+      responseTime
+    }, false, now);
+  });
+
+  counters.forEach((snapshot, key) => {
+    if (snapshot.atMs < now.getTime() - COUNTER_SNAPSHOT_TTL_MS) counters.delete(key);
+  });
+
+  return { metrics, unmapped };
+}
+
+export async function ingestPrometheusSamples(
+  samples: PrometheusSample[],
+  fixedService?: string,
+  mapping: PrometheusMapping = getPrometheusMapping(),
+  now: Date = new Date(),
+  source: string = PUSH_SOURCE
+): Promise<PrometheusIngestResult> {
+  const { metrics, unmapped } = mapPrometheusSamples(samples, mapping, now, fixedService, previousCounters, source);
+
+  await storeServiceMetrics(metrics);
+  recordIngested("prometheus", samples.length);
+  const services = metrics.map(metric => metric.serviceName);
+  markExternallyReported(services, now);
+  return { services, samples: samples.length, unmapped };
+}
+
+const SCRAPE_TIMEOUT_MS = 10000;
+
+export async function scrapePrometheusTarget(target: PrometheusScrapeTarget): Promise<PrometheusIngestResult> {
+  const response = await fetch(target.url, {
+    headers: { Accept: "text/plain;version=0.0.4" },
+    signal: AbortSignal.timeout(SCRAPE_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return ingestPrometheusSamples(parsePrometheusText(await response.text()), target.service, getPrometheusMapping(), new Date(), target.url);
+}
+
+let scrapeInterval: NodeJS.Timeout | null = null;
+let isScraping = false;
+
+// Scrapes the PROMETHEUS_SCRAPE_TARGETS; does nothing when none are configured
+export function startPrometheusScraper(intervalMs: number = 30000) {
+  const targets = getPrometheusScrapeTargets();
+  if (targets.length === 0) return;
+
+  if (scrapeInterval) {
+    clearInterval(scrapeInterval);
+  }
+
+  scrapeInterval = setInterval(async () => {
+    if (isScraping) return;
+    isScraping = true;
+    try {
+      for (const target of targets) {
+        try {
+          await scrapePrometheusTarget(target);
+        } catch (error) {
+          console.error(`❌ Error scraping ${target.url}:`, error);
+        }
+      }
+    } finally {
+      isScraping = false;
+    }
+  }, intervalMs);
+
+  console.log(`📈 Prometheus scraper started for ${targets.length} targets with ${intervalMs}ms interval`);
+}
+
+export function stopPrometheusScraper() {
+  if (scrapeInterval) {
+    clearInterval(scrapeInterval);
+    scrapeInterval = null;
+    console.log('⏹️ Prometheus scraper stopped');
+  }
+}
@@ -0,0 +1,153 @@
+import { db } from "./db";
+import { sql, type SQL } from "drizzle-orm";
+import { shouldUseRollups, getEdgeRollups, mergeRollupRows, rollupToRedRow, ENTRY_SOURCE } from "./rollups";
+
+export interface RedQuery {
+  from: Date;
+  to: Date;
+  tenant?: string;
+}
+
+// Rate / Errors / Duration over a time window; durations in ms
+export interface RedMetrics {
+  requests: number;
+  rate: number; // requests per second
+  errors: number;
+  errorRate: number; // percentage 0-100
+  avg: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface RedAggregateRow {
+  requests: number;
+  errors: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p90Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface RedEdgeRow extends RedAggregateRow {
+  source: string;
+  target: string;
+}
+
+export interface RedServiceRow extends RedAggregateRow {
+  service: string;
+}
+
+const round = (value: number | null | undefined, digits = 1) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(Number(value || 0) * factor) / factor;
+};
+
+export function toRedMetrics(row: RedAggregateRow, windowSeconds: number): RedMetrics {
+  const requests = Number(row.requests);
+  const errors = Number(row.errors);
+
+  return {
+    requests,
+    rate: round(requests / Math.max(1, windowSeconds), 3),
+    errors,
+    errorRate: requests > 0 ? round((errors / requests) * 100, 2) : 0,
+    avg: round(row.avgMs),
+    p50: round(row.p50Ms),
+    p90: round(row.p90Ms),
+    p99: round(row.p99Ms)
+  };
+}
+
+// Every observed call in the window: cross-service span pairs, entry spans, and network events
+// that were not produced from a stored span (so generator output is not counted twice)
+function callsSubquery(query: RedQuery): SQL {
+  const { from, to, tenant } = query;
+  const pairTenant = tenant ? sql`and (p.tenant = ${tenant} or c.tenant = ${tenant})` : sql``;
+  const rootTenant = tenant ? sql`and s.tenant = ${tenant}` : sql``;
+  const eventTenant = tenant ? sql`and (ne.source_tenant = ${tenant} or ne.target_tenant = ${tenant})` : sql``;
+
+  return sql`
+    select p.service_name || '_' || p.operation_name as source,
+           c.service_name || '_' || c.operation_name as target,
+           c.service_name as service,
+           c.duration / 1000000.0 as duration_ms,
+           c.status = 'error' as is_error
+    from spans c
+    join spans p on c.parent_span_id = p.span_id and c.trace_id = p.trace_id
+    where c.start_time >= ${from} and c.start_time <= ${to}
+      and p.service_name <> c.service_name ${pairTenant}
+    union all
+    select null, null, s.service_name, s.duration / 1000000.0, s.status = 'error'
+    from spans s
+    where s.parent_span_id is null and s.start_time >= ${from} and s.start_time <= ${to} ${rootTenant}
+    union all
+    select ne.source, ne.target, coalesce(ne.target_service, ne.target), ne.response_time::float,
+           ne.status = 'error' or ne.status like '5%'
+    from network_events ne
+    where ne.timestamp >= ${from} and ne.timestamp <= ${to} ${eventTenant}
+      and not exists (
+        select 1 from spans s where s.span_id = coalesce(ne.span_id, ne.metadata->>'span_id')
+      )
+  `;
+}
+
+const aggregates = sql`
+  count(*)::int as "requests",
+  (count(*) filter (where is_error))::int as "errors",
+  avg(duration_ms)::float as "avgMs",
+  percentile_cont(0.5) within group (order by duration_ms) as "p50Ms",
+  percentile_cont(0.9) within group (order by duration_ms) as "p90Ms",
+  percentile_cont(0.99) within group (order by duration_ms) as "p99Ms"
+`;
+
+// Long windows read edge rollups. Services are aggregated from their incoming edges and their
+// rolled up entry spans, like the calls subquery
+async function getRolledUpRedMetrics(query: RedQuery, windowSeconds: number) {
+  const rows = await getEdgeRollups({ ...query, includeEntries: true });
+  const byService = new Map<string, typeof rows>();
+  rows.forEach(row => byService.set(row.targetService, [...(byService.get(row.targetService) || []), row]));
+
+  return {
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    windowSeconds,
+    edges: rows.filter(row => row.source !== ENTRY_SOURCE).map(row => ({ source: row.source, target: row.target, ...toRedMetrics(rollupToRedRow(row), windowSeconds) })),
+    services: Array.from(byService.entries()).map(([service, serviceRows]) => ({
+      service,
+      ...toRedMetrics(rollupToRedRow(mergeRollupRows(serviceRows)), windowSeconds)
+    }))
+  };
+}
+
+// Per-edge and per-service RED metrics for the window
+export async function getRedMetrics(query: RedQuery) {
+  const windowSeconds = (query.to.getTime() - query.from.getTime()) / 1000;
+  if (shouldUseRollups(query.from, query.to)) {
+    return getRolledUpRedMetrics(query, windowSeconds);
+  }
+  const calls = callsSubquery(query);
+
+  const edgeResult = await db.execute(sql`
+    select source, target, ${aggregates}
+    from (${calls}) calls
+    where source is not null
+    group by source, target
+  `);
+  const serviceResult = await db.execute(sql`
+    select service, ${aggregates}
+    from (${calls}) calls
+    group by service
+  `);
+
+  const edgeRows = edgeResult.rows as unknown as RedEdgeRow[];
+  const serviceRows = serviceResult.rows as unknown as RedServiceRow[];
+
+  return {
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    windowSeconds,
+    edges: edgeRows.map(row => ({ source: row.source, target: row.target, ...toRedMetrics(row, windowSeconds) })),
+    services: serviceRows.map(row => ({ service: row.service, ...toRedMetrics(row, windowSeconds) }))
+  };
+}
@@ -0,0 +1,66 @@
+import { db } from "./db";
+import { networkEvents, traces, spans } from "@shared/schema";
+import { and, or, eq, gte, lte, inArray, asc, type SQL } from "drizzle-orm";
+
+export type ReplayFormat = "network" | "otel";
+
+export interface ReplayQuery {
+  from: Date;
+  to: Date;
+  format: ReplayFormat;
+  tenant?: string;
+  limit: number;
+}
+
+// Recorded traffic for a window, oldest first so the client can feed it chronologically.
+// Traces come with all of their spans, even ones that started after `to`, so that every
+// parent → child call can be drawn. One row past the limit is read to tell whether the
+// window was cut off (`truncated`)
+export async function getReplayData(query: ReplayQuery) {
+  if (query.format === "network") {
+    const conditions: SQL[] = [gte(networkEvents.timestamp, query.from), lte(networkEvents.timestamp, query.to)];
+    if (query.tenant) {
+      // A call into the tenant belongs to its traffic as much as a call out of it
+      conditions.push(or(eq(networkEvents.sourceTenant, query.tenant), eq(networkEvents.targetTenant, query.tenant))!);
+    }
+
+    const rows = await db
+      .select()
+      .from(networkEvents)
+      .where(and(...conditions))
+      .orderBy(asc(networkEvents.timestamp))
+      .limit(query.limit + 1);
+    const events = rows.slice(0, query.limit);
+    return { format: query.format, from: query.from, to: query.to, truncated: rows.length > query.limit, events };
+  }
+
+  const conditions: SQL[] = [gte(traces.startTime, query.from), lte(traces.startTime, query.to)];
+  if (query.tenant) {
+    conditions.push(eq(traces.tenant, query.tenant));
+  }
+
+  const rows = await db
+    .select()
+    .from(traces)
+    .where(and(...conditions))
+    .orderBy(asc(traces.startTime))
+    .limit(query.limit + 1);
+  const windowTraces = rows.slice(0, query.limit);
+
+  const windowSpans = windowTraces.length > 0
+    ? await db
+        .select()
+        .from(spans)
+        .where(inArray(spans.traceId, windowTraces.map(trace => trace.traceId)))
+        .orderBy(asc(spans.startTime))
+    : [];
+
+  return {
+    format: query.format,
+    from: query.from,
+    to: query.to,
+    truncated: rows.length > query.limit,
+    traces: windowTraces,
+    spans: windowSpans
+  };
+}
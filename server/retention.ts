@@ -0,0 +1,104 @@
+import { db } from "./db";
+import { sql } from "drizzle-orm";
+
+export interface RetentionPolicy {
+  name: string;
+  table: string;
+  column: string;
+  filter?: string; // extra condition, e.g. one rollup resolution
+  days: number;
+}
+
+// Days to keep per data set; override with RETENTION_<NAME>_DAYS (e.g. RETENTION_SPANS_DAYS=3),
+// 0 keeps rows forever. SLOs are computed from spans, so spans cover the default 30-day SLO window,
+// and traces are kept as long as their spans
+const RETENTION_DEFAULTS: RetentionPolicy[] = [
+  { name: "traces", table: "traces", column: "start_time", days: 30 },
+  { name: "spans", table: "spans", column: "start_time", days: 30 },
+  { name: "network_events", table: "network_events", column: "timestamp", days: 7 },
+  { name: "service_metrics", table: "service_metrics", column: "timestamp", days: 7 },
+  { name: "rollups_minute", table: "edge_rollups", column: "bucket", filter: "resolution = 'minute'", days: 30 },
+  { name: "rollups_hour", table: "edge_rollups", column: "bucket", filter: "resolution = 'hour'", days: 365 }
+];
+
+const RETENTION_BATCH_SIZE = 5000;
+
+export function getRetentionPolicies(env: Record<string, string | undefined> = process.env): RetentionPolicy[] {
+  return RETENTION_DEFAULTS.map(policy => {
+    const variable = `RETENTION_${policy.name.toUpperCase()}_DAYS`;
+    const configured = env[variable];
+    if (configured === undefined || configured === "") return policy;
+
+    const days = Number(configured);
+    if (!Number.isFinite(days) || days < 0) {
+      console.warn(`⚠️ Ignoring ${variable}=${configured}, keeping ${policy.days} days`);
+      return policy;
+    }
+    return { ...policy, days };
+  });
+}
+
+export function getRetentionDays(name: string): number {
+  return getRetentionPolicies().find(policy => policy.name === name)?.days || 0;
+}
+
+// Deletes in id batches so a large backlog never holds long locks against the generators' inserts
+export async function pruneExpiredRows(policy: RetentionPolicy, now: Date, batchSize: number = RETENTION_BATCH_SIZE): Promise<number> {
+  if (policy.days <= 0) return 0;
+
+  const cutoff = new Date(now.getTime() - policy.days * 24 * 60 * 60 * 1000);
+  const table = sql.raw(policy.table);
+  const column = sql.raw(policy.column);
+  const filter = policy.filter ? sql.raw(`and ${policy.filter}`) : sql``;
+  let deleted = 0;
+
+  while (true) {
+    const result = await db.execute(sql`
+      delete from ${table}
+      where id in (select id from ${table} where ${column} < ${cutoff} ${filter} limit ${batchSize})
+    `);
+    const count = result.rowCount || 0;
+    deleted += count;
+    if (count < batchSize) return deleted;
+  }
+}
+
+export async function runRetention(now: Date = new Date()) {
+  for (const policy of getRetentionPolicies()) {
+    const deleted = await pruneExpiredRows(policy, now);
+    if (deleted > 0) {
+      console.log(`🧹 Pruned ${deleted} rows from ${policy.name} older than ${policy.days} days`);
+    }
+  }
+}
+
+let retentionInterval: NodeJS.Timeout | null = null;
+let isPruning = false;
+
+export function startRetentionJob(intervalMs: number = 10 * 60 * 1000) {
+  if (retentionInterval) {
+    clearInterval(retentionInterval);
+  }
+
+  retentionInterval = setInterval(async () => {
+    if (isPruning) return;
+    isPruning = true;
+    try {
+      await runRetention();
+    } catch (error) {
+      console.error('❌ Error pruning expired rows:', error);
+    } finally {
+      isPruning = false;
+    }
+  }, intervalMs);
+
+  console.log(`🧹 Retention job started with ${intervalMs}ms interval`);
+}
+
+export function stopRetentionJob() {
+  if (retentionInterval) {
+    clearInterval(retentionInterval);
+    retentionInterval = null;
+    console.log('⏹️ Retention job stopped');
+  }
+}
@@ -0,0 +1,429 @@
+import { db } from "./db";
+import { sql, type SQL } from "drizzle-orm";
+import { getRetentionDays } from "./retention";
+import { recordRowsWritten } from "./selfMetrics";
+import type { RedAggregateRow } from "./redMetrics";
+
+export type RollupResolution = "minute" | "hour";
+
+// Upper bounds in ms; slower calls land in the trailing overflow bucket
+export const ROLLUP_LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Range queries switch from raw rows to rollups for windows at least this long
+export const ROLLUP_MIN_WINDOW_MS = 6 * HOUR_MS;
+
+// One pass never rolls up more than this, so catching up after downtime stays incremental
+const MAX_CATCH_UP_MS = 6 * HOUR_MS;
+
+// Entry spans have no caller; rawCalls rolls them up under an empty source so service totals
+// include them
+export const ENTRY_SOURCE = "";
+
+export interface EdgeRollupRow {
+  source: string;
+  target: string;
+  sourceService: string;
+  targetService: string;
+  sourceTenant: string;
+  targetTenant: string;
+  sourceSystem: string;
+  targetSystem: string;
+  sourceLabel: string | null;
+  targetLabel: string | null;
+  calls: number;
+  errors: number;
+  durationSumMs: number;
+  latencyHistogram: number[];
+  statusCounts: Record<string, number>;
+}
+
+export const floorTo = (date: Date, stepMs: number) => new Date(Math.floor(date.getTime() / stepMs) * stepMs);
+const ceilTo = (date: Date, stepMs: number) => new Date(Math.ceil(date.getTime() / stepMs) * stepMs);
+
+export const shouldUseRollups = (from: Date, to: Date) => to.getTime() - from.getTime() >= ROLLUP_MIN_WINDOW_MS;
+
+// Estimate a quantile by interpolating inside the bucket that contains it; the overflow bucket
+// reports the last bound
+export function histogramQuantile(histogram: number[], q: number): number | null {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  const rank = q * total;
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    if (seen + histogram[i] >= rank && histogram[i] > 0) {
+      if (i >= ROLLUP_LATENCY_BUCKETS_MS.length) break;
+      const lower = i === 0 ? 0 : ROLLUP_LATENCY_BUCKETS_MS[i - 1];
+      const upper = ROLLUP_LATENCY_BUCKETS_MS[i];
+      return lower + (upper - lower) * ((rank - seen) / histogram[i]);
+    }
+    seen += histogram[i];
+  }
+  return ROLLUP_LATENCY_BUCKETS_MS[ROLLUP_LATENCY_BUCKETS_MS.length - 1];
+}
+
+export function rollupToRedRow(row: Pick<EdgeRollupRow, "calls" | "errors" | "durationSumMs" | "latencyHistogram">): RedAggregateRow {
+  return {
+    requests: row.calls,
+    errors: row.errors,
+    avgMs: row.calls > 0 ? row.durationSumMs / row.calls : null,
+    p50Ms: histogramQuantile(row.latencyHistogram, 0.5),
+    p90Ms: histogramQuantile(row.latencyHistogram, 0.9),
+    p99Ms: histogramQuantile(row.latencyHistogram, 0.99)
+  };
+}
+
+// Sum rows that share a key, e.g. every edge into a service
+export function mergeRollupRows<T extends Pick<EdgeRollupRow, "calls" | "errors" | "durationSumMs" | "latencyHistogram">>(rows: T[]) {
+  return rows.reduce((merged, row) => ({
+    calls: merged.calls + row.calls,
+    errors: merged.errors + row.errors,
+    durationSumMs: merged.durationSumMs + row.durationSumMs,
+    latencyHistogram: row.latencyHistogram.map((count, i) => count + (merged.latencyHistogram[i] || 0))
+  }), { calls: 0, errors: 0, durationSumMs: 0, latencyHistogram: [] as number[] });
+}
+
+// Cross-service span pairs, entry spans and network events not produced from a stored span, as in
+// RED metrics
+function rawCalls(start: Date, end: Date): SQL {
+  return sql`
+    select c.start_time as ts,
+           p.service_name || '_' || p.operation_name as source,
+           c.service_name || '_' || c.operation_name as target,
+           p.service_name as source_service, c.service_name as target_service,
+           p.tenant as source_tenant, c.tenant as target_tenant,
+           p.system as source_system, c.system as target_system,
+           p.operation_name as source_label, c.operation_name as target_label,
+           c.duration / 1000000.0 as duration_ms,
+           c.status = 'error' as is_error,
+           left(coalesce(c.attributes->>'http.response.status_code', c.attributes->>'http.status_code', c.status), 10) as status
+    from spans c
+    join spans p on c.parent_span_id = p.span_id and c.trace_id = p.trace_id
+    where c.start_time >= ${start} and c.start_time < ${end}
+      and p.service_name <> c.service_name
+    union all
+    select s.start_time, '', s.service_name || '_' || s.operation_name,
+           '', s.service_name, '', s.tenant, '', s.system,
+           null, s.operation_name,
+           s.duration / 1000000.0,
+           s.status = 'error',
+           left(coalesce(s.attributes->>'http.response.status_code', s.attributes->>'http.status_code', s.status), 10)
+    from spans s
+    where s.parent_span_id is null and s.start_time >= ${start} and s.start_time < ${end}
+    union all
+    select ne.timestamp, ne.source, ne.target,
+           coalesce(ne.source_service, ne.source), coalesce(ne.target_service, ne.target),
+           ne.source_tenant, ne.target_tenant, ne.source_system, ne.target_system,
+           ne.source_label, ne.target_label,
+           ne.response_time::float,
+           ne.status = 'error' or ne.status like '5%',
+           coalesce(ne.status, 'unset')
+    from network_events ne
+    where ne.timestamp >= ${start} and ne.timestamp < ${end}
+      and not exists (
+        select 1 from spans s where s.span_id = coalesce(ne.span_id, ne.metadata->>'span_id')
+      )
+  `;
+}
+
+const histogramFromDurations = sql.join([
+  ...ROLLUP_LATENCY_BUCKETS_MS.map((upper, i) => i === 0
+    ? sql`count(*) filter (where duration_ms <= ${upper})`
+    : sql`count(*) filter (where duration_ms > ${ROLLUP_LATENCY_BUCKETS_MS[i - 1]} and duration_ms <= ${upper})`),
+  sql`count(*) filter (where duration_ms > ${ROLLUP_LATENCY_BUCKETS_MS[ROLLUP_LATENCY_BUCKETS_MS.length - 1]})`
+], sql`, `);
+
+const summedHistogram = sql.join(
+  Array.from({ length: ROLLUP_LATENCY_BUCKETS_MS.length + 1 }, (_, i) => sql`sum((latency_histogram->>${sql.raw(String(i))})::int)`),
+  sql`, `
+);
+
+// Adds up the status_counts objects of the grouped rows
+const summedStatusCounts = sql`(
+  select coalesce(jsonb_object_agg(totals.status, totals.calls), '{}'::jsonb)
+  from (
+    select counts.key as status, sum(counts.value::int) as calls
+    from jsonb_array_elements(jsonb_agg(status_counts)) as grouped(row_counts),
+         jsonb_each_text(grouped.row_counts) as counts
+    group by counts.key
+  ) totals
+)`;
+
+const descriptiveColumns = sql`
+  max(source_service) as source_service, max(target_service) as target_service,
+  max(source_tenant) as source_tenant, max(target_tenant) as target_tenant,
+  max(source_system) as source_system, max(target_system) as target_system,
+  max(source_label) as source_label, max(target_label) as target_label
+`;
+
+const insertColumns = sql`
+  insert into edge_rollups (resolution, bucket, source, target, source_service, target_service,
+    source_tenant, target_tenant, source_system, target_system, source_label, target_label,
+    calls, errors, duration_sum_ms, latency_histogram, status_counts)
+`;
+
+// A bucket rolled up again (after rewindRollups) is recomputed in full, so it replaces the old row
+const replaceOnConflict = sql`
+  on conflict (resolution, bucket, source, target) do update set
+    calls = excluded.calls, errors = excluded.errors,
+    duration_sum_ms = excluded.duration_sum_ms, latency_histogram = excluded.latency_histogram,
+    status_counts = excluded.status_counts
+`;
+
+async function latestBucket(resolution: RollupResolution): Promise<Date | null> {
+  const result = await db.execute(sql`select max(bucket) as "bucket" from edge_rollups where resolution = ${resolution}`);
+  const bucket = (result.rows[0] as { bucket: string | Date | null } | undefined)?.bucket;
+  return bucket ? new Date(bucket) : null;
+}
+
+// Rolled up to (exclusive) per resolution. Empty minutes write no rows, so the newest bucket
+// only seeds these after a restart
+const watermarks: Partial<Record<RollupResolution, Date>> = {};
+
+// Earliest rewind requested since the last pass started. Passes apply it before reading the
+// watermarks, so a pass that is still running can't move them past a rewind when it finishes
+let pendingRewind: Date | null = null;
+
+function applyPendingRewind() {
+  if (!pendingRewind) return;
+  const start = pendingRewind;
+  pendingRewind = null;
+  if (watermarks.minute && watermarks.minute > start) watermarks.minute = start;
+  if (watermarks.hour && watermarks.hour > floorTo(start, HOUR_MS)) watermarks.hour = floorTo(start, HOUR_MS);
+}
+
+// Grouped per status first, so each minute row keeps its calls per status
+const rollupMinuteRange = async (start: Date, end: Date) => (await db.execute(sql`
+  ${insertColumns}
+  select 'minute', bucket, source, target, ${descriptiveColumns},
+         sum(calls)::int, sum(errors)::int, sum(duration_sum_ms),
+         jsonb_build_array(${summedHistogram}), ${summedStatusCounts}
+  from (
+    select date_trunc('minute', ts) as bucket, source, target, ${descriptiveColumns},
+           count(*) as calls, count(*) filter (where is_error) as errors,
+           coalesce(sum(duration_ms), 0) as duration_sum_ms,
+           jsonb_build_array(${histogramFromDurations}) as latency_histogram,
+           jsonb_build_object(status, count(*)) as status_counts
+    from (${rawCalls(start, end)}) calls
+    group by date_trunc('minute', ts), source, target, status
+  ) statuses
+  group by bucket, source, target
+  ${replaceOnConflict}
+`)).rowCount || 0;
+
+const rollupHourRange = async (start: Date, end: Date) => (await db.execute(sql`
+  ${insertColumns}
+  select 'hour', date_trunc('hour', bucket), source, target, ${descriptiveColumns},
+         sum(calls)::int, sum(errors)::int, sum(duration_sum_ms),
+         jsonb_build_array(${summedHistogram}), ${summedStatusCounts}
+  from edge_rollups
+  where resolution = 'minute' and bucket >= ${start} and bucket < ${end}
+  group by date_trunc('hour', bucket), source, target
+  ${replaceOnConflict}
+`)).rowCount || 0;
+
+// History still to roll up, newest first: everything from historyEnd back to the history start.
+// Filled in alongside the regular passes, so recent buckets exist right after the first pass
+let historyEnd: Date | null = null;
+
+// Oldest hour the first rollups reach: raw rows are complete for the shorter of the span and
+// network event retention, and older minute rollups would only be pruned again. A day when
+// everything is kept forever
+function historyStart(now: Date): Date {
+  const days = [getRollupSourceRetentionDays(), getRetentionDays("rollups_minute")].filter(days => days > 0);
+  const historyDays = days.length > 0 ? Math.min(...days) : 1;
+  return floorTo(new Date(now.getTime() - historyDays * 24 * HOUR_MS), HOUR_MS);
+}
+
+// Roll up closed minutes; the previous minute stays open for late writes. Without any rollups
+// yet, the first pass starts at most MAX_CATCH_UP_MS back and older history is left to rollupHistory
+export async function rollupMinutes(now: Date): Promise<number> {
+  const end = new Date(floorTo(now, MINUTE_MS).getTime() - MINUTE_MS);
+  if (!watermarks.minute) {
+    const latest = await latestBucket("minute");
+    if (latest) {
+      watermarks.minute = new Date(latest.getTime() + MINUTE_MS);
+      const result = await db.execute(sql`select min(bucket) as "bucket" from edge_rollups where resolution = 'minute'`);
+      const earliest = (result.rows[0] as { bucket: string | Date | null } | undefined)?.bucket;
+      historyEnd = earliest ? floorTo(new Date(earliest), HOUR_MS) : null;
+    } else {
+      watermarks.minute = ceilTo(new Date(end.getTime() - MAX_CATCH_UP_MS), HOUR_MS);
+      watermarks.hour = watermarks.minute;
+      historyEnd = watermarks.minute;
+    }
+  }
+  applyPendingRewind();
+  const start = watermarks.minute;
+  const passEnd = new Date(Math.min(end.getTime(), start.getTime() + MAX_CATCH_UP_MS));
+  if (start >= passEnd) return 0;
+
+  const rows = await rollupMinuteRange(start, passEnd);
+  watermarks.minute = passEnd;
+  return rows;
+}
+
+// Roll up one MAX_CATCH_UP_MS slice of the history before the first rollups, minutes and then
+// their hours, walking back towards the history start
+export async function rollupHistory(now: Date): Promise<number> {
+  if (!historyEnd) return 0;
+  const end = historyEnd;
+  const start = new Date(Math.max(historyStart(now).getTime(), end.getTime() - MAX_CATCH_UP_MS));
+  if (start >= end) {
+    historyEnd = null;
+    return 0;
+  }
+
+  const rows = await rollupMinuteRange(start, end) + await rollupHourRange(start, end);
+  historyEnd = start;
+  return rows;
+}
+
+// Rollups are built from spans and network events; the shorter-kept of the two bounds how far
+// back raw rows are complete. 0 when both are kept forever
+export function getRollupSourceRetentionDays(): number {
+  const days = ["spans", "network_events"].map(getRetentionDays).filter(days => days > 0);
+  return days.length > 0 ? Math.min(...days) : 0;
+}
+
+// Backfilled rows land behind the watermarks: the next pass rolls up again from `from`, but not
+// before the raw retention horizon, where re-rolling would replace buckets with what is left of
+// pruned rows
+export function rewindRollups(from: Date, now: Date = new Date()) {
+  const retentionDays = getRollupSourceRetentionDays();
+  const horizon = retentionDays > 0 ? now.getTime() - retentionDays * 24 * HOUR_MS : from.getTime();
+  const start = floorTo(new Date(Math.max(from.getTime(), horizon)), MINUTE_MS);
+  if (!pendingRewind || start < pendingRewind) pendingRewind = start;
+}
+
+// Roll hours up from their minute rollups once every minute of the hour is rolled up
+export async function rollupHours(): Promise<number> {
+  if (!watermarks.minute) return 0;
+  const end = floorTo(watermarks.minute, HOUR_MS);
+  if (!watermarks.hour) {
+    const latest = await latestBucket("hour");
+    watermarks.hour = latest ? new Date(latest.getTime() + HOUR_MS) : historyEnd || end;
+  }
+  const start = watermarks.hour;
+  if (start >= end) return 0;
+
+  const rows = await rollupHourRange(start, end);
+  watermarks.hour = end;
+  return rows;
+}
+
+// Whole hours of the window come from hour rollups, the ragged edges from minute rollups
+function rollupRange(from: Date, to: Date): SQL {
+  const hourStart = ceilTo(from, HOUR_MS);
+  const hourEnd = floorTo(to, HOUR_MS);
+  if (hourStart >= hourEnd) {
+    return sql`resolution = 'minute' and bucket >= ${from} and bucket < ${to}`;
+  }
+  return sql`(
+    (resolution = 'hour' and bucket >= ${hourStart} and bucket < ${hourEnd})
+    or (resolution = 'minute' and ((bucket >= ${from} and bucket < ${hourStart}) or (bucket >= ${hourEnd} and bucket < ${to})))
+  )`;
+}
+
+// Per-edge totals over the window from rollups; entry spans only with includeEntries
+export async function getEdgeRollups(query: { from: Date; to: Date; tenant?: string; limit?: number; includeEntries?: boolean }): Promise<EdgeRollupRow[]> {
+  const tenant = query.tenant ? sql`and (source_tenant = ${query.tenant} or target_tenant = ${query.tenant})` : sql``;
+  const entries = query.includeEntries ? sql`` : sql`and source <> ${ENTRY_SOURCE}`;
+  const limit = query.limit ? sql`limit ${query.limit}` : sql``;
+
+  const result = await db.execute(sql`
+    select source, target,
+           max(source_service) as "sourceService", max(target_service) as "targetService",
+           max(source_tenant) as "sourceTenant", max(target_tenant) as "targetTenant",
+           max(source_system) as "sourceSystem", max(target_system) as "targetSystem",
+           max(source_label) as "sourceLabel", max(target_label) as "targetLabel",
+           sum(calls)::int as "calls", sum(errors)::int as "errors", sum(duration_sum_ms)::float as "durationSumMs",
+           jsonb_build_array(${summedHistogram}) as "latencyHistogram",
+           ${summedStatusCounts} as "statusCounts"
+    from edge_rollups
+    where ${rollupRange(query.from, query.to)} ${tenant} ${entries}
+    group by source, target
+    order by sum(calls) desc
+    ${limit}
+  `);
+
+  return (result.rows as unknown as EdgeRollupRow[]).map(row => ({
+    ...row,
+    latencyHistogram: (row.latencyHistogram || []).map(Number),
+    statusCounts: Object.fromEntries(Object.entries(row.statusCounts || {}).map(([status, calls]) => [status, Number(calls)]))
+  }));
+}
+
+// Network event shaped rows for the realtime diagram: one event per edge and status, carrying its
+// call count in metadata.rollup. Rows rolled up before statuses were kept split into 200 and 500
+export function rollupsToEvents(rows: EdgeRollupRow[], to: Date) {
+  let id = 0;
+  return rows.flatMap(row => {
+    const base = {
+      source: row.source,
+      target: row.target,
+      sourceService: row.sourceService,
+      targetService: row.targetService,
+      sourceTenant: row.sourceTenant,
+      targetTenant: row.targetTenant,
+      sourceSystem: row.sourceSystem,
+      targetSystem: row.targetSystem,
+      sourceLabel: row.sourceLabel,
+      targetLabel: row.targetLabel,
+      method: null,
+      responseTime: row.calls > 0 ? Math.round(row.durationSumMs / row.calls) : 0,
+      traceId: null,
+      spanId: null,
+      timestamp: to
+    };
+    const statusCounts = Object.keys(row.statusCounts || {}).length > 0
+      ? row.statusCounts
+      : { "200": row.calls - row.errors, "500": row.errors };
+    return Object.entries(statusCounts)
+      .filter(([, calls]) => calls > 0)
+      .map(([status, calls]) => ({ ...base, id: --id, status, metadata: { rollup: { calls } } }));
+  });
+}
+
+export async function runRollups(now: Date = new Date()) {
+  const minutes = await rollupMinutes(now);
+  const hours = await rollupHours();
+  const history = await rollupHistory(now);
+  recordRowsWritten("edge_rollups", minutes + hours + history);
+  if (minutes > 0 || hours > 0 || history > 0) {
+    console.log(`📦 Rolled up ${minutes} minute and ${hours} hour edge buckets, ${history} from earlier history`);
+  }
+}
+
+let rollupInterval: NodeJS.Timeout | null = null;
+let isRollingUp = false;
+
+export function startRollupJob(intervalMs: number = MINUTE_MS) {
+  if (rollupInterval) {
+    clearInterval(rollupInterval);
+  }
+
+  rollupInterval = setInterval(async () => {
+    if (isRollingUp) return;
+    isRollingUp = true;
+    try {
+      await runRollups();
+    } catch (error) {
+      console.error('❌ Error rolling up edge metrics:', error);
+    } finally {
+      isRollingUp = false;
+    }
+  }, intervalMs);
+
+  console.log(`📦 Rollup job started with ${intervalMs}ms interval`);
+}
+
+export function stopRollupJob() {
+  if (rollupInterval) {
+    clearInterval(rollupInterval);
+    rollupInterval = null;
+    console.log('⏹️ Rollup job stopped');
+  }
+}
@@ -1,18 +1,52 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertDiagramSchema, diagramDataSchema } from "@shared/schema";
-import { startNetworkGenerator, getRecentEvents, getEventsSince, getEventsInRange } from "./networkGenerator";
-import { startOpenTelemetryGeneration, stopOpenTelemetryGeneration, getRecentTraces, getSpansForTrace, getTracesInRange } from "./opentelemetryGenerator";
-import { startRealisticGeneration, stopRealisticGeneration } from "./realisticOtelGenerator";
-import { startServiceMetricsGeneration, stopServiceMetricsGeneration, getLatestServiceMetrics, getServiceMetricsHistory } from "./serviceMetricsGenerator";
+import { insertDiagramSchema, diagramDataSchema, type DiagramData } from "@shared/schema";
+import { getRecentEvents, getEventsSince, getEventsInRange } from "./networkGenerator";
+import { getRecentTraces, getSpansForTrace, getTracesInRange } from "./opentelemetryGenerator";
+import { getLatestServiceMetrics, getServiceMetricsHistory } from "./serviceMetricsGenerator";
+import { parsePrometheusText, ingestPrometheusSamples, type PrometheusSample } from "./prometheusIngest";
+import { generatorManager, isGeneratorName, MIN_GENERATOR_INTERVAL_MS, MAX_GENERATOR_BATCH_COUNT } from "./generatorManager";
+import { isRunId } from "./seededRandom";
+import { getScenarioState, setActiveScenario, resetScenario, parseScenarioText, scenarioFieldErrors } from "./scenario";
+import { convertOtlpTraceRequest, storeOtlpTraces } from "./otlpReceiver";
+import { decodeExportTraceServiceRequest } from "./otlpProtobuf";
+import { parseTraceFile } from "./traceImport";
+import { buildKubernetesTopology, flattenManifests, isKubernetesManifest, parseYamlDocuments } from "./k8sImport";
+import { buildComposeTopology, isComposeFile } from "./composeImport";
+import { buildOpenApiTopology, isOpenApiSpec } from "./openApiImport";
+import { diffDiagramRevisions } from "@shared/diagramDiff";
+import { exportDiagram, isDiagramExportFormat, DIAGRAM_EXPORT_FORMATS } from "@shared/diagramExport";
+import { getTopology, getTopologyDiff, getConformanceReport } from "./topology";
+import { getRedMetrics } from "./redMetrics";
+import { rewindRollups } from "./rollups";
+import { getTraceWithCriticalPath, getCriticalPathSummary } from "./criticalPath";
+import { attachLiveStream, streamLiveEvents, getLiveSubscriberCount, LIVE_STREAM_PATH } from "./liveStream";
+import { renderSelfMetrics, PROMETHEUS_CONTENT_TYPE } from "./selfMetrics";
+import { pool } from "./db";
+import { getReplayData } from "./replay";
+import { alertRuleSchema, listAlertRules, createAlertRule, updateAlertRule, deleteAlertRule, getAlerts } from "./alertEngine";
+import { sloSchema, listSlos, createSlo, updateSlo, deleteSlo, getSloStatuses } from "./slo";
 import { pushToGitHub } from "./github-utils";
 import multer from "multer";
 import * as XLSX from "xlsx";
 import { parse } from "csv-parse/sync";
+import { ZodError } from "zod";
+import type { AlertStatus } from "@shared/alerts";
+import { scenarioSchema } from "@shared/scenario";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Parse ?from&to query params; defaults to the last 15 minutes, null when invalid
+function parseTimeWindow(query: Record<string, unknown>): { from: Date; to: Date } | null {
+  const to = query.to ? new Date(query.to as string) : new Date();
+  const from = query.from ? new Date(query.from as string) : new Date(to.getTime() - 15 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    return null;
+  }
+  return { from, to };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Parse uploaded file and extract source-target relationships
@@ -25,6 +59,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { buffer, originalname } = req.file;
       let data: any[] = [];
 
+      // docker-compose files, OpenAPI specs and Kubernetes manifests (multi-document YAML or
+      // `kubectl get -o json`) give the intended topology
+      const isYaml = originalname.endsWith('.yaml') || originalname.endsWith('.yml');
+      const json = originalname.endsWith('.json') ? JSON.parse(buffer.toString('utf-8')) : undefined;
+      const documents = isYaml ? parseYamlDocuments(buffer.toString('utf-8')) : [json];
+      const [document] = documents;
+      const format = documents.length !== 1 ? (isYaml ? 'kubernetes' : null)
+        : isComposeFile(document) ? 'compose'
+        : isOpenApiSpec(document) ? 'openapi'
+        : isYaml || isKubernetesManifest(document) ? 'kubernetes' : null;
+
+      if (format) {
+        const topology = format === 'compose' ? buildComposeTopology(document as Record<string, any>)
+          : format === 'openapi' ? buildOpenApiTopology(document as Record<string, any>)
+          : buildKubernetesTopology(flattenManifests(documents));
+        if (topology.data.nodes.length === 0) {
+          return res.status(400).json({ message: {
+            compose: "Compose file does not define any services",
+            openapi: "OpenAPI spec does not define any operations",
+            kubernetes: "Manifest does not contain any workloads, Services or Ingresses"
+          }[format] });
+        }
+        console.log(`📂 Imported ${format} topology: ${topology.stats.nodeCount} nodes, ${topology.stats.edgeCount} connections`);
+        return res.json({ data: diagramDataSchema.parse(topology.data), stats: topology.stats });
+      }
+
+      // Zipkin/Jaeger exports are returned as traces and spans for the OpenTelemetry processor
+      if (json) {
+        const imported = parseTraceFile(json);
+        if (imported.spans.length === 0) {
+          return res.status(400).json({ message: "Trace file does not contain any spans" });
+        }
+        console.log(`📂 Imported ${imported.format} file: ${imported.traces.length} traces, ${imported.spans.length} spans`);
+        return res.json(imported);
+      }
+
       // Parse based on file extension
       if (originalname.endsWith('.csv')) {
         const csvText = buffer.toString('utf-8');
@@ -35,7 +105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const worksheet = workbook.Sheets[sheetName];
         data = XLSX.utils.sheet_to_json(worksheet);
       } else {
-        return res.status(400).json({ message: "Unsupported file format. Please use CSV or Excel files." });
+        return res.status(400).json({ message: "Unsupported file format. Please use CSV, Excel, Zipkin/Jaeger JSON, Kubernetes, docker-compose or OpenAPI YAML/JSON files." });
       }
 
       // Validate required columns
@@ -163,6 +233,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved diagram as Graphviz DOT, Mermaid or GraphML text
+  app.get("/api/diagrams/:id/export", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const format = req.query.format || 'dot';
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid diagram ID" });
+      }
+      if (!isDiagramExportFormat(format)) {
+        return res.status(400).json({ message: `format must be one of: ${Object.keys(DIAGRAM_EXPORT_FORMATS).join(', ')}` });
+      }
+
+      const diagram = await storage.getDiagram(id);
+      if (!diagram) {
+        return res.status(404).json({ message: "Diagram not found" });
+      }
+
+      const { extension, contentType } = DIAGRAM_EXPORT_FORMATS[format];
+      res.type(contentType)
+        .attachment(`${diagram.name.replace(/[^\w.-]+/g, '_') || 'diagram'}.${extension}`)
+        .send(exportDiagram(diagram.data as DiagramData, format, diagram.name));
+    } catch (error) {
+      console.error('❌ Error exporting diagram:', error);
+      res.status(500).json({ message: "Failed to export diagram" });
+    }
+  });
+
   // Update diagram
   app.patch("/api/diagrams/:id", async (req, res) => {
     try {
@@ -178,6 +275,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Delete diagram
+  app.delete("/api/diagrams/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteDiagram(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Diagram not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(400).json({ message: "Invalid diagram ID" });
+    }
+  });
+
+  // List revisions of a diagram, newest first
+  app.get("/api/diagrams/:id/revisions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const diagram = await storage.getDiagram(id);
+      if (!diagram) {
+        return res.status(404).json({ message: "Diagram not found" });
+      }
+
+      const revisions = await storage.getDiagramRevisions(id);
+      res.json(revisions.map(({ data, settings, ...revision }) => ({
+        ...revision,
+        nodeCount: (data as any)?.nodes?.length || 0,
+        edgeCount: (data as any)?.edges?.length || 0
+      })));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid diagram ID" });
+    }
+  });
+
+  // Structural diff between two revisions; 'to' defaults to the latest revision
+  app.get("/api/diagrams/:id/revisions/diff", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisions = await storage.getDiagramRevisions(id);
+      if (revisions.length === 0) {
+        return res.status(404).json({ message: "Diagram not found" });
+      }
+
+      const fromRevision = parseInt(req.query.from as string);
+      const toRevision = req.query.to ? parseInt(req.query.to as string) : revisions[0].revision;
+      const from = revisions.find(r => r.revision === fromRevision);
+      const to = revisions.find(r => r.revision === toRevision);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json(diffDiagramRevisions(from, to));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid revision range" });
+    }
+  });
+
+  // Get a single revision
+  app.get("/api/diagrams/:id/revisions/:revision", async (req, res) => {
+    try {
+      const revision = await storage.getDiagramRevision(parseInt(req.params.id), parseInt(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid revision" });
+    }
+  });
+
+  // Restore a revision; the restored state is saved as a new revision
+  app.post("/api/diagrams/:id/revisions/:revision/restore", async (req, res) => {
+    try {
+      const diagram = await storage.restoreDiagramRevision(parseInt(req.params.id), parseInt(req.params.revision));
+      if (!diagram) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(diagram);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to restore revision" });
+    }
+  });
+
   // Get all diagrams
   app.get("/api/diagrams", async (req, res) => {
     try {
@@ -188,48 +368,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Real-time network events endpoints
-  
-  // Start generating network events
-  app.post("/api/network/start", (req, res) => {
+  // Uniform control of the data generators: status, interval, rows produced and last error
+  app.get("/api/generators", (req, res) => {
+    res.json(generatorManager.list());
+  });
+
+  app.post("/api/generators/:name/:action", async (req, res) => {
+    const { name, action } = req.params;
+    if (!isGeneratorName(name)) {
+      return res.status(404).json({ message: `Unknown generator '${name}'` });
+    }
+    if (action !== 'start' && action !== 'stop' && action !== 'batch') {
+      return res.status(404).json({ message: "Action must be 'start', 'stop' or 'batch'" });
+    }
+
+    // Integer or string seed for reproducible output
+    const seed = req.body?.seed;
+    if (seed !== undefined && !(Number.isInteger(seed) || (typeof seed === 'string' && seed.length > 0))) {
+      return res.status(400).json({ message: "seed must be an integer or a non-empty string" });
+    }
+    // Hex prefix for trace and span IDs, to store a seed's data again next to an earlier run
+    const runId = req.body?.runId;
+    if (runId !== undefined && !isRunId(runId)) {
+      return res.status(400).json({ message: "runId must be 1 to 8 lowercase hex characters" });
+    }
+
     try {
-      const interval = req.body.interval || 2000; // Default 2 seconds
-      
-      // Stop existing generator if running
-      const existingStopGenerator = (app as any).networkGeneratorStop;
-      if (existingStopGenerator) {
-        existingStopGenerator();
-        delete (app as any).networkGeneratorStop;
+      if (action === 'stop') {
+        return res.json(generatorManager.stop(name));
       }
-      
-      // Start new generator with new interval
-      const stopGenerator = startNetworkGenerator(interval);
-      
-      // Store the stop function (in a real app, you'd use a proper state manager)
-      (app as any).networkGeneratorStop = stopGenerator;
-      
-      res.json({ 
-        message: "Network event generator started", 
-        interval: interval 
-      });
+
+      // Backfill in the background: `count` passes with timestamps spread over ?from&to (default
+      // the last 15 minutes); progress is reported in GET /api/generators
+      if (action === 'batch') {
+        const count = parseInt(req.body?.count);
+        if (isNaN(count) || count < 1 || count > MAX_GENERATOR_BATCH_COUNT) {
+          return res.status(400).json({ message: `count must be between 1 and ${MAX_GENERATOR_BATCH_COUNT}` });
+        }
+        const window = parseTimeWindow(req.body || {});
+        if (!window) {
+          return res.status(400).json({ message: "Invalid time window" });
+        }
+        if (generatorManager.get(name)?.batch?.state === 'running') {
+          return res.status(409).json({ message: `A backfill of ${name} is already running` });
+        }
+        const started = generatorManager.batch(name, { count, ...window, seed, runId })!;
+        started.done.then(() => rewindRollups(window.from));
+        return res.status(202).json(started.job);
+      }
+
+      const requested = req.body?.intervalMs ?? req.body?.interval;
+      const intervalMs = requested === undefined ? undefined : parseInt(requested);
+      if (intervalMs !== undefined && (isNaN(intervalMs) || intervalMs < MIN_GENERATOR_INTERVAL_MS)) {
+        return res.status(400).json({ message: `interval must be at least ${MIN_GENERATOR_INTERVAL_MS}ms` });
+      }
+      res.json(generatorManager.start(name, intervalMs, seed, runId));
     } catch (error) {
-      res.status(500).json({ message: "Failed to start generator" });
+      console.error(`❌ Error running ${action} on generator ${name}:`, error);
+      res.status(500).json({ message: `Failed to ${action} generator` });
     }
   });
 
-  // Stop generating network events
-  app.post("/api/network/stop", (req, res) => {
-    try {
-      const stopGenerator = (app as any).networkGeneratorStop;
-      if (stopGenerator) {
-        stopGenerator();
-        delete (app as any).networkGeneratorStop;
+  // Scenario driving the generators: topology, call graph, latencies, error rates and faults
+  app.get("/api/scenario", (req, res) => {
+    res.json(getScenarioState());
+  });
+
+  // Accepts a JSON body or YAML text; fault timings restart from the moment of loading
+  app.put("/api/scenario", express.text({ type: ["application/yaml", "application/x-yaml", "text/yaml", "text/plain"], limit: "1mb" }), (req, res) => {
+    let input: unknown = req.body;
+    if (typeof input === 'string') {
+      try {
+        input = parseScenarioText(input);
+      } catch (error) {
+        return res.status(400).json({ message: `Invalid scenario YAML: ${error instanceof Error ? error.message : String(error)}` });
       }
-      
-      res.json({ message: "Network event generator stopped" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to stop generator" });
     }
+
+    const parsed = scenarioSchema.safeParse(input);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid scenario", errors: scenarioFieldErrors(parsed.error) });
+    }
+    res.json(setActiveScenario(parsed.data));
+  });
+
+  app.delete("/api/scenario", (req, res) => {
+    res.json(resetScenario());
   });
 
   // Get recent network events
@@ -280,50 +504,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OpenTelemetry endpoints
-  
-  // Start OpenTelemetry trace generation
-  app.post("/api/otel/start", (req, res) => {
-    try {
-      const interval = req.body.interval || 5000; // Default 5 seconds for traces
-      
-      // Stop existing generator if running
-      const existingStopGenerator = (app as any).otelGeneratorStop;
-      if (existingStopGenerator) {
-        existingStopGenerator();
-        delete (app as any).otelGeneratorStop;
-      }
-      
-      // Start new generator
-      startOpenTelemetryGeneration(interval);
-      
-      // Store stop function for later cleanup
-      (app as any).otelGeneratorStop = () => stopOpenTelemetryGeneration();
-      
-      res.json({ 
-        message: "OpenTelemetry trace generation started", 
-        interval,
-        format: "OpenTelemetry with traces and spans"
-      });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to start OpenTelemetry generation" });
-    }
-  });
-
-  // Stop OpenTelemetry trace generation
-  app.post("/api/otel/stop", (req, res) => {
-    try {
-      const stopGenerator = (app as any).otelGeneratorStop;
-      if (stopGenerator) {
-        stopGenerator();
-        delete (app as any).otelGeneratorStop;
-      }
-      
-      stopOpenTelemetryGeneration();
-      res.json({ message: "OpenTelemetry trace generation stopped" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to stop OpenTelemetry generation" });
-    }
-  });
 
   // Get recent traces
   app.get("/api/otel/traces", async (req, res) => {
@@ -355,63 +535,338 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Realistic OpenTelemetry generation endpoints
-  
-  // Start realistic OpenTelemetry trace generation (Gateway → API Bus → Business Services)
-  app.post("/api/otel/realistic/start", (req, res) => {
+  // Trace with its spans and critical path
+  app.get("/api/otel/traces/:traceId", async (req, res) => {
     try {
-      const interval = req.body.interval || 2000; // Default 2 seconds for realistic traces
-      
-      // Stop any existing generators first
-      stopOpenTelemetryGeneration();
-      stopRealisticGeneration();
-      
-      // Start realistic generation
-      startRealisticGeneration(interval);
-      
-      res.json({ 
-        message: "Realistic OpenTelemetry trace generation started", 
-        interval,
-        format: "Realistic Gateway → API Bus → Business Services flow"
+      const result = await getTraceWithCriticalPath(req.params.traceId);
+      if (!result) {
+        return res.status(404).json({ message: "Trace not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error('❌ Error computing critical path:', error);
+      res.status(500).json({ message: "Failed to fetch trace" });
+    }
+  });
+
+  // Services most often on the critical path for an entry operation
+  app.get("/api/critical-path", async (req, res) => {
+    try {
+      const window = parseTimeWindow(req.query);
+      if (!window) {
+        return res.status(400).json({ message: "Invalid time range" });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 200;
+      const summary = await getCriticalPathSummary({
+        ...window,
+        tenant: req.query.tenant as string | undefined,
+        operation: req.query.operation as string | undefined,
+        limit: Math.min(limit, 1000)
       });
+      res.json(summary);
     } catch (error) {
-      res.status(500).json({ message: "Failed to start realistic OpenTelemetry generation" });
+      console.error('❌ Error aggregating critical paths:', error);
+      res.status(500).json({ message: "Failed to aggregate critical paths" });
     }
   });
-  
-  // Stop realistic OpenTelemetry trace generation
-  app.post("/api/otel/realistic/stop", (req, res) => {
+
+  // Recorded network events or traces for a window, oldest first, for time-travel replay
+  app.get("/api/replay", async (req, res) => {
     try {
-      stopRealisticGeneration();
-      res.json({ message: "Realistic OpenTelemetry trace generation stopped" });
+      const window = parseTimeWindow(req.query);
+      const format = (req.query.format as string) || 'otel';
+
+      if (!window) {
+        return res.status(400).json({ message: "Invalid time range" });
+      }
+      if (format !== 'network' && format !== 'otel') {
+        return res.status(400).json({ message: "format must be 'network' or 'otel'" });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 2000;
+      const replay = await getReplayData({
+        ...window,
+        format,
+        tenant: req.query.tenant as string | undefined,
+        limit: Math.min(limit, 10000)
+      });
+      res.json(replay);
     } catch (error) {
-      res.status(500).json({ message: "Failed to stop realistic OpenTelemetry generation" });
+      console.error('❌ Error loading replay data:', error);
+      res.status(500).json({ message: "Failed to load replay data" });
     }
   });
 
-  // Service Metrics API endpoints
-  app.post("/api/metrics/start", (req, res) => {
+  // Alert rules evaluated by the alert engine
+  app.get("/api/alerts/rules", async (req, res) => {
+    try {
+      res.json(await listAlertRules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alert rules" });
+    }
+  });
+
+  app.post("/api/alerts/rules", async (req, res) => {
+    const parsed = alertRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid alert rule", errors: parsed.error.flatten().fieldErrors });
+    }
+    try {
+      res.status(201).json(await createAlertRule(parsed.data));
+    } catch (error) {
+      console.error('❌ Error creating alert rule:', error);
+      res.status(500).json({ message: "Failed to create alert rule" });
+    }
+  });
+
+  app.patch("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      const rule = await updateAlertRule(parseInt(req.params.id), req.body);
+      if (!rule) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid alert rule", errors: error.flatten().fieldErrors });
+      }
+      console.error('❌ Error updating alert rule:', error);
+      res.status(500).json({ message: "Failed to update alert rule" });
+    }
+  });
+
+  app.delete("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      const deleted = await deleteAlertRule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete alert rule" });
+    }
+  });
+
+  // Pending and firing alerts by default; ?status=firing,pending,resolved
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      const statuses = ((req.query.status as string) || 'pending,firing')
+        .split(',')
+        .filter((status): status is AlertStatus => ['pending', 'firing', 'resolved'].includes(status));
+      if (statuses.length === 0) {
+        return res.status(400).json({ message: "status must be pending, firing or resolved" });
+      }
+      res.json(await getAlerts(statuses));
+    } catch (error) {
+      console.error('❌ Error fetching alerts:', error);
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  // Service level objectives over entry spans
+  app.get("/api/slos", async (req, res) => {
+    try {
+      res.json(await listSlos());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch SLOs" });
+    }
+  });
+
+  app.post("/api/slos", async (req, res) => {
+    const parsed = sloSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid SLO", errors: parsed.error.flatten().fieldErrors });
+    }
+    try {
+      res.status(201).json(await createSlo(parsed.data));
+    } catch (error) {
+      console.error('❌ Error creating SLO:', error);
+      res.status(500).json({ message: "Failed to create SLO" });
+    }
+  });
+
+  // SLI, remaining error budget and burn rates for every SLO
+  app.get("/api/slos/status", async (req, res) => {
+    try {
+      res.json(await getSloStatuses());
+    } catch (error) {
+      console.error('❌ Error computing SLO status:', error);
+      res.status(500).json({ message: "Failed to compute SLO status" });
+    }
+  });
+
+  app.patch("/api/slos/:id", async (req, res) => {
+    try {
+      const slo = await updateSlo(parseInt(req.params.id), req.body);
+      if (!slo) {
+        return res.status(404).json({ message: "SLO not found" });
+      }
+      res.json(slo);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid SLO", errors: error.flatten().fieldErrors });
+      }
+      console.error('❌ Error updating SLO:', error);
+      res.status(500).json({ message: "Failed to update SLO" });
+    }
+  });
+
+  app.delete("/api/slos/:id", async (req, res) => {
+    try {
+      const deleted = await deleteSlo(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "SLO not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete SLO" });
+    }
+  });
+
+  // Service dependency graph aggregated from spans; defaults to the last 15 minutes
+  app.get("/api/topology", async (req, res) => {
+    try {
+      const window = parseTimeWindow(req.query);
+      const level = (req.query.level as string) || 'endpoint';
+      const tenant = req.query.tenant as string | undefined;
+
+      if (!window) {
+        return res.status(400).json({ message: "Invalid time range" });
+      }
+      if (level !== 'endpoint' && level !== 'service') {
+        return res.status(400).json({ message: "level must be 'endpoint' or 'service'" });
+      }
+
+      const topology = await getTopology({ ...window, tenant, level });
+      res.json(topology);
+    } catch (error) {
+      console.error('❌ Error building topology:', error);
+      res.status(500).json({ message: "Failed to build topology" });
+    }
+  });
+
+  // Topology changes between a baseline window and the comparison window (?from&to)
+  app.get("/api/topology/diff", async (req, res) => {
+    try {
+      const level = (req.query.level as string) || 'endpoint';
+      const source = (req.query.source as string) || 'spans';
+
+      if (!req.query.baselineFrom || !req.query.baselineTo) {
+        return res.status(400).json({ message: "baselineFrom and baselineTo are required" });
+      }
+      const baseline = parseTimeWindow({ from: req.query.baselineFrom, to: req.query.baselineTo });
+      const comparison = parseTimeWindow(req.query);
+      if (!baseline || !comparison) {
+        return res.status(400).json({ message: "Invalid time range" });
+      }
+      if (level !== 'endpoint' && level !== 'service') {
+        return res.status(400).json({ message: "level must be 'endpoint' or 'service'" });
+      }
+      if (source !== 'spans' && source !== 'events') {
+        return res.status(400).json({ message: "source must be 'spans' or 'events'" });
+      }
+
+      const diff = await getTopologyDiff({
+        baseline,
+        comparison,
+        tenant: req.query.tenant as string | undefined,
+        level,
+        source
+      });
+      res.json(diff);
+    } catch (error) {
+      console.error('❌ Error computing topology diff:', error);
+      res.status(500).json({ message: "Failed to compute topology diff" });
+    }
+  });
+
+  // Intended (saved diagram) vs observed call graph: undeclared calls, unused edges, unknown services
+  app.get("/api/conformance", async (req, res) => {
     try {
-      const interval = parseInt(req.body.intervalMs) || 30000;
-      startServiceMetricsGeneration(interval);
-      res.json({ 
-        message: "Service metrics generation started", 
-        interval: interval 
+      const diagramId = parseInt(req.query.diagramId as string);
+      const source = (req.query.source as string) || 'spans';
+
+      if (isNaN(diagramId)) {
+        return res.status(400).json({ message: "diagramId is required" });
+      }
+      const window = parseTimeWindow(req.query);
+      if (!window) {
+        return res.status(400).json({ message: "Invalid time range" });
+      }
+      if (source !== 'spans' && source !== 'events') {
+        return res.status(400).json({ message: "source must be 'spans' or 'events'" });
+      }
+
+      const diagram = await storage.getDiagram(diagramId);
+      if (!diagram) {
+        return res.status(404).json({ message: "Diagram not found" });
+      }
+
+      const report = await getConformanceReport(diagram, {
+        ...window,
+        tenant: req.query.tenant as string | undefined,
+        source
       });
+      res.json(report);
     } catch (error) {
-      res.status(500).json({ message: "Failed to start metrics generation" });
+      console.error('❌ Error checking topology conformance:', error);
+      res.status(500).json({ message: "Failed to check topology conformance" });
     }
   });
 
-  app.post("/api/metrics/stop", (req, res) => {
+  // Rate/Errors/Duration per edge and per service over a time window
+  app.get("/api/red", async (req, res) => {
     try {
-      stopServiceMetricsGeneration();
-      res.json({ message: "Service metrics generation stopped" });
+      const window = parseTimeWindow(req.query);
+      if (!window) {
+        return res.status(400).json({ message: "Invalid time range" });
+      }
+
+      const metrics = await getRedMetrics({ ...window, tenant: req.query.tenant as string | undefined });
+      res.json(metrics);
+    } catch (error) {
+      console.error('❌ Error computing RED metrics:', error);
+      res.status(500).json({ message: "Failed to compute RED metrics" });
+    }
+  });
+
+  // OTLP/HTTP trace receiver (JSON and protobuf ExportTraceServiceRequest)
+  app.post("/v1/traces", express.raw({ type: ["application/x-protobuf", "application/protobuf"], limit: "16mb" }), async (req, res) => {
+    const isProtobuf = Buffer.isBuffer(req.body);
+    const sendError = (status: number, message: string) => isProtobuf
+      ? res.status(status).type("text/plain").send(message)
+      : res.status(status).json({ message });
+
+    // Only a payload that can't be decoded is the client's fault (400, not retried)
+    let conversion: ReturnType<typeof convertOtlpTraceRequest>;
+    try {
+      conversion = convertOtlpTraceRequest(isProtobuf ? decodeExportTraceServiceRequest(req.body) : req.body);
+    } catch (error) {
+      console.error("OTLP receiver rejected payload:", error);
+      return sendError(400, error instanceof Error ? error.message : "Failed to process OTLP payload");
+    }
+
+    // Storage failures are retryable (503) and keep database details out of the response
+    try {
+      await storeOtlpTraces(conversion.batches);
     } catch (error) {
-      res.status(500).json({ message: "Failed to stop metrics generation" });
+      console.error("OTLP receiver storage error:", error);
+      return sendError(503, "Failed to store traces, retry later");
+    }
+
+    const { rejectedSpans, errors } = conversion;
+    if (isProtobuf) {
+      // An empty ExportTraceServiceResponse encodes to zero bytes
+      return res.status(200).type("application/x-protobuf").send(Buffer.alloc(0));
     }
+
+    res.json(rejectedSpans > 0
+      ? { partialSuccess: { rejectedSpans, errorMessage: errors.slice(0, 5).join("; ") } }
+      : {});
   });
 
+  // Service Metrics API endpoints
   app.get("/api/metrics/latest", async (req, res) => {
     try {
       res.set({
@@ -439,6 +894,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Prometheus text exposition pushed by an exporter or script; ?service= attributes every sample
+  // to one service, otherwise the service comes from the configured labels
+  app.post("/api/metrics/prometheus", express.text({ type: ["text/plain", "application/openmetrics-text"], limit: "8mb" }), async (req, res) => {
+    if (typeof req.body !== 'string') {
+      return res.status(415).json({ message: "Expected Prometheus text exposition format (text/plain)" });
+    }
+
+    let samples: PrometheusSample[];
+    try {
+      samples = parsePrometheusText(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: `Invalid Prometheus exposition: ${error instanceof Error ? error.message : String(error)}` });
+    }
+
+    try {
+      const service = typeof req.query.service === 'string' && req.query.service ? req.query.service : undefined;
+      res.status(201).json(await ingestPrometheusSamples(samples, service));
+    } catch (error) {
+      console.error('❌ Error ingesting Prometheus metrics:', error);
+      res.status(500).json({ message: "Failed to ingest Prometheus metrics" });
+    }
+  });
+
+  // The app's own metrics for Prometheus (scraped in Kubernetes via the pod annotations)
+  app.get("/metrics", (req, res) => {
+    res.type(PROMETHEUS_CONTENT_TYPE).send(renderSelfMetrics([
+      {
+        name: "network_map_db_pool_connections",
+        help: "Database pool connections by state",
+        samples: [
+          { labels: { state: "total" }, value: pool.totalCount },
+          { labels: { state: "idle" }, value: pool.idleCount }
+        ]
+      },
+      { name: "network_map_db_pool_waiting_clients", help: "Queries waiting for a free pool connection", samples: [{ value: pool.waitingCount }] },
+      { name: "network_map_live_subscribers", help: "Connected live stream subscribers (SSE and WebSocket)", samples: [{ value: getLiveSubscriberCount() }] },
+      {
+        name: "network_map_generator_running",
+        help: "Whether a data generator is running",
+        samples: generatorManager.list().map(status => ({ labels: { generator: status.name }, value: status.running ? 1 : 0 }))
+      }
+    ]));
+  });
+
   // GitHub push endpoint
   app.post("/api/github/push", async (req, res) => {
     try {
@@ -465,6 +964,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Live push of stored network events, traces and service metrics (SSE; WebSocket upgrades on the same path)
+  app.get(LIVE_STREAM_PATH, streamLiveEvents);
+
   const httpServer = createServer(app);
+  attachLiveStream(httpServer);
   return httpServer;
 }
@@ -0,0 +1,358 @@
+import { parse as parseYaml } from "yaml";
+import type { ZodError } from "zod";
+import {
+  MAX_TRACE_SPANS,
+  scenarioSchema,
+  type LatencyDistribution,
+  type Scenario,
+  type ScenarioCall,
+  type ScenarioFault,
+  type ScenarioInput,
+  type ScenarioService,
+  type ScenarioState
+} from "@shared/scenario";
+import { randomItem, type Random } from "./seededRandom";
+
+// Default topology: 50 services across 10 tenants, the one the generators used to hard-code
+const DEFAULT_TENANTS: Array<{
+  name: string;
+  operations: string[];
+  latency: LatencyDistribution;
+  errorRate: number;
+  deployment: "kubernetes" | "vm";
+  baseLoad: number;
+  services: Array<[name: string, version: string]>;
+}> = [
+  {
+    name: 'api-gateway',
+    operations: ['route_request', 'authenticate', 'rate_limit', 'proxy_request', 'cache_lookup', 'metrics_collect'],
+    latency: { type: 'lognormal', medianMs: 8, p99Ms: 40 }, errorRate: 0.01, deployment: 'kubernetes', baseLoad: 0.6,
+    services: [['gateway-main', '1.2.3'], ['gateway-auth', '1.2.1'], ['gateway-proxy', '1.2.0'], ['gateway-cache', '1.1.5'], ['gateway-metrics', '1.3.0']]
+  },
+  {
+    name: 'user-management',
+    operations: ['get_user', 'create_user', 'update_profile', 'validate_session', 'verify_identity', 'manage_session'],
+    latency: { type: 'lognormal', medianMs: 25, p99Ms: 120 }, errorRate: 0.02, deployment: 'kubernetes', baseLoad: 0.4,
+    services: [['user-service', '2.1.0'], ['profile-service', '2.0.8'], ['auth-service', '2.1.2'], ['session-mgr', '2.0.5'], ['identity-provider', '2.2.0']]
+  },
+  {
+    name: 'payment-system',
+    operations: ['process_payment', 'validate_card', 'charge_customer', 'refund_payment', 'detect_fraud', 'calculate_tax'],
+    latency: { type: 'lognormal', medianMs: 60, p99Ms: 400 }, errorRate: 0.03, deployment: 'kubernetes', baseLoad: 0.7,
+    services: [['payment-core', '1.5.2'], ['payment-gateway', '1.5.0'], ['billing-service', '1.4.9'], ['fraud-detection', '1.6.1'], ['tax-calculator', '1.3.7']]
+  },
+  {
+    name: 'inventory-system',
+    operations: ['check_stock', 'reserve_item', 'update_inventory', 'get_product', 'sync_suppliers', 'catalog_search'],
+    latency: { type: 'lognormal', medianMs: 35, p99Ms: 200 }, errorRate: 0.02, deployment: 'vm', baseLoad: 0.5,
+    services: [['inventory-core', '3.0.1'], ['stock-tracker', '2.9.5'], ['warehouse-mgmt', '3.0.0'], ['supplier-api', '2.8.3'], ['product-catalog', '3.1.2']]
+  },
+  {
+    name: 'notification-system',
+    operations: ['send_email', 'send_sms', 'push_notification', 'format_message', 'push_mobile', 'render_template'],
+    latency: { type: 'uniform', minMs: 20, maxMs: 150 }, errorRate: 0.04, deployment: 'kubernetes', baseLoad: 0.3,
+    services: [['notification-core', '1.8.0'], ['email-service', '1.7.5'], ['sms-service', '1.8.1'], ['push-service', '1.7.8'], ['template-engine', '1.9.2']]
+  },
+  {
+    name: 'analytics-platform',
+    operations: ['collect_events', 'process_metrics', 'generate_report', 'serve_dashboard', 'run_analysis', 'aggregate_data'],
+    latency: { type: 'lognormal', medianMs: 80, p99Ms: 600 }, errorRate: 0.02, deployment: 'vm', baseLoad: 0.6,
+    services: [['data-collector', '2.5.0'], ['metrics-processor', '2.4.8'], ['report-generator', '2.6.1'], ['dashboard-api', '2.5.5'], ['ml-insights', '2.7.0']]
+  },
+  {
+    name: 'content-management',
+    operations: ['fetch_content', 'store_media', 'purge_cache', 'search_content', 'optimize_assets', 'manage_cdn'],
+    latency: { type: 'lognormal', medianMs: 30, p99Ms: 250 }, errorRate: 0.02, deployment: 'kubernetes', baseLoad: 0.5,
+    services: [['content-api', '1.8.5'], ['media-storage', '1.9.0'], ['cdn-manager', '1.7.8'], ['content-search', '1.8.2'], ['asset-optimizer', '1.6.9']]
+  },
+  {
+    name: 'order-processing',
+    operations: ['create_order', 'fulfill_order', 'track_shipment', 'process_return', 'analyze_orders', 'manage_fulfillment'],
+    latency: { type: 'lognormal', medianMs: 45, p99Ms: 300 }, errorRate: 0.03, deployment: 'kubernetes', baseLoad: 0.6,
+    services: [['order-service', '3.2.1'], ['fulfillment-api', '3.1.8'], ['shipping-tracker', '3.2.5'], ['return-handler', '3.0.9'], ['order-analytics', '3.3.0']]
+  },
+  {
+    name: 'security-monitoring',
+    operations: ['detect_threats', 'log_audit', 'check_compliance', 'monitor_access', 'handle_incident', 'scan_vulnerabilities'],
+    latency: { type: 'uniform', minMs: 5, maxMs: 60 }, errorRate: 0.01, deployment: 'vm', baseLoad: 0.4,
+    services: [['threat-detector', '1.4.2'], ['audit-logger', '1.5.1'], ['compliance-checker', '1.3.8'], ['access-monitor', '1.4.5'], ['incident-responder', '1.5.3']]
+  },
+  {
+    name: 'infrastructure-ops',
+    operations: ['check_health', 'create_backup', 'deploy_service', 'update_config', 'aggregate_logs', 'monitor_resources'],
+    latency: { type: 'uniform', minMs: 5, maxMs: 80 }, errorRate: 0.01, deployment: 'vm', baseLoad: 0.3,
+    services: [['health-monitor', '2.1.0'], ['backup-service', '2.0.7'], ['deployment-mgr', '2.2.1'], ['config-service', '2.1.5'], ['log-aggregator', '2.3.0']]
+  }
+];
+
+// Gateway → API bus (gateway-proxy) → tenant front services → their dependencies
+const DEFAULT_CALLS: Array<[from: string, to: string, probability: number, operation?: string]> = [
+  ['gateway-main', 'gateway-proxy', 0.8, 'proxy_request'],
+  ['gateway-auth', 'gateway-proxy', 0.8, 'proxy_request'],
+  ['gateway-cache', 'gateway-proxy', 0.8, 'proxy_request'],
+  ['gateway-metrics', 'gateway-proxy', 0.8, 'proxy_request'],
+  ['gateway-auth', 'auth-service', 0.6],
+  ...DEFAULT_TENANTS.slice(1).map(tenant => ['gateway-proxy', tenant.services[0][0], 0.2] as [string, string, number]),
+  ['user-service', 'profile-service', 0.5],
+  ['user-service', 'session-mgr', 0.3],
+  ['auth-service', 'identity-provider', 0.5],
+  ['payment-core', 'fraud-detection', 0.7],
+  ['payment-core', 'payment-gateway', 0.8],
+  ['payment-core', 'tax-calculator', 0.4],
+  ['payment-gateway', 'billing-service', 0.3],
+  ['inventory-core', 'stock-tracker', 0.7],
+  ['inventory-core', 'product-catalog', 0.5],
+  ['warehouse-mgmt', 'supplier-api', 0.4],
+  ['notification-core', 'email-service', 0.6],
+  ['notification-core', 'sms-service', 0.3],
+  ['notification-core', 'push-service', 0.3],
+  ['email-service', 'template-engine', 0.8],
+  ['data-collector', 'metrics-processor', 0.8],
+  ['metrics-processor', 'ml-insights', 0.2],
+  ['dashboard-api', 'report-generator', 0.3],
+  ['content-api', 'media-storage', 0.5],
+  ['content-api', 'content-search', 0.4],
+  ['media-storage', 'cdn-manager', 0.5],
+  ['cdn-manager', 'asset-optimizer', 0.2],
+  ['order-service', 'inventory-core', 0.7],
+  ['order-service', 'payment-core', 0.6],
+  ['order-service', 'fulfillment-api', 0.4],
+  ['order-service', 'notification-core', 0.4],
+  ['fulfillment-api', 'shipping-tracker', 0.7],
+  ['fulfillment-api', 'warehouse-mgmt', 0.5],
+  ['return-handler', 'payment-core', 0.5],
+  ['order-analytics', 'data-collector', 0.3],
+  ['threat-detector', 'audit-logger', 0.6],
+  ['threat-detector', 'access-monitor', 0.4],
+  ['access-monitor', 'incident-responder', 0.1],
+  ['compliance-checker', 'audit-logger', 0.5],
+  ['health-monitor', 'log-aggregator', 0.5],
+  ['health-monitor', 'config-service', 0.3],
+  ['deployment-mgr', 'config-service', 0.6],
+  ['backup-service', 'log-aggregator', 0.3]
+];
+
+export const DEFAULT_SCENARIO: Scenario = scenarioSchema.parse({
+  name: 'default',
+  description: 'Gateway → API bus → business services across 10 tenants',
+  tenants: DEFAULT_TENANTS.map(tenant => ({
+    name: tenant.name,
+    services: tenant.services.map(([name, version]) => ({
+      name,
+      version,
+      operations: tenant.operations,
+      latency: tenant.latency,
+      errorRate: tenant.errorRate,
+      deployment: tenant.deployment,
+      baseLoad: tenant.baseLoad
+    }))
+  })),
+  entrypoints: [
+    { service: 'gateway-main', weight: 4 },
+    { service: 'gateway-auth', weight: 2 },
+    { service: 'gateway-cache', weight: 1 },
+    { service: 'gateway-metrics', weight: 1 }
+  ],
+  calls: DEFAULT_CALLS.map(([from, to, probability, operation]) => ({ from, to, probability, operation }))
+} satisfies ScenarioInput);
+
+// YAML is a superset of JSON, so one parser reads both
+export function parseScenarioText(text: string): unknown {
+  return parseYaml(text);
+}
+
+// Issues keyed by their full path ("calls.3.to"), since most scenario errors are nested
+export function scenarioFieldErrors(error: ZodError): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  error.issues.forEach(issue => {
+    const path = issue.path.join('.') || 'scenario';
+    (errors[path] ||= []).push(issue.message);
+  });
+  return errors;
+}
+
+// Active scenario; fault timings count from the moment it was loaded
+let activeScenario: Scenario = DEFAULT_SCENARIO;
+let activeSource: ScenarioState["source"] = 'default';
+let loadedAt = new Date();
+
+export const getActiveScenario = () => activeScenario;
+
+export const getScenarioLoadedAt = () => loadedAt;
+
+export const getScenarioElapsedSeconds = (now: Date = new Date()) => (now.getTime() - loadedAt.getTime()) / 1000;
+
+export function getScenarioState(now: Date = new Date()): ScenarioState {
+  return {
+    scenario: activeScenario,
+    source: activeSource,
+    loadedAt: loadedAt.toISOString(),
+    activeFaults: getActiveFaults(activeScenario, getScenarioElapsedSeconds(now))
+  };
+}
+
+export function setActiveScenario(scenario: Scenario, now: Date = new Date()): ScenarioState {
+  activeScenario = scenario;
+  activeSource = 'custom';
+  loadedAt = now;
+  console.log(`🎬 Scenario '${scenario.name}' loaded: ${getScenarioServices(scenario).length} services, ${scenario.calls.length} calls, ${scenario.faults.length} faults`);
+  return getScenarioState(now);
+}
+
+export function resetScenario(now: Date = new Date()): ScenarioState {
+  activeScenario = DEFAULT_SCENARIO;
+  activeSource = 'default';
+  loadedAt = now;
+  console.log('🎬 Scenario reset to default');
+  return getScenarioState(now);
+}
+
+export type ScenarioServiceInfo = ScenarioService & { tenant: string };
+
+interface ScenarioIndex {
+  services: ScenarioServiceInfo[];
+  byName: Map<string, ScenarioServiceInfo>;
+  callsFrom: Map<string, ScenarioCall[]>;
+}
+
+const indexes = new WeakMap<Scenario, ScenarioIndex>();
+
+function indexScenario(scenario: Scenario): ScenarioIndex {
+  let index = indexes.get(scenario);
+  if (!index) {
+    const services = scenario.tenants.flatMap(tenant => tenant.services.map(service => ({ ...service, tenant: tenant.name })));
+    const callsFrom = new Map<string, ScenarioCall[]>();
+    scenario.calls.forEach(call => callsFrom.set(call.from, [...(callsFrom.get(call.from) || []), call]));
+    index = { services, byName: new Map(services.map(service => [service.name, service])), callsFrom };
+    indexes.set(scenario, index);
+  }
+  return index;
+}
+
+export const getScenarioServices = (scenario: Scenario) => indexScenario(scenario).services;
+
+// z-score of the 99th percentile, turns a lognormal median/p99 pair into sigma
+const Z_99 = 2.3263;
+
+// Box-Muller; 1 - random() keeps the logarithm away from zero
+const standardNormal = (random: Random) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export function sampleLatencyMs(latency: LatencyDistribution, random: Random = Math.random): number {
+  switch (latency.type) {
+    case 'constant':
+      return latency.ms;
+    case 'uniform':
+      return latency.minMs + random() * (latency.maxMs - latency.minMs);
+    case 'normal':
+      return Math.max(0, latency.meanMs + latency.stddevMs * standardNormal(random));
+    case 'lognormal':
+      return latency.medianMs * Math.exp(Math.log(latency.p99Ms / latency.medianMs) / Z_99 * standardNormal(random));
+  }
+}
+
+// Typical latency of a distribution, used where a single value is reported (service metrics)
+export function typicalLatencyMs(latency: LatencyDistribution): number {
+  switch (latency.type) {
+    case 'constant':
+      return latency.ms;
+    case 'uniform':
+      return (latency.minMs + latency.maxMs) / 2;
+    case 'normal':
+      return latency.meanMs;
+    case 'lognormal':
+      return latency.medianMs;
+  }
+}
+
+// spans.duration is a bigint column of nanoseconds
+export const durationNanos = (ms: number) => Math.round(ms * 1000000);
+
+export function isFaultActive(fault: ScenarioFault, elapsedSec: number): boolean {
+  const sinceStart = elapsedSec - fault.startSec;
+  if (sinceStart < 0) return false;
+  return (fault.everySec ? sinceStart % fault.everySec : sinceStart) < fault.durationSec;
+}
+
+export const getActiveFaults = (scenario: Scenario, elapsedSec: number) =>
+  scenario.faults.filter(fault => isFaultActive(fault, elapsedSec));
+
+export interface ServiceConditions {
+  down: boolean;
+  latencyFactor: number;
+  errorRate: number | null; // overrides the configured error rate while degraded
+}
+
+// Combined effect of the faults active on a service; overlapping faults take the worst value
+export function getServiceConditions(scenario: Scenario, service: string, elapsedSec: number): ServiceConditions {
+  const conditions: ServiceConditions = { down: false, latencyFactor: 1, errorRate: null };
+  scenario.faults.forEach(fault => {
+    if (fault.service !== service || !isFaultActive(fault, elapsedSec)) return;
+    if (fault.type === 'outage') {
+      conditions.down = true;
+    } else if (fault.type === 'latency_spike') {
+      conditions.latencyFactor = Math.max(conditions.latencyFactor, fault.factor);
+    } else {
+      conditions.errorRate = Math.max(conditions.errorRate ?? 0, fault.errorRate);
+      conditions.latencyFactor = Math.max(conditions.latencyFactor, fault.latencyFactor);
+    }
+  });
+  return conditions;
+}
+
+const SERVER_ERROR_STATUSES = ['500', '502', '503'];
+
+export interface SampledCall {
+  service: ScenarioServiceInfo;
+  operation: string;
+  parent: number | null; // index of the calling entry in the sampled trace
+  startMs: number; // offset from the trace start
+  durationMs: number; // includes the downstream calls
+  error: boolean;
+  status: string; // HTTP status; 503 while the service is down
+}
+
+// Walk the call graph from a weighted entrypoint. Each outgoing call is made with its probability,
+// downstream calls run one after another, services already on the path are not called again and
+// a service that is down fails fast without calling anything. Expansion stops at MAX_TRACE_SPANS
+export function sampleTrace(scenario: Scenario, elapsedSec: number, random: Random = Math.random): SampledCall[] {
+  const index = indexScenario(scenario);
+  const calls: SampledCall[] = [];
+
+  const totalWeight = scenario.entrypoints.reduce((sum, entry) => sum + entry.weight, 0);
+  let threshold = random() * totalWeight;
+  const entry = scenario.entrypoints.find(candidate => (threshold -= candidate.weight) < 0) || scenario.entrypoints[0];
+
+  const visit = (service: ScenarioServiceInfo, operation: string, via: ScenarioCall | null, parent: number | null, startMs: number, path: Set<string>): number => {
+    const conditions = getServiceConditions(scenario, service.name, elapsedSec);
+    const ownMs = sampleLatencyMs(via?.latency || service.latency, random) * conditions.latencyFactor;
+    const errorRate = conditions.errorRate ?? via?.errorRate ?? service.errorRate;
+    const error = conditions.down || random() < errorRate;
+    const call: SampledCall = {
+      service,
+      operation,
+      parent,
+      startMs,
+      durationMs: ownMs,
+      error,
+      status: conditions.down ? '503' : error ? randomItem(random, SERVER_ERROR_STATUSES) : '200'
+    };
+    const callIndex = calls.push(call) - 1;
+    if (conditions.down || path.size >= scenario.maxDepth) return ownMs;
+
+    // Half of the own latency is spent before the first downstream call
+    let cursor = startMs + ownMs / 2;
+    (index.callsFrom.get(service.name) || []).forEach(next => {
+      if (calls.length >= MAX_TRACE_SPANS || path.has(next.to) || random() >= next.probability) return;
+      const target = index.byName.get(next.to)!;
+      const targetOperation = next.operation || randomItem(random, target.operations);
+      cursor += visit(target, targetOperation, next, callIndex, cursor, new Set(path).add(next.to));
+    });
+    call.durationMs = cursor - startMs + ownMs / 2;
+    return call.durationMs;
+  };
+
+  const root = index.byName.get(entry.service)!;
+  visit(root, entry.operation || randomItem(random, root.operations), null, null, 0, new Set([root.name]));
+  return calls;
+}
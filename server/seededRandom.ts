@@ -0,0 +1,54 @@
+// Seedable randomness for the generators, so demo data and test fixtures can be reproduced
+export type Random = () => number;
+
+export type Seed = number | string;
+
+// Options every generation function accepts: the random source, when the generated data happens,
+// whether stored rows are pushed to the live stream (not for backfills), the caller's run prefix
+// for trace and span IDs and how far into the active scenario the pass is (defaults to the time
+// since the scenario loaded)
+export interface GenerationOptions {
+  random?: Random;
+  now?: Date;
+  publish?: boolean;
+  runId?: string;
+  elapsedSec?: number;
+}
+
+// mulberry32: small, fast 32-bit PRNG with a full 2^32 period
+export function mulberry32(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Numeric seeds are used as is; strings are hashed (FNV-1a) so "demo-1" works as a seed
+export function normalizeSeed(seed: Seed): number {
+  if (typeof seed === 'number') return seed >>> 0;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export const createRandom = (seed?: Seed | null): Random =>
+  seed === undefined || seed === null ? Math.random : mulberry32(normalizeSeed(seed));
+
+export const randomHex = (random: Random, length: number) =>
+  Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+
+// A caller that wants a seed's data stored again next to an earlier run passes its own hex run
+// prefix; without one the same seed gives the same IDs. The same number of draws is taken with or
+// without a prefix, so the rest of the generated data doesn't change
+export const randomId = (random: Random, length: number, runId: string = '') =>
+  (runId.slice(0, length / 4) + randomHex(random, length)).slice(0, length);
+
+export const isRunId = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{1,8}$/.test(value);
+
+export const randomItem = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
@@ -0,0 +1,132 @@
+import type { Request, Response, NextFunction } from "express";
+
+// The app's own Prometheus metrics, served on GET /metrics
+
+export type MetricLabels = Record<string, string>;
+
+// Values read when /metrics is scraped (pool sizes, subscribers, ...)
+export interface GaugeFamily {
+  name: string;
+  help: string;
+  samples: Array<{ labels?: MetricLabels; value: number }>;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Prometheus client defaults, in seconds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+export function formatLabels(labels: MetricLabels = {}): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+export function createMetricsRegistry() {
+  const families: Array<() => string[]> = [];
+
+  const counter = (name: string, help: string) => {
+    const values = new Map<string, number>();
+    families.push(() => [...header(name, help, "counter"), ...Array.from(values, ([labels, value]) => `${name}${labels} ${value}`)]);
+    return {
+      inc: (labels: MetricLabels = {}, by: number = 1) => {
+        if (!(by > 0)) return;
+        const key = formatLabels(labels);
+        values.set(key, (values.get(key) || 0) + by);
+      }
+    };
+  };
+
+  // Counter kept by something else (the process CPU time), read when /metrics is scraped
+  const collectedCounter = (name: string, help: string, collect: () => number) => {
+    families.push(() => [...header(name, help, "counter"), `${name} ${collect()}`]);
+  };
+
+  const histogram = (name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) => {
+    const series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+    families.push(() => [
+      ...header(name, help, "histogram"),
+      ...Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((upper, i) => `${name}_bucket${formatLabels({ ...labels, le: String(upper) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`
+      ])
+    ]);
+    return {
+      observe: (labels: MetricLabels, value: number) => {
+        const key = formatLabels(labels);
+        if (!series.has(key)) series.set(key, { labels, counts: buckets.map(() => 0), sum: 0, count: 0 });
+        const entry = series.get(key)!;
+        // Buckets are cumulative: a value counts towards every bucket it fits under
+        buckets.forEach((upper, i) => {
+          if (value <= upper) entry.counts[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+      }
+    };
+  };
+
+  const render = (gauges: GaugeFamily[] = []) => [
+    ...families.flatMap(family => family()),
+    ...gauges.flatMap(gauge => [
+      ...header(gauge.name, gauge.help, "gauge"),
+      ...gauge.samples.map(sample => `${gauge.name}${formatLabels(sample.labels)} ${sample.value}`)
+    ])
+  ].join("\n") + "\n";
+
+  return { counter, collectedCounter, histogram, render };
+}
+
+const registry = createMetricsRegistry();
+
+const ingestedItems = registry.counter("network_map_ingested_items_total",
+  "Items produced by a generator or accepted by a receiver (generator rows, OTLP spans, Prometheus samples)");
+const rowsWritten = registry.counter("network_map_rows_written_total", "Rows inserted per database table");
+const rowsSkipped = registry.counter("network_map_rows_skipped_total",
+  "Rows not inserted per database table because their ID was already stored");
+const httpRequestDuration = registry.histogram("network_map_http_request_duration_seconds",
+  "HTTP request latency per route");
+
+export const recordIngested = (source: string, count: number) => ingestedItems.inc({ source }, count);
+
+export const recordRowsWritten = (table: string, count: number) => rowsWritten.inc({ table }, count);
+
+export const recordRowsSkipped = (table: string, count: number) => rowsSkipped.inc({ table }, count);
+
+// Labels by the Express route pattern (/api/diagrams/:id), so IDs don't blow up cardinality;
+// requests no route matched (static files, Vite) are not recorded
+export function recordHttpRequests(req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    if (!req.route) return;
+    httpRequestDuration.observe({
+      method: req.method,
+      route: `${req.baseUrl}${req.route.path}`,
+      status: String(res.statusCode)
+    }, Number(process.hrtime.bigint() - start) / 1e9);
+  });
+  next();
+}
+
+const startTimeSeconds = Math.floor(Date.now() / 1000 - process.uptime());
+
+// Standard process series, so dashboards built for other exporters work unchanged
+registry.collectedCounter("process_cpu_seconds_total", "Total user and system CPU time spent in seconds", () => {
+  const cpu = process.cpuUsage();
+  return (cpu.user + cpu.system) / 1e6;
+});
+
+function processGauges(): GaugeFamily[] {
+  return [
+    { name: "process_resident_memory_bytes", help: "Resident memory size in bytes", samples: [{ value: process.memoryUsage().rss }] },
+    { name: "process_start_time_seconds", help: "Start time of the process since unix epoch in seconds", samples: [{ value: startTimeSeconds }] }
+  ];
+}
+
+export const renderSelfMetrics = (gauges: GaugeFamily[]) => registry.render([...gauges, ...processGauges()]);
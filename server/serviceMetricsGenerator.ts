@@ -1,137 +1,197 @@
 import { db } from "./db";
 import { serviceMetrics, type InsertServiceMetrics } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
-
-// Service configurations for realistic metrics
-const SERVICE_CONFIGS = [
-  { name: "api-gateway", type: "kubernetes", baseLoad: 0.6 },
-  { name: "user-service", type: "kubernetes", baseLoad: 0.4 },
-  { name: "payment-service", type: "kubernetes", baseLoad: 0.7 },
-  { name: "inventory-service", type: "vm", baseLoad: 0.5 },
-  { name: "notification-service", type: "kubernetes", baseLoad: 0.3 },
-  { name: "platform-service1", type: "vm", baseLoad: 0.6 },
-  { name: "platform-service2", type: "kubernetes", baseLoad: 0.5 },
-  { name: "platform-service3", type: "vm", baseLoad: 0.4 },
-  { name: "gateway-service1", type: "kubernetes", baseLoad: 0.8 }
-];
-
-function generateServiceMetrics(serviceName: string, deploymentType: string, baseLoad: number): InsertServiceMetrics {
-  // Add some realistic variation (±30%)
-  const loadVariation = 0.7 + (Math.random() * 0.6);
-  const currentLoad = Math.min(95, baseLoad * 100 * loadVariation);
-  
-  // CPU usage correlates with base load
-  const cpuUsage = Math.min(95, currentLoad + (Math.random() * 10 - 5));
-  
-  // Memory usage is typically more stable
-  const memoryUsage = Math.min(90, 30 + (currentLoad * 0.5) + (Math.random() * 20 - 10));
-  
-  // Disk usage grows slowly
-  const diskUsage = Math.min(85, 20 + (Math.random() * 30));
-  
-  // Network activity correlates with load
-  const networkIn = Math.max(0.1, currentLoad * 0.5 + (Math.random() * 20 - 10));
-  const networkOut = Math.max(0.1, currentLoad * 0.3 + (Math.random() * 15 - 7.5));
-  
-  // Pod count for Kubernetes services
-  const podCount = deploymentType === "kubernetes" ? Math.max(1, Math.floor(currentLoad / 30) + 1) : null;
-  
-  // Active connections
-  const activeConnections = Math.floor(currentLoad * 5 + (Math.random() * 100));
-  
-  // Error rate (higher when overloaded)
-  const errorRate = cpuUsage > 80 ? Math.random() * 5 + 2 : Math.random() * 2;
-  
-  // Response time (increases with load)
-  const responseTime = Math.max(10, 50 + (cpuUsage * 5) + (Math.random() * 100 - 50));
-  
-  // Health status based on overall metrics
+import { eq, desc, gte, sql } from "drizzle-orm";
+import { publishServiceMetrics } from "./liveStream";
+import { recordRowsWritten } from "./selfMetrics";
+import {
+  getActiveScenario,
+  getScenarioElapsedSeconds,
+  getScenarioServices,
+  getServiceConditions,
+  typicalLatencyMs,
+  type ScenarioServiceInfo,
+  type ServiceConditions
+} from "./scenario";
+import type { GenerationOptions, Random } from "./seededRandom";
+
+// Spans a service handled in the lookback window
+export interface ObservedServiceLoad {
+  serviceName: string;
+  spans: number;
+  errors: number;
+  avgDurationMs: number;
+}
+
+type ServiceProfile = Pick<ScenarioServiceInfo, "deployment" | "baseLoad">;
+
+// Services seen in spans but missing from the scenario (e.g. received over OTLP)
+const DEFAULT_PROFILE: ServiceProfile = { deployment: "kubernetes", baseLoad: 0.3 };
+
+// Lookback for observed load: twice the default 30s metrics interval, so no span is missed
+export const METRICS_LOAD_WINDOW_MS = 60 * 1000;
+
+export type MetricsFields = Omit<InsertServiceMetrics, "healthStatus" | "timestamp">;
+
+// Health status based on overall metrics; rounds the values for storage
+export function withHealth(fields: MetricsFields, down: boolean, now: Date): InsertServiceMetrics {
   let healthStatus: "healthy" | "warning" | "critical";
-  if (cpuUsage > 85 || memoryUsage > 85 || errorRate > 5) {
+  if (down || fields.cpuUsage > 85 || fields.memoryUsage > 85 || fields.errorRate > 5) {
     healthStatus = "critical";
-  } else if (cpuUsage > 70 || memoryUsage > 70 || errorRate > 2) {
+  } else if (fields.cpuUsage > 70 || fields.memoryUsage > 70 || fields.errorRate > 2) {
     healthStatus = "warning";
   } else {
     healthStatus = "healthy";
   }
-  
+
+  const round = (value: number) => Math.round(value * 100) / 100;
   return {
-    serviceName,
-    deploymentType: deploymentType as "kubernetes" | "vm",
-    cpuUsage: Math.round(cpuUsage * 100) / 100,
-    memoryUsage: Math.round(memoryUsage * 100) / 100,
-    diskUsage: Math.round(diskUsage * 100) / 100,
-    networkIn: Math.round(networkIn * 100) / 100,
-    networkOut: Math.round(networkOut * 100) / 100,
-    podCount,
-    activeConnections,
-    errorRate: Math.round(errorRate * 100) / 100,
-    responseTime: Math.round(responseTime),
+    ...fields,
+    cpuUsage: round(fields.cpuUsage),
+    memoryUsage: round(fields.memoryUsage),
+    diskUsage: round(fields.diskUsage),
+    networkIn: round(fields.networkIn),
+    networkOut: round(fields.networkOut),
+    errorRate: round(fields.errorRate),
+    responseTime: Math.round(fields.responseTime),
     healthStatus,
-    timestamp: new Date()
+    timestamp: now
   };
 }
 
-export async function storeServiceMetrics(metrics: InsertServiceMetrics) {
+// Metrics from the spans a service handled: error rate and response time are the observed ones,
+// CPU follows its share of the busiest service's traffic on top of its base load, and
+// connections follow Little's law (request rate × latency)
+export function deriveServiceMetrics(
+  load: ObservedServiceLoad,
+  profile: ServiceProfile,
+  conditions: ServiceConditions,
+  peakSpans: number,
+  random: Random,
+  now: Date
+): InsertServiceMetrics {
+  const traffic = peakSpans > 0 ? load.spans / peakSpans : 0;
+  const requestRate = load.spans / (METRICS_LOAD_WINDOW_MS / 1000);
+  const cpuUsage = Math.max(1, Math.min(99, 5 + profile.baseLoad * 40 + traffic * 50 + (random() * 6 - 3)));
+
+  return withHealth({
+    serviceName: load.serviceName,
+    deploymentType: profile.deployment,
+    cpuUsage,
+    memoryUsage: Math.min(90, 30 + cpuUsage * 0.4 + (random() * 10 - 5)),
+    diskUsage: Math.min(85, 20 + (random() * 30)),
+    networkIn: requestRate * 0.02 + random() * 0.05, // ~20 KB per request
+    networkOut: requestRate * 0.05 + random() * 0.05, // ~50 KB per response
+    podCount: profile.deployment === "kubernetes" ? Math.max(1, Math.ceil(cpuUsage / 30)) : null,
+    activeConnections: conditions.down ? 0 : Math.ceil(requestRate * load.avgDurationMs / 1000) + Math.floor(random() * 5),
+    errorRate: load.spans > 0 ? load.errors / load.spans * 100 : 0,
+    responseTime: load.avgDurationMs
+  }, conditions.down, now);
+}
+
+// Synthetic metrics for one scenario service, used while no spans are being generated; its
+// configured error rate and latency, and the faults active on it, carry over
+function generateServiceMetrics(service: ScenarioServiceInfo, conditions: ServiceConditions, random: Random, now: Date): InsertServiceMetrics {
+  // Add some realistic variation (±30%)
+  const currentLoad = Math.min(95, service.baseLoad * 100 * (0.7 + random() * 0.6));
+  const cpuUsage = Math.min(95, currentLoad + (random() * 10 - 5));
+  const configuredErrorRate = (conditions.errorRate ?? service.errorRate) * 100;
+
+  return withHealth({
+    serviceName: service.name,
+    deploymentType: service.deployment,
+    cpuUsage,
+    memoryUsage: Math.min(90, 30 + (currentLoad * 0.5) + (random() * 20 - 10)),
+    diskUsage: Math.min(85, 20 + (random() * 30)),
+    networkIn: Math.max(0.1, currentLoad * 0.5 + (random() * 20 - 10)),
+    networkOut: Math.max(0.1, currentLoad * 0.3 + (random() * 15 - 7.5)),
+    podCount: service.deployment === "kubernetes" ? Math.max(1, Math.floor(currentLoad / 30) + 1) : null,
+    activeConnections: conditions.down ? 0 : Math.floor(currentLoad * 5 + (random() * 100)),
+    errorRate: conditions.down
+      ? 100
+      : Math.min(100, configuredErrorRate * (0.5 + random()) + (cpuUsage > 80 ? random() * 5 + 2 : 0)),
+    responseTime: Math.max(1, typicalLatencyMs(service.latency) * conditions.latencyFactor * (1 + cpuUsage / 100) * (0.8 + random() * 0.4))
+  }, conditions.down, now);
+}
+
+export async function getObservedServiceLoad(from: Date, to: Date): Promise<ObservedServiceLoad[]> {
+  const result = await db.execute(sql`
+    select service_name as "serviceName",
+           count(*)::int as "spans",
+           (count(*) filter (where status = 'error'))::int as "errors",
+           coalesce(avg(duration), 0) / 1000000.0 as "avgDurationMs"
+    from spans
+    where start_time >= ${from} and start_time < ${to}
+    group by service_name
+  `);
+  return (result.rows as Array<Record<string, unknown>>).map(row => ({
+    serviceName: String(row.serviceName),
+    spans: Number(row.spans),
+    errors: Number(row.errors),
+    avgDurationMs: Number(row.avgDurationMs)
+  }));
+}
+
+// Services whose metrics come from a real source (Prometheus ingestion); the generator leaves
+// them alone for a while after each report so the two don't interleave
+const EXTERNAL_METRICS_TTL_MS = 2 * 60 * 1000;
+const externallyReported = new Map<string, number>();
+
+export function markExternallyReported(serviceNames: string[], now: Date = new Date()) {
+  serviceNames.forEach(name => externallyReported.set(name, now.getTime()));
+}
+
+function isExternallyReported(serviceName: string, now: Date): boolean {
+  const reportedAt = externallyReported.get(serviceName);
+  if (reportedAt === undefined) return false;
+  // Backfills run at past times and still generate
+  return reportedAt <= now.getTime() && now.getTime() - reportedAt < EXTERNAL_METRICS_TTL_MS;
+}
+
+export async function storeServiceMetrics(metrics: InsertServiceMetrics[], publish: boolean = true) {
+  if (metrics.length === 0) return;
   try {
     const result = await db.insert(serviceMetrics).values(metrics).returning();
+    recordRowsWritten("service_metrics", result.length);
     if (result.length > 0) {
-      console.log(`📊 Stored metrics for service ${metrics.serviceName} - ${metrics.healthStatus}`);
+      const critical = result.filter(metric => metric.healthStatus === 'critical').length;
+      console.log(`📊 Stored metrics for ${result.length} services - ${critical} critical`);
+      if (publish) publishServiceMetrics(result);
     }
   } catch (error) {
     console.error('Failed to store service metrics:', error);
+    throw error;
   }
 }
 
-export async function generateAndStoreMetricsForAllServices() {
-  for (const service of SERVICE_CONFIGS) {
-    const metrics = generateServiceMetrics(service.name, service.type, service.baseLoad);
-    await storeServiceMetrics(metrics);
-  }
-}
-
-let metricsInterval: NodeJS.Timeout | null = null;
-
-export function startServiceMetricsGeneration(intervalMs: number = 30000) {
-  if (metricsInterval) {
-    clearInterval(metricsInterval);
-  }
-  
-  // Generate initial metrics
-  generateAndStoreMetricsForAllServices();
-  
-  metricsInterval = setInterval(() => {
-    generateAndStoreMetricsForAllServices();
-  }, intervalMs);
-  
-  console.log(`🚀 Service metrics generation started with ${intervalMs}ms interval`);
-}
+// One generator pass, scheduled by the generator manager: a sample per service seen in spans
+// over the last minute, so metrics exist for exactly the services on the diagram. Falls back to
+// the scenario services while no traces are generated or received. Services reported through
+// Prometheus ingestion are skipped
+export async function generateAndStoreMetricsForAllServices({ random = Math.random, now = new Date(), publish, elapsedSec: passElapsedSec }: GenerationOptions = {}) {
+  const scenario = getActiveScenario();
+  const elapsedSec = passElapsedSec ?? getScenarioElapsedSeconds(now);
+  const services = new Map(getScenarioServices(scenario).map(service => [service.name, service]));
+  const loads = await getObservedServiceLoad(new Date(now.getTime() - METRICS_LOAD_WINDOW_MS), now);
+  const peakSpans = Math.max(0, ...loads.map(load => load.spans));
 
-export function stopServiceMetricsGeneration() {
-  if (metricsInterval) {
-    clearInterval(metricsInterval);
-    metricsInterval = null;
-    console.log('⏹️ Service metrics generation stopped');
-  }
+  const metrics = (loads.length > 0
+    ? loads.map(load => deriveServiceMetrics(load, services.get(load.serviceName) || DEFAULT_PROFILE,
+        getServiceConditions(scenario, load.serviceName, elapsedSec), peakSpans, random, now))
+    : Array.from(services.values()).map(service =>
+        generateServiceMetrics(service, getServiceConditions(scenario, service.name, elapsedSec), random, now))
+  ).filter(metric => !isExternallyReported(metric.serviceName, now));
+  await storeServiceMetrics(metrics, publish);
+  return metrics.length;
 }
 
+// Latest sample per service reported in the last hour, however many services there are
 export async function getLatestServiceMetrics() {
   try {
-    const latest = await db
-      .select()
+    return await db
+      .selectDistinctOn([serviceMetrics.serviceName])
       .from(serviceMetrics)
-      .orderBy(desc(serviceMetrics.timestamp))
-      .limit(100);
-    
-    // Group by service name to get latest metrics per service
-    const latestPerService = new Map();
-    latest.forEach(metric => {
-      if (!latestPerService.has(metric.serviceName)) {
-        latestPerService.set(metric.serviceName, metric);
-      }
-    });
-    
-    return Array.from(latestPerService.values());
+      .where(gte(serviceMetrics.timestamp, new Date(Date.now() - 60 * 60 * 1000)))
+      .orderBy(serviceMetrics.serviceName, desc(serviceMetrics.timestamp));
   } catch (error) {
     console.error('Error fetching service metrics:', error);
     return [];
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { db } from "./db";
+import { slos, insertSloSchema, type Slo } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { getRetentionDays } from "./retention";
+import { computeSloStatus, SLO_LOOKBACK_SECONDS, type SloCounts, type SloStatus } from "@shared/slo";
+
+export const sloSchema = insertSloSchema.extend({
+  name: z.string().min(1),
+  objective: z.enum(["availability", "latency"]),
+  target: z.number().gt(0).lt(100),
+  latencyThresholdMs: z.number().positive().nullable().optional(),
+  windowDays: z.number().int().min(1).max(90).default(30),
+  service: z.string().min(1),
+  operation: z.string().min(1).nullable().optional(),
+  tenant: z.string().min(1).nullable().optional()
+}).refine(slo => slo.objective !== "latency" || !!slo.latencyThresholdMs, {
+  message: "Latency objectives need a latency threshold",
+  path: ["latencyThresholdMs"]
+}).refine(slo => getRetentionDays("spans") === 0 || slo.windowDays <= getRetentionDays("spans"), () => ({
+  // Older spans are pruned, so a longer window would silently count only the retained days
+  message: `The window can't be longer than the ${getRetentionDays("spans")}-day span retention (RETENTION_SPANS_DAYS)`,
+  path: ["windowDays"]
+}));
+
+type SloCountsRow = Record<string, number>;
+
+// Entry spans of the selected service: roots and spans called from another service, the same
+// calls RED metrics count, so internal child spans do not dilute the SLI
+export async function getSloCounts(slo: Slo, now: Date): Promise<{ window: SloCounts; lookbacks: Record<number, SloCounts> }> {
+  const windowStart = new Date(now.getTime() - slo.windowDays * 24 * 60 * 60 * 1000);
+  const operation = slo.operation ? sql`and s.operation_name = ${slo.operation}` : sql``;
+  const tenant = slo.tenant ? sql`and s.tenant = ${slo.tenant}` : sql``;
+  const isBad = slo.objective === "latency"
+    ? sql`coalesce(s.duration, 0) / 1000000.0 > ${slo.latencyThresholdMs}`
+    : sql`s.status = 'error'`;
+
+  const lookbackColumns = SLO_LOOKBACK_SECONDS.map(seconds => {
+    const since = new Date(now.getTime() - seconds * 1000);
+    return sql`
+      (count(*) filter (where start_time >= ${since}))::int as ${sql.raw(`"total_${seconds}"`)},
+      (count(*) filter (where start_time >= ${since} and is_bad))::int as ${sql.raw(`"bad_${seconds}"`)}
+    `;
+  });
+
+  const result = await db.execute(sql`
+    select count(*)::int as "total",
+           (count(*) filter (where is_bad))::int as "bad",
+           ${sql.join(lookbackColumns, sql`, `)}
+    from (
+      select s.start_time, ${isBad} as is_bad
+      from spans s
+      left join spans p on s.parent_span_id = p.span_id and s.trace_id = p.trace_id
+      where s.service_name = ${slo.service} ${operation} ${tenant}
+        and s.start_time >= ${windowStart} and s.start_time <= ${now}
+        and (p.span_id is null or p.service_name <> s.service_name)
+    ) entry_spans
+  `);
+
+  const row = (result.rows[0] || {}) as SloCountsRow;
+  const lookbacks: Record<number, SloCounts> = {};
+  SLO_LOOKBACK_SECONDS.forEach(seconds => {
+    lookbacks[seconds] = { total: Number(row[`total_${seconds}`] || 0), bad: Number(row[`bad_${seconds}`] || 0) };
+  });
+
+  return { window: { total: Number(row.total || 0), bad: Number(row.bad || 0) }, lookbacks };
+}
+
+export async function getSloStatuses(now: Date = new Date()): Promise<SloStatus[]> {
+  const definitions = await listSlos();
+  return Promise.all(definitions.map(async (slo) => {
+    const { window, lookbacks } = await getSloCounts(slo, now);
+    return computeSloStatus(slo, window, lookbacks);
+  }));
+}
+
+export async function listSlos() {
+  return db.select().from(slos).orderBy(slos.id);
+}
+
+export async function createSlo(slo: z.infer<typeof sloSchema>) {
+  const [created] = await db.insert(slos).values(slo).returning();
+  return created;
+}
+
+// Updates are validated as a whole SLO so a latency objective keeps its threshold
+export async function updateSlo(id: number, updates: Record<string, unknown>) {
+  const [current] = await db.select().from(slos).where(eq(slos.id, id));
+  if (!current) return undefined;
+
+  const { id: _id, createdAt, ...fields } = current;
+  const slo = sloSchema.parse({ ...fields, ...updates });
+  const [updated] = await db.update(slos).set(slo).where(eq(slos.id, id)).returning();
+  return updated;
+}
+
+export async function deleteSlo(id: number) {
+  const deleted = await db.delete(slos).where(eq(slos.id, id)).returning({ id: slos.id });
+  return deleted.length > 0;
+}
@@ -1,4 +1,8 @@
-import { diagrams, type Diagram, type InsertDiagram } from "@shared/schema";
+import { diagrams, diagramRevisions, type Diagram, type InsertDiagram, type DiagramRevision } from "@shared/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { db } from "./db";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
   getDiagram(id: number): Promise<Diagram | undefined>;
@@ -6,15 +10,37 @@ export interface IStorage {
   updateDiagram(id: number, diagram: Partial<InsertDiagram>): Promise<Diagram | undefined>;
   deleteDiagram(id: number): Promise<boolean>;
   getAllDiagrams(): Promise<Diagram[]>;
+  getDiagramRevisions(diagramId: number): Promise<DiagramRevision[]>;
+  getDiagramRevision(diagramId: number, revision: number): Promise<DiagramRevision | undefined>;
+  restoreDiagramRevision(diagramId: number, revision: number): Promise<Diagram | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private diagrams: Map<number, Diagram>;
+  private revisions: Map<number, DiagramRevision[]>;
   private currentId: number;
+  private currentRevisionId: number;
 
   constructor() {
     this.diagrams = new Map();
+    this.revisions = new Map();
     this.currentId = 1;
+    this.currentRevisionId = 1;
+  }
+
+  private recordRevision(diagram: Diagram) {
+    const history = this.revisions.get(diagram.id) || [];
+    history.push({
+      id: this.currentRevisionId++,
+      diagramId: diagram.id,
+      revision: history.length + 1,
+      name: diagram.name,
+      data: diagram.data,
+      layout: diagram.layout,
+      settings: diagram.settings,
+      createdAt: new Date()
+    });
+    this.revisions.set(diagram.id, history);
   }
 
   async getDiagram(id: number): Promise<Diagram | undefined> {
@@ -29,6 +55,7 @@ export class MemStorage implements IStorage {
       createdAt: new Date() 
     };
     this.diagrams.set(id, diagram);
+    this.recordRevision(diagram);
     return diagram;
   }
 
@@ -38,16 +65,169 @@ export class MemStorage implements IStorage {
     
     const updated: Diagram = { ...existing, ...updateData };
     this.diagrams.set(id, updated);
+    this.recordRevision(updated);
     return updated;
   }
 
   async deleteDiagram(id: number): Promise<boolean> {
+    this.revisions.delete(id);
     return this.diagrams.delete(id);
   }
 
   async getAllDiagrams(): Promise<Diagram[]> {
     return Array.from(this.diagrams.values());
   }
+
+  async getDiagramRevisions(diagramId: number): Promise<DiagramRevision[]> {
+    return [...(this.revisions.get(diagramId) || [])].reverse();
+  }
+
+  async getDiagramRevision(diagramId: number, revision: number): Promise<DiagramRevision | undefined> {
+    return this.revisions.get(diagramId)?.find(r => r.revision === revision);
+  }
+
+  async restoreDiagramRevision(diagramId: number, revision: number): Promise<Diagram | undefined> {
+    const snapshot = await this.getDiagramRevision(diagramId, revision);
+    if (!snapshot) return undefined;
+
+    const { name, data, layout, settings } = snapshot;
+    return this.updateDiagram(diagramId, { name, data, layout, settings } as Partial<InsertDiagram>);
+  }
+}
+
+export class DbStorage implements IStorage {
+  async getDiagram(id: number): Promise<Diagram | undefined> {
+    const [diagram] = await db.select().from(diagrams).where(eq(diagrams.id, id));
+    return diagram;
+  }
+
+  async createDiagram(insertDiagram: InsertDiagram): Promise<Diagram> {
+    return db.transaction(async (tx) => {
+      const [diagram] = await tx.insert(diagrams).values(insertDiagram).returning();
+      await tx.insert(diagramRevisions).values({
+        diagramId: diagram.id,
+        revision: 1,
+        name: diagram.name,
+        data: diagram.data,
+        layout: diagram.layout,
+        settings: diagram.settings
+      });
+      return diagram;
+    });
+  }
+
+  // Locks the diagram row before the latest revision is read, so concurrent updates number their
+  // revisions one after another. Diagrams saved before revisions were recorded get their current
+  // state as revision 1. Resolves to the latest revision, undefined without the diagram
+  private async lockLatestRevision(tx: Transaction, id: number): Promise<number | undefined> {
+    const [existing] = await tx.select().from(diagrams).where(eq(diagrams.id, id)).for("update");
+    if (!existing) return undefined;
+
+    const [latest] = await tx
+      .select({ revision: diagramRevisions.revision })
+      .from(diagramRevisions)
+      .where(eq(diagramRevisions.diagramId, id))
+      .orderBy(desc(diagramRevisions.revision))
+      .limit(1);
+    if (latest) return latest.revision;
+
+    await tx.insert(diagramRevisions).values({
+      diagramId: id,
+      revision: 1,
+      name: existing.name,
+      data: existing.data,
+      layout: existing.layout,
+      settings: existing.settings
+    });
+    return 1;
+  }
+
+  // Reads add the revision 1 of an older diagram too, so its history is never empty
+  private async ensureBaselineRevision(diagramId: number) {
+    const [latest] = await db
+      .select({ revision: diagramRevisions.revision })
+      .from(diagramRevisions)
+      .where(eq(diagramRevisions.diagramId, diagramId))
+      .limit(1);
+    if (!latest) {
+      await db.transaction(tx => this.lockLatestRevision(tx, diagramId));
+    }
+  }
+
+  async updateDiagram(id: number, updateData: Partial<InsertDiagram>): Promise<Diagram | undefined> {
+    if (Object.keys(updateData).length === 0) {
+      return this.getDiagram(id);
+    }
+
+    return db.transaction(async (tx) => {
+      const latest = await this.lockLatestRevision(tx, id);
+      if (!latest) return undefined;
+
+      const [diagram] = await tx.update(diagrams).set(updateData).where(eq(diagrams.id, id)).returning();
+      if (!diagram) return undefined;
+
+      await tx.insert(diagramRevisions).values({
+        diagramId: id,
+        revision: latest + 1,
+        name: diagram.name,
+        data: diagram.data,
+        layout: diagram.layout,
+        settings: diagram.settings
+      });
+      return diagram;
+    });
+  }
+
+  async deleteDiagram(id: number): Promise<boolean> {
+    const deleted = await db.delete(diagrams).where(eq(diagrams.id, id)).returning({ id: diagrams.id });
+    return deleted.length > 0;
+  }
+
+  async getAllDiagrams(): Promise<Diagram[]> {
+    return db.select().from(diagrams).orderBy(diagrams.id);
+  }
+
+  async getDiagramRevisions(diagramId: number): Promise<DiagramRevision[]> {
+    await this.ensureBaselineRevision(diagramId);
+    return db
+      .select()
+      .from(diagramRevisions)
+      .where(eq(diagramRevisions.diagramId, diagramId))
+      .orderBy(desc(diagramRevisions.revision));
+  }
+
+  async getDiagramRevision(diagramId: number, revision: number): Promise<DiagramRevision | undefined> {
+    await this.ensureBaselineRevision(diagramId);
+    const [snapshot] = await db
+      .select()
+      .from(diagramRevisions)
+      .where(and(eq(diagramRevisions.diagramId, diagramId), eq(diagramRevisions.revision, revision)));
+    return snapshot;
+  }
+
+  async restoreDiagramRevision(diagramId: number, revision: number): Promise<Diagram | undefined> {
+    const snapshot = await this.getDiagramRevision(diagramId, revision);
+    if (!snapshot) return undefined;
+
+    const { name, data, layout, settings } = snapshot;
+    return this.updateDiagram(diagramId, { name, data, layout, settings } as Partial<InsertDiagram>);
+  }
+}
+
+// DIAGRAM_STORAGE=postgres|memory; defaults to Postgres when DATABASE_URL is set, memory in tests
+export function createStorage(): IStorage {
+  const configured = process.env.DIAGRAM_STORAGE;
+
+  if (configured === 'memory') return new MemStorage();
+  if (configured === 'postgres') return new DbStorage();
+  if (configured) {
+    throw new Error(`Unknown DIAGRAM_STORAGE '${configured}'. Use 'postgres' or 'memory'.`);
+  }
+
+  if (process.env.NODE_ENV === 'test' || !process.env.DATABASE_URL) {
+    return new MemStorage();
+  }
+  return new DbStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Each select resolves to the next queued result; inserts resolve immediately
+const selects = vi.hoisted(() => [] as any[][]);
+vi.mock('../db', () => {
+  const chain: any = { from: () => chain, where: async () => selects.shift() || [] };
+  const insert = () => ({ values: () => ({ onConflictDoUpdate: async () => undefined }) });
+  return { db: { select: () => chain, insert } };
+});
+vi.mock('../serviceMetricsGenerator', () => ({
+  getLatestServiceMetrics: async () => [{ serviceName: 'payment-service', cpuUsage: 95 }]
+}));
+
+import {
+  alertRuleSchema,
+  evaluateAlertRules,
+  RESOLVED_ALERT_TTL_MS,
+  breachesThreshold,
+  nextAlertState,
+  collectAlertValues,
+  knownAlertKeys,
+  buildAlertNotification,
+  type AlertStateFields
+} from '../alertEngine';
+import type { AlertRule, ServiceMetrics } from '@shared/schema';
+
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 6, 12, 0, seconds));
+
+const red = (overrides: Record<string, number> = {}) => ({
+  requests: 100, rate: 1, errors: 0, errorRate: 0, avg: 50, p50: 40, p90: 90, p99: 120, ...overrides
+});
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 1,
+  name: 'High error rate',
+  scope: 'edge',
+  metric: 'errorRate',
+  operator: '>',
+  threshold: 5,
+  forSeconds: 300,
+  windowSeconds: 300,
+  service: null,
+  enabled: true,
+  webhookUrls: [],
+  createdAt: at(0),
+  ...overrides
+});
+
+describe('breachesThreshold', () => {
+  it('applies each comparison operator', () => {
+    expect(breachesThreshold(6, '>', 5)).toBe(true);
+    expect(breachesThreshold(5, '>', 5)).toBe(false);
+    expect(breachesThreshold(5, '>=', 5)).toBe(true);
+    expect(breachesThreshold(4, '<', 5)).toBe(true);
+    expect(breachesThreshold(5, '<=', 5)).toBe(true);
+    expect(breachesThreshold(6, '<=', 5)).toBe(false);
+  });
+});
+
+describe('nextAlertState', () => {
+  it('stays pending until the condition has held for forSeconds, then fires once', () => {
+    const first = nextAlertState(undefined, 7, true, 300, at(0));
+    expect(first.state?.status).toBe('pending');
+    expect(first.notify).toBeNull();
+
+    const second = nextAlertState(first.state!, 8, true, 300, at(120));
+    expect(second.state?.status).toBe('pending');
+    expect(second.state?.pendingSince).toEqual(at(0));
+
+    const third = nextAlertState(second.state!, 9, true, 300, at(300));
+    expect(third.state?.status).toBe('firing');
+    expect(third.state?.firedAt).toEqual(at(300));
+    expect(third.notify).toBe('firing');
+
+    const fourth = nextAlertState(third.state!, 10, true, 300, at(330));
+    expect(fourth.state).toMatchObject({ status: 'firing', value: 10, firedAt: at(300) });
+    expect(fourth.notify).toBeNull();
+  });
+
+  it('fires immediately when forSeconds is zero', () => {
+    const result = nextAlertState(undefined, 90, true, 0, at(0));
+    expect(result.state?.status).toBe('firing');
+    expect(result.notify).toBe('firing');
+  });
+
+  it('resolves a firing alert and notifies', () => {
+    const firing: AlertStateFields = { status: 'firing', value: 9, pendingSince: at(0), firedAt: at(300), resolvedAt: null };
+    const result = nextAlertState(firing, 2, false, 300, at(600));
+    expect(result.state).toMatchObject({ status: 'resolved', value: 2, resolvedAt: at(600), firedAt: at(300) });
+    expect(result.notify).toBe('resolved');
+  });
+
+  it('drops a pending alert that clears without notifying', () => {
+    const pending: AlertStateFields = { status: 'pending', value: 7, pendingSince: at(0), firedAt: null, resolvedAt: null };
+    expect(nextAlertState(pending, 1, false, 300, at(60))).toEqual({ state: null, notify: null });
+  });
+
+  it('keeps a resolved alert for a day, then drops it', () => {
+    const resolved: AlertStateFields = { status: 'resolved', value: 2, pendingSince: at(0), firedAt: at(300), resolvedAt: at(600) };
+    expect(nextAlertState(resolved, 2, false, 300, at(900)).state).toBe(resolved);
+
+    const dayLater = new Date(at(600).getTime() + RESOLVED_ALERT_TTL_MS);
+    expect(nextAlertState(resolved, 2, false, 300, dayLater)).toEqual({ state: null, notify: null });
+  });
+
+  it('starts a new pending period after a resolved alert breaches again', () => {
+    const resolved: AlertStateFields = { status: 'resolved', value: 2, pendingSince: at(0), firedAt: at(300), resolvedAt: at(600) };
+    const result = nextAlertState(resolved, 8, true, 300, at(900));
+    expect(result.state).toMatchObject({ status: 'pending', pendingSince: at(900), firedAt: null, resolvedAt: null });
+  });
+});
+
+describe('collectAlertValues', () => {
+  const redResult = {
+    from: at(0).toISOString(),
+    to: at(300).toISOString(),
+    windowSeconds: 300,
+    edges: [
+      { source: 'api_GET /orders', target: 'payment_charge', ...red({ errorRate: 7.5 }) },
+      { source: 'api_GET /orders', target: 'inventory_reserve', ...red({ errorRate: 1 }) }
+    ],
+    services: [
+      { service: 'payment', ...red({ p99: 950 }) },
+      { service: 'inventory', ...red({ p99: 300 }) }
+    ]
+  };
+  const resources = [
+    { serviceName: 'payment', cpuUsage: 91.5, memoryUsage: 40, diskUsage: 20 },
+    { serviceName: 'inventory', cpuUsage: 30, memoryUsage: 50, diskUsage: 20 }
+  ] as ServiceMetrics[];
+
+  it('keys edge values by source->target', () => {
+    const values = collectAlertValues(rule(), redResult, []);
+    expect(values.get('api_GET /orders->payment_charge')).toBe(7.5);
+    expect(values.get('api_GET /orders->inventory_reserve')).toBe(1);
+  });
+
+  it('limits edges to those touching the rule service', () => {
+    const values = collectAlertValues(rule({ service: 'payment' }), redResult, []);
+    expect(Array.from(values.keys())).toEqual(['api_GET /orders->payment_charge']);
+  });
+
+  it('reads service latency from RED metrics', () => {
+    const values = collectAlertValues(rule({ scope: 'service', metric: 'p99', threshold: 800 }), redResult, []);
+    expect(values.get('payment')).toBe(950);
+    expect(values.get('inventory')).toBe(300);
+  });
+
+  it('reports a rate of 0 for known keys without traffic in the window', () => {
+    const known = { ...redResult, services: [...redResult.services, { service: 'billing', ...red() }] };
+    const rateRule = rule({ scope: 'service', metric: 'rate', operator: '<', threshold: 1 });
+    const values = collectAlertValues(rateRule, redResult, [], knownAlertKeys(rateRule, known, ['shipping']));
+
+    expect(Object.fromEntries(values)).toEqual({ payment: 1, inventory: 1, billing: 0, shipping: 0 });
+  });
+
+  it('skips latency for known keys and entries without calls', () => {
+    const quiet = { ...redResult, services: [{ service: 'payment', ...red({ requests: 0, rate: 0, p99: 0 }) }] };
+    const latencyRule = rule({ scope: 'service', metric: 'p99', operator: '<', threshold: 10 });
+    const values = collectAlertValues(latencyRule, quiet, [], knownAlertKeys(latencyRule, redResult, []));
+
+    expect(values.size).toBe(0);
+  });
+
+  it('reads resource metrics from the latest service samples', () => {
+    const values = collectAlertValues(rule({ scope: 'service', metric: 'cpuUsage', threshold: 85 }), null, resources);
+    expect(values.get('payment')).toBe(91.5);
+    expect(values.size).toBe(2);
+  });
+});
+
+describe('alertRuleSchema', () => {
+  it('applies defaults', () => {
+    const parsed = alertRuleSchema.parse({ name: 'CPU', scope: 'service', metric: 'cpuUsage', threshold: 85 });
+    expect(parsed).toMatchObject({ operator: '>', forSeconds: 0, windowSeconds: 300, webhookUrls: [] });
+  });
+
+  it('rejects resource metrics on edges', () => {
+    const result = alertRuleSchema.safeParse({ name: 'CPU', scope: 'edge', metric: 'cpuUsage', threshold: 85 });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects invalid webhook URLs', () => {
+    const result = alertRuleSchema.safeParse({ name: 'x', scope: 'edge', metric: 'errorRate', threshold: 5, webhookUrls: ['not a url'] });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('buildAlertNotification', () => {
+  it('serializes the rule, key and timestamps', () => {
+    const state: AlertStateFields = { status: 'firing', value: 7.5, pendingSince: at(0), firedAt: at(300), resolvedAt: null };
+    const notification = buildAlertNotification(rule(), 'a->b', state, 'firing');
+    expect(notification).toEqual({
+      status: 'firing',
+      rule: { id: 1, name: 'High error rate', scope: 'edge', metric: 'errorRate', operator: '>', threshold: 5, forSeconds: 300 },
+      key: 'a->b',
+      value: 7.5,
+      firedAt: at(300).toISOString(),
+      resolvedAt: null
+    });
+  });
+});
+
+describe('evaluateAlertRules', () => {
+  it('does not wait for webhook deliveries', async () => {
+    const fetch = vi.fn(() => new Promise<Response>(() => {}));
+    vi.stubGlobal('fetch', fetch);
+    selects.push([rule({ scope: 'service', metric: 'cpuUsage', threshold: 90, forSeconds: 0, webhookUrls: ['http://hooks.local/alert'] })], []);
+
+    await evaluateAlertRules(at(0));
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0]).toMatchObject(['http://hooks.local/alert', { method: 'POST', signal: expect.any(AbortSignal) }]);
+    vi.unstubAllGlobals();
+  });
+});
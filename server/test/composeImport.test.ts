@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildComposeTopology, isComposeFile } from '../composeImport';
+import { parseYamlDocuments } from '../k8sImport';
+
+const compose = `
+name: shop
+services:
+  web:
+    image: nginx:1.25
+    depends_on: [api]
+    networks: [frontend]
+  api:
+    build: ./api
+    depends_on:
+      db: { condition: service_healthy }
+    links: ["cache:redis"]
+    environment:
+      - DATABASE_URL=postgres://shop:secret@db:5432/shop
+      - PAYMENTS_URL=http://payments.internal:8080
+      - LOG_LEVEL=debug
+    networks:
+      frontend:
+      backend:
+  payments:
+    image: shop/payments
+    networks:
+      backend:
+        aliases: [payments.internal]
+  db:
+    image: postgres:16
+    networks: [backend]
+  cache:
+    image: redis:7
+`;
+
+describe('isComposeFile', () => {
+  it('recognises a services map but not Kubernetes manifests or OpenAPI specs', () => {
+    expect(isComposeFile({ services: { web: {} } })).toBe(true);
+    expect(isComposeFile({ apiVersion: 'v1', kind: 'Service', services: {} })).toBe(false);
+    expect(isComposeFile({ openapi: '3.0.3', paths: {}, services: {} })).toBe(false);
+    expect(isComposeFile([{ services: {} }])).toBe(false);
+  });
+});
+
+describe('buildComposeTopology', () => {
+  it('builds nodes per service and edges from depends_on, links and env hostnames', () => {
+    const { data, stats } = buildComposeTopology(parseYamlDocuments(compose)[0] as any);
+
+    expect(data.nodes.map(node => `${node.id} ${node.tenant}`)).toEqual([
+      'web frontend',
+      'api frontend',
+      'payments backend',
+      'db backend',
+      'cache default'
+    ]);
+    expect(data.nodes[0]).toMatchObject({ service: 'web', system: 'shop', nodeType: 'service' });
+    expect(data.edges.map(edge => `${edge.source} -> ${edge.target} (${edge.label})`)).toEqual([
+      'web -> api (depends_on)',
+      'api -> db (depends_on)',
+      'api -> cache (link)',
+      'api -> db (env DATABASE_URL)',
+      'api -> payments (env PAYMENTS_URL)'
+    ]);
+    expect(stats).toEqual({ nodeCount: 5, edgeCount: 5, componentCount: 3 });
+  });
+
+  it('reads environment maps and ignores unknown targets', () => {
+    const { data } = buildComposeTopology({
+      services: {
+        worker: { environment: { QUEUE: 'amqp://rabbit:5672', PORT: 8080 }, depends_on: ['missing'] },
+        rabbit: { container_name: 'rabbitmq' }
+      }
+    });
+
+    expect(data.nodes[0].system).toBe('docker-compose');
+    expect(data.edges.map(edge => edge.label)).toEqual(['env QUEUE']);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { checkConformance } from '@shared/conformance';
+import { buildKubernetesTopology } from '../k8sImport';
+
+const edge = (source: string, target: string, connectionCount: number, errorCount = 0) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  connectionCount,
+  errorCount
+});
+
+const node = (id: string, count: number) => ({ id, label: id, service: id, tenant: 'prod', system: 'shop', count });
+
+describe('checkConformance', () => {
+  const declared = {
+    nodes: [node('gateway', 0), node('orders', 0), node('payment', 0), node('legacy', 0)],
+    edges: [edge('gateway', 'orders', 0), edge('orders', 'payment', 0), edge('gateway', 'legacy', 0)]
+  };
+  const observed = {
+    nodes: [node('gateway', 100), node('orders', 80), node('payment', 40), node('fraud', 5)],
+    edges: [
+      edge('gateway', 'orders', 80, 2),
+      edge('orders', 'payment', 40),
+      edge('gateway', 'payment', 10, 1),
+      edge('orders', 'fraud', 5)
+    ]
+  };
+
+  it('reports undeclared calls, unknown services and unused edges', () => {
+    const report = checkConformance(declared, observed);
+
+    expect(report.findings.map(entry => `${entry.state} ${entry.id}`)).toEqual([
+      'undeclared-call gateway-payment',
+      'undeclared-call orders-fraud',
+      'unknown-service fraud',
+      'unused-edge gateway-legacy'
+    ]);
+    expect(report.summary).toEqual({ 'undeclared-call': 2, 'unknown-service': 1, 'unused-edge': 1 });
+    expect(report.findings[0]).toMatchObject({ label: 'gateway → payment', calls: 10, errors: 1 });
+  });
+
+  it('marks every element of the union with its state', () => {
+    const { data } = checkConformance(declared, observed);
+    const states = (items: any[]) => Object.fromEntries(items.map(item => [item.id, item.conformance.state]));
+
+    expect(states(data.nodes)).toEqual({
+      gateway: 'conformant',
+      orders: 'conformant',
+      payment: 'conformant',
+      legacy: 'unobserved',
+      fraud: 'unknown-service'
+    });
+    expect(states(data.edges)['gateway-orders']).toBe('conformant');
+    expect(data.edges.find(item => item.id === 'gateway-orders')).toMatchObject({ connectionCount: 80, errorCount: 2 });
+  });
+
+  it('treats traffic to a Kubernetes Service and to its workload as the same service', () => {
+    const { data: manifests } = buildKubernetesTopology([
+      {
+        apiVersion: 'v1',
+        kind: 'Service',
+        metadata: { name: 'postgres-service', namespace: 'shop' },
+        spec: { selector: { app: 'postgres' } }
+      },
+      {
+        apiVersion: 'apps/v1',
+        kind: 'Deployment',
+        metadata: { name: 'postgres', namespace: 'shop' },
+        spec: { template: { metadata: { labels: { app: 'postgres' } }, spec: { containers: [] } } }
+      },
+      {
+        apiVersion: 'apps/v1',
+        kind: 'Deployment',
+        metadata: { name: 'api', namespace: 'shop' },
+        spec: { template: { metadata: { labels: { app: 'api' } }, spec: { containers: [{ name: 'api', env: [{ name: 'PGHOST', value: 'postgres-service' }] }] } } }
+      }
+    ]);
+
+    const report = checkConformance(manifests, {
+      nodes: [node('api', 10), node('postgres-service', 10), node('postgres', 0)],
+      edges: [edge('api', 'postgres-service', 10), edge('postgres-service', 'postgres', 10)]
+    });
+
+    expect(report.findings).toEqual([]);
+    expect(report.data.nodes.map(item => item.id).sort()).toEqual(['api', 'postgres']);
+    expect(report.data.edges.map(item => item.id)).toEqual(['api-postgres']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { computeCriticalPath, aggregateCriticalPaths, type CriticalPathSpan } from '@shared/criticalPath';
+
+const base = Date.UTC(2025, 0, 6, 12, 0, 0);
+
+const span = (spanId: string, parentSpanId: string | null, serviceName: string, startMs: number, durationMs: number): CriticalPathSpan => ({
+  spanId,
+  parentSpanId,
+  serviceName,
+  operationName: 'op',
+  startTime: new Date(base + startMs),
+  duration: durationMs * 1000000
+});
+
+describe('Critical path', () => {
+  // gateway 0-100 calls auth 5-25, then payment 30-90 and a fire-and-forget audit 35-50;
+  // payment calls db 40-80
+  const spans = [
+    span('gw', null, 'gateway', 0, 100),
+    span('auth', 'gw', 'auth', 5, 20),
+    span('pay', 'gw', 'payment', 30, 60),
+    span('audit', 'gw', 'audit', 35, 15),
+    span('db', 'pay', 'postgres', 40, 40)
+  ];
+
+  it('should follow the last-finishing child at every point', () => {
+    const path = computeCriticalPath(spans)!;
+
+    expect(path.entryOperation).toBe('gateway_op');
+    expect(path.totalMs).toBe(100);
+    expect(path.segments.map(s => [s.spanId, s.startMs, s.endMs])).toEqual([
+      ['gw', 0, 5],
+      ['auth', 5, 25],
+      ['gw', 25, 30],
+      ['pay', 30, 40],
+      ['db', 40, 80],
+      ['pay', 80, 90],
+      ['gw', 90, 100]
+    ]);
+    expect(path.services).toEqual([
+      { service: 'postgres', ms: 40 },
+      { service: 'gateway', ms: 20 },
+      { service: 'auth', ms: 20 },
+      { service: 'payment', ms: 20 }
+    ]);
+  });
+
+  it('should clip children that outlive their parent', () => {
+    const path = computeCriticalPath([
+      span('gw', null, 'gateway', 0, 50),
+      span('queue', 'gw', 'kafka', 10, 100)
+    ])!;
+
+    expect(path.segments.map(s => [s.spanId, s.startMs, s.endMs])).toEqual([
+      ['gw', 0, 10],
+      ['queue', 10, 50]
+    ]);
+  });
+
+  it('should return null for an empty trace', () => {
+    expect(computeCriticalPath([])).toBeNull();
+  });
+
+  it('should aggregate how often services sit on the critical path', () => {
+    const fast = computeCriticalPath([span('gw2', null, 'gateway', 0, 30)])!;
+    const summary = aggregateCriticalPaths('gateway_op', [computeCriticalPath(spans)!, fast]);
+
+    expect(summary.traceCount).toBe(2);
+    expect(summary.services[0]).toEqual({ service: 'gateway', traces: 2, share: 1, avgMs: 25, latencyShare: 0.385 });
+    expect(summary.services.find(s => s.service === 'postgres')).toMatchObject({ traces: 1, share: 0.5, avgMs: 40 });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { edgeCaption, exportDiagram, isDiagramExportFormat, toDot, toDrawio, toGraphML, toMermaid } from '@shared/diagramExport';
+
+const data = {
+  nodes: [
+    { id: 'gateway', label: 'gateway', service: 'gateway', tenant: 'edge' },
+    { id: 'orders_create "v2"', label: 'create "v2"', service: 'orders', tenant: 'shop', system: 'orders' },
+    { id: 'legacy', label: 'legacy' }
+  ],
+  edges: [
+    { id: 'e1', source: 'gateway', target: 'orders_create "v2"', label: 'HTTP Call', connectionCount: 120, errorCount: 3, status: 'error' },
+    // Edges after a d3 layout reference node objects
+    { id: 'e2', source: { id: 'gateway' }, target: { id: 'legacy' }, connectionCount: 1 },
+    { id: 'e3', source: 'gateway', target: 'missing' }
+  ]
+};
+
+describe('diagram export', () => {
+  it('captions edges with label, call count and status', () => {
+    expect(edgeCaption(data.edges[0])).toBe('HTTP Call · 120 calls · error');
+    expect(edgeCaption(data.edges[1])).toBe('1 call');
+    expect(edgeCaption({ errorCount: 2 })).toBe('error');
+  });
+
+  it('writes DOT with tenants as clusters and escaped ids', () => {
+    expect(toDot(data, 'shop')).toBe([
+      'digraph "shop" {',
+      '  rankdir=LR;',
+      '  node [shape=box, style=rounded];',
+      '  subgraph "cluster_0" {',
+      '    label="edge";',
+      '    "gateway" [label="gateway"];',
+      '  }',
+      '  subgraph "cluster_1" {',
+      '    label="shop";',
+      '    "orders_create \\"v2\\"" [label="orders: create \\"v2\\""];',
+      '  }',
+      '  "legacy" [label="legacy"];',
+      '  "gateway" -> "orders_create \\"v2\\"" [label="HTTP Call · 120 calls · error", color="#ef4444"];',
+      '  "gateway" -> "legacy" [label="1 call"];',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes a Mermaid flowchart with subgraphs and styled error links', () => {
+    expect(toMermaid(data)).toBe([
+      'flowchart LR',
+      '  subgraph t0["edge"]',
+      '    n0["gateway"]',
+      '  end',
+      '  subgraph t1["shop"]',
+      '    n1["orders: create #quot;v2#quot;"]',
+      '  end',
+      '  n2["legacy"]',
+      '  n0 -->|"HTTP Call · 120 calls · error"| n1',
+      '  n0 -->|"1 call"| n2',
+      '  linkStyle 0 stroke:#ef4444',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes GraphML with tenant group nodes and edge data', () => {
+    const graphml = toGraphML(data);
+
+    expect(graphml).toContain('<key id="calls" for="edge" attr.name="calls" attr.type="int"/>');
+    expect(graphml).toContain('<node id="tenant-1">\n      <data key="label">shop</data>\n      <graph id="tenant-1:" edgedefault="directed">');
+    expect(graphml).toContain('<node id="orders_create &quot;v2&quot;">');
+    expect(graphml).toContain([
+      '    <edge id="e0" source="gateway" target="orders_create &quot;v2&quot;">',
+      '      <data key="edgeLabel">HTTP Call</data>',
+      '      <data key="calls">120</data>',
+      '      <data key="status">error</data>',
+      '    </edge>'
+    ].join('\n'));
+    expect(graphml.match(/<edge /g)).toHaveLength(2);
+  });
+
+  it('validates format names', () => {
+    expect(isDiagramExportFormat('mermaid')).toBe(true);
+    expect(isDiagramExportFormat('toString')).toBe(false);
+    expect(exportDiagram(data, 'dot')).toMatch(/^digraph "diagram"/);
+  });
+});
+
+describe('draw.io export', () => {
+  const positioned = {
+    nodes: [
+      { id: 'gateway', label: 'gateway', service: 'gateway', tenant: 'edge', x: 100, y: 100 },
+      { id: 'orders_create', label: 'create', service: 'orders', tenant: 'shop', nodeType: 'endpoint', x: 300, y: 150 },
+      { id: 'orders_get', label: 'get', service: 'orders', tenant: 'shop', nodeType: 'endpoint', x: 400, y: 250 },
+      { id: 'legacy', label: 'legacy', x: 50, y: 400 }
+    ],
+    edges: [
+      { id: 'e1', source: 'gateway', target: 'orders_create', label: 'HTTP Call', connectionCount: 12, status: 'error' },
+      { id: 'e2', source: 'gateway', target: 'legacy', status: '404' },
+      { id: 'e3', source: 'orders_create', target: 'orders_get', status: 'ok' }
+    ]
+  };
+
+  it('keeps canvas coordinates, nesting nodes in tenant containers at relative positions', () => {
+    const xml = toDrawio(positioned, 'shop');
+
+    expect(xml).toContain('<diagram id="network-map" name="shop">');
+    // shop spans x 300..400 and y 150..250; containers pad by radius + 30 and add the header and label room
+    expect(xml).toContain('<mxCell id="t1" value="shop" style="swimlane;');
+    expect(xml).toContain('<mxGeometry x="250" y="74" width="200" height="256" as="geometry"/>');
+    expect(xml).toMatch(/<mxCell id="n1" value="orders: create" style="ellipse;[^"]*" vertex="1" parent="t1">\n\s+<mxGeometry x="30" y="56" width="40" height="40"/);
+    expect(xml).toMatch(/<mxCell id="n3" value="legacy" [^>]* parent="1">\n\s+<mxGeometry x="30" y="380" /);
+  });
+
+  it('styles edges by status and references node cells', () => {
+    const xml = toDrawio(positioned);
+
+    expect(xml).toMatch(/<mxCell id="e0" value="HTTP Call · 12 calls · error" style="[^"]*strokeColor=#ef4444;strokeWidth=2;[^"]*" edge="1" parent="1" source="n0" target="n1">/);
+    expect(xml).toMatch(/<mxCell id="e1" value="404" style="[^"]*strokeColor=#f59e0b;/);
+    expect(xml).toMatch(/<mxCell id="e2" value="ok" style="[^"]*strokeColor=#6b7280;/);
+  });
+
+  it('lays out a grid when the nodes have no positions', () => {
+    const xml = toDrawio({ nodes: data.nodes.map(node => ({ ...node, x: 0, y: 0 })), edges: [] });
+
+    // Three nodes in two columns of 120px cells; legacy is ungrouped in the second row
+    expect(xml).toMatch(/<mxCell id="n2" value="legacy" [^>]* parent="1">\n\s+<mxGeometry x="40" y="160" /);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// One stored diagram and its revision rows, read and written through the transaction. A select
+// ... for update waits for the lock held by an earlier transaction, and revision numbers are
+// unique per diagram as in the database
+const stored = vi.hoisted(() => ({ diagram: null as any, revisions: [] as any[], lock: Promise.resolve() }));
+vi.mock('../db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const createTx = (acquire: () => Promise<void>) => {
+    const query = (result: () => any[]) => {
+      let locked = false;
+      const chain: any = {
+        where: () => chain,
+        orderBy: () => chain,
+        limit: () => chain,
+        for: () => {
+          locked = true;
+          return chain;
+        },
+        then: (resolve: any, reject: any) => (locked ? acquire() : Promise.resolve()).then(result).then(resolve, reject)
+      };
+      return chain;
+    };
+    return {
+      select: () => ({
+        from: (table: any) => query(() => getTableName(table) === 'diagrams'
+          ? [stored.diagram]
+          : [...stored.revisions].sort((a, b) => b.revision - a.revision))
+      }),
+      insert: () => ({
+        values: async (revision: any) => {
+          if (stored.revisions.some(r => r.diagramId === revision.diagramId && r.revision === revision.revision)) {
+            throw new Error('duplicate key value violates unique constraint');
+          }
+          stored.revisions.push(revision);
+        }
+      }),
+      update: () => ({
+        set: (values: any) => ({
+          where: () => ({
+            returning: async () => {
+              stored.diagram = { ...stored.diagram, ...values };
+              return [stored.diagram];
+            }
+          })
+        })
+      })
+    };
+  };
+  const transaction = async (run: (client: any) => Promise<any>) => {
+    let release = () => {};
+    const acquire = () => {
+      const previous = stored.lock;
+      stored.lock = new Promise<void>(resolve => { release = resolve; });
+      return previous;
+    };
+    try {
+      return await run(createTx(acquire));
+    } finally {
+      release();
+    }
+  };
+  return { db: { ...createTx(async () => {}), transaction } };
+});
+
+import { DbStorage, MemStorage } from '../storage';
+import { diffDiagramRevisions } from '@shared/diagramDiff';
+
+const initialData = {
+  nodes: [
+    { id: 'api_get', label: 'get', service: 'api' },
+    { id: 'db_query', label: 'query', service: 'db' }
+  ],
+  edges: [{ id: 'edge_0', source: 'api_get', target: 'db_query' }]
+};
+
+const updatedData = {
+  nodes: [
+    { id: 'api_get', label: 'GET /orders', service: 'api' },
+    { id: 'cache_lookup', label: 'lookup', service: 'cache' }
+  ],
+  edges: [{ id: 'edge_0', source: 'api_get', target: 'cache_lookup' }]
+};
+
+async function createHistory() {
+  const memStorage = new MemStorage();
+  const diagram = await memStorage.createDiagram({
+    name: 'Orders',
+    data: initialData,
+    layout: 'force',
+    settings: { showLabels: true, nodeSpacing: 120 }
+  });
+  await memStorage.updateDiagram(diagram.id, {
+    data: updatedData,
+    layout: 'hierarchical',
+    settings: { showLabels: false, nodeSpacing: 120 }
+  });
+  return { memStorage, diagram };
+}
+
+describe('Diagram revisions', () => {
+  it('should record a revision for every create and update', async () => {
+    const { memStorage, diagram } = await createHistory();
+    const revisions = await memStorage.getDiagramRevisions(diagram.id);
+
+    expect(revisions.map(r => r.revision)).toEqual([2, 1]);
+    expect(revisions[1].data).toEqual(initialData);
+    expect(revisions[0].layout).toBe('hierarchical');
+  });
+
+  it('should diff nodes, edges and settings between revisions', async () => {
+    const { memStorage, diagram } = await createHistory();
+    const from = (await memStorage.getDiagramRevision(diagram.id, 1))!;
+    const to = (await memStorage.getDiagramRevision(diagram.id, 2))!;
+
+    const diff = diffDiagramRevisions(from, to);
+
+    expect(diff.nodes.added.map(n => n.id)).toEqual(['cache_lookup']);
+    expect(diff.nodes.removed.map(n => n.id)).toEqual(['db_query']);
+    expect(diff.nodes.changed).toEqual([
+      { id: 'api_get', fields: [{ key: 'label', from: 'get', to: 'GET /orders' }] }
+    ]);
+    expect(diff.edges.added).toHaveLength(1);
+    expect(diff.edges.removed).toHaveLength(1);
+    expect(diff.settings).toEqual([{ key: 'showLabels', from: true, to: false }]);
+    expect(diff.layout).toEqual({ key: 'layout', from: 'force', to: 'hierarchical' });
+    expect(diff.name).toBeNull();
+  });
+
+  it('should restore a revision as a new revision', async () => {
+    const { memStorage, diagram } = await createHistory();
+
+    const restored = await memStorage.restoreDiagramRevision(diagram.id, 1);
+    const revisions = await memStorage.getDiagramRevisions(diagram.id);
+
+    expect(restored?.data).toEqual(initialData);
+    expect(restored?.layout).toBe('force');
+    expect(revisions).toHaveLength(3);
+    expect(revisions[0].revision).toBe(3);
+    expect(await memStorage.restoreDiagramRevision(diagram.id, 99)).toBeUndefined();
+  });
+});
+
+describe('Database diagram revisions', () => {
+  it('should keep the state of a diagram saved before revisions existed as revision 1', async () => {
+    stored.diagram = { id: 7, name: 'Orders', data: initialData, layout: 'force', settings: {}, createdAt: new Date() };
+    stored.revisions = [];
+    const dbStorage = new DbStorage();
+
+    await dbStorage.updateDiagram(7, { data: updatedData });
+    await dbStorage.updateDiagram(7, { layout: 'hierarchical' });
+
+    expect(stored.revisions.map(r => [r.revision, r.layout])).toEqual([[1, 'force'], [2, 'force'], [3, 'hierarchical']]);
+    expect(stored.revisions[0].data).toEqual(initialData);
+    expect(stored.revisions[1].data).toEqual(updatedData);
+  });
+
+  it('should add revision 1 of a diagram saved before revisions existed when its history is read', async () => {
+    stored.diagram = { id: 7, name: 'Orders', data: initialData, layout: 'force', settings: {}, createdAt: new Date() };
+    stored.revisions = [];
+    const dbStorage = new DbStorage();
+
+    const revisions = await dbStorage.getDiagramRevisions(7);
+    expect(revisions.map(r => [r.revision, r.layout])).toEqual([[1, 'force']]);
+    expect((await dbStorage.getDiagramRevision(7, 1))?.data).toEqual(initialData);
+    expect(stored.revisions).toHaveLength(1);
+  });
+
+  it('should number concurrent updates one after another', async () => {
+    stored.diagram = { id: 7, name: 'Orders', data: initialData, layout: 'force', settings: {}, createdAt: new Date() };
+    stored.revisions = [{ diagramId: 7, revision: 1, layout: 'force' }];
+    const dbStorage = new DbStorage();
+
+    await Promise.all([
+      dbStorage.updateDiagram(7, { layout: 'hierarchical' }),
+      dbStorage.updateDiagram(7, { layout: 'circular' }),
+      dbStorage.updateDiagram(7, { name: 'Orders v2' })
+    ]);
+
+    expect(stored.revisions.map(r => r.revision)).toEqual([1, 2, 3, 4]);
+    expect(stored.revisions.map(r => r.layout)).toEqual(['force', 'hierarchical', 'circular', 'circular']);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { createGeneratorManager, type GeneratorDefinition } from '../generatorManager';
+
+const definitions = (overrides: Partial<Record<string, GeneratorDefinition['run']>> = {}): GeneratorDefinition[] => [
+  { name: 'network', description: 'Network events', defaultIntervalMs: 2000, run: overrides.network || (async () => 1) },
+  { name: 'otel', description: 'Traces', defaultIntervalMs: 5000, run: overrides.otel || (async () => 10), exclusiveWith: ['realistic'] },
+  { name: 'realistic', description: 'Realistic traces', defaultIntervalMs: 2000, run: overrides.realistic || (async () => 12), exclusiveWith: ['otel'] }
+];
+
+describe('generator manager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('reports every generator as stopped initially', () => {
+    const manager = createGeneratorManager(definitions());
+    expect(manager.list().map(status => [status.name, status.running, status.intervalMs, status.seed])).toEqual([
+      ['network', false, 2000, null],
+      ['otel', false, 5000, null],
+      ['realistic', false, 2000, null]
+    ]);
+  });
+
+  it('runs immediately and on every interval, counting rows produced', async () => {
+    const manager = createGeneratorManager(definitions());
+    manager.start('network', 1000);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    const status = manager.get('network')!;
+    expect(status.running).toBe(true);
+    expect(status.intervalMs).toBe(1000);
+    expect(status.eventsProduced).toBe(4);
+    expect(status.startedAt).not.toBeNull();
+    expect(status.lastRunAt).not.toBeNull();
+
+    manager.stop('network');
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(manager.get('network')).toMatchObject({ running: false, eventsProduced: 4 });
+  });
+
+  it('records the last error and keeps running', async () => {
+    let calls = 0;
+    const manager = createGeneratorManager(definitions({
+      network: async () => {
+        calls++;
+        if (calls === 2) throw new Error('connection refused');
+        return 1;
+      }
+    }));
+    manager.start('network', 1000);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const status = manager.get('network')!;
+    expect(status.running).toBe(true);
+    expect(status.eventsProduced).toBe(2);
+    expect(status.lastError?.message).toBe('connection refused');
+  });
+
+  it('stops the other trace generator when one starts', () => {
+    const manager = createGeneratorManager(definitions());
+    manager.start('otel');
+    manager.start('realistic');
+
+    expect(manager.get('otel')!.running).toBe(false);
+    expect(manager.get('realistic')!.running).toBe(true);
+    manager.stopAll();
+  });
+
+  it('passes a seeded random source that restarts with the generator', async () => {
+    const draws: number[] = [];
+    const manager = createGeneratorManager(definitions({
+      network: async ({ random }) => {
+        draws.push(random!());
+        return 1;
+      }
+    }));
+    manager.start('network', 1000, 'demo');
+    await vi.advanceTimersByTimeAsync(1000);
+    manager.start('network', 1000, 'demo');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(draws.slice(2)).toEqual(draws.slice(0, 2));
+    expect(manager.get('network')!.seed).toBeTypeOf('number');
+    manager.stopAll();
+  });
+
+  it("passes the caller's run ID to every pass and none by default", async () => {
+    const runIds: Array<string | undefined> = [];
+    const manager = createGeneratorManager(definitions({
+      otel: async ({ runId }) => {
+        runIds.push(runId);
+        return 1;
+      }
+    }));
+    manager.start('otel', 1000, 'demo');
+    await vi.advanceTimersByTimeAsync(1000);
+    manager.start('otel', 1000, 'demo', '0a1b');
+    await vi.advanceTimersByTimeAsync(0);
+    manager.stopAll();
+    await manager.batch('otel', { count: 1, from: new Date(0), to: new Date(1000), seed: 'demo', runId: 'ff' })!.done;
+
+    expect(runIds).toEqual([undefined, undefined, '0a1b', 'ff']);
+  });
+
+  it('backfills passes spread over the window without publishing', async () => {
+    const runs: Array<{ now?: Date; publish?: boolean }> = [];
+    const manager = createGeneratorManager(definitions({
+      otel: async ({ now, publish }) => {
+        runs.push({ now, publish });
+        return 10;
+      }
+    }));
+    const from = new Date(Date.UTC(2025, 0, 6, 12));
+    const result = await manager.batch('otel', { count: 4, from, to: new Date(from.getTime() + 4 * 60 * 1000), seed: 7 })!.done;
+
+    expect(result).toMatchObject({ name: 'otel', state: 'done', count: 4, completed: 4, rowsWritten: 40, seed: 7 });
+    expect(runs.map(run => run.now!.toISOString())).toEqual([
+      '2025-01-06T12:00:30.000Z',
+      '2025-01-06T12:01:30.000Z',
+      '2025-01-06T12:02:30.000Z',
+      '2025-01-06T12:03:30.000Z'
+    ]);
+    expect(runs.every(run => run.publish === false)).toBe(true);
+    expect(manager.get('otel')!.running).toBe(false);
+  });
+
+  it('runs a backfill in the background and reports its progress', async () => {
+    const passes: Array<() => void> = [];
+    const manager = createGeneratorManager(definitions({
+      network: () => new Promise<number>(resolve => passes.push(() => resolve(5)))
+    }));
+    const started = manager.batch('network', { count: 2, from: new Date(0), to: new Date(60000) })!;
+
+    expect(started.job).toMatchObject({ state: 'running', completed: 0 });
+    expect(() => manager.batch('network', { count: 1, from: new Date(0), to: new Date(60000) })).toThrow('already running');
+
+    passes.shift()!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.get('network')!.batch).toMatchObject({ state: 'running', completed: 1, rowsWritten: 5 });
+
+    passes.shift()!();
+    expect(await started.done).toMatchObject({ state: 'done', completed: 2, rowsWritten: 10 });
+    expect(manager.get('network')!.batch!.finishedAt).not.toBeNull();
+  });
+
+  it('reports a failed backfill with the passes completed', async () => {
+    let calls = 0;
+    const manager = createGeneratorManager(definitions({
+      network: async () => {
+        if (++calls === 2) throw new Error('database unavailable');
+        return 1;
+      }
+    }));
+
+    const result = await manager.batch('network', { count: 3, from: new Date(0), to: new Date(3000) })!.done;
+    expect(result).toMatchObject({ state: 'failed', completed: 1, error: 'database unavailable' });
+  });
+
+  it('times scenario faults on the run clock', async () => {
+    const elapsed: Array<number | undefined> = [];
+    const manager = createGeneratorManager(definitions({
+      network: async ({ elapsedSec }) => {
+        elapsed.push(elapsedSec);
+        return 1;
+      }
+    }));
+    manager.start('network', 1000, 'demo');
+    await vi.advanceTimersByTimeAsync(2000);
+    manager.stopAll();
+    await manager.batch('network', { count: 2, from: new Date(0), to: new Date(60000) })!.done;
+
+    expect(elapsed).toEqual([0, 1, 2, 15, 45]);
+  });
+
+  it('skips ticks while a slow pass is still running', async () => {
+    const run = vi.fn(() => new Promise<number>(resolve => setTimeout(() => resolve(1), 2500)));
+    const manager = createGeneratorManager(definitions({ network: run }));
+    manager.start('network', 1000);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    manager.stopAll();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  buildKubernetesTopology,
+  extractHosts,
+  flattenManifests,
+  isKubernetesManifest,
+  matchesSelector,
+  parseKubernetesYaml
+} from '../k8sImport';
+
+const base = ['namespace', 'configmap', 'secret', 'postgres-deployment', 'app-deployment']
+  .map(file => readFileSync(path.resolve(__dirname, `../../k8s/base/${file}.yaml`), 'utf8'))
+  .join('\n---\n');
+
+const deployment = (namespace: string, name: string, labels: Record<string, string>, env: any[] = []) => ({
+  apiVersion: 'apps/v1',
+  kind: 'Deployment',
+  metadata: { name, namespace },
+  spec: { template: { metadata: { labels }, spec: { containers: [{ name, env }] } } }
+});
+
+describe('parseKubernetesYaml', () => {
+  it('reads multi-document YAML and unwraps Lists', () => {
+    const manifests = parseKubernetesYaml(`
+apiVersion: v1
+kind: List
+items:
+  - { apiVersion: v1, kind: Service, metadata: { name: a } }
+  - { apiVersion: v1, kind: Service, metadata: { name: b } }
+---
+apiVersion: v1
+kind: Namespace
+metadata: { name: shop }
+`);
+    expect(manifests.map(manifest => manifest.metadata.name)).toEqual(['a', 'b', 'shop']);
+    expect(() => parseKubernetesYaml('kind: [unclosed')).toThrow(/^Invalid YAML/);
+  });
+
+  it('recognises kubectl JSON output but not trace exports', () => {
+    expect(isKubernetesManifest({ apiVersion: 'v1', kind: 'List', items: [] })).toBe(true);
+    expect(isKubernetesManifest([{ traceId: 'abc', id: '1' }])).toBe(false);
+    expect(flattenManifests([{ apiVersion: 'v1', kind: 'ServiceList', items: [{ kind: 'Service' }] }])).toEqual([{ kind: 'Service' }]);
+  });
+});
+
+describe('buildKubernetesTopology', () => {
+  it('builds the k8s/base deployment: ingress, selectors and env from ConfigMaps and Secrets', () => {
+    const { data, stats } = buildKubernetesTopology(parseKubernetesYaml(base));
+
+    expect(data.nodes.map(node => node.id).sort()).toEqual([
+      'diagram-generator/deploy/diagram-generator-app',
+      'diagram-generator/deploy/postgres-deployment',
+      'diagram-generator/ing/diagram-generator-ingress',
+      'diagram-generator/svc/diagram-generator-service',
+      'diagram-generator/svc/postgres-service'
+    ]);
+    expect(data.nodes[0]).toMatchObject({ tenant: 'diagram-generator', system: 'Deployment', nodeType: 'service' });
+    expect(data.edges.map(edge => `${edge.source} -> ${edge.target} (${edge.label})`).sort()).toEqual([
+      'diagram-generator/deploy/diagram-generator-app -> diagram-generator/svc/postgres-service (env DATABASE_URL)',
+      'diagram-generator/deploy/diagram-generator-app -> diagram-generator/svc/postgres-service (env PGHOST)',
+      'diagram-generator/ing/diagram-generator-ingress -> diagram-generator/svc/diagram-generator-service (ingress)',
+      'diagram-generator/svc/diagram-generator-service -> diagram-generator/deploy/diagram-generator-app (selector)',
+      'diagram-generator/svc/postgres-service -> diagram-generator/deploy/postgres-deployment (selector)'
+    ]);
+    expect(stats).toEqual({ nodeCount: 5, edgeCount: 5, componentCount: 1 });
+  });
+
+  it('resolves qualified service hostnames across namespaces only', () => {
+    const { data } = buildKubernetesTopology([
+      { apiVersion: 'v1', kind: 'Service', metadata: { name: 'orders', namespace: 'shop' }, spec: { selector: { app: 'orders' } } },
+      deployment('web', 'frontend', { app: 'frontend' }, [
+        { name: 'ORDERS_URL', value: 'http://orders.shop.svc.cluster.local:8080/api' },
+        { name: 'LOCAL', value: 'orders:8080' }
+      ])
+    ]);
+
+    expect(data.edges.map(edge => edge.label)).toEqual(['env ORDERS_URL']);
+  });
+
+  it('turns NetworkPolicy ingress and egress rules into edges between workloads', () => {
+    const { data } = buildKubernetesTopology([
+      { apiVersion: 'v1', kind: 'Namespace', metadata: { name: 'edge', labels: { zone: 'dmz' } } },
+      deployment('shop', 'api', { app: 'api', tier: 'backend' }),
+      deployment('shop', 'db', { app: 'db' }),
+      deployment('shop', 'worker', { app: 'worker' }),
+      deployment('edge', 'proxy', { app: 'proxy' }),
+      {
+        apiVersion: 'networking.k8s.io/v1',
+        kind: 'NetworkPolicy',
+        metadata: { name: 'api-ingress', namespace: 'shop' },
+        spec: {
+          podSelector: { matchLabels: { tier: 'backend' } },
+          ingress: [{ from: [{ namespaceSelector: { matchLabels: { zone: 'dmz' } } }, { ipBlock: { cidr: '10.0.0.0/8' } }] }],
+          egress: [{ to: [{ podSelector: { matchExpressions: [{ key: 'app', operator: 'In', values: ['db'] }] } }] }]
+        }
+      },
+      {
+        apiVersion: 'networking.k8s.io/v1',
+        kind: 'NetworkPolicy',
+        metadata: { name: 'default-deny', namespace: 'shop' },
+        spec: { podSelector: {}, ingress: [] }
+      }
+    ]);
+
+    expect(data.edges.map(edge => `${edge.source} -> ${edge.target}`)).toEqual([
+      'edge/deploy/proxy -> shop/deploy/api',
+      'shop/deploy/api -> shop/deploy/db'
+    ]);
+    expect(data.edges[0].label).toBe('network-policy api-ingress');
+  });
+});
+
+describe('helpers', () => {
+  it('extracts hosts from URLs and host:port lists', () => {
+    expect(extractHosts('postgresql://user:pw@Postgres-Service:5432/db')).toEqual(['postgres-service']);
+    expect(extractHosts('kafka-0.kafka:9092, kafka-1.kafka:9092')).toEqual(['kafka-0.kafka', 'kafka-1.kafka']);
+    expect(extractHosts('some free text')).toEqual([]);
+  });
+
+  it('matches label selectors with expressions', () => {
+    const labels = { app: 'api', tier: 'backend' };
+    expect(matchesSelector(labels, { matchLabels: { app: 'api' }, matchExpressions: [{ key: 'canary', operator: 'DoesNotExist' }] })).toBe(true);
+    expect(matchesSelector(labels, { matchExpressions: [{ key: 'tier', operator: 'NotIn', values: ['backend'] }] })).toBe(false);
+    expect(matchesSelector(labels, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+
+// Each db.select() chain resolves to the next queued result
+const results: any[][] = [];
+vi.mock('../db', () => {
+  const chain: any = {
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: () => chain,
+    then: (resolve: any, reject: any) => Promise.resolve(results.shift() || []).then(resolve, reject)
+  };
+  return { db: { select: () => chain } };
+});
+vi.mock('../serviceMetricsGenerator', () => ({
+  getLatestServiceMetrics: async () => [{ serviceName: 'payment-service', cpuUsage: 40 }]
+}));
+
+import {
+  subscribe,
+  publishNetworkEvents,
+  matchesLiveFilters,
+  parseLiveFilters,
+  attachLiveStream,
+  getLiveSubscriberCount,
+  LIVE_STREAM_PATH,
+  type LiveMessage
+} from '../liveStream';
+
+const event = (id: number, overrides: Record<string, any> = {}) => ({
+  id,
+  source: 'gateway_route',
+  target: 'payment_charge',
+  sourceService: 'gateway',
+  targetService: 'payment-service',
+  sourceTenant: 'api-gateway',
+  targetTenant: 'payment-system',
+  status: '200',
+  ...overrides
+}) as any;
+
+describe('Live stream', () => {
+  it('should parse comma separated filters', () => {
+    expect(parseLiveFilters({ tenant: 'a, b', services: ['x', 'y,z'] })).toEqual({
+      tenants: ['a', 'b'],
+      services: ['x', 'y', 'z'],
+      statuses: []
+    });
+  });
+
+  it('should match tenant, service and status class filters', () => {
+    const filters = parseLiveFilters({ tenant: 'payment-system', status: '5xx' });
+    const item = { tenants: ['api-gateway', 'payment-system'], services: ['gateway'] };
+
+    expect(matchesLiveFilters(filters, { ...item, status: '503' })).toBe(true);
+    expect(matchesLiveFilters(filters, { ...item, status: '200' })).toBe(false);
+    expect(matchesLiveFilters(filters, { ...item, tenants: ['api-gateway'], status: '500' })).toBe(false);
+  });
+
+  it('should replay events after the cursor before live events', async () => {
+    const messages: LiveMessage[] = [];
+    // current max ids, then the missed events; no trace is newer than the cursor
+    results.push([{ id: 12 }], [{ id: 3 }], [event(11), event(12, { status: '500' })]);
+
+    const pending = subscribe(parseLiveFilters({ status: '5xx' }), { events: 10, traces: 3 }, m => messages.push(m));
+    publishNetworkEvents([event(12, { status: '500' }), event(13, { status: '502' })]);
+    const unsubscribe = await pending;
+
+    expect(messages.map(m => m.type)).toEqual(['network-events', 'service-metrics', 'ready', 'network-events']);
+    expect(messages[0]).toMatchObject({ events: [{ id: 12 }], cursor: { events: 12, traces: 3 } });
+    expect(messages[3]).toMatchObject({ events: [{ id: 13 }], cursor: { events: 13 } });
+
+    unsubscribe();
+    publishNetworkEvents([event(14, { status: '500' })]);
+    expect(messages).toHaveLength(4);
+  });
+
+  it('should page through a backlog longer than one replay query', async () => {
+    const messages: LiveMessage[] = [];
+    const page = Array.from({ length: 1000 }, (_, i) => event(i + 1));
+    results.push([{ id: 1001 }], [{ id: 0 }], page, [event(1001)]);
+
+    const unsubscribe = await subscribe(parseLiveFilters({}), { events: 0, traces: 0 }, m => messages.push(m));
+
+    const delivered = messages.filter(m => m.type === 'network-events') as Array<Extract<LiveMessage, { type: 'network-events' }>>;
+    expect(delivered.map(m => m.events.length)).toEqual([1000, 1]);
+    expect(messages[messages.length - 1]).toEqual({ type: 'ready', cursor: { events: 1001, traces: 0 }, replayed: 1001 });
+    unsubscribe();
+  });
+
+  it('should deliver events published out of id order once', async () => {
+    const messages: LiveMessage[] = [];
+    results.push([{ id: 20 }], [{ id: 5 }]);
+    const unsubscribe = await subscribe(parseLiveFilters({}), null, m => messages.push(m));
+
+    publishNetworkEvents([event(23)]);
+    publishNetworkEvents([event(21), event(22)]);
+    publishNetworkEvents([event(22), event(23), event(20)]);
+
+    const delivered = messages.filter(m => m.type === 'network-events') as Array<Extract<LiveMessage, { type: 'network-events' }>>;
+    expect(delivered.map(m => m.events.map(e => e.id))).toEqual([[23], [21, 22]]);
+    expect(delivered[1].cursor.events).toBe(23);
+    unsubscribe();
+  });
+
+  it('should keep one subscriber per socket when subscribe messages overlap', async () => {
+    const server = createServer();
+    const wss = attachLiveStream(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    results.push([{ id: 1 }], [{ id: 1 }], [{ id: 1 }], [{ id: 1 }], [{ id: 1 }], [{ id: 1 }]);
+
+    const ws = new WebSocket(`ws://localhost:${(server.address() as AddressInfo).port}${LIVE_STREAM_PATH}`);
+    const readyCount = new Promise<void>(resolve => {
+      let ready = 0;
+      ws.on('message', raw => {
+        if (JSON.parse(raw.toString()).type === 'ready' && ++ready === 3) resolve();
+      });
+    });
+    await new Promise(resolve => ws.on('open', resolve));
+    ['a', 'b', 'c'].forEach(tenant => ws.send(JSON.stringify({ type: 'subscribe', filters: { tenant } })));
+    await readyCount;
+
+    expect(getLiveSubscriberCount()).toBe(1);
+
+    ws.close();
+    await new Promise(resolve => ws.on('close', resolve));
+    await vi.waitFor(() => expect(getLiveSubscriberCount()).toBe(0));
+    wss.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should drop a socket that sends a malformed frame and keep serving', async () => {
+    const server = createServer();
+    const wss = attachLiveStream(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const url = `ws://localhost:${(server.address() as AddressInfo).port}${LIVE_STREAM_PATH}`;
+    results.push([{ id: 1 }], [{ id: 1 }], [{ id: 1 }], [{ id: 1 }]);
+
+    const connect = async () => {
+      const ws = new WebSocket(url);
+      const ready = new Promise<void>(resolve => ws.on('message', raw => {
+        if (JSON.parse(raw.toString()).type === 'ready') resolve();
+      }));
+      await new Promise(resolve => ws.on('open', resolve));
+      ws.send(JSON.stringify({ type: 'subscribe', filters: {} }));
+      await ready;
+      return ws;
+    };
+
+    const bad = await connect();
+    const closed = new Promise(resolve => bad.on('close', resolve));
+    // Unmasked text frame "hi"; servers must reject client frames without a mask
+    (bad as any)._socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+    await closed;
+    await vi.waitFor(() => expect(getLiveSubscriberCount()).toBe(0));
+
+    const good = await connect();
+    expect(getLiveSubscriberCount()).toBe(1);
+
+    good.close();
+    await new Promise(resolve => good.on('close', resolve));
+    wss.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+});
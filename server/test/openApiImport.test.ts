@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiTopology, isOpenApiSpec, openApiServiceName } from '../openApiImport';
+import { parseYamlDocuments } from '../k8sImport';
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: User Service API
+  version: 1.0.0
+paths:
+  /users:
+    post:
+      operationId: create_user
+      tags: [users]
+      responses:
+        '201':
+          links:
+            GetCreated: { operationId: get_user }
+  /users/{id}:
+    parameters:
+      - { name: id, in: path, required: true }
+    get:
+      operationId: get_user
+      tags: [users]
+      responses: { '200': { description: ok } }
+    delete:
+      responses: { '204': { description: deleted } }
+`;
+
+describe('isOpenApiSpec', () => {
+  it('recognises OpenAPI 3 and Swagger 2 documents', () => {
+    expect(isOpenApiSpec({ openapi: '3.1.0', paths: {} })).toBe(true);
+    expect(isOpenApiSpec({ swagger: '2.0', paths: {} })).toBe(true);
+    expect(isOpenApiSpec({ openapi: '3.1.0' })).toBe(false);
+    expect(isOpenApiSpec({ services: {} })).toBe(false);
+  });
+});
+
+describe('buildOpenApiTopology', () => {
+  it('builds endpoint nodes named like traced operations and edges from response links', () => {
+    const { data, stats } = buildOpenApiTopology(parseYamlDocuments(spec)[0] as any);
+
+    expect(data.nodes.map(node => node.id)).toEqual([
+      'user-service-api_create_user',
+      'user-service-api_get_user',
+      'user-service-api_DELETE /users/{id}'
+    ]);
+    expect(data.nodes[2]).toMatchObject({
+      label: 'DELETE /users/{id}',
+      service: 'user-service-api',
+      system: 'user-service-api',
+      nodeType: 'endpoint'
+    });
+    expect(data.nodes[0].system).toBe('users');
+    expect(data.edges).toEqual([{
+      id: 'user-service-api_create_user->user-service-api_get_user:GetCreated',
+      source: 'user-service-api_create_user',
+      target: 'user-service-api_get_user',
+      label: 'link GetCreated'
+    }]);
+    expect(stats).toEqual({ nodeCount: 3, edgeCount: 1, componentCount: 1 });
+  });
+
+  it('takes the service name from x-service-name when set', () => {
+    expect(openApiServiceName({ info: { title: 'Users', 'x-service-name': 'user-service' } })).toBe('user-service');
+    expect(openApiServiceName({ info: {} })).toBe('api');
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Span ids already stored, and the trace rows and events written through the transaction
+const stored = vi.hoisted(() => ({ spanIds: new Set<string>(), traceRows: [] as any[], events: [] as any[] }));
+vi.mock('../db', async () => {
+  const { getTableName } = await import('drizzle-orm');
+  const insert = (table: any) => ({
+    values: (rows: any) => {
+      const name = getTableName(table);
+      const list = Array.isArray(rows) ? rows : [rows];
+      return {
+        onConflictDoNothing: () => ({
+          returning: async () => list.filter(row => !stored.spanIds.has(row.spanId)).map(row => {
+            stored.spanIds.add(row.spanId);
+            return { spanId: row.spanId };
+          })
+        }),
+        onConflictDoUpdate: () => ({
+          returning: async () => {
+            stored.traceRows.push(...list);
+            return list.map(row => ({ id: 1, ...row }));
+          }
+        }),
+        returning: async () => {
+          if (name === 'network_events') stored.events.push(...list);
+          return list.map((row, index) => ({ id: stored.events.length + index, ...row }));
+        }
+      };
+    }
+  });
+  const select = () => ({ from: () => ({ where: async () => [] }) });
+  const tx = { insert, select };
+  return { db: { transaction: (run: (client: any) => Promise<any>) => run(tx) } };
+});
+
+import { convertOtlpTraceRequest, flattenAttributes, storeOtlpTraces } from '../otlpReceiver';
+import { decodeExportTraceServiceRequest } from '../otlpProtobuf';
+
+const TRACE_ID = '5b8efff798038103d269b633813fc60c';
+const ROOT_SPAN_ID = 'eee19b7ec3c1b174';
+const CHILD_SPAN_ID = 'eee19b7ec3c1b173';
+
+function resourceSpans(serviceName: string, namespace: string, spans: any[]) {
+  return {
+    resource: {
+      attributes: [
+        { key: 'service.name', value: { stringValue: serviceName } },
+        { key: 'service.namespace', value: { stringValue: namespace } },
+        { key: 'service.version', value: { stringValue: '1.0.0' } }
+      ]
+    },
+    scopeSpans: [{ scope: { name: 'test-instrumentation' }, spans }]
+  };
+}
+
+const otlpJsonRequest = {
+  resourceSpans: [
+    resourceSpans('gateway-main', 'api-gateway', [{
+      traceId: TRACE_ID,
+      spanId: ROOT_SPAN_ID,
+      name: 'route_request',
+      kind: 2,
+      startTimeUnixNano: '1736164800000000000',
+      endTimeUnixNano: '1736164800120000000',
+      attributes: [{ key: 'http.method', value: { stringValue: 'GET' } }],
+      status: { code: 1 }
+    }]),
+    resourceSpans('payment-core', 'payment-system', [{
+      traceId: TRACE_ID,
+      spanId: CHILD_SPAN_ID,
+      parentSpanId: ROOT_SPAN_ID,
+      name: 'process_payment',
+      kind: 'SPAN_KIND_SERVER',
+      startTimeUnixNano: '1736164800010000000',
+      endTimeUnixNano: '1736164800090000000',
+      attributes: [{ key: 'http.status_code', value: { intValue: '502' } }],
+      events: [{ name: 'retry', timeUnixNano: '1736164800050000000', attributes: [] }],
+      status: { code: 2, message: 'upstream failed' }
+    }])
+  ]
+};
+
+describe('OTLP receiver', () => {
+  it('should flatten nested attribute values', () => {
+    const attributes = flattenAttributes([
+      { key: 'a', value: { stringValue: 'x' } },
+      { key: 'b', value: { intValue: '42' } },
+      { key: 'c', value: { arrayValue: { values: [{ boolValue: true }] } } },
+      { key: 'd', value: { kvlistValue: { values: [{ key: 'e', value: { doubleValue: 1.5 } }] } } }
+    ]);
+
+    expect(attributes).toEqual({ a: 'x', b: 42, c: [true], d: { e: 1.5 } });
+  });
+
+  it('should map resource and span fields onto trace and span rows', () => {
+    const { batches, rejectedSpans } = convertOtlpTraceRequest(otlpJsonRequest);
+
+    expect(rejectedSpans).toBe(0);
+    expect(batches).toHaveLength(1);
+
+    const { trace, spans } = batches[0];
+    expect(trace.traceId).toBe(TRACE_ID);
+    expect(trace.serviceName).toBe('gateway-main');
+    expect(trace.tenant).toBe('api-gateway');
+    expect(trace.spanCount).toBe(2);
+    expect(trace.status).toBe('error');
+
+    const child = spans.find(s => s.spanId === CHILD_SPAN_ID)!;
+    expect(child.parentSpanId).toBe(ROOT_SPAN_ID);
+    expect(child.tenant).toBe('payment-system');
+    expect(child.system).toBe('payment-core');
+    expect(child.kind).toBe('server');
+    expect(child.status).toBe('error');
+    expect(child.statusMessage).toBe('upstream failed');
+    expect(child.duration).toBe(80000000);
+    expect((child.attributes as any)['otel.scope.name']).toBe('test-instrumentation');
+    expect((child.events as any[])[0].name).toBe('retry');
+  });
+
+  it('should keep durations longer than an int4 of nanoseconds', () => {
+    const request = {
+      resourceSpans: [resourceSpans('batch-job', 'jobs', [{
+        traceId: TRACE_ID,
+        spanId: ROOT_SPAN_ID,
+        name: 'nightly_export',
+        startTimeUnixNano: '1736164800000000000',
+        endTimeUnixNano: '1736165100000000000'
+      }])]
+    };
+    const { trace, spans } = convertOtlpTraceRequest(request).batches[0];
+
+    expect(spans[0].duration).toBe(300000000000);
+    expect(trace.duration).toBe(300000000000);
+  });
+
+  it('should derive network events for cross-service parent/child pairs', () => {
+    const { batches } = convertOtlpTraceRequest(otlpJsonRequest);
+    const [event] = batches[0].networkEvents;
+
+    expect(batches[0].networkEvents).toHaveLength(1);
+    expect(event.source).toBe('gateway-main_route_request');
+    expect(event.target).toBe('payment-core_process_payment');
+    expect(event.sourceTenant).toBe('api-gateway');
+    expect(event.targetTenant).toBe('payment-system');
+    expect(event.status).toBe('502');
+    expect(event.method).toBe('GET');
+    expect(event.responseTime).toBe(80);
+  });
+
+  it('should count and derive events only from newly inserted spans on retries', async () => {
+    const rootOnly = {
+      resourceSpans: [otlpJsonRequest.resourceSpans[0]]
+    };
+
+    await storeOtlpTraces(convertOtlpTraceRequest(rootOnly).batches);
+    const full = await storeOtlpTraces(convertOtlpTraceRequest(otlpJsonRequest).batches);
+    const retry = await storeOtlpTraces(convertOtlpTraceRequest(otlpJsonRequest).batches);
+
+    expect(full).toEqual({ storedSpans: 1, storedEvents: 1 });
+    expect(retry).toEqual({ storedSpans: 0, storedEvents: 0 });
+    expect(stored.traceRows.map(row => row.spanCount)).toEqual([1, 1]);
+    expect(stored.traceRows[1]).toMatchObject({ serviceName: 'payment-core', duration: 80000000 });
+    expect(stored.events.map(event => event.spanId)).toEqual([CHILD_SPAN_ID]);
+  });
+
+  it('should reject spans with invalid identifiers', () => {
+    const { batches, rejectedSpans } = convertOtlpTraceRequest({
+      resourceSpans: [resourceSpans('svc', 'tenant', [{ traceId: 'xyz', spanId: '', name: 'bad' }])]
+    });
+
+    expect(batches).toHaveLength(0);
+    expect(rejectedSpans).toBe(1);
+  });
+
+  it('should reject payloads without resourceSpans', () => {
+    expect(() => convertOtlpTraceRequest({})).toThrow('resourceSpans');
+  });
+
+  it('should decode protobuf payloads into the JSON shape', () => {
+    const varint = (n: number) => {
+      const bytes: number[] = [];
+      while (n > 0x7f) {
+        bytes.push((n & 0x7f) | 0x80);
+        n >>>= 7;
+      }
+      bytes.push(n);
+      return Buffer.from(bytes);
+    };
+    const field = (num: number, payload: Buffer) => Buffer.concat([varint((num << 3) | 2), varint(payload.length), payload]);
+    const fixed64 = (num: number, value: bigint) => {
+      const bytes = Buffer.alloc(8);
+      bytes.writeBigUInt64LE(value);
+      return Buffer.concat([varint((num << 3) | 1), bytes]);
+    };
+
+    const keyValue = field(1, Buffer.concat([
+      field(1, Buffer.from('service.name')),
+      field(2, field(1, Buffer.from('gateway-main')))
+    ]));
+    const span = Buffer.concat([
+      field(1, Buffer.from(TRACE_ID, 'hex')),
+      field(2, Buffer.from(ROOT_SPAN_ID, 'hex')),
+      field(5, Buffer.from('route_request')),
+      varint((6 << 3) | 0), varint(2),
+      fixed64(7, BigInt('1736164800000000000')),
+      fixed64(8, BigInt('1736164800120000000'))
+    ]);
+    const payload = field(1, Buffer.concat([field(1, keyValue), field(2, field(2, span))]));
+
+    const decoded = decodeExportTraceServiceRequest(payload);
+    const { batches } = convertOtlpTraceRequest(decoded);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].spans[0]).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: ROOT_SPAN_ID,
+      operationName: 'route_request',
+      serviceName: 'gateway-main',
+      kind: 'server',
+      duration: 120000000
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import {
+  getPrometheusMapping,
+  getPrometheusScrapeTargets,
+  mapPrometheusSamples,
+  parsePrometheusText
+} from '../prometheusIngest';
+
+const now = new Date(Date.UTC(2025, 0, 6, 12));
+const mapping = getPrometheusMapping({});
+
+const exposition = (cpuSeconds: number, okCount: number, errorCount: number, sumSeconds: number) => `
+# HELP container_cpu_usage_seconds_total Cumulative cpu time consumed
+# TYPE container_cpu_usage_seconds_total counter
+container_cpu_usage_seconds_total{container="orders-api",pod="orders-1"} ${cpuSeconds / 2}
+container_cpu_usage_seconds_total{container="orders-api",pod="orders-2"} ${cpuSeconds / 2}
+container_memory_working_set_bytes{container="orders-api",pod="orders-1"} 268435456
+container_memory_working_set_bytes{container="orders-api",pod="orders-2"} 268435456
+container_spec_memory_limit_bytes{container="orders-api",pod="orders-1"} 536870912
+container_spec_memory_limit_bytes{container="orders-api",pod="orders-2"} 536870912
+http_server_requests_seconds_count{application="orders-api",status="200",uri="/orders"} ${okCount}
+http_server_requests_seconds_count{application="orders-api",status="503",uri="/orders"} ${errorCount}
+http_server_requests_seconds_sum{application="orders-api",status="200",uri="/orders"} ${sumSeconds}
+go_goroutines 12
+`;
+
+describe('parsePrometheusText', () => {
+  it('reads names, escaped labels and special values, skipping comments and timestamps', () => {
+    const samples = parsePrometheusText([
+      '# TYPE http_requests_total counter',
+      'http_requests_total{method="post",path="/a \\"b\\"\\\\c",} 1027 1395066363000',
+      'up 1',
+      'latency_seconds{quantile="0.99"} NaN',
+      'queue_depth +Inf # {trace_id="abc"} 1.0'
+    ].join('\n'));
+
+    expect(samples).toHaveLength(4);
+    expect(samples[0]).toEqual({ name: 'http_requests_total', labels: { method: 'post', path: '/a "b"\\c' }, value: 1027 });
+    expect(samples[1]).toEqual({ name: 'up', labels: {}, value: 1 });
+    expect(samples[2].value).toBeNaN();
+    expect(samples[3].value).toBe(Infinity);
+  });
+
+  it('reports the offending line', () => {
+    expect(() => parsePrometheusText('up 1\nbroken{a="x" 2')).toThrow(/^Line 2: /);
+    expect(() => parsePrometheusText('up one')).toThrow("Line 1: invalid value 'one'");
+  });
+});
+
+describe('prometheus configuration', () => {
+  it('reads service labels, renames and scrape targets from the environment', () => {
+    expect(getPrometheusMapping({
+      PROMETHEUS_SERVICE_LABELS: 'app, job',
+      PROMETHEUS_SERVICE_MAP: 'orders-api=order-service,bad'
+    })).toEqual({ serviceLabels: ['app', 'job'], serviceMap: { 'orders-api': 'order-service' } });
+    expect(mapping.serviceLabels[0]).toBe('service');
+
+    expect(getPrometheusScrapeTargets({
+      PROMETHEUS_SCRAPE_TARGETS: 'http://localhost:9100/metrics?x=1, payments=http://localhost:8081/actuator/prometheus'
+    })).toEqual([
+      { url: 'http://localhost:9100/metrics?x=1' },
+      { service: 'payments', url: 'http://localhost:8081/actuator/prometheus' }
+    ]);
+  });
+});
+
+describe('mapPrometheusSamples', () => {
+  it('maps container and HTTP series onto one row per service, renamed through the map', () => {
+    const counters = new Map();
+    const renamed = { ...mapping, serviceMap: { 'orders-api': 'order-service' } };
+    mapPrometheusSamples(parsePrometheusText(exposition(100, 1000, 0, 50)), renamed, now, undefined, counters);
+
+    // 30s later: 30 CPU seconds over 2 pods, 300 requests of which 30 failed, 27s spent on the 270 ok ones
+    const later = new Date(now.getTime() + 30000);
+    const { metrics, unmapped } = mapPrometheusSamples(
+      parsePrometheusText(exposition(130, 1270, 30, 77)), renamed, later, undefined, counters);
+
+    expect(unmapped).toBe(0);
+    expect(metrics).toHaveLength(1);
+    expect(metrics[0]).toMatchObject({
+      serviceName: 'order-service',
+      deploymentType: 'kubernetes',
+      podCount: 2,
+      cpuUsage: 50,
+      memoryUsage: 50,
+      errorRate: 10,
+      responseTime: 90,
+      activeConnections: 1,
+      healthStatus: 'critical',
+      timestamp: later
+    });
+  });
+
+  it('averages over the process lifetime on the first report and honours a fixed service', () => {
+    const samples = parsePrometheusText([
+      'process_cpu_seconds_total 60',
+      `process_start_time_seconds ${now.getTime() / 1000 - 600}`,
+      'process_resident_memory_bytes 107374182.4'
+    ].join('\n'));
+
+    expect(mapPrometheusSamples(samples, mapping, now, undefined, new Map()).unmapped).toBe(3);
+
+    const [metric] = mapPrometheusSamples(samples, mapping, now, 'billing', new Map()).metrics;
+    expect(metric).toMatchObject({
+      serviceName: 'billing',
+      deploymentType: 'vm',
+      podCount: null,
+      cpuUsage: 10,
+      memoryUsage: 10,
+      errorRate: 0,
+      healthStatus: 'healthy'
+    });
+  });
+
+  it('spreads CPU and memory over the instances of a service outside Kubernetes', () => {
+    const counters = new Map();
+    const instances = (cpuSeconds: number) => parsePrometheusText([
+      `process_cpu_seconds_total{job="billing",instance="10.0.0.1:8080"} ${cpuSeconds}`,
+      `process_cpu_seconds_total{job="billing",instance="10.0.0.2:8080"} ${cpuSeconds}`,
+      'process_resident_memory_bytes{job="billing",instance="10.0.0.1:8080"} 214748364.8',
+      'process_resident_memory_bytes{job="billing",instance="10.0.0.2:8080"} 214748364.8'
+    ].join('\n'));
+
+    mapPrometheusSamples(instances(100), mapping, now, undefined, counters);
+    // 30s later each instance used 12 CPU seconds, 40% of one core
+    const [metric] = mapPrometheusSamples(instances(112), mapping, new Date(now.getTime() + 30000), undefined, counters).metrics;
+
+    expect(metric).toMatchObject({ serviceName: 'billing', deploymentType: 'vm', podCount: null, memoryUsage: 20, healthStatus: 'healthy' });
+    expect(metric.cpuUsage).toBeCloseTo(40, 5);
+  });
+
+  it('computes counter rates per target and instance before adding them up per service', () => {
+    const counters = new Map();
+    const cpu = (a: number, b: number) => parsePrometheusText([
+      `process_cpu_seconds_total{job="orders",instance="10.0.0.1:8080"} ${a}`,
+      `process_cpu_seconds_total{job="orders",instance="10.0.0.2:8080"} ${b}`
+    ].join('\n'));
+    const later = new Date(now.getTime() + 30000);
+
+    mapPrometheusSamples(cpu(100, 200), mapping, now, undefined, counters, 'http://orders/metrics');
+    mapPrometheusSamples(parsePrometheusText('process_cpu_seconds_total{job="orders"} 900'), mapping, now, undefined, counters, 'http://billing/metrics');
+
+    // The second instance restarted, so only its new 5 seconds count
+    const [metric] = mapPrometheusSamples(cpu(115, 5), mapping, later, undefined, counters, 'http://orders/metrics').metrics;
+    expect(metric.serviceName).toBe('orders');
+    expect(metric.cpuUsage).toBeCloseTo(33.33, 1);
+    expect(counters.size).toBe(3);
+
+    mapPrometheusSamples(cpu(130, 10), mapping, new Date(now.getTime() + 2 * 60 * 60 * 1000), undefined, counters, 'http://orders/metrics');
+    expect(counters.size).toBe(2);
+  });
+});
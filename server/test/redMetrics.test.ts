@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const execute = vi.hoisted(() => vi.fn());
+vi.mock('../db', () => ({ db: { execute } }));
+
+import { toRedMetrics, getRedMetrics } from '../redMetrics';
+
+describe('RED metrics', () => {
+  it('should derive rate and error rate from aggregated rows', () => {
+    const metrics = toRedMetrics({
+      requests: 450, errors: 9, avgMs: 52.345, p50Ms: 40.04, p90Ms: 98.76, p99Ms: 240.5
+    }, 900);
+
+    expect(metrics).toEqual({
+      requests: 450,
+      rate: 0.5,
+      errors: 9,
+      errorRate: 2,
+      avg: 52.3,
+      p50: 40,
+      p90: 98.8,
+      p99: 240.5
+    });
+  });
+
+  it('should handle empty windows', () => {
+    expect(toRedMetrics({ requests: 0, errors: 0, avgMs: null, p50Ms: null, p90Ms: null, p99Ms: null }, 0))
+      .toMatchObject({ rate: 0, errorRate: 0, p99: 0 });
+  });
+
+  it('should count entry spans towards services in rolled up windows', async () => {
+    const rollup = (source: string, sourceService: string, target: string, targetService: string, calls: number, errors: number) => ({
+      source, target, sourceService, targetService,
+      sourceTenant: sourceService, targetTenant: targetService, sourceSystem: sourceService, targetSystem: targetService,
+      sourceLabel: null, targetLabel: null,
+      calls, errors, durationSumMs: calls * 20, latencyHistogram: [0, 0, calls], statusCounts: {}
+    });
+    execute.mockResolvedValueOnce({
+      rows: [
+        rollup('', '', 'gateway_GET /orders', 'gateway', 100, 2),
+        rollup('gateway_GET /orders', 'gateway', 'orders_list', 'orders', 80, 1),
+        rollup('', '', 'orders_sync', 'orders', 20, 0)
+      ]
+    });
+
+    const to = new Date(Date.UTC(2025, 0, 6, 12));
+    const metrics = await getRedMetrics({ from: new Date(to.getTime() - 24 * 60 * 60 * 1000), to });
+
+    expect(metrics.edges.map(edge => [edge.source, edge.target])).toEqual([['gateway_GET /orders', 'orders_list']]);
+    expect(metrics.services.map(service => [service.service, service.requests, service.errors])).toEqual([
+      ['gateway', 100, 2],
+      ['orders', 100, 1]
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+
+// Every select resolves to the queued rows; the where clause and limit are recorded
+const query = vi.hoisted(() => ({ rows: [] as any[], where: null as any, limit: 0 }));
+vi.mock('../db', () => {
+  const chain: any = {
+    from: () => chain,
+    where: (where: any) => {
+      query.where = where;
+      return chain;
+    },
+    orderBy: () => chain,
+    limit: (limit: number) => {
+      query.limit = limit;
+      return chain;
+    },
+    then: (resolve: any, reject: any) => Promise.resolve(query.rows).then(resolve, reject)
+  };
+  return { db: { select: () => chain } };
+});
+
+import { getReplayData } from '../replay';
+
+const window = { from: new Date(Date.UTC(2025, 0, 6, 12)), to: new Date(Date.UTC(2025, 0, 6, 13)) };
+
+describe('getReplayData', () => {
+  it('flags a window with more records than the limit', async () => {
+    query.rows = [{ id: 1 }, { id: 2 }, { id: 3 }];
+    const replay = await getReplayData({ ...window, format: 'network', limit: 2 }) as any;
+
+    expect(query.limit).toBe(3);
+    expect(replay.truncated).toBe(true);
+    expect(replay.events.map((event: any) => event.id)).toEqual([1, 2]);
+
+    query.rows = [{ id: 1 }, { id: 2 }];
+    expect((await getReplayData({ ...window, format: 'network', limit: 2 }) as any).truncated).toBe(false);
+  });
+
+  it('matches network events entering or leaving the tenant', async () => {
+    query.rows = [];
+    await getReplayData({ ...window, format: 'network', tenant: 'payment-system', limit: 10 });
+
+    const { sql, params } = new PgDialect().sqlToQuery(query.where as SQL);
+    expect(sql).toContain('("network_events"."source_tenant" = $3 or "network_events"."target_tenant" = $4)');
+    expect(params.slice(2)).toEqual(['payment-system', 'payment-system']);
+  });
+});
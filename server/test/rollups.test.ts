@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+// Executed statements are rendered to text and parameters; `hold` keeps the next one waiting
+const database = vi.hoisted(() => ({
+  queries: [] as Array<{ sql: string; params: unknown[] }>,
+  hold: null as Promise<void> | null
+}));
+vi.mock('../db', async () => {
+  const { PgDialect } = await import('drizzle-orm/pg-core');
+  const dialect = new PgDialect();
+  return {
+    db: {
+      execute: async (query: any) => {
+        const hold = database.hold;
+        database.hold = null;
+        database.queries.push(dialect.sqlToQuery(query));
+        if (hold) await hold;
+        return { rows: [], rowCount: 0 };
+      }
+    }
+  };
+});
+
+import {
+  ROLLUP_LATENCY_BUCKETS_MS,
+  getRollupSourceRetentionDays,
+  histogramQuantile,
+  mergeRollupRows,
+  rollupToRedRow,
+  rollupsToEvents,
+  shouldUseRollups,
+  type EdgeRollupRow
+} from '../rollups';
+import { getRetentionPolicies } from '../retention';
+
+// Histogram with `count` calls in the bucket whose upper bound is `upperMs`
+const histogram = (entries: Record<number, number>) =>
+  [...ROLLUP_LATENCY_BUCKETS_MS, Infinity].map(upper => entries[upper] || 0);
+
+const row = (overrides: Partial<EdgeRollupRow> = {}): EdgeRollupRow => ({
+  source: 'api_GET /orders',
+  target: 'payment_charge',
+  sourceService: 'api',
+  targetService: 'payment',
+  sourceTenant: 'api-gateway',
+  targetTenant: 'payment-system',
+  sourceSystem: 'gateway-main',
+  targetSystem: 'payment-core',
+  sourceLabel: 'GET /orders',
+  targetLabel: 'charge',
+  calls: 100,
+  errors: 4,
+  durationSumMs: 5000,
+  latencyHistogram: histogram({ 50: 100 }),
+  statusCounts: { '200': 90, '404': 6, '503': 4 },
+  ...overrides
+});
+
+describe('histogramQuantile', () => {
+  it('interpolates within the bucket that holds the quantile', () => {
+    // 100 calls between 25ms and 50ms
+    expect(histogramQuantile(histogram({ 50: 100 }), 0.5)).toBe(37.5);
+    // 90 fast calls, 10 between 500ms and 1000ms
+    expect(histogramQuantile(histogram({ 5: 90, 1000: 10 }), 0.99)).toBe(950);
+  });
+
+  it('reports the last bound for calls in the overflow bucket', () => {
+    expect(histogramQuantile(histogram({ [Infinity]: 10 }), 0.5)).toBe(10000);
+  });
+
+  it('returns null for an empty histogram', () => {
+    expect(histogramQuantile(histogram({}), 0.5)).toBeNull();
+  });
+});
+
+describe('rollupToRedRow', () => {
+  it('derives averages and percentiles from the sums and histogram', () => {
+    expect(rollupToRedRow(row())).toEqual({
+      requests: 100,
+      errors: 4,
+      avgMs: 50,
+      p50Ms: 37.5,
+      p90Ms: 47.5,
+      p99Ms: 49.75
+    });
+  });
+});
+
+describe('mergeRollupRows', () => {
+  it('sums counts, durations and histograms', () => {
+    const merged = mergeRollupRows([
+      row(),
+      row({ calls: 10, errors: 1, durationSumMs: 2000, latencyHistogram: histogram({ 250: 10 }) })
+    ]);
+    expect(merged).toEqual({
+      calls: 110,
+      errors: 5,
+      durationSumMs: 7000,
+      latencyHistogram: histogram({ 50: 100, 250: 10 })
+    });
+  });
+});
+
+describe('rollupsToEvents', () => {
+  it('emits one event per edge and status with its call count', () => {
+    const to = new Date(Date.UTC(2025, 0, 6, 12));
+    const events = rollupsToEvents([row(), row({ source: 'web_GET /', statusCounts: { '200': 100 } })], to);
+
+    expect(events.map(event => [event.source, event.status, event.metadata.rollup.calls])).toEqual([
+      ['api_GET /orders', '200', 90],
+      ['api_GET /orders', '404', 6],
+      ['api_GET /orders', '503', 4],
+      ['web_GET /', '200', 100]
+    ]);
+    expect(events[0]).toMatchObject({ responseTime: 50, timestamp: to });
+    expect(new Set(events.map(event => event.id)).size).toBe(4);
+  });
+
+  it('splits rows without status counts into successful and failed calls', () => {
+    const events = rollupsToEvents([row({ statusCounts: {} }), row({ errors: 0, statusCounts: {} })], new Date());
+    expect(events.map(event => [event.status, event.metadata.rollup.calls])).toEqual([['200', 96], ['500', 4], ['200', 100]]);
+  });
+});
+
+describe('shouldUseRollups', () => {
+  it('switches to rollups for windows of six hours or more', () => {
+    const to = new Date(Date.UTC(2025, 0, 6, 12));
+    expect(shouldUseRollups(new Date(to.getTime() - 15 * 60 * 1000), to)).toBe(false);
+    expect(shouldUseRollups(new Date(to.getTime() - 6 * 60 * 60 * 1000), to)).toBe(true);
+  });
+});
+
+describe('getRetentionPolicies', () => {
+  it('applies per table overrides and ignores invalid values', () => {
+    const policies = getRetentionPolicies({ RETENTION_SPANS_DAYS: '3', RETENTION_TRACES_DAYS: 'soon', RETENTION_ROLLUPS_HOUR_DAYS: '0' });
+    const days = Object.fromEntries(policies.map(policy => [policy.name, policy.days]));
+
+    expect(days.spans).toBe(3);
+    expect(days.traces).toBe(30);
+    expect(days.rollups_hour).toBe(0);
+    expect(days.rollups_minute).toBe(30);
+  });
+});
+
+describe('getRollupSourceRetentionDays', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the shortest retention among the tables rollups are built from', () => {
+    expect(getRollupSourceRetentionDays()).toBe(7);
+
+    vi.stubEnv('RETENTION_NETWORK_EVENTS_DAYS', '0');
+    vi.stubEnv('RETENTION_SPANS_DAYS', '3');
+    expect(getRollupSourceRetentionDays()).toBe(3);
+
+    vi.stubEnv('RETENTION_SPANS_DAYS', '0');
+    expect(getRollupSourceRetentionDays()).toBe(0);
+  });
+});
+
+describe('rollup passes', () => {
+  const now = new Date(Date.UTC(2025, 0, 6, 12));
+  const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+  const inserts = () => database.queries.filter(query => query.sql.includes('insert into edge_rollups'));
+
+  // Fresh module state (watermarks) per test
+  const load = async () => {
+    vi.resetModules();
+    database.queries = [];
+    return import('../rollups');
+  };
+
+  // Run minute passes until one has nothing left to roll up
+  const catchUp = async (rollups: typeof import('../rollups'), at: Date) => {
+    let executed: number;
+    do {
+      executed = database.queries.length;
+      await rollups.rollupMinutes(at);
+    } while (database.queries.length > executed);
+  };
+
+  it('rolls up the latest hours first and then earlier history, newest first', async () => {
+    const rollups = await load();
+    const at = (iso: string) => new Date(`2025-01-${iso}:00.000Z`);
+    const ranges = () => inserts().map(query => {
+      const [start, end] = query.params.filter(param => param instanceof Date) as Date[];
+      return [query.sql.includes("'hour'") ? 'hour' : 'minute', start.toISOString(), end.toISOString()];
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await rollups.runRollups(now);
+    expect(ranges()).toEqual([
+      ['minute', at('06T06:00').toISOString(), at('06T11:59').toISOString()],
+      ['hour', at('06T06:00').toISOString(), at('06T11:00').toISOString()],
+      ['minute', at('06T00:00').toISOString(), at('06T06:00').toISOString()],
+      ['hour', at('06T00:00').toISOString(), at('06T06:00').toISOString()]
+    ]);
+
+    // History stops at the 7-day network event retention
+    for (let minute = 1; minute <= 40; minute++) await rollups.runRollups(minutesLater(minute));
+    const history = ranges().filter(([resolution, , end]) => resolution === 'minute' && end <= at('06T06:00').toISOString());
+    expect(history).toHaveLength(27);
+    expect(history[history.length - 1][1]).toBe('2024-12-30T12:00:00.000Z');
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a rewind requested while a pass is running', async () => {
+    const rollups = await load();
+    await catchUp(rollups, now);
+
+    let release = () => {};
+    database.hold = new Promise<void>(resolve => { release = resolve; });
+    const running = rollups.rollupMinutes(minutesLater(5));
+    rollups.rewindRollups(new Date(now.getTime() - 60 * 60 * 1000), minutesLater(5));
+    release();
+    await running;
+
+    const before = inserts().length;
+    await rollups.rollupMinutes(minutesLater(6));
+    expect(inserts()).toHaveLength(before + 1);
+    expect(inserts()[before].params).toContainEqual(new Date(now.getTime() - 60 * 60 * 1000));
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import {
+  DEFAULT_SCENARIO,
+  getScenarioServices,
+  getServiceConditions,
+  isFaultActive,
+  parseScenarioText,
+  sampleLatencyMs,
+  sampleTrace,
+  scenarioFieldErrors
+} from '../scenario';
+import { MAX_TRACE_SPANS, scenarioSchema, type ScenarioInput } from '@shared/scenario';
+
+// a → b → c with constant latencies and no errors, so a random() of 0 makes every call
+// n services that all call each other
+const mesh = (n: number, maxDepth: number): ScenarioInput => {
+  const names = Array.from({ length: n }, (_, i) => `s${i}`);
+  return {
+    name: 'mesh',
+    tenants: [{ name: 'mesh', services: names.map(name => ({ name, operations: ['call'], errorRate: 0 })) }],
+    entrypoints: [{ service: 's0' }],
+    calls: names.flatMap(from => names.filter(to => to !== from).map(to => ({ from, to }))),
+    maxDepth
+  };
+};
+
+const chain = (overrides: Partial<ScenarioInput> = {}) => scenarioSchema.parse({
+  name: 'chain',
+  tenants: [
+    {
+      name: 'shop',
+      services: [
+        { name: 'a', operations: ['handle'], latency: { type: 'constant', ms: 10 }, errorRate: 0 },
+        { name: 'b', operations: ['lookup'], latency: { type: 'constant', ms: 20 }, errorRate: 0 },
+        { name: 'c', operations: ['store'], latency: { type: 'constant', ms: 5 }, errorRate: 0 }
+      ]
+    }
+  ],
+  entrypoints: [{ service: 'a' }],
+  calls: [
+    { from: 'a', to: 'b' },
+    { from: 'a', to: 'c', probability: 0.5 },
+    { from: 'b', to: 'a' }
+  ],
+  ...overrides
+});
+
+describe('scenario parsing', () => {
+  it('ships a valid default scenario with the 50 demo services', () => {
+    expect(getScenarioServices(DEFAULT_SCENARIO)).toHaveLength(50);
+    expect(scenarioSchema.safeParse(DEFAULT_SCENARIO).success).toBe(true);
+  });
+
+  it('loads the example YAML scenario', () => {
+    const text = readFileSync(path.resolve(__dirname, '../../scenarios/checkout-incident.yaml'), 'utf8');
+    const parsed = scenarioSchema.safeParse(parseScenarioText(text));
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data?.faults.map(fault => fault.type)).toEqual(['latency_spike', 'degradation', 'outage']);
+  });
+
+  it('rejects call graphs whose traces can exceed the span cap', () => {
+    const parsed = scenarioSchema.safeParse(mesh(9, 20));
+
+    expect(parsed.success).toBe(false);
+    expect(scenarioFieldErrors(parsed.error!)['entrypoints.0.service'][0]).toContain(`${MAX_TRACE_SPANS} spans`);
+    expect(scenarioSchema.safeParse(mesh(9, 2)).success).toBe(true);
+  });
+
+  it('reads JSON as well as YAML', () => {
+    expect(parseScenarioText('{"name": "json", "maxDepth": 3}')).toEqual({ name: 'json', maxDepth: 3 });
+  });
+
+  it('reports unknown services and bad distributions by their path', () => {
+    const parsed = scenarioSchema.safeParse({
+      name: 'broken',
+      tenants: [{ name: 't', services: [{ name: 'a', operations: ['op'], latency: { type: 'uniform', minMs: 50, maxMs: 10 } }] }],
+      entrypoints: [{ service: 'a' }],
+      calls: [{ from: 'a', to: 'missing' }],
+      faults: [{ type: 'outage', service: 'ghost', durationSec: 10 }]
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(scenarioFieldErrors(parsed.error!)).toEqual({
+      'tenants.0.services.0.latency': ['minMs must not exceed maxMs'],
+      'calls.0.to': ["Unknown service 'missing'"],
+      'faults.0.service': ["Unknown service 'ghost'"]
+    });
+  });
+});
+
+describe('sampleLatencyMs', () => {
+  it('samples each distribution type', () => {
+    expect(sampleLatencyMs({ type: 'constant', ms: 12 })).toBe(12);
+    expect(sampleLatencyMs({ type: 'uniform', minMs: 10, maxMs: 30 }, () => 0.5)).toBe(20);
+    // cos(2π · 0.25) = 0, so the standard normal draw is 0 and the centre comes out
+    expect(sampleLatencyMs({ type: 'normal', meanMs: 40, stddevMs: 5 }, () => 0.25)).toBeCloseTo(40);
+    expect(sampleLatencyMs({ type: 'lognormal', medianMs: 30, p99Ms: 300 }, () => 0.25)).toBeCloseTo(30);
+  });
+});
+
+describe('faults', () => {
+  it('are active from startSec for durationSec, repeating every everySec', () => {
+    const fault = { type: 'outage' as const, service: 'a', startSec: 60, durationSec: 30, everySec: 300 };
+    expect(isFaultActive(fault, 59)).toBe(false);
+    expect(isFaultActive(fault, 60)).toBe(true);
+    expect(isFaultActive(fault, 95)).toBe(false);
+    expect(isFaultActive(fault, 370)).toBe(true);
+    expect(isFaultActive({ ...fault, everySec: undefined }, 370)).toBe(false);
+  });
+
+  it('combine into the worst conditions for a service', () => {
+    const scenario = chain({
+      faults: [
+        { type: 'latency_spike', service: 'b', durationSec: 60, factor: 3 },
+        { type: 'degradation', service: 'b', durationSec: 60, errorRate: 0.4, latencyFactor: 2 },
+        { type: 'outage', service: 'c', startSec: 30, durationSec: 60 }
+      ]
+    });
+
+    expect(getServiceConditions(scenario, 'b', 10)).toEqual({ down: false, latencyFactor: 3, errorRate: 0.4 });
+    expect(getServiceConditions(scenario, 'c', 10)).toEqual({ down: false, latencyFactor: 1, errorRate: null });
+    expect(getServiceConditions(scenario, 'c', 45).down).toBe(true);
+  });
+});
+
+describe('sampleTrace', () => {
+  it('walks the call graph with downstream calls made one after another', () => {
+    const calls = sampleTrace(chain(), 0, () => 0);
+
+    expect(calls.map(call => [call.service.name, call.operation, call.parent, call.startMs, call.durationMs, call.status])).toEqual([
+      ['a', 'handle', null, 0, 35, '200'],
+      ['b', 'lookup', 0, 5, 20, '200'],
+      ['c', 'store', 0, 25, 5, '200']
+    ]);
+    expect(calls[0].service.tenant).toBe('shop');
+  });
+
+  it('skips calls whose probability is not met', () => {
+    const calls = sampleTrace(chain(), 0, () => 0.6);
+    expect(calls.map(call => call.service.name)).toEqual(['a', 'b']);
+  });
+
+  it('fails fast with 503 while a service is down and applies latency spikes', () => {
+    const scenario = chain({
+      faults: [
+        { type: 'outage', service: 'b', durationSec: 60 },
+        { type: 'latency_spike', service: 'c', durationSec: 60, factor: 4 }
+      ]
+    });
+    const calls = sampleTrace(scenario, 10, () => 0);
+
+    expect(calls[1]).toMatchObject({ error: true, status: '503', durationMs: 20 });
+    expect(calls[2].durationMs).toBe(20);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('stops at maxDepth', () => {
+    expect(sampleTrace(chain({ maxDepth: 1 }), 0, () => 0)).toHaveLength(1);
+  });
+
+  it('stops expanding at the span cap', () => {
+    const scenario = { ...scenarioSchema.parse(mesh(9, 2)), maxDepth: 20 };
+    expect(sampleTrace(scenario, 0, () => 0)).toHaveLength(MAX_TRACE_SPANS);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Inserts return their rows; a trace whose ID is already stored conflicts and returns nothing
+const { storedTraceIds } = vi.hoisted(() => ({ storedTraceIds: new Set<string>() }));
+vi.mock('../db', () => {
+  const insert = () => ({
+    values: (rows: any) => {
+      const list = [rows].flat();
+      const chain: any = {
+        onConflictDoNothing: () => chain,
+        returning: async () => list.filter(row => {
+          if (!('spanCount' in row)) return true;
+          if (storedTraceIds.has(row.traceId)) return false;
+          storedTraceIds.add(row.traceId);
+          return true;
+        })
+      };
+      return chain;
+    }
+  });
+  return { db: { transaction: async (fn: any) => fn({ insert }) } };
+});
+
+import { createRandom, mulberry32, normalizeSeed, randomHex, randomId } from '../seededRandom';
+import { generateOpenTelemetryTrace } from '../opentelemetryGenerator';
+import { generateRealisticTrace } from '../realisticOtelGenerator';
+import { generateNetworkTraceEvents } from '../networkGenerator';
+import { storeGeneratedTrace } from '../otlpReceiver';
+
+const now = new Date(Date.UTC(2025, 0, 6, 12));
+
+describe('seeded random', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = mulberry32(42);
+    const b = mulberry32(42);
+    const first = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(first);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(mulberry32(43)()).not.toBe(first[0]);
+  });
+
+  it('hashes string seeds and falls back to Math.random without one', () => {
+    expect(normalizeSeed('demo-1')).toBe(normalizeSeed('demo-1'));
+    expect(normalizeSeed('demo-1')).not.toBe(normalizeSeed('demo-2'));
+    expect(normalizeSeed(-1)).toBe(4294967295);
+    expect(createRandom()).toBe(Math.random);
+  });
+
+  it('builds hex IDs of the requested length', () => {
+    expect(randomHex(mulberry32(1), 32)).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe('seeded generators', () => {
+  it('produce identical traces for the same seed and time', () => {
+    const first = generateOpenTelemetryTrace({ random: mulberry32(7), now });
+    const second = generateOpenTelemetryTrace({ random: mulberry32(7), now });
+
+    expect(second).toEqual(first);
+    expect(first.trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.spans[0].parentSpanId).toBeNull();
+    expect(first.spans.slice(1).every(span => first.spans.some(parent => parent.spanId === span.parentSpanId))).toBe(true);
+  });
+
+  it("prefix a reused seed's trace and span IDs with the caller's run ID", () => {
+    const first = generateOpenTelemetryTrace({ random: mulberry32(7), now, runId: '0a1b2c3d' });
+    const second = generateOpenTelemetryTrace({ random: mulberry32(7), now, runId: 'ffee0011' });
+    const withoutIds = ({ trace, spans }: typeof first) => ({
+      trace: { ...trace, traceId: '' },
+      spans: spans.map(span => ({ ...span, traceId: '', spanId: '', parentSpanId: null }))
+    });
+
+    expect(first.trace.traceId).toMatch(/^0a1b2c3d[0-9a-f]{24}$/);
+    expect(second.trace.traceId).not.toBe(first.trace.traceId);
+    expect(second.spans.map(span => span.spanId)).not.toEqual(first.spans.map(span => span.spanId));
+    expect(first.spans.every(span => /^0a1b[0-9a-f]{12}$/.test(span.spanId))).toBe(true);
+    expect(withoutIds(second)).toEqual(withoutIds(first));
+    expect(randomId(mulberry32(3), 16, 'ffee0011').slice(4)).toBe(randomHex(mulberry32(3), 16).slice(0, 12));
+  });
+
+  it('skip a trace that is already stored', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const first = generateOpenTelemetryTrace({ random: mulberry32(9), now });
+    const rows = await storeGeneratedTrace(first, 'OpenTelemetry', false);
+
+    expect(rows).toBe(1 + first.spans.length + first.networkEvents.length);
+    expect(await storeGeneratedTrace(generateOpenTelemetryTrace({ random: mulberry32(9), now }), 'OpenTelemetry', false)).toBe(0);
+    vi.restoreAllMocks();
+  });
+
+  it('differ between seeds', () => {
+    const first = generateRealisticTrace({ random: mulberry32(1), now });
+    const second = generateRealisticTrace({ random: mulberry32(2), now });
+    expect(second.trace.traceId).not.toBe(first.trace.traceId);
+  });
+
+  it('repeat network events and timestamp them at the requested time', () => {
+    const events = generateNetworkTraceEvents({ random: mulberry32(11), now });
+
+    expect(events.length).toBeGreaterThan(0);
+    expect(generateNetworkTraceEvents({ random: mulberry32(11), now })).toEqual(events);
+    events.forEach(event => {
+      expect(event.timestamp!.getTime()).toBeGreaterThanOrEqual(now.getTime());
+      expect(event.traceId).toBe(events[0].traceId);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { createMetricsRegistry, formatLabels, recordHttpRequests, renderSelfMetrics } from '../selfMetrics';
+import { parsePrometheusText } from '../prometheusIngest';
+
+describe('metrics registry', () => {
+  it('renders counters, cumulative histogram buckets and gauges in exposition format', () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter('rows_total', 'Rows');
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    registry.collectedCounter('cpu_seconds_total', 'CPU', () => 1.5);
+
+    counter.inc({ table: 'spans' }, 5);
+    counter.inc({ table: 'spans' }, 2);
+    counter.inc({ table: 'traces' }, 0);
+    histogram.observe({ route: '/a' }, 0.05);
+    histogram.observe({ route: '/a' }, 0.5);
+    histogram.observe({ route: '/a' }, 3);
+
+    expect(registry.render([{ name: 'subscribers', help: 'Subscribers', samples: [{ value: 4 }] }])).toBe([
+      '# HELP rows_total Rows',
+      '# TYPE rows_total counter',
+      'rows_total{table="spans"} 7',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{route="/a",le="0.1"} 1',
+      'latency_seconds_bucket{route="/a",le="1"} 2',
+      'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+      'latency_seconds_sum{route="/a"} 3.55',
+      'latency_seconds_count{route="/a"} 3',
+      '# HELP cpu_seconds_total CPU',
+      '# TYPE cpu_seconds_total counter',
+      'cpu_seconds_total 1.5',
+      '# HELP subscribers Subscribers',
+      '# TYPE subscribers gauge',
+      'subscribers 4',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes label values', () => {
+    expect(formatLabels({ path: 'a"b\\c\nd' })).toBe('{path="a\\"b\\\\c\\nd"}');
+    expect(formatLabels({})).toBe('');
+  });
+});
+
+describe('recordHttpRequests', () => {
+  it('records latency by route pattern and parses back with the Prometheus parser', async () => {
+    const app = express();
+    app.use(recordHttpRequests);
+    app.get('/api/items/:id', (req, res) => res.status(404).json({ message: 'Not found' }));
+
+    await request(app).get('/api/items/42');
+    await request(app).get('/unrouted');
+
+    const samples = parsePrometheusText(renderSelfMetrics([]));
+    const count = samples.find(sample => sample.name === 'network_map_http_request_duration_seconds_count');
+
+    expect(count).toEqual({
+      name: 'network_map_http_request_duration_seconds_count',
+      labels: { method: 'GET', route: '/api/items/:id', status: '404' },
+      value: 1
+    });
+    expect(samples.some(sample => sample.labels.route === '/unrouted')).toBe(false);
+    expect(samples.find(sample => sample.name === 'process_resident_memory_bytes')!.value).toBeGreaterThan(0);
+    expect(renderSelfMetrics([])).toContain('# TYPE process_cpu_seconds_total counter\n');
+    expect(samples.find(sample => sample.name === 'process_cpu_seconds_total')!.value).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { deriveServiceMetrics, METRICS_LOAD_WINDOW_MS } from '../serviceMetricsGenerator';
+
+const now = new Date(Date.UTC(2025, 0, 6, 12));
+const healthy = { down: false, latencyFactor: 1, errorRate: null };
+const profile = { deployment: 'kubernetes' as const, baseLoad: 0.3 };
+// random() of 0.5 cancels the ±jitter on CPU and memory
+const random = () => 0.5;
+
+describe('deriveServiceMetrics', () => {
+  it('reports the observed error rate and response time', () => {
+    const metrics = deriveServiceMetrics(
+      { serviceName: 'order-service', spans: 120, errors: 3, avgDurationMs: 42.4 },
+      profile, healthy, 120, random, now
+    );
+
+    expect(metrics).toMatchObject({
+      serviceName: 'order-service',
+      deploymentType: 'kubernetes',
+      errorRate: 2.5,
+      responseTime: 42,
+      timestamp: now,
+      healthStatus: 'warning'
+    });
+  });
+
+  it('scales CPU, connections and pods with the share of traffic', () => {
+    const busy = deriveServiceMetrics(
+      { serviceName: 'busy', spans: 600, errors: 0, avgDurationMs: 200 }, profile, healthy, 600, random, now);
+    const quiet = deriveServiceMetrics(
+      { serviceName: 'quiet', spans: 60, errors: 0, avgDurationMs: 200 }, profile, healthy, 600, random, now);
+
+    expect(busy.cpuUsage).toBe(67);
+    expect(quiet.cpuUsage).toBe(22);
+    // 10 req/s × 0.2 s in flight, plus up to 4 idle connections
+    expect(busy.activeConnections).toBe(Math.ceil(600 / (METRICS_LOAD_WINDOW_MS / 1000) * 0.2) + 2);
+    expect(busy.podCount).toBe(3);
+    expect(quiet.healthStatus).toBe('healthy');
+  });
+
+  it('marks services that are down as critical with no connections', () => {
+    const metrics = deriveServiceMetrics(
+      { serviceName: 'payment-core', spans: 10, errors: 0, avgDurationMs: 5 },
+      { deployment: 'vm', baseLoad: 0.2 }, { ...healthy, down: true }, 100, random, now
+    );
+
+    expect(metrics).toMatchObject({ healthStatus: 'critical', activeConnections: 0, podCount: null });
+  });
+});
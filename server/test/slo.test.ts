@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { sloSchema } from '../slo';
+import { burnRate, computeSloStatus, SLO_LOOKBACK_SECONDS, type SloCounts } from '@shared/slo';
+import type { Slo } from '@shared/schema';
+
+const slo = (overrides: Partial<Slo> = {}): Slo => ({
+  id: 1,
+  name: 'Checkout availability',
+  objective: 'availability',
+  target: 99,
+  latencyThresholdMs: null,
+  windowDays: 30,
+  service: 'checkout',
+  operation: 'POST /orders',
+  tenant: null,
+  createdAt: new Date(Date.UTC(2025, 0, 6)),
+  ...overrides
+});
+
+// Same error ratio in every lookback unless overridden
+const lookbacks = (counts: SloCounts, overrides: Record<number, SloCounts> = {}) =>
+  Object.fromEntries(SLO_LOOKBACK_SECONDS.map(seconds => [seconds, overrides[seconds] || counts]));
+
+describe('burnRate', () => {
+  it('is the error ratio relative to the allowed error ratio', () => {
+    expect(burnRate({ total: 1000, bad: 10 }, 99)).toBe(1);
+    expect(burnRate({ total: 1000, bad: 50 }, 99)).toBe(5);
+    expect(burnRate({ total: 0, bad: 0 }, 99)).toBe(0);
+    expect(burnRate(undefined, 99)).toBe(0);
+  });
+});
+
+describe('computeSloStatus', () => {
+  it('reports the SLI and remaining error budget', () => {
+    const status = computeSloStatus(slo(), { total: 10000, bad: 25 }, lookbacks({ total: 100, bad: 0 }));
+    expect(status.sli).toBe(99.75);
+    expect(status.budgetRemaining).toBe(0.75);
+    expect(status.status).toBe('ok');
+  });
+
+  it('marks the budget exhausted once errors exceed the allowance', () => {
+    const status = computeSloStatus(slo(), { total: 1000, bad: 15 }, lookbacks({ total: 100, bad: 0 }));
+    expect(status.budgetRemaining).toBe(-0.5);
+    expect(status.status).toBe('exhausted');
+  });
+
+  it('burns only when both the long and the short window exceed the threshold', () => {
+    // 20% errors over the last hour is a 20x burn; the short window decides
+    const hot = { total: 100, bad: 20 };
+    const quiet = { total: 100, bad: 0 };
+
+    const burning = computeSloStatus(slo(), { total: 100000, bad: 100 }, lookbacks(quiet, { 3600: hot, 300: hot }));
+    expect(burning.burnRates.find(rate => rate.name === 'fast')).toMatchObject({ long: 20, short: 20, burning: true });
+    expect(burning.status).toBe('burning');
+
+    const recovered = computeSloStatus(slo(), { total: 100000, bad: 100 }, lookbacks(quiet, { 3600: hot }));
+    expect(recovered.burnRates.every(rate => !rate.burning)).toBe(true);
+    expect(recovered.status).toBe('ok');
+  });
+
+  it('reports no data without requests in the window', () => {
+    const status = computeSloStatus(slo(), { total: 0, bad: 0 }, lookbacks({ total: 0, bad: 0 }));
+    expect(status).toMatchObject({ sli: null, budgetRemaining: null, status: 'no-data' });
+  });
+});
+
+describe('sloSchema', () => {
+  it('applies the default compliance window', () => {
+    const parsed = sloSchema.parse({ name: 'API', objective: 'availability', target: 99.9, service: 'api' });
+    expect(parsed.windowDays).toBe(30);
+  });
+
+  it('requires a latency threshold for latency objectives', () => {
+    expect(sloSchema.safeParse({ name: 'API', objective: 'latency', target: 99, service: 'api' }).success).toBe(false);
+    expect(sloSchema.safeParse({ name: 'API', objective: 'latency', target: 99, service: 'api', latencyThresholdMs: 300 }).success).toBe(true);
+  });
+
+  it('rejects targets of 100% or more', () => {
+    expect(sloSchema.safeParse({ name: 'API', objective: 'availability', target: 100, service: 'api' }).success).toBe(false);
+  });
+
+  it('keeps the window within the span retention', () => {
+    const api = { name: 'API', objective: 'availability', target: 99, service: 'api' };
+    expect(sloSchema.safeParse({ ...api, windowDays: 90 }).success).toBe(false);
+
+    vi.stubEnv('RETENTION_SPANS_DAYS', '7');
+    const parsed = sloSchema.safeParse(api);
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.flatten().fieldErrors.windowDays?.[0]).toContain('7-day span retention');
+    expect(sloSchema.safeParse({ ...api, windowDays: 7 }).success).toBe(true);
+
+    vi.stubEnv('RETENTION_SPANS_DAYS', '0');
+    expect(sloSchema.safeParse({ ...api, windowDays: 90 }).success).toBe(true);
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { MemStorage, DbStorage, createStorage } from '../storage';
+
+const sampleDiagram = {
+  name: 'Checkout flow',
+  data: { nodes: [], edges: [] },
+  layout: 'force',
+  settings: {}
+};
+
+describe('Diagram storage', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should select storage from DIAGRAM_STORAGE', () => {
+    process.env.DIAGRAM_STORAGE = 'memory';
+    expect(createStorage()).toBeInstanceOf(MemStorage);
+
+    process.env.DIAGRAM_STORAGE = 'postgres';
+    expect(createStorage()).toBeInstanceOf(DbStorage);
+
+    process.env.DIAGRAM_STORAGE = 'redis';
+    expect(() => createStorage()).toThrow("Unknown DIAGRAM_STORAGE 'redis'");
+  });
+
+  it('should fall back to memory in tests and without a database', () => {
+    delete process.env.DIAGRAM_STORAGE;
+    process.env.DATABASE_URL = 'postgres://localhost/diagrams';
+    process.env.NODE_ENV = 'test';
+    expect(createStorage()).toBeInstanceOf(MemStorage);
+
+    process.env.NODE_ENV = 'production';
+    delete process.env.DATABASE_URL;
+    expect(createStorage()).toBeInstanceOf(MemStorage);
+  });
+
+  it('should delete diagrams from memory storage', async () => {
+    const memStorage = new MemStorage();
+    const diagram = await memStorage.createDiagram(sampleDiagram);
+
+    expect(await memStorage.deleteDiagram(diagram.id)).toBe(true);
+    expect(await memStorage.getDiagram(diagram.id)).toBeUndefined();
+    expect(await memStorage.deleteDiagram(diagram.id)).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { buildTopologyDiagram, type TopologyEdgeRow } from '../topology';
+
+const edgeRow: TopologyEdgeRow = {
+  sourceService: 'gateway-main',
+  sourceOperation: 'route_request',
+  sourceTenant: 'api-gateway',
+  sourceSystem: 'gateway-main',
+  targetService: 'payment-core',
+  targetOperation: 'process_payment',
+  targetTenant: 'payment-system',
+  targetSystem: 'payment-core',
+  kind: 'server',
+  calls: 40,
+  errors: 2,
+  avgDuration: 52000000,
+  p50Duration: 45000000,
+  p95Duration: 120000000,
+  p99Duration: 180000000,
+  maxDuration: 250000000,
+  traceIds: ['t1', 't2', 't3', 't4', 't5', 't6']
+};
+
+describe('Topology builder', () => {
+  it('should build endpoint nodes and edges with call, error and latency stats', () => {
+    const { data, stats } = buildTopologyDiagram('endpoint', [
+      { service: 'gateway-main', operation: 'route_request', tenant: 'api-gateway', system: 'gateway-main', spanCount: 40 },
+      { service: 'auth-core', operation: 'validate', tenant: 'auth-system', system: 'auth-core', spanCount: 5 }
+    ], [edgeRow], [
+      { sourceService: 'gateway-main', sourceOperation: 'route_request', targetService: 'payment-core', targetOperation: 'process_payment', status: '200', calls: 38 },
+      { sourceService: 'gateway-main', sourceOperation: 'route_request', targetService: 'payment-core', targetOperation: 'process_payment', status: '500', calls: 2 }
+    ]);
+
+    // payment-core is outside the node rows but still needs a node for the edge target
+    expect(data.nodes.map(n => n.id).sort()).toEqual([
+      'auth-core_validate', 'gateway-main_route_request', 'payment-core_process_payment'
+    ]);
+
+    const [edge] = data.edges;
+    expect(edge.id).toBe('gateway-main_route_request-payment-core_process_payment');
+    expect(edge.label).toBe('Server Call');
+    expect(edge.connectionCount).toBe(40);
+    expect(edge.errorCount).toBe(2);
+    expect(edge.status).toBe('error');
+    expect(edge.latency).toBe(52);
+    expect(edge.latencyStats).toEqual({ avg: 52, p50: 45, p95: 120, p99: 180, max: 250 });
+    expect(edge.statusCounts).toEqual({ '200': 38, '500': 2 });
+    expect(edge.traceId).toBe('t1,t2,t3,t4,t5');
+
+    expect(stats).toMatchObject({ nodeCount: 3, edgeCount: 1, totalConnections: 40, connectedComponents: 2 });
+  });
+
+  it('should use service ids at service level', () => {
+    const { data } = buildTopologyDiagram('service', [], [
+      { ...edgeRow, sourceOperation: null, targetOperation: null, errors: 0 }
+    ], []);
+
+    expect(data.nodes.map(n => n.id)).toEqual(['gateway-main', 'payment-core']);
+    expect(data.nodes[0].nodeType).toBe('service');
+    expect(data.edges[0].id).toBe('gateway-main-payment-core');
+    expect(data.edges[0].status).toBe('ok');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { buildEventTopologyDiagram, type EventTopologyRow } from '../topology';
+import { diffTopologies } from '@shared/topologyDiff';
+
+const window = (hour: number) => ({
+  from: new Date(Date.UTC(2025, 0, 6, hour, 0, 0)),
+  to: new Date(Date.UTC(2025, 0, 6, hour, 10, 0))
+});
+
+const edge = (source: string, target: string, connectionCount: number, errorCount = 0) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  connectionCount,
+  errorCount
+});
+
+const node = (id: string, count: number) => ({ id, label: id, service: id, count });
+
+describe('Topology diff', () => {
+  const baseline = {
+    ...window(10),
+    data: {
+      nodes: [node('gateway', 100), node('orders', 100), node('legacy', 20)],
+      edges: [edge('gateway', 'orders', 100, 1), edge('gateway', 'legacy', 20)]
+    }
+  };
+  const comparison = {
+    ...window(11),
+    data: {
+      nodes: [node('gateway', 100), node('orders', 180), node('payment', 50)],
+      edges: [edge('gateway', 'orders', 180, 18), edge('orders', 'payment', 50)]
+    }
+  };
+
+  it('should classify new, disappeared and changed edges', () => {
+    const diff = diffTopologies(baseline, comparison);
+    const edges = new Map(diff.data.edges.map(e => [e.id, e.diff]));
+
+    expect(edges.get('orders-payment')?.changes).toEqual(['added']);
+    expect(edges.get('gateway-legacy')?.changes).toEqual(['removed']);
+    expect(edges.get('gateway-orders')?.changes).toEqual(['errors-up', 'traffic-up']);
+    expect(edges.get('gateway-orders')?.comparison).toEqual({ calls: 180, rate: 0.3, errorRate: 10 });
+  });
+
+  it('should keep unchanged nodes out of the change list', () => {
+    const diff = diffTopologies(baseline, comparison);
+
+    expect(diff.changes.map(entry => `${entry.element}:${entry.id}`)).not.toContain('node:gateway');
+    expect(diff.changes[0].changes[0]).toBe('added');
+    expect(diff.summary).toMatchObject({ added: 2, removed: 2, 'errors-up': 2, 'traffic-up': 2 });
+  });
+
+  it('should compare call rates when the windows differ in length', () => {
+    const longBaseline = { ...baseline, to: new Date(Date.UTC(2025, 0, 6, 10, 20, 0)) };
+    const diff = diffTopologies(
+      { ...longBaseline, data: { nodes: [], edges: [edge('a', 'b', 200)] } },
+      { ...comparison, data: { nodes: [], edges: [edge('a', 'b', 100)] } }
+    );
+
+    expect(diff.data.edges[0].diff.changes).toEqual([]);
+  });
+});
+
+describe('Event topology builder', () => {
+  const row = (status: string, calls: number): EventTopologyRow => ({
+    source: 'api-service1_auth',
+    sourceService: 'api-service1',
+    sourceLabel: 'auth',
+    sourceTenant: 'tenant-a',
+    sourceSystem: 'system-1',
+    target: 'db-service1_query',
+    targetService: 'db-service1',
+    targetLabel: 'query',
+    targetTenant: 'tenant-b',
+    targetSystem: 'system-2',
+    status,
+    calls,
+    totalResponseTime: calls * 40
+  });
+
+  it('should merge status rows into one edge per connection', () => {
+    const { data, stats } = buildEventTopologyDiagram('endpoint', [row('200', 9), row('503', 1)]);
+
+    expect(stats.nodeCount).toBe(2);
+    expect(data.edges).toHaveLength(1);
+    expect(data.edges[0]).toMatchObject({
+      id: 'api-service1_auth-db-service1_query',
+      connectionCount: 10,
+      errorCount: 1,
+      latency: 40,
+      status: 'error',
+      statusCounts: { '200': 9, '503': 1 }
+    });
+  });
+
+  it('should group endpoints by service at the service level', () => {
+    const { data } = buildEventTopologyDiagram('service', [row('200', 5)]);
+
+    expect(data.nodes.map(n => n.id)).toEqual(['api-service1', 'db-service1']);
+    expect(data.edges[0].id).toBe('api-service1-db-service1');
+  });
+});
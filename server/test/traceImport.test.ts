@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+
+import { detectTraceFormat, parseTraceFile } from '../traceImport';
+
+const TRACE_ID = '5b8efff798038103d269b633813fc60c';
+
+// Gateway calls payment over HTTP; both halves of the RPC share span id "b"
+const zipkinTrace = [
+  {
+    traceId: TRACE_ID, id: 'a', name: 'get /checkout', kind: 'SERVER',
+    timestamp: 1736164800000000, duration: 120000,
+    localEndpoint: { serviceName: 'api-gateway' },
+    tags: { 'http.method': 'GET' }
+  },
+  {
+    traceId: TRACE_ID, id: 'b', parentId: 'a', name: 'post /charge', kind: 'CLIENT',
+    timestamp: 1736164800010000, duration: 90000,
+    localEndpoint: { serviceName: 'api-gateway' },
+    remoteEndpoint: { serviceName: 'payment-service' }
+  },
+  {
+    traceId: TRACE_ID, id: 'b', parentId: 'a', name: 'process_payment', kind: 'SERVER', shared: true,
+    timestamp: 1736164800012000, duration: 80000,
+    localEndpoint: { serviceName: 'payment-service' },
+    tags: { 'http.status_code': '502', error: 'upstream failed', tenant: 'payment-system' }
+  },
+  {
+    traceId: TRACE_ID, id: 'c', parentId: 'b', name: 'select', kind: 'CLIENT',
+    timestamp: 1736164800020000, duration: 5000,
+    localEndpoint: { serviceName: 'payment-service' }
+  }
+];
+
+const jaegerExport = {
+  data: [{
+    traceID: TRACE_ID,
+    spans: [
+      {
+        traceID: TRACE_ID, spanID: 'a1', operationName: 'route_request', references: [],
+        startTime: 1736164800000000, duration: 120000, processID: 'p1',
+        tags: [{ key: 'span.kind', type: 'string', value: 'server' }],
+        logs: []
+      },
+      {
+        traceID: TRACE_ID, spanID: 'b1', operationName: 'process_payment',
+        references: [{ refType: 'CHILD_OF', traceID: TRACE_ID, spanID: 'a1' }],
+        startTime: 1736164800010000, duration: 80000, processID: 'p2',
+        tags: [{ key: 'error', type: 'bool', value: true }],
+        logs: [{ timestamp: 1736164800050000, fields: [{ key: 'event', type: 'string', value: 'retry' }] }]
+      }
+    ],
+    processes: {
+      p1: { serviceName: 'gateway-main', tags: [{ key: 'service.namespace', type: 'string', value: 'api-gateway' }] },
+      p2: { serviceName: 'payment-core', tags: [{ key: 'tenant', type: 'string', value: 'payment-system' }] }
+    }
+  }]
+};
+
+describe('Trace file import', () => {
+  it('should detect Zipkin and Jaeger exports', () => {
+    expect(detectTraceFormat(zipkinTrace)).toBe('zipkin');
+    expect(detectTraceFormat([zipkinTrace])).toBe('zipkin');
+    expect(detectTraceFormat(jaegerExport)).toBe('jaeger');
+    expect(detectTraceFormat({ source: 'a', target: 'b' })).toBeNull();
+  });
+
+  it('should split shared Zipkin spans into client and server halves', () => {
+    const { traces, spans } = parseTraceFile(zipkinTrace);
+
+    expect(traces).toHaveLength(1);
+    expect(traces[0].spanCount).toBe(4);
+    expect(traces[0].serviceName).toBe('api-gateway');
+    expect(traces[0].status).toBe('error');
+
+    const server = spans.find(s => s.operationName === 'process_payment')!;
+    expect(server.spanId).toBe('b:server');
+    expect(server.parentSpanId).toBe('b');
+    expect(server.tenant).toBe('payment-system');
+    expect(server.status).toBe('error');
+    expect(server.duration).toBe(80000000);
+
+    const query = spans.find(s => s.operationName === 'select')!;
+    expect(query.parentSpanId).toBe('b:server');
+
+    const client = spans.find(s => s.operationName === 'post /charge')!;
+    expect(client.spanId).toBe('b');
+    expect((client.attributes as any)['peer.service']).toBe('payment-service');
+  });
+
+  it('should resolve Jaeger processes and references', () => {
+    const { format, spans } = parseTraceFile(jaegerExport);
+
+    expect(format).toBe('jaeger');
+    const [root, child] = spans;
+    expect(root.serviceName).toBe('gateway-main');
+    expect(root.tenant).toBe('api-gateway');
+    expect(root.kind).toBe('server');
+    expect(root.parentSpanId).toBeNull();
+
+    expect(child.parentSpanId).toBe('a1');
+    expect(child.tenant).toBe('payment-system');
+    expect(child.status).toBe('error');
+    expect((child.events as any[])[0].name).toBe('retry');
+  });
+
+  it('should reject unknown JSON files', () => {
+    expect(() => parseTraceFile({ foo: 'bar' })).toThrow('Zipkin v2 or Jaeger');
+  });
+});
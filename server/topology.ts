@@ -0,0 +1,430 @@
+import { db } from "./db";
+import { spans, networkEvents, type Diagram, type DiagramData } from "@shared/schema";
+import { alias } from "drizzle-orm/pg-core";
+import { sql, and, eq, ne, gte, lte, or, type SQL } from "drizzle-orm";
+import { diffTopologies } from "@shared/topologyDiff";
+import { checkConformance, type ConformanceReport } from "@shared/conformance";
+
+export type TopologyLevel = 'endpoint' | 'service';
+
+export interface TopologyQuery {
+  from: Date;
+  to: Date;
+  tenant?: string;
+  level: TopologyLevel;
+}
+
+export type TopologySource = 'spans' | 'events';
+
+export interface TopologyDiffQuery {
+  baseline: { from: Date; to: Date };
+  comparison: { from: Date; to: Date };
+  tenant?: string;
+  level: TopologyLevel;
+  source: TopologySource;
+}
+
+export interface TopologyNodeRow {
+  service: string;
+  operation: string | null;
+  tenant: string;
+  system: string;
+  spanCount: number;
+}
+
+export interface TopologyEdgeRow {
+  sourceService: string;
+  sourceOperation: string | null;
+  sourceTenant: string;
+  sourceSystem: string;
+  targetService: string;
+  targetOperation: string | null;
+  targetTenant: string;
+  targetSystem: string;
+  kind: string | null;
+  calls: number;
+  errors: number;
+  avgDuration: number | null; // nanoseconds
+  p50Duration: number | null;
+  p95Duration: number | null;
+  p99Duration: number | null;
+  maxDuration: number | null;
+  traceIds: string[] | null;
+}
+
+export interface TopologyStatusRow {
+  sourceService: string;
+  sourceOperation: string | null;
+  targetService: string;
+  targetOperation: string | null;
+  status: string;
+  calls: number;
+}
+
+// Same span kind labels as the client-side OpenTelemetry processor
+const SPAN_KIND_LABELS: Record<string, string> = {
+  'client': 'Client',
+  'server': 'Server',
+  'internal': 'Internal',
+  'producer': 'Producer',
+  'consumer': 'Consumer'
+};
+
+// Trace IDs kept per edge for trace selection in the sidebar
+const SAMPLE_TRACE_IDS = 5;
+
+const nsToMs = (value: number | null) => value === null || value === undefined ? 0 : Math.round(Number(value) / 1000000);
+
+function nodeIdFor(level: TopologyLevel, service: string, operation: string | null) {
+  return level === 'service' || !operation ? service : `${service}_${operation}`;
+}
+
+function countComponents(nodeIds: string[], edges: Array<{ source: string; target: string }>): number {
+  const parent = new Map(nodeIds.map(id => [id, id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const resolved = find(root);
+    parent.set(id, resolved);
+    return resolved;
+  };
+
+  edges.forEach(edge => {
+    if (parent.has(edge.source) && parent.has(edge.target)) {
+      parent.set(find(edge.source), find(edge.target));
+    }
+  });
+
+  return new Set(nodeIds.map(find)).size;
+}
+
+// Turn aggregated span rows into diagram nodes/edges in the shape processOpenTelemetryData produces
+export function buildTopologyDiagram(
+  level: TopologyLevel,
+  nodeRows: TopologyNodeRow[],
+  edgeRows: TopologyEdgeRow[],
+  statusRows: TopologyStatusRow[]
+) {
+  const nodeMap = new Map<string, any>();
+
+  const addNode = (service: string, operation: string | null, tenant: string, system: string, spanCount: number) => {
+    const id = nodeIdFor(level, service, operation);
+    const existing = nodeMap.get(id);
+    if (existing) {
+      existing.count += spanCount;
+      return;
+    }
+    const isService = level === 'service' || !operation;
+    nodeMap.set(id, {
+      id,
+      label: isService ? service : operation,
+      type: isService ? 'service' : 'endpoint',
+      x: 0,
+      y: 0,
+      service,
+      tenant,
+      system,
+      nodeType: isService ? 'service' : 'endpoint',
+      count: spanCount
+    });
+  };
+
+  nodeRows.forEach(row => addNode(row.service, row.operation, row.tenant, row.system, Number(row.spanCount)));
+
+  // Edge endpoints outside the tenant filter still need nodes
+  edgeRows.forEach(row => {
+    addNode(row.sourceService, row.sourceOperation, row.sourceTenant, row.sourceSystem, 0);
+    addNode(row.targetService, row.targetOperation, row.targetTenant, row.targetSystem, 0);
+  });
+
+  const statusCounts = new Map<string, Record<string, number>>();
+  statusRows.forEach(row => {
+    const edgeId = `${nodeIdFor(level, row.sourceService, row.sourceOperation)}-${nodeIdFor(level, row.targetService, row.targetOperation)}`;
+    const counts = statusCounts.get(edgeId) || {};
+    counts[row.status] = (counts[row.status] || 0) + Number(row.calls);
+    statusCounts.set(edgeId, counts);
+  });
+
+  const edges = edgeRows.map(row => {
+    const source = nodeIdFor(level, row.sourceService, row.sourceOperation);
+    const target = nodeIdFor(level, row.targetService, row.targetOperation);
+    const id = `${source}-${target}`;
+    const errors = Number(row.errors);
+
+    return {
+      id,
+      source,
+      target,
+      label: `${SPAN_KIND_LABELS[row.kind || ''] || row.kind || 'Internal'} Call`,
+      connectionCount: Number(row.calls),
+      errorCount: errors,
+      trafficType: 'inter-service',
+      latency: nsToMs(row.avgDuration),
+      latencyStats: {
+        avg: nsToMs(row.avgDuration),
+        p50: nsToMs(row.p50Duration),
+        p95: nsToMs(row.p95Duration),
+        p99: nsToMs(row.p99Duration),
+        max: nsToMs(row.maxDuration)
+      },
+      status: errors > 0 ? 'error' : 'ok',
+      statusCounts: statusCounts.get(id) || {},
+      traceId: (row.traceIds || []).slice(0, SAMPLE_TRACE_IDS).join(',') || undefined
+    };
+  });
+
+  const nodes = Array.from(nodeMap.values());
+  const components = countComponents(nodes.map(n => n.id), edges);
+
+  return {
+    data: { nodes, edges },
+    stats: {
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      totalConnections: edges.reduce((sum, edge) => sum + edge.connectionCount, 0),
+      connectedComponents: components,
+      componentCount: components
+    }
+  };
+}
+
+// Aggregate cross-service parent/child span pairs into a dependency graph
+export async function getTopology(query: TopologyQuery) {
+  const parent = alias(spans, 'parent');
+  const child = alias(spans, 'child');
+  const byEndpoint = query.level === 'endpoint';
+
+  const pairConditions: SQL[] = [
+    ne(parent.serviceName, child.serviceName),
+    gte(child.startTime, query.from),
+    lte(child.startTime, query.to)
+  ];
+  if (query.tenant) {
+    pairConditions.push(or(eq(parent.tenant, query.tenant), eq(child.tenant, query.tenant))!);
+  }
+
+  const pairGroupBy = [
+    parent.serviceName, parent.tenant, parent.system,
+    child.serviceName, child.tenant, child.system,
+    ...(byEndpoint ? [parent.operationName, child.operationName] : [])
+  ];
+  const sourceOperation = byEndpoint ? parent.operationName : sql<null>`null`;
+  const targetOperation = byEndpoint ? child.operationName : sql<null>`null`;
+  const joinCondition = and(eq(child.parentSpanId, parent.spanId), eq(child.traceId, parent.traceId));
+
+  const edgeRows = await db
+    .select({
+      sourceService: parent.serviceName,
+      sourceOperation,
+      sourceTenant: parent.tenant,
+      sourceSystem: parent.system,
+      targetService: child.serviceName,
+      targetOperation,
+      targetTenant: child.tenant,
+      targetSystem: child.system,
+      kind: sql<string | null>`mode() within group (order by ${child.kind})`,
+      calls: sql<number>`count(*)::int`,
+      errors: sql<number>`(count(*) filter (where ${child.status} = 'error'))::int`,
+      avgDuration: sql<number | null>`avg(${child.duration})::float`,
+      p50Duration: sql<number | null>`percentile_cont(0.5) within group (order by ${child.duration})`,
+      p95Duration: sql<number | null>`percentile_cont(0.95) within group (order by ${child.duration})`,
+      p99Duration: sql<number | null>`percentile_cont(0.99) within group (order by ${child.duration})`,
+      maxDuration: sql<number | null>`max(${child.duration})`,
+      traceIds: sql<string[] | null>`(array_agg(distinct ${child.traceId}))[1:${sql.raw(String(SAMPLE_TRACE_IDS))}]`
+    })
+    .from(child)
+    .innerJoin(parent, joinCondition)
+    .where(and(...pairConditions))
+    .groupBy(...pairGroupBy);
+
+  // HTTP status code when instrumented, span status otherwise
+  const statusKey = sql<string>`coalesce(${child.attributes}->>'http.status_code', ${child.attributes}->>'http.response.status_code', ${child.status})`;
+  const statusRows = await db
+    .select({
+      sourceService: parent.serviceName,
+      sourceOperation,
+      targetService: child.serviceName,
+      targetOperation,
+      status: statusKey,
+      calls: sql<number>`count(*)::int`
+    })
+    .from(child)
+    .innerJoin(parent, joinCondition)
+    .where(and(...pairConditions))
+    .groupBy(
+      parent.serviceName, child.serviceName, statusKey,
+      ...(byEndpoint ? [parent.operationName, child.operationName] : [])
+    );
+
+  const nodeConditions: SQL[] = [gte(spans.startTime, query.from), lte(spans.startTime, query.to)];
+  if (query.tenant) {
+    nodeConditions.push(eq(spans.tenant, query.tenant));
+  }
+  const nodeRows = await db
+    .select({
+      service: spans.serviceName,
+      operation: byEndpoint ? spans.operationName : sql<null>`null`,
+      tenant: spans.tenant,
+      system: spans.system,
+      spanCount: sql<number>`count(*)::int`
+    })
+    .from(spans)
+    .where(and(...nodeConditions))
+    .groupBy(spans.serviceName, spans.tenant, spans.system, ...(byEndpoint ? [spans.operationName] : []));
+
+  return buildTopologyDiagram(query.level, nodeRows, edgeRows, statusRows);
+}
+
+export interface EventTopologyRow {
+  source: string;
+  sourceService: string | null;
+  sourceLabel: string | null;
+  sourceTenant: string;
+  sourceSystem: string;
+  target: string;
+  targetService: string | null;
+  targetLabel: string | null;
+  targetTenant: string;
+  targetSystem: string;
+  status: string | null;
+  calls: number;
+  totalResponseTime: number | null; // ms
+}
+
+// Network events aggregated into the same diagram shape; node ids match processNetworkEvents
+export function buildEventTopologyDiagram(level: TopologyLevel, rows: EventTopologyRow[]) {
+  const nodeMap = new Map<string, any>();
+  const edgeMap = new Map<string, any>();
+
+  const addNode = (id: string, service: string | null, label: string | null, tenant: string, system: string, calls: number) => {
+    const nodeId = level === 'service' ? service || id : id;
+    const existing = nodeMap.get(nodeId);
+    if (existing) {
+      existing.count += calls;
+      return nodeId;
+    }
+    const isService = level === 'service';
+    nodeMap.set(nodeId, {
+      id: nodeId,
+      label: isService ? nodeId : label || id,
+      type: isService ? 'service' : 'endpoint',
+      x: 0,
+      y: 0,
+      service: service || id,
+      tenant,
+      system,
+      nodeType: isService ? 'service' : 'endpoint',
+      count: calls
+    });
+    return nodeId;
+  };
+
+  rows.forEach(row => {
+    const calls = Number(row.calls);
+    const source = addNode(row.source, row.sourceService, row.sourceLabel, row.sourceTenant, row.sourceSystem, calls);
+    const target = addNode(row.target, row.targetService, row.targetLabel, row.targetTenant, row.targetSystem, calls);
+    const id = `${source}-${target}`;
+    const isError = row.status === 'error' || (row.status || '').startsWith('5');
+
+    const edge = edgeMap.get(id) || {
+      id,
+      source,
+      target,
+      connectionCount: 0,
+      errorCount: 0,
+      totalResponseTime: 0,
+      trafficType: row.sourceService === row.targetService ? 'intra-service' : 'inter-service',
+      statusCounts: {} as Record<string, number>
+    };
+    edge.connectionCount += calls;
+    edge.errorCount += isError ? calls : 0;
+    edge.totalResponseTime += Number(row.totalResponseTime || 0);
+    if (row.status) {
+      edge.statusCounts[row.status] = (edge.statusCounts[row.status] || 0) + calls;
+    }
+    edgeMap.set(id, edge);
+  });
+
+  const edges = Array.from(edgeMap.values()).map(({ totalResponseTime, ...edge }) => ({
+    ...edge,
+    latency: edge.connectionCount > 0 ? Math.round(totalResponseTime / edge.connectionCount) : 0,
+    status: edge.errorCount > 0 ? 'error' : 'ok'
+  }));
+  const nodes = Array.from(nodeMap.values());
+  const components = countComponents(nodes.map(n => n.id), edges);
+
+  return {
+    data: { nodes, edges },
+    stats: {
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      totalConnections: edges.reduce((sum, edge) => sum + edge.connectionCount, 0),
+      connectedComponents: components,
+      componentCount: components
+    }
+  };
+}
+
+export async function getEventTopology(query: TopologyQuery) {
+  const conditions: SQL[] = [gte(networkEvents.timestamp, query.from), lte(networkEvents.timestamp, query.to)];
+  if (query.tenant) {
+    conditions.push(or(eq(networkEvents.sourceTenant, query.tenant), eq(networkEvents.targetTenant, query.tenant))!);
+  }
+
+  const rows = await db
+    .select({
+      source: networkEvents.source,
+      sourceService: networkEvents.sourceService,
+      sourceLabel: networkEvents.sourceLabel,
+      sourceTenant: networkEvents.sourceTenant,
+      sourceSystem: networkEvents.sourceSystem,
+      target: networkEvents.target,
+      targetService: networkEvents.targetService,
+      targetLabel: networkEvents.targetLabel,
+      targetTenant: networkEvents.targetTenant,
+      targetSystem: networkEvents.targetSystem,
+      status: networkEvents.status,
+      calls: sql<number>`count(*)::int`,
+      totalResponseTime: sql<number | null>`sum(${networkEvents.responseTime})::float`
+    })
+    .from(networkEvents)
+    .where(and(...conditions))
+    .groupBy(
+      networkEvents.source, networkEvents.sourceService, networkEvents.sourceLabel,
+      networkEvents.sourceTenant, networkEvents.sourceSystem,
+      networkEvents.target, networkEvents.targetService, networkEvents.targetLabel,
+      networkEvents.targetTenant, networkEvents.targetSystem,
+      networkEvents.status
+    );
+
+  return buildEventTopologyDiagram(query.level, rows);
+}
+
+// What changed in the call graph between two windows, from spans or network events
+export async function getTopologyDiff(query: TopologyDiffQuery) {
+  const load = query.source === 'events' ? getEventTopology : getTopology;
+  const [baseline, comparison] = await Promise.all([
+    load({ ...query.baseline, tenant: query.tenant, level: query.level }),
+    load({ ...query.comparison, tenant: query.tenant, level: query.level })
+  ]);
+
+  return diffTopologies(
+    { ...query.baseline, data: baseline.data },
+    { ...query.comparison, data: comparison.data }
+  );
+}
+
+// How the observed call graph conforms to a saved diagram's intended topology
+export async function getConformanceReport(
+  diagram: Pick<Diagram, 'id' | 'name' | 'data'>,
+  query: { from: Date; to: Date; tenant?: string; source: TopologySource }
+): Promise<ConformanceReport> {
+  const load = query.source === 'events' ? getEventTopology : getTopology;
+  const observed = await load({ from: query.from, to: query.to, tenant: query.tenant, level: 'service' });
+
+  return {
+    diagram: { id: diagram.id, name: diagram.name },
+    window: { from: query.from.toISOString(), to: query.to.toISOString() },
+    ...checkConformance(diagram.data as DiagramData, observed.data)
+  };
+}
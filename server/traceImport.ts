@@ -0,0 +1,201 @@
+import type { InsertTrace, InsertSpan } from "@shared/schema";
+import { buildTraceRow, resolveTenantAndSystem } from "./otlpReceiver";
+
+export type TraceFileFormat = 'zipkin' | 'jaeger';
+
+export interface ImportedTraces {
+  format: TraceFileFormat;
+  traces: InsertTrace[];
+  spans: InsertSpan[];
+}
+
+// Suffix for the server half of a Zipkin span that shares its ID with the client half
+const SHARED_SERVER_SUFFIX = ':server';
+
+// Detect Zipkin v2 (/api/v2/traces) or Jaeger UI ("Download JSON") exports
+export function detectTraceFormat(json: any): TraceFileFormat | null {
+  if (Array.isArray(json?.data) && json.data.some((t: any) => Array.isArray(t?.spans) && t?.processes)) {
+    return 'jaeger';
+  }
+  if (Array.isArray(json?.spans) && json?.processes) {
+    return 'jaeger';
+  }
+
+  const zipkinSpans = Array.isArray(json) ? json.flat() : [];
+  if (zipkinSpans.length > 0 && zipkinSpans.every((s: any) => s && typeof s.traceId === 'string' && typeof s.id === 'string')) {
+    return 'zipkin';
+  }
+
+  return null;
+}
+
+const microsToDate = (micros: unknown) => new Date(Math.floor(Number(micros) / 1000));
+
+// Zipkin and Jaeger durations are microseconds; spans.duration holds nanoseconds
+const microsToNanos = (micros: unknown) => Math.round(Number(micros || 0) * 1000);
+
+function isErrorTag(tags: Record<string, any>): boolean {
+  const error = tags['error'];
+  if (error !== undefined && error !== false && error !== 'false') return true;
+  return String(tags['otel.status_code'] || '').toUpperCase() === 'ERROR';
+}
+
+// Group spans by trace and build one trace row per group
+function groupTraces(format: TraceFileFormat, allSpans: InsertSpan[]): ImportedTraces {
+  const spansByTrace = new Map<string, InsertSpan[]>();
+  allSpans.forEach(span => {
+    if (!spansByTrace.has(span.traceId)) {
+      spansByTrace.set(span.traceId, []);
+    }
+    spansByTrace.get(span.traceId)!.push(span);
+  });
+
+  const traces = Array.from(spansByTrace.entries()).map(([traceId, traceSpans]) => buildTraceRow(traceId, traceSpans));
+  return { format, traces, spans: allSpans };
+}
+
+// Convert Zipkin v2 spans; accepts a flat span list or a list of traces
+export function convertZipkinTraces(json: any[]): ImportedTraces {
+  const zipkinSpans: any[] = json.flat();
+
+  // Zipkin reports both halves of an RPC under one span ID; the server half gets its own ID
+  const sharedServerIds = new Set<string>();
+  zipkinSpans.forEach(span => {
+    if (span.shared || (span.kind === 'SERVER' && zipkinSpans.some(s => s !== span && s.id === span.id && s.traceId === span.traceId))) {
+      sharedServerIds.add(`${span.traceId}/${span.id}`);
+    }
+  });
+
+  const spans = zipkinSpans.map((zipkinSpan): InsertSpan => {
+    const tags: Record<string, any> = { ...(zipkinSpan.tags || {}) };
+    const serviceName = String(zipkinSpan.localEndpoint?.serviceName || 'unknown_service').slice(0, 255);
+    const { tenant, system } = resolveTenantAndSystem(tags, serviceName);
+    const isSharedServer = sharedServerIds.has(`${zipkinSpan.traceId}/${zipkinSpan.id}`) && zipkinSpan.kind === 'SERVER';
+
+    let spanId = zipkinSpan.id;
+    let parentSpanId = zipkinSpan.parentId || null;
+    if (isSharedServer) {
+      spanId = `${zipkinSpan.id}${SHARED_SERVER_SUFFIX}`;
+      parentSpanId = zipkinSpan.id;
+    } else if (parentSpanId && sharedServerIds.has(`${zipkinSpan.traceId}/${parentSpanId}`)) {
+      // Children of a shared span run inside the server half
+      parentSpanId = `${parentSpanId}${SHARED_SERVER_SUFFIX}`;
+    }
+
+    if (zipkinSpan.remoteEndpoint?.serviceName) {
+      tags['peer.service'] = zipkinSpan.remoteEndpoint.serviceName;
+    }
+
+    const startTime = microsToDate(zipkinSpan.timestamp);
+    const duration = microsToNanos(zipkinSpan.duration);
+    const hasError = isErrorTag(tags);
+
+    return {
+      traceId: zipkinSpan.traceId,
+      spanId,
+      parentSpanId,
+      operationName: String(zipkinSpan.name || 'unknown').slice(0, 255),
+      serviceName,
+      tenant,
+      system,
+      kind: zipkinSpan.kind ? String(zipkinSpan.kind).toLowerCase() : 'internal',
+      startTime,
+      endTime: new Date(startTime.getTime() + Math.round(duration / 1000000)),
+      duration,
+      status: hasError ? 'error' : 'unset',
+      statusMessage: hasError && typeof tags['error'] === 'string' ? tags['error'] : undefined,
+      attributes: tags,
+      events: (zipkinSpan.annotations || []).map((annotation: any) => ({
+        name: annotation.value,
+        timestamp: microsToDate(annotation.timestamp).toISOString(),
+        attributes: {}
+      })),
+      links: [],
+      resource: { 'service.name': serviceName }
+    };
+  });
+
+  return groupTraces('zipkin', spans);
+}
+
+// Jaeger tags are [{ key, type, value }] lists
+function jaegerTagsToAttributes(tags: any[] | undefined): Record<string, any> {
+  const attributes: Record<string, any> = {};
+  (tags || []).forEach(tag => {
+    if (tag && typeof tag.key === 'string') {
+      attributes[tag.key] = tag.value;
+    }
+  });
+  return attributes;
+}
+
+// Convert a Jaeger UI export ({ data: [trace] }), a single trace or a list of traces
+export function convertJaegerTraces(json: any): ImportedTraces {
+  const jaegerTraces: any[] = Array.isArray(json?.data) ? json.data : Array.isArray(json) ? json : [json];
+  const spans: InsertSpan[] = [];
+
+  jaegerTraces.forEach(jaegerTrace => {
+    const processes = jaegerTrace?.processes || {};
+
+    (jaegerTrace?.spans || []).forEach((jaegerSpan: any) => {
+      const process = processes[jaegerSpan.processID] || jaegerSpan.process || {};
+      const serviceName = String(process.serviceName || 'unknown_service').slice(0, 255);
+      const resource = { ...jaegerTagsToAttributes(process.tags), 'service.name': serviceName };
+      const { tenant, system } = resolveTenantAndSystem(resource, serviceName);
+      const attributes = jaegerTagsToAttributes(jaegerSpan.tags);
+
+      const references: any[] = jaegerSpan.references || [];
+      const parentRef = references.find(r => r.refType === 'CHILD_OF') || references.find(r => r.refType === 'FOLLOWS_FROM');
+      const parentSpanId = parentRef?.spanID || jaegerSpan.parentSpanID || null;
+
+      const startTime = microsToDate(jaegerSpan.startTime);
+      const duration = microsToNanos(jaegerSpan.duration);
+      const hasError = isErrorTag(attributes);
+
+      spans.push({
+        traceId: jaegerSpan.traceID || jaegerTrace.traceID,
+        spanId: jaegerSpan.spanID,
+        parentSpanId: parentSpanId && parentSpanId !== jaegerSpan.spanID ? parentSpanId : null,
+        operationName: String(jaegerSpan.operationName || 'unknown').slice(0, 255),
+        serviceName,
+        tenant,
+        system,
+        kind: String(attributes['span.kind'] || 'internal').toLowerCase(),
+        startTime,
+        endTime: new Date(startTime.getTime() + Math.round(duration / 1000000)),
+        duration,
+        status: hasError ? 'error' : 'unset',
+        statusMessage: attributes['otel.status_description'] || undefined,
+        attributes,
+        events: (jaegerSpan.logs || []).map((log: any) => {
+          const fields = jaegerTagsToAttributes(log.fields);
+          return {
+            name: fields['event'] || fields['message'] || 'log',
+            timestamp: microsToDate(log.timestamp).toISOString(),
+            attributes: fields
+          };
+        }),
+        links: references
+          .filter(r => r !== parentRef)
+          .map(r => ({ traceId: r.traceID, spanId: r.spanID, attributes: { 'jaeger.ref_type': r.refType } })),
+        resource
+      });
+    });
+  });
+
+  return groupTraces('jaeger', spans);
+}
+
+// Parse an uploaded Zipkin or Jaeger JSON export
+export function parseTraceFile(json: any): ImportedTraces {
+  const format = detectTraceFormat(json);
+
+  if (format === 'zipkin') {
+    return convertZipkinTraces(json);
+  }
+  if (format === 'jaeger') {
+    return convertJaegerTraces(json);
+  }
+
+  throw new Error("Unrecognized JSON file. Expected a Zipkin v2 or Jaeger trace export.");
+}
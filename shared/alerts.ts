@@ -0,0 +1,48 @@
+// Alert rule catalog shared by the alert engine and the rule editor
+export type AlertScope = 'edge' | 'service';
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+export type AlertStatus = 'pending' | 'firing' | 'resolved';
+
+export const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<='];
+
+// RED metrics come from spans and network events over the rule's window;
+// resource metrics from the latest service_metrics sample
+export const RED_ALERT_METRICS = ['errorRate', 'rate', 'p50', 'p90', 'p99'] as const;
+export const RESOURCE_ALERT_METRICS = ['cpuUsage', 'memoryUsage', 'diskUsage'] as const;
+
+export type AlertMetric = typeof RED_ALERT_METRICS[number] | typeof RESOURCE_ALERT_METRICS[number];
+
+export const ALERT_METRICS: Record<AlertScope, readonly AlertMetric[]> = {
+  edge: RED_ALERT_METRICS,
+  service: [...RED_ALERT_METRICS, ...RESOURCE_ALERT_METRICS]
+};
+
+export const ALERT_METRIC_UNITS: Record<AlertMetric, string> = {
+  errorRate: '%',
+  rate: 'req/s',
+  p50: 'ms',
+  p90: 'ms',
+  p99: 'ms',
+  cpuUsage: '%',
+  memoryUsage: '%',
+  diskUsage: '%'
+};
+
+// /api/alerts entry: an alert state joined with its rule
+export interface ActiveAlert {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  scope: AlertScope;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  key: string; // service name, or "source->target" node ids for edges
+  status: AlertStatus;
+  value: number | null;
+  pendingSince: string | null;
+  firedAt: string | null;
+  resolvedAt: string | null;
+}
+
+export const edgeAlertKey = (source: string, target: string) => `${source}->${target}`;
@@ -0,0 +1,156 @@
+// Conformance of the observed call graph to a declared (intended) topology
+export type ConformanceFinding = 'undeclared-call' | 'unknown-service' | 'unused-edge';
+
+export type ConformanceState = ConformanceFinding | 'conformant' | 'unobserved';
+
+export interface ConformanceEntry {
+  id: string;
+  element: 'node' | 'edge';
+  label: string;
+  state: ConformanceState;
+  calls: number;
+  errors: number;
+}
+
+export interface ConformanceCheck {
+  // Union of both graphs at service level; every node and edge carries its `conformance` entry
+  data: { nodes: any[]; edges: any[] };
+  findings: ConformanceEntry[];
+  summary: Record<ConformanceFinding, number>;
+}
+
+export interface ConformanceReport extends ConformanceCheck {
+  diagram: { id: number; name: string };
+  window: { from: string; to: string };
+}
+
+const FINDING_ORDER: ConformanceFinding[] = ['undeclared-call', 'unknown-service', 'unused-edge'];
+
+// Kubernetes imports link a Service to the workloads it selects; traffic to either name is the same service
+const ALIAS_EDGE_LABEL = 'selector';
+
+const endpointId = (end: any): string => typeof end === 'string' ? end : end?.id;
+
+const serviceName = (node: any): string => node.service || node.id;
+
+// Declared service names, with every alias (Service names, node ids) resolved to one canonical name
+function declaredServices(declared: { nodes: any[]; edges: any[] }) {
+  const nameOf = new Map<string, string>(declared.nodes.map(node => [node.id, serviceName(node)]));
+  const canonical = new Map<string, string>();
+  const resolve = (name: string): string => {
+    const next = canonical.get(name);
+    return next && next !== name ? resolve(next) : name;
+  };
+
+  declared.nodes.forEach(node => canonical.set(serviceName(node), serviceName(node)));
+  declared.edges
+    .filter(edge => edge.label === ALIAS_EDGE_LABEL)
+    .forEach(edge => {
+      const service = resolve(nameOf.get(endpointId(edge.source)) || endpointId(edge.source));
+      const workload = resolve(nameOf.get(endpointId(edge.target)) || endpointId(edge.target));
+      if (service !== workload) canonical.set(service, workload);
+    });
+
+  const aliases = new Map<string, string>();
+  canonical.forEach((_, name) => aliases.set(name, resolve(name)));
+  nameOf.forEach((name, id) => aliases.set(id, resolve(name)));
+
+  const nodes = new Map<string, any>();
+  declared.nodes.forEach(node => {
+    const name = aliases.get(node.id)!;
+    if (!nodes.has(name)) nodes.set(name, node);
+  });
+
+  return { aliases, nodes };
+}
+
+function entry(id: string, element: 'node' | 'edge', label: string, state: ConformanceState, calls = 0, errors = 0): ConformanceEntry {
+  return { id, element, label, state, calls, errors };
+}
+
+export function checkConformance(
+  declared: { nodes: any[]; edges: any[] },
+  observed: { nodes: any[]; edges: any[] }
+): ConformanceCheck {
+  const { aliases, nodes: declaredNodes } = declaredServices(declared);
+  const resolve = (name: string) => aliases.get(name) || name;
+
+  const declaredEdges = new Map<string, any>();
+  declared.edges
+    .filter(edge => edge.label !== ALIAS_EDGE_LABEL)
+    .forEach(edge => {
+      const source = resolve(endpointId(edge.source));
+      const target = resolve(endpointId(edge.target));
+      const id = `${source}-${target}`;
+      if (source !== target && !declaredEdges.has(id)) declaredEdges.set(id, { ...edge, id, source, target });
+    });
+
+  // Observed graph at service level; calls to a Service and to its workload merge
+  const observedNodes = new Map<string, any>();
+  observed.nodes.forEach(node => {
+    const name = resolve(serviceName(node));
+    const existing = observedNodes.get(name);
+    observedNodes.set(name, existing ? { ...existing, count: Number(existing.count || 0) + Number(node.count || 0) } : node);
+  });
+  const observedNames = new Map<string, string>(observed.nodes.map(node => [node.id, resolve(serviceName(node))]));
+  const observedEdges = new Map<string, any>();
+  observed.edges.forEach(edge => {
+    const source = observedNames.get(endpointId(edge.source)) || resolve(endpointId(edge.source));
+    const target = observedNames.get(endpointId(edge.target)) || resolve(endpointId(edge.target));
+    if (source === target) return;
+    const id = `${source}-${target}`;
+    const existing = observedEdges.get(id);
+    observedEdges.set(id, existing ? {
+      ...existing,
+      connectionCount: Number(existing.connectionCount || 0) + Number(edge.connectionCount || 0),
+      errorCount: Number(existing.errorCount || 0) + Number(edge.errorCount || 0)
+    } : { ...edge, id, source, target });
+  });
+
+  const nodeNames = Array.from(new Set([...Array.from(declaredNodes.keys()), ...Array.from(observedNodes.keys())]));
+  const nodes = nodeNames.map(name => {
+    const intended = declaredNodes.get(name);
+    const actual = observedNodes.get(name);
+    const state: ConformanceState = !intended ? 'unknown-service' : actual ? 'conformant' : 'unobserved';
+    return {
+      ...(actual || {}),
+      ...(intended || {}),
+      id: name,
+      label: name,
+      service: name,
+      tenant: actual?.tenant || intended?.tenant,
+      system: actual?.system || intended?.system,
+      count: Number(actual?.count || 0),
+      conformance: entry(name, 'node', name, state, Number(actual?.count || 0))
+    };
+  });
+
+  const edgeIds = Array.from(new Set([...Array.from(declaredEdges.keys()), ...Array.from(observedEdges.keys())]));
+  const edges = edgeIds.map(id => {
+    const intended = declaredEdges.get(id);
+    const actual = observedEdges.get(id);
+    const state: ConformanceState = !intended ? 'undeclared-call' : actual ? 'conformant' : 'unused-edge';
+    const calls = Number(actual?.connectionCount || 0);
+    const errors = Number(actual?.errorCount || 0);
+    const { source, target } = (actual || intended)!;
+    return {
+      ...(intended || {}),
+      ...(actual || {}),
+      id,
+      connectionCount: calls,
+      errorCount: errors,
+      conformance: entry(id, 'edge', `${source} → ${target}`, state, calls, errors)
+    };
+  });
+
+  const findings = [...edges, ...nodes]
+    .map((item): ConformanceEntry => item.conformance)
+    .filter(item => FINDING_ORDER.includes(item.state as ConformanceFinding))
+    .sort((a, b) => FINDING_ORDER.indexOf(a.state as ConformanceFinding) - FINDING_ORDER.indexOf(b.state as ConformanceFinding)
+      || b.calls - a.calls);
+
+  const summary = Object.fromEntries(FINDING_ORDER.map(finding => [finding, 0])) as Record<ConformanceFinding, number>;
+  findings.forEach(item => summary[item.state as ConformanceFinding]++);
+
+  return { data: { nodes, edges }, findings, summary };
+}
@@ -0,0 +1,140 @@
+import { getSpanHierarchy, type HierarchySpan } from "./spanHierarchy";
+
+export interface CriticalPathSpan extends HierarchySpan {
+  serviceName: string;
+  operationName: string;
+  endTime?: string | Date | null;
+  duration: number | null; // nanoseconds
+}
+
+// Time a span spent on the critical path, in ms relative to the trace start
+export interface CriticalPathSegment {
+  spanId: string;
+  serviceName: string;
+  operationName: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface CriticalPath {
+  entryOperation: string;
+  totalMs: number;
+  segments: CriticalPathSegment[];
+  services: Array<{ service: string; ms: number }>;
+}
+
+export interface CriticalPathServiceSummary {
+  service: string;
+  traces: number; // traces where the service was on the critical path
+  share: number; // traces / total traces, 0-1
+  avgMs: number; // average critical time per trace it appeared in
+  latencyShare: number; // fraction of all critical time, 0-1
+}
+
+export interface CriticalPathSummary {
+  operation: string | null;
+  traceCount: number;
+  services: CriticalPathServiceSummary[];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const spanStart = (span: CriticalPathSpan) => new Date(span.startTime).getTime();
+
+function spanEnd(span: CriticalPathSpan): number {
+  if (span.duration !== null && span.duration !== undefined) {
+    return spanStart(span) + span.duration / 1000000;
+  }
+  return span.endTime ? new Date(span.endTime).getTime() : spanStart(span);
+}
+
+// Walk back from the end of the trace: at every point the critical span is the child that finished
+// last before the parent resumed, and any time not covered by such a child is the parent's own work
+export function computeCriticalPath(spans: CriticalPathSpan[]): CriticalPath | null {
+  const hierarchy = getSpanHierarchy(spans);
+  if (hierarchy.length === 0) return null;
+
+  const nodeMap = new Map(hierarchy.map(span => [span.spanId, span]));
+  const roots = hierarchy.filter(span => span.level === 0);
+  const root = roots.reduce((latest, span) => spanEnd(span) > spanEnd(latest) ? span : latest, roots[0]);
+  const traceStart = Math.min(...spans.map(spanStart));
+  const segments: CriticalPathSegment[] = [];
+
+  const addSegment = (span: CriticalPathSpan, start: number, end: number) => {
+    if (end <= start) return;
+    segments.push({
+      spanId: span.spanId,
+      serviceName: span.serviceName,
+      operationName: span.operationName,
+      startMs: round(start - traceStart),
+      endMs: round(end - traceStart)
+    });
+  };
+
+  const walk = (span: CriticalPathSpan & { children: string[] }, until: number) => {
+    const start = spanStart(span);
+    let cursor = Math.min(spanEnd(span), until);
+
+    const children = span.children
+      .map(id => nodeMap.get(id)!)
+      .sort((a, b) => spanEnd(b) - spanEnd(a));
+
+    for (const child of children) {
+      if (spanStart(child) >= cursor) continue;
+      const childEnd = Math.min(spanEnd(child), cursor);
+      addSegment(span, childEnd, cursor);
+      walk(child, childEnd);
+      cursor = Math.max(spanStart(child), start);
+      if (cursor <= start) break;
+    }
+
+    addSegment(span, start, cursor);
+  };
+
+  walk(root, spanEnd(root));
+  segments.reverse();
+
+  const serviceMs = new Map<string, number>();
+  segments.forEach(segment => {
+    serviceMs.set(segment.serviceName, (serviceMs.get(segment.serviceName) || 0) + segment.endMs - segment.startMs);
+  });
+
+  return {
+    entryOperation: `${root.serviceName}_${root.operationName}`,
+    totalMs: round(spanEnd(root) - spanStart(root)),
+    segments,
+    services: Array.from(serviceMs.entries())
+      .map(([service, ms]) => ({ service, ms: round(ms) }))
+      .sort((a, b) => b.ms - a.ms)
+  };
+}
+
+// How often, and for how long, each service sits on the critical path across many traces
+export function aggregateCriticalPaths(operation: string | null, paths: CriticalPath[]): CriticalPathSummary {
+  const totals = new Map<string, { traces: number; ms: number }>();
+  let allMs = 0;
+
+  paths.forEach(path => {
+    path.services.forEach(({ service, ms }) => {
+      const total = totals.get(service) || { traces: 0, ms: 0 };
+      total.traces += 1;
+      total.ms += ms;
+      totals.set(service, total);
+      allMs += ms;
+    });
+  });
+
+  return {
+    operation,
+    traceCount: paths.length,
+    services: Array.from(totals.entries())
+      .map(([service, total]) => ({
+        service,
+        traces: total.traces,
+        share: round(total.traces / paths.length),
+        avgMs: round(total.ms / total.traces),
+        latencyShare: allMs > 0 ? round(total.ms / allMs) : 0
+      }))
+      .sort((a, b) => b.share - a.share || b.latencyShare - a.latencyShare)
+  };
+}
@@ -0,0 +1,84 @@
+import type { DiagramRevision } from "./schema";
+
+export interface DiagramFieldChange {
+  key: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface DiagramRevisionDiff {
+  from: number;
+  to: number;
+  nodes: {
+    added: any[];
+    removed: any[];
+    changed: Array<{ id: string; fields: DiagramFieldChange[] }>;
+  };
+  edges: {
+    added: any[];
+    removed: any[];
+    changed: Array<{ id: string; fields: DiagramFieldChange[] }>;
+  };
+  settings: DiagramFieldChange[];
+  layout: DiagramFieldChange | null;
+  name: DiagramFieldChange | null;
+}
+
+// Edge ids from file imports are positional, so edges are matched by endpoints and label
+function edgeKey(edge: any): string {
+  const source = typeof edge.source === 'string' ? edge.source : edge.source?.id;
+  const target = typeof edge.target === 'string' ? edge.target : edge.target?.id;
+  return `${source}->${target}${edge.label ? `:${edge.label}` : ''}`;
+}
+
+// Shallow field comparison; nested values are compared by their JSON form
+function compareFields(before: Record<string, any>, after: Record<string, any>): DiagramFieldChange[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: DiagramFieldChange[] = [];
+
+  keys.forEach(key => {
+    const from = before?.[key];
+    const to = after?.[key];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ key, from, to });
+    }
+  });
+
+  return changes.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function diffCollection(before: any[], after: any[], keyOf: (item: any) => string) {
+  const beforeMap = new Map(before.map(item => [keyOf(item), item]));
+  const afterMap = new Map(after.map(item => [keyOf(item), item]));
+
+  const added = after.filter(item => !beforeMap.has(keyOf(item)));
+  const removed = before.filter(item => !afterMap.has(keyOf(item)));
+  const changed: Array<{ id: string; fields: DiagramFieldChange[] }> = [];
+
+  afterMap.forEach((item, key) => {
+    const previous = beforeMap.get(key);
+    if (!previous) return;
+    const fields = compareFields(previous, item);
+    if (fields.length > 0) {
+      changed.push({ id: key, fields });
+    }
+  });
+
+  return { added, removed, changed };
+}
+
+// Structural diff between two revisions of the same diagram
+export function diffDiagramRevisions(from: DiagramRevision, to: DiagramRevision): DiagramRevisionDiff {
+  const fromData = (from.data || {}) as { nodes?: any[]; edges?: any[] };
+  const toData = (to.data || {}) as { nodes?: any[]; edges?: any[] };
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    nodes: diffCollection(fromData.nodes || [], toData.nodes || [], node => node.id),
+    edges: diffCollection(fromData.edges || [], toData.edges || [], edgeKey),
+    settings: compareFields(from.settings as Record<string, any>, to.settings as Record<string, any>),
+    layout: from.layout !== to.layout ? { key: 'layout', from: from.layout, to: to.layout } : null,
+    name: from.name !== to.name ? { key: 'name', from: from.name, to: to.name } : null
+  };
+}
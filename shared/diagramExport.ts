@@ -0,0 +1,266 @@
+// Text exports of a diagram for docs and other tools: Graphviz DOT, Mermaid flowchart, GraphML and draw.io.
+// Tenants become clusters/subgraphs; edge labels carry the call count and status
+export type DiagramExportFormat = 'dot' | 'mermaid' | 'graphml' | 'drawio';
+
+export const DIAGRAM_EXPORT_FORMATS: Record<DiagramExportFormat, { label: string; extension: string; contentType: string }> = {
+  dot: { label: 'Graphviz DOT', extension: 'dot', contentType: 'text/vnd.graphviz' },
+  mermaid: { label: 'Mermaid', extension: 'mmd', contentType: 'text/plain' },
+  graphml: { label: 'GraphML', extension: 'graphml', contentType: 'application/xml' },
+  drawio: { label: 'draw.io', extension: 'drawio', contentType: 'application/xml' }
+};
+
+export const isDiagramExportFormat = (value: unknown): value is DiagramExportFormat =>
+  typeof value === 'string' && Object.keys(DIAGRAM_EXPORT_FORMATS).includes(value);
+
+interface ExportNode {
+  id: string;
+  label: string;
+  tenant?: string;
+  node: any;
+}
+
+interface ExportEdge {
+  source: string;
+  target: string;
+  label: string;
+  isError: boolean;
+  edge: any;
+}
+
+const endpointId = (end: any): string => typeof end === 'string' ? end : end?.id;
+
+const nodeLabel = (node: any): string =>
+  node.service && node.label && node.label !== node.service ? `${node.service}: ${node.label}` : node.label || node.id;
+
+const isErrorEdge = (edge: any) => edge.status === 'error' || Number(edge.errorCount || 0) > 0;
+
+// "HTTP Call · 120 calls · error"
+export function edgeCaption(edge: any): string {
+  const calls = Number(edge.connectionCount ?? edge.count ?? 0);
+  return [
+    edge.label,
+    calls > 0 ? `${calls} ${calls === 1 ? 'call' : 'calls'}` : null,
+    edge.status || (Number(edge.errorCount || 0) > 0 ? 'error' : null)
+  ].filter(Boolean).join(' · ');
+}
+
+function prepare(data: { nodes: any[]; edges: any[] }) {
+  const nodes: ExportNode[] = data.nodes.map(node => ({ id: node.id, label: nodeLabel(node), tenant: node.tenant || undefined, node }));
+  const ids = new Set(nodes.map(node => node.id));
+  const edges: ExportEdge[] = data.edges
+    .map(edge => ({ source: endpointId(edge.source), target: endpointId(edge.target), label: edgeCaption(edge), isError: isErrorEdge(edge), edge }))
+    .filter(edge => ids.has(edge.source) && ids.has(edge.target));
+
+  // Tenants in order of first appearance; nodes without one stay at the top level
+  const tenants = new Map<string, ExportNode[]>();
+  nodes.filter(node => node.tenant).forEach(node => tenants.set(node.tenant!, [...(tenants.get(node.tenant!) || []), node]));
+  const ungrouped = nodes.filter(node => !node.tenant);
+
+  return { nodes, edges, tenants, ungrouped };
+}
+
+const dotString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+export function toDot(data: { nodes: any[]; edges: any[] }, name: string = 'diagram'): string {
+  const { edges, tenants, ungrouped } = prepare(data);
+  const nodeLine = (node: ExportNode, indent: string) => `${indent}${dotString(node.id)} [label=${dotString(node.label)}];`;
+
+  return [
+    `digraph ${dotString(name)} {`,
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded];',
+    ...Array.from(tenants).flatMap(([tenant, members], index) => [
+      `  subgraph ${dotString(`cluster_${index}`)} {`,
+      `    label=${dotString(tenant)};`,
+      ...members.map(node => nodeLine(node, '    ')),
+      '  }'
+    ]),
+    ...ungrouped.map(node => nodeLine(node, '  ')),
+    ...edges.map(edge => {
+      const attributes = [edge.label ? `label=${dotString(edge.label)}` : null, edge.isError ? 'color="#ef4444"' : null].filter(Boolean);
+      return `  ${dotString(edge.source)} -> ${dotString(edge.target)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`;
+    }),
+    '}',
+    ''
+  ].join('\n');
+}
+
+// Mermaid ids must be plain words, so nodes and subgraphs get positional ids and keep their names as labels
+const mermaidString = (value: string) => `"${value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+
+export function toMermaid(data: { nodes: any[]; edges: any[] }): string {
+  const { nodes, edges, tenants, ungrouped } = prepare(data);
+  const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+  const nodeLine = (node: ExportNode, indent: string) => `${indent}${ids.get(node.id)}[${mermaidString(node.label)}]`;
+  const errorLinks = edges.map((edge, index) => edge.isError ? index : -1).filter(index => index >= 0);
+
+  return [
+    'flowchart LR',
+    ...Array.from(tenants).flatMap(([tenant, members], index) => [
+      `  subgraph t${index}[${mermaidString(tenant)}]`,
+      ...members.map(node => nodeLine(node, '    ')),
+      '  end'
+    ]),
+    ...ungrouped.map(node => nodeLine(node, '  ')),
+    ...edges.map(edge => `  ${ids.get(edge.source)} -->${edge.label ? `|${mermaidString(edge.label)}|` : ''} ${ids.get(edge.target)}`),
+    ...(errorLinks.length > 0 ? [`  linkStyle ${errorLinks.join(',')} stroke:#ef4444`] : []),
+    ''
+  ].join('\n');
+}
+
+const xmlString = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const GRAPHML_KEYS: Array<{ id: string; for: 'node' | 'edge'; name: string; type: string }> = [
+  { id: 'label', for: 'node', name: 'label', type: 'string' },
+  { id: 'service', for: 'node', name: 'service', type: 'string' },
+  { id: 'tenant', for: 'node', name: 'tenant', type: 'string' },
+  { id: 'system', for: 'node', name: 'system', type: 'string' },
+  { id: 'edgeLabel', for: 'edge', name: 'label', type: 'string' },
+  { id: 'calls', for: 'edge', name: 'calls', type: 'int' },
+  { id: 'status', for: 'edge', name: 'status', type: 'string' }
+];
+
+// Tenants are group nodes with a nested graph, which yEd and Gephi open as groups
+export function toGraphML(data: { nodes: any[]; edges: any[] }, name: string = 'diagram'): string {
+  const { edges, tenants, ungrouped } = prepare(data);
+  const dataLine = (indent: string, key: string, value: unknown) =>
+    value === undefined || value === null || value === '' ? [] : [`${indent}<data key="${key}">${xmlString(String(value))}</data>`];
+  const nodeLines = (node: ExportNode, indent: string) => [
+    `${indent}<node id="${xmlString(node.id)}">`,
+    ...dataLine(`${indent}  `, 'label', node.label),
+    ...dataLine(`${indent}  `, 'service', node.node.service),
+    ...dataLine(`${indent}  `, 'tenant', node.tenant),
+    ...dataLine(`${indent}  `, 'system', node.node.system),
+    `${indent}</node>`
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...GRAPHML_KEYS.map(key => `  <key id="${key.id}" for="${key.for}" attr.name="${key.name}" attr.type="${key.type}"/>`),
+    `  <graph id="${xmlString(name)}" edgedefault="directed">`,
+    ...Array.from(tenants).flatMap(([tenant, members], index) => [
+      `    <node id="tenant-${index}">`,
+      ...dataLine('      ', 'label', tenant),
+      `      <graph id="tenant-${index}:" edgedefault="directed">`,
+      ...members.flatMap(node => nodeLines(node, '        ')),
+      '      </graph>',
+      '    </node>'
+    ]),
+    ...ungrouped.flatMap(node => nodeLines(node, '    ')),
+    ...edges.flatMap((edge, index) => [
+      `    <edge id="e${index}" source="${xmlString(edge.source)}" target="${xmlString(edge.target)}">`,
+      ...dataLine('      ', 'edgeLabel', edge.edge.label),
+      ...dataLine('      ', 'calls', edge.edge.connectionCount ?? edge.edge.count),
+      ...dataLine('      ', 'status', edge.edge.status || (edge.isError ? 'error' : undefined)),
+      '    </edge>'
+    ]),
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n');
+}
+
+// Canvas geometry: nodes are circles of this radius centred on their x/y, labels below
+const DRAWIO_NODE_RADIUS = 20;
+const DRAWIO_CONTAINER_PADDING = 30;
+const DRAWIO_CONTAINER_HEADER = 26;
+// Grid spacing for nodes without a layout
+const DRAWIO_GRID_SPACING = 120;
+
+const DRAWIO_NODE_STYLE = 'ellipse;whiteSpace=wrap;html=1;fillColor=#1976D2;strokeColor=#ffffff;strokeWidth=3;'
+  + 'verticalLabelPosition=bottom;verticalAlign=top;fontSize=11;';
+
+// Errors and 5xx red, 4xx amber, everything else the neutral edge color
+function drawioEdgeColor(edge: any, isError: boolean): string {
+  const status = String(edge.status || '');
+  if (isError || status.startsWith('5')) return '#ef4444';
+  if (status.startsWith('4')) return '#f59e0b';
+  return '#6b7280';
+}
+
+const drawioEdgeStyle = (edge: ExportEdge) => [
+  'endArrow=classic',
+  'html=1',
+  'rounded=0',
+  `strokeColor=${drawioEdgeColor(edge.edge, edge.isError)}`,
+  `strokeWidth=${edge.isError ? 2 : 1}`,
+  'fontSize=10',
+  'labelBackgroundColor=#ffffff'
+].join(';') + ';';
+
+// draw.io file of the laid-out diagram: node x/y (as the canvas computed them) are kept, tenants become
+// containers around their nodes and node cells sit inside them at relative coordinates
+export function toDrawio(data: { nodes: any[]; edges: any[] }, name: string = 'diagram'): string {
+  const { nodes, edges, tenants, ungrouped } = prepare(data);
+  const cellIds = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+
+  // Nodes that were never laid out have no coordinates, or all sit at the origin
+  const positioned = nodes.every(node => Number.isFinite(node.node.x) && Number.isFinite(node.node.y))
+    && (nodes.length < 2 || new Set(nodes.map(node => `${node.node.x},${node.node.y}`)).size > 1);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(nodes.length)));
+  const center = new Map(nodes.map((node, index) => [node.id, positioned
+    ? { x: Number(node.node.x), y: Number(node.node.y) }
+    : { x: DRAWIO_GRID_SPACING * (index % columns + 0.5), y: DRAWIO_GRID_SPACING * (Math.floor(index / columns) + 0.5) }
+  ]));
+
+  const geometry = (x: number, y: number, width: number, height: number) =>
+    `<mxGeometry x="${Math.round(x)}" y="${Math.round(y)}" width="${Math.round(width)}" height="${Math.round(height)}" as="geometry"/>`;
+  const nodeCell = (node: ExportNode, parent: string, offset: { x: number; y: number }) => {
+    const { x, y } = center.get(node.id)!;
+    return [
+      `        <mxCell id="${cellIds.get(node.id)}" value="${xmlString(node.label)}" style="${DRAWIO_NODE_STYLE}" vertex="1" parent="${parent}">`,
+      `          ${geometry(x - DRAWIO_NODE_RADIUS - offset.x, y - DRAWIO_NODE_RADIUS - offset.y, DRAWIO_NODE_RADIUS * 2, DRAWIO_NODE_RADIUS * 2)}`,
+      '        </mxCell>'
+    ];
+  };
+
+  const containers = Array.from(tenants).flatMap(([tenant, members], index) => {
+    const xs = members.map(node => center.get(node.id)!.x);
+    const ys = members.map(node => center.get(node.id)!.y);
+    const margin = DRAWIO_NODE_RADIUS + DRAWIO_CONTAINER_PADDING;
+    const origin = { x: Math.min(...xs) - margin, y: Math.min(...ys) - margin - DRAWIO_CONTAINER_HEADER };
+    const width = Math.max(...xs) + margin - origin.x;
+    // Extra room below the lowest nodes for their labels
+    const height = Math.max(...ys) + margin + DRAWIO_CONTAINER_PADDING - origin.y;
+    const id = `t${index}`;
+    return [
+      `        <mxCell id="${id}" value="${xmlString(tenant)}" style="swimlane;rounded=1;html=1;startSize=${DRAWIO_CONTAINER_HEADER};fillColor=#f5f3ff;strokeColor=#8b5cf6;fontStyle=1;" vertex="1" parent="1">`,
+      `          ${geometry(origin.x, origin.y, width, height)}`,
+      '        </mxCell>',
+      ...members.flatMap(node => nodeCell(node, id, origin))
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<mxfile host="network-map">',
+    `  <diagram id="network-map" name="${xmlString(name)}">`,
+    '    <mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" fold="1" page="0">',
+    '      <root>',
+    '        <mxCell id="0"/>',
+    '        <mxCell id="1" parent="0"/>',
+    ...containers,
+    ...ungrouped.flatMap(node => nodeCell(node, '1', { x: 0, y: 0 })),
+    ...edges.flatMap((edge, index) => [
+      `        <mxCell id="e${index}" value="${xmlString(edge.label)}" style="${drawioEdgeStyle(edge)}" edge="1" parent="1" source="${cellIds.get(edge.source)}" target="${cellIds.get(edge.target)}">`,
+      '          <mxGeometry relative="1" as="geometry"/>',
+      '        </mxCell>'
+    ]),
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>',
+    ''
+  ].join('\n');
+}
+
+export function exportDiagram(data: { nodes: any[]; edges: any[] }, format: DiagramExportFormat, name?: string): string {
+  switch (format) {
+    case 'dot': return toDot(data, name);
+    case 'mermaid': return toMermaid(data);
+    case 'graphml': return toGraphML(data, name);
+    case 'drawio': return toDrawio(data, name);
+  }
+}
@@ -0,0 +1,33 @@
+// Data generators controlled through /api/generators
+export const GENERATOR_NAMES = ['network', 'otel', 'realistic', 'metrics'] as const;
+
+export type GeneratorName = typeof GENERATOR_NAMES[number];
+
+export interface GeneratorStatus {
+  name: GeneratorName;
+  description: string;
+  running: boolean;
+  intervalMs: number; // current interval while running, otherwise the one used next
+  seed: number | null; // seed of the running generator; null for unseeded runs
+  startedAt: string | null;
+  eventsProduced: number; // rows written since the last start
+  lastRunAt: string | null;
+  lastError: { message: string; at: string } | null;
+  batch: GeneratorBatchJob | null; // latest backfill
+}
+
+// Backfill started by POST /api/generators/:name/batch; it runs in the background and reports
+// its progress in the generator's status
+export interface GeneratorBatchJob {
+  name: GeneratorName;
+  state: 'running' | 'done' | 'failed';
+  count: number; // generator passes, e.g. traces for the trace generators
+  completed: number;
+  rowsWritten: number;
+  from: string;
+  to: string;
+  seed: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
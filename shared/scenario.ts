@@ -0,0 +1,157 @@
+import { z } from 'zod';
+
+// Scenario DSL for the synthetic generators: tenants and services, a probabilistic call graph,
+// latency distributions, error rates and timed faults. Written as YAML or JSON, loaded with
+// PUT /api/scenario and read by server/scenario.ts on every generator pass
+export const latencySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('constant'), ms: z.number().nonnegative() }),
+  z.object({ type: z.literal('uniform'), minMs: z.number().nonnegative(), maxMs: z.number().nonnegative() }),
+  z.object({ type: z.literal('normal'), meanMs: z.number().nonnegative(), stddevMs: z.number().nonnegative() }),
+  z.object({ type: z.literal('lognormal'), medianMs: z.number().positive(), p99Ms: z.number().positive() })
+]);
+
+export const scenarioServiceSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1).default('1.0.0'),
+  operations: z.array(z.string().min(1)).min(1),
+  latency: latencySchema.default({ type: 'uniform', minMs: 10, maxMs: 100 }),
+  errorRate: z.number().min(0).max(1).default(0.02),
+  deployment: z.enum(['kubernetes', 'vm']).default('kubernetes'),
+  baseLoad: z.number().min(0).max(1).default(0.5) // share of capacity used, drives resource metrics
+});
+
+export const scenarioTenantSchema = z.object({
+  name: z.string().min(1),
+  services: z.array(scenarioServiceSchema).min(1)
+});
+
+// Where traces start; an entrypoint is picked by weight for every trace
+export const scenarioEntrypointSchema = z.object({
+  service: z.string().min(1),
+  operation: z.string().min(1).optional(),
+  weight: z.number().positive().default(1)
+});
+
+// A caller makes each outgoing call with its probability; latency and errorRate override the callee's
+export const scenarioCallSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  probability: z.number().min(0).max(1).default(1),
+  operation: z.string().min(1).optional(),
+  latency: latencySchema.optional(),
+  errorRate: z.number().min(0).max(1).optional()
+});
+
+// Faults start startSec after the scenario is loaded, last durationSec and repeat every everySec
+const faultTiming = {
+  service: z.string().min(1),
+  startSec: z.number().nonnegative().default(0),
+  durationSec: z.number().positive(),
+  everySec: z.number().positive().optional()
+};
+
+export const scenarioFaultSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('outage'), ...faultTiming }),
+  z.object({ type: z.literal('latency_spike'), ...faultTiming, factor: z.number().min(1).default(5) }),
+  z.object({
+    type: z.literal('degradation'),
+    ...faultTiming,
+    errorRate: z.number().min(0).max(1).default(0.3),
+    latencyFactor: z.number().min(1).default(1)
+  })
+]);
+
+export type LatencyDistribution = z.infer<typeof latencySchema>;
+export type ScenarioService = z.infer<typeof scenarioServiceSchema>;
+export type ScenarioCall = z.infer<typeof scenarioCallSchema>;
+export type ScenarioFault = z.infer<typeof scenarioFaultSchema>;
+
+const checkLatency = (latency: LatencyDistribution | undefined, path: (string | number)[], ctx: z.RefinementCtx) => {
+  if (latency?.type === 'uniform' && latency.minMs > latency.maxMs) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'minMs must not exceed maxMs', path });
+  }
+  if (latency?.type === 'lognormal' && latency.p99Ms < latency.medianMs) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'p99Ms must not be below medianMs', path });
+  }
+};
+
+// Hard limit on spans in one sampled trace; the call graph can otherwise expand factorially with fan-out
+export const MAX_TRACE_SPANS = 200;
+
+// Spans in the largest trace the call graph can produce from an entrypoint: every call with a
+// non-zero probability is made, services already on the path are skipped and the path stops at
+// maxDepth. Counting stops once it passes the limit, so the walk itself stays bounded
+export function worstCaseTraceSpans(
+  calls: Array<{ from: string; to: string; probability: number }>,
+  entry: string,
+  maxDepth: number,
+  limit: number = MAX_TRACE_SPANS
+): number {
+  const callsFrom = new Map<string, string[]>();
+  calls.filter(call => call.probability > 0).forEach(call => callsFrom.set(call.from, [...(callsFrom.get(call.from) || []), call.to]));
+
+  let count = 0;
+  const visit = (service: string, path: Set<string>) => {
+    count++;
+    if (path.size >= maxDepth) return;
+    for (const next of callsFrom.get(service) || []) {
+      if (count > limit) return;
+      if (!path.has(next)) visit(next, new Set(path).add(next));
+    }
+  };
+  visit(entry, new Set([entry]));
+  return count;
+}
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  tenants: z.array(scenarioTenantSchema).min(1),
+  entrypoints: z.array(scenarioEntrypointSchema).min(1),
+  calls: z.array(scenarioCallSchema).default([]),
+  faults: z.array(scenarioFaultSchema).default([]),
+  maxDepth: z.number().int().min(1).max(20).default(6) // longest call chain in one trace
+}).superRefine((scenario, ctx) => {
+  const services = new Set<string>();
+  scenario.tenants.forEach((tenant, t) => tenant.services.forEach((service, s) => {
+    if (services.has(service.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate service '${service.name}'`, path: ['tenants', t, 'services', s, 'name'] });
+    }
+    services.add(service.name);
+    checkLatency(service.latency, ['tenants', t, 'services', s, 'latency'], ctx);
+  }));
+
+  const checkService = (name: string, path: (string | number)[]) => {
+    if (!services.has(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown service '${name}'`, path });
+    }
+  };
+  scenario.entrypoints.forEach((entry, i) => checkService(entry.service, ['entrypoints', i, 'service']));
+  scenario.calls.forEach((call, i) => {
+    checkService(call.from, ['calls', i, 'from']);
+    checkService(call.to, ['calls', i, 'to']);
+    checkLatency(call.latency, ['calls', i, 'latency'], ctx);
+  });
+  scenario.faults.forEach((fault, i) => checkService(fault.service, ['faults', i, 'service']));
+
+  scenario.entrypoints.forEach((entry, i) => {
+    if (worstCaseTraceSpans(scenario.calls, entry.service, scenario.maxDepth) > MAX_TRACE_SPANS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Traces from '${entry.service}' can exceed ${MAX_TRACE_SPANS} spans; lower maxDepth or remove calls`,
+        path: ['entrypoints', i, 'service']
+      });
+    }
+  });
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+export type ScenarioInput = z.input<typeof scenarioSchema>;
+
+// GET /api/scenario
+export interface ScenarioState {
+  scenario: Scenario;
+  source: 'default' | 'custom';
+  loadedAt: string;
+  activeFaults: ScenarioFault[];
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, jsonb, timestamp, varchar, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, jsonb, timestamp, varchar, real, unique, boolean, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,6 +11,20 @@ export const diagrams = pgTable("diagrams", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Immutable snapshot of a diagram, written on every create/update
+export const diagramRevisions = pgTable("diagram_revisions", {
+  id: serial("id").primaryKey(),
+  diagramId: integer("diagram_id").notNull().references(() => diagrams.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(), // 1-based, per diagram
+  name: text("name").notNull(),
+  data: jsonb("data").notNull(),
+  layout: text("layout").notNull(),
+  settings: jsonb("settings").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  diagramRevisionUnique: unique().on(table.diagramId, table.revision),
+}));
+
 // OpenTelemetry Traces table
 export const traces = pgTable("traces", {
   id: serial("id").primaryKey(),
@@ -21,14 +35,16 @@ export const traces = pgTable("traces", {
   system: varchar("system", { length: 100 }).notNull(), // Individual service within tenant
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time"),
-  duration: integer("duration"), // nanoseconds
+  duration: bigint("duration", { mode: "number" }), // nanoseconds
   spanCount: integer("span_count").default(0),
   status: varchar("status", { length: 10 }).notNull().default("unset"), // unset, ok, error
   statusMessage: text("status_message"),
   attributes: jsonb("attributes").default({}),
   resource: jsonb("resource").default({}),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  startTimeIdx: index("traces_start_time_idx").on(table.startTime),
+}));
 
 // OpenTelemetry Spans table
 export const spans = pgTable("spans", {
@@ -43,7 +59,7 @@ export const spans = pgTable("spans", {
   kind: varchar("kind", { length: 20 }).notNull().default("internal"), // client, server, internal, producer, consumer
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time"),
-  duration: integer("duration"), // nanoseconds
+  duration: bigint("duration", { mode: "number" }), // nanoseconds
   status: varchar("status", { length: 10 }).notNull().default("unset"), // unset, ok, error
   statusMessage: text("status_message"),
   attributes: jsonb("attributes").default({}),
@@ -51,7 +67,9 @@ export const spans = pgTable("spans", {
   links: jsonb("links").default([]), // Array of linked spans
   resource: jsonb("resource").default({}),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  startTimeIdx: index("spans_start_time_idx").on(table.startTime),
+}));
 
 // Compatibility table for old network events format
 export const networkEvents = pgTable("network_events", {
@@ -73,7 +91,9 @@ export const networkEvents = pgTable("network_events", {
   spanId: varchar("span_id", { length: 16 }), // New field for span correlation
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   metadata: jsonb("metadata"),
-});
+}, (table) => ({
+  timestampIdx: index("network_events_timestamp_idx").on(table.timestamp),
+}));
 
 // Insert schemas for all tables
 export const insertDiagramSchema = createInsertSchema(diagrams).omit({
@@ -81,6 +101,11 @@ export const insertDiagramSchema = createInsertSchema(diagrams).omit({
   createdAt: true,
 });
 
+export const insertDiagramRevisionSchema = createInsertSchema(diagramRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTraceSchema = createInsertSchema(traces).omit({
   id: true,
   createdAt: true,
@@ -113,24 +138,116 @@ export const serviceMetrics = pgTable("service_metrics", {
   healthStatus: varchar("health_status", { length: 20 }).notNull(), // 'healthy' | 'warning' | 'critical'
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull()
-});
+}, (table) => ({
+  timestampIdx: index("service_metrics_timestamp_idx").on(table.timestamp),
+}));
 
 export const insertServiceMetricsSchema = createInsertSchema(serviceMetrics).omit({
   id: true,
   createdAt: true,
 });
 
+// User-defined alert rules evaluated by server/alertEngine.ts
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  scope: varchar("scope", { length: 20 }).notNull(), // 'edge' | 'service'
+  metric: varchar("metric", { length: 50 }).notNull(), // see ALERT_METRICS in shared/alerts.ts
+  operator: varchar("operator", { length: 2 }).notNull().default(">"), // '>' | '>=' | '<' | '<='
+  threshold: real("threshold").notNull(),
+  forSeconds: integer("for_seconds").notNull().default(0), // how long the condition must hold before firing
+  windowSeconds: integer("window_seconds").notNull().default(300), // span/event metrics are computed over this window
+  service: varchar("service", { length: 255 }), // optional: only this service (or edges touching it)
+  enabled: boolean("enabled").notNull().default(true),
+  webhookUrls: jsonb("webhook_urls").notNull().default([]), // string[]
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Current state of a rule per alerting key (service name or "source->target" edge)
+export const alertStates = pgTable("alert_states", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  key: varchar("key", { length: 512 }).notNull(),
+  status: varchar("status", { length: 10 }).notNull(), // 'pending' | 'firing' | 'resolved'
+  value: real("value"),
+  pendingSince: timestamp("pending_since"),
+  firedAt: timestamp("fired_at"),
+  resolvedAt: timestamp("resolved_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  alertStateUnique: unique().on(table.ruleId, table.key),
+}));
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Per-minute and per-hour call aggregates per edge, maintained by server/rollups.ts so long
+// range queries do not scan raw spans and events
+export const edgeRollups = pgTable("edge_rollups", {
+  id: serial("id").primaryKey(),
+  resolution: varchar("resolution", { length: 10 }).notNull(), // 'minute' | 'hour'
+  bucket: timestamp("bucket").notNull(), // start of the minute or hour
+  source: varchar("source", { length: 255 }).notNull(),
+  target: varchar("target", { length: 255 }).notNull(),
+  sourceService: varchar("source_service", { length: 255 }).notNull(),
+  targetService: varchar("target_service", { length: 255 }).notNull(),
+  sourceTenant: varchar("source_tenant", { length: 100 }).notNull(),
+  targetTenant: varchar("target_tenant", { length: 100 }).notNull(),
+  sourceSystem: varchar("source_system", { length: 100 }).notNull(),
+  targetSystem: varchar("target_system", { length: 100 }).notNull(),
+  sourceLabel: varchar("source_label", { length: 255 }),
+  targetLabel: varchar("target_label", { length: 255 }),
+  calls: integer("calls").notNull(),
+  errors: integer("errors").notNull(),
+  durationSumMs: real("duration_sum_ms").notNull(),
+  latencyHistogram: jsonb("latency_histogram").notNull().default([]), // counts per ROLLUP_LATENCY_BUCKETS_MS bucket, last is overflow
+  statusCounts: jsonb("status_counts").notNull().default({}), // calls per status, as in network_events.status
+}, (table) => ({
+  edgeRollupUnique: unique().on(table.resolution, table.bucket, table.source, table.target),
+}));
+
+// Service level objectives over entry spans; status is computed on read by server/slo.ts
+export const slos = pgTable("slos", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  objective: varchar("objective", { length: 20 }).notNull(), // 'availability' | 'latency'
+  target: real("target").notNull(), // percentage of good requests, e.g. 99.9
+  latencyThresholdMs: real("latency_threshold_ms"), // latency objectives: requests at or below this are good
+  windowDays: integer("window_days").notNull().default(30), // compliance window for the error budget
+  service: varchar("service", { length: 255 }).notNull(),
+  operation: varchar("operation", { length: 255 }), // optional: a single entry endpoint
+  tenant: varchar("tenant", { length: 100 }), // optional
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSloSchema = createInsertSchema(slos).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Type definitions
 export type InsertDiagram = z.infer<typeof insertDiagramSchema>;
 export type Diagram = typeof diagrams.$inferSelect;
+export type InsertDiagramRevision = z.infer<typeof insertDiagramRevisionSchema>;
+export type DiagramRevision = typeof diagramRevisions.$inferSelect;
 export type InsertTrace = z.infer<typeof insertTraceSchema>;
 export type Trace = typeof traces.$inferSelect;
 export type InsertSpan = z.infer<typeof insertSpanSchema>;
 export type Span = typeof spans.$inferSelect;
 export type InsertNetworkEvent = z.infer<typeof insertNetworkEventSchema>;
+// Generated events can carry when the call happened (backfills); otherwise the insert time is used
+export type InsertNetworkEventAt = InsertNetworkEvent & { timestamp?: Date };
 export type NetworkEvent = typeof networkEvents.$inferSelect;
 export type InsertServiceMetrics = z.infer<typeof insertServiceMetricsSchema>;
 export type ServiceMetrics = typeof serviceMetrics.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type AlertState = typeof alertStates.$inferSelect;
+export type EdgeRollup = typeof edgeRollups.$inferSelect;
+export type InsertSlo = z.infer<typeof insertSloSchema>;
+export type Slo = typeof slos.$inferSelect;
 
 // Data structures for diagram elements
 export const nodeSchema = z.object({
@@ -0,0 +1,70 @@
+import type { Slo } from './schema';
+
+// SLO status computed from entry span counts, shared by server/slo.ts and the SLO panel
+export type SloObjective = 'availability' | 'latency';
+export type SloHealth = 'ok' | 'burning' | 'exhausted' | 'no-data';
+
+export interface SloCounts {
+  total: number;
+  bad: number;
+}
+
+// Multi-window burn rate alerts (Google SRE workbook): a pair burns only when both its long
+// and short window exceed the threshold, so a recovered spike stops burning quickly
+export const SLO_BURN_WINDOWS = [
+  { name: 'fast', longSeconds: 60 * 60, shortSeconds: 5 * 60, threshold: 14.4 },
+  { name: 'slow', longSeconds: 6 * 60 * 60, shortSeconds: 30 * 60, threshold: 6 }
+] as const;
+
+// Every lookback the status needs besides the compliance window itself
+export const SLO_LOOKBACK_SECONDS = Array.from(new Set(
+  SLO_BURN_WINDOWS.flatMap(window => [window.longSeconds, window.shortSeconds])
+)).sort((a, b) => a - b);
+
+export interface SloBurnRate {
+  name: string;
+  threshold: number;
+  long: number;
+  short: number;
+  burning: boolean;
+}
+
+export interface SloStatus {
+  slo: Slo;
+  total: number;
+  bad: number;
+  sli: number | null; // percentage of good requests over the compliance window
+  budgetRemaining: number | null; // fraction of the error budget left; negative once overspent
+  burnRates: SloBurnRate[];
+  status: SloHealth;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// How many times faster than sustainable the budget is being spent; 1 spends it exactly over the window
+export function burnRate(counts: SloCounts | undefined, target: number): number {
+  if (!counts || counts.total === 0) return 0;
+  const allowed = (100 - target) / 100;
+  return allowed > 0 ? round((counts.bad / counts.total) / allowed, 2) : 0;
+}
+
+export function computeSloStatus(slo: Slo, window: SloCounts, lookbacks: Record<number, SloCounts>): SloStatus {
+  const burnRates = SLO_BURN_WINDOWS.map(({ name, longSeconds, shortSeconds, threshold }) => {
+    const long = burnRate(lookbacks[longSeconds], slo.target);
+    const short = burnRate(lookbacks[shortSeconds], slo.target);
+    return { name, threshold, long, short, burning: long > threshold && short > threshold };
+  });
+
+  if (window.total === 0) {
+    return { slo, total: 0, bad: 0, sli: null, budgetRemaining: null, burnRates, status: 'no-data' };
+  }
+
+  const sli = round(((window.total - window.bad) / window.total) * 100, 3);
+  const budgetRemaining = round(1 - (window.bad / window.total) / ((100 - slo.target) / 100), 3);
+  const status: SloHealth = budgetRemaining <= 0 ? 'exhausted' : burnRates.some(rate => rate.burning) ? 'burning' : 'ok';
+
+  return { slo, total: window.total, bad: window.bad, sli, budgetRemaining, burnRates, status };
+}
@@ -0,0 +1,42 @@
+// Minimal span shape shared by the client (JSON strings) and the server (Date columns)
+export interface HierarchySpan {
+  spanId: string;
+  parentSpanId: string | null;
+  startTime: string | Date;
+}
+
+const startMs = (span: HierarchySpan) => new Date(span.startTime).getTime();
+
+// Depth-first span tree in start-time order; spans whose parent was not received become roots
+export function getSpanHierarchy<T extends HierarchySpan>(spans: T[]): Array<T & { level: number; children: string[] }> {
+  const spanMap = new Map(spans.map(span => [span.spanId, span]));
+  const childrenOf = new Map<string, T[]>();
+  const hierarchy: Array<T & { level: number; children: string[] }> = [];
+
+  spans.forEach(span => {
+    if (span.parentSpanId && spanMap.has(span.parentSpanId)) {
+      const siblings = childrenOf.get(span.parentSpanId) || [];
+      siblings.push(span);
+      childrenOf.set(span.parentSpanId, siblings);
+    }
+  });
+
+  function buildHierarchy(span: T, level: number): void {
+    const children = (childrenOf.get(span.spanId) || []).sort((a, b) => startMs(a) - startMs(b));
+
+    hierarchy.push({
+      ...span,
+      level,
+      children: children.map(child => child.spanId)
+    });
+
+    children.forEach(child => buildHierarchy(child, level + 1));
+  }
+
+  spans
+    .filter(span => !span.parentSpanId || !spanMap.has(span.parentSpanId))
+    .sort((a, b) => startMs(a) - startMs(b))
+    .forEach(root => buildHierarchy(root, 0));
+
+  return hierarchy;
+}
@@ -0,0 +1,161 @@
+// Topology diff between a baseline and a comparison time window
+export type TopologyChange = 'added' | 'removed' | 'traffic-up' | 'traffic-down' | 'errors-up' | 'errors-down';
+
+export interface TopologyWindowMetrics {
+  calls: number;
+  rate: number; // calls per second, so windows of different length compare fairly
+  errorRate: number; // percentage 0-100
+}
+
+export interface TopologyDiffEntry {
+  id: string;
+  element: 'node' | 'edge';
+  label: string;
+  changes: TopologyChange[];
+  baseline: TopologyWindowMetrics | null;
+  comparison: TopologyWindowMetrics | null;
+}
+
+// Diagram in the shape /api/topology returns
+export interface TopologySnapshot {
+  from: Date;
+  to: Date;
+  data: { nodes: any[]; edges: any[] };
+}
+
+export interface TopologyDiff {
+  baseline: { from: string; to: string };
+  comparison: { from: string; to: string };
+  // Union of both windows; every node and edge carries its `diff` entry
+  data: { nodes: any[]; edges: any[] };
+  changes: TopologyDiffEntry[];
+  summary: Record<TopologyChange, number>;
+}
+
+// Relative change in call rate reported as traffic up/down
+export const TRAFFIC_CHANGE_RATIO = 0.25;
+// Error rate change, in percentage points, reported as errors up/down
+export const ERROR_RATE_CHANGE = 1;
+
+const CHANGE_ORDER: TopologyChange[] = ['added', 'removed', 'errors-up', 'errors-down', 'traffic-up', 'traffic-down'];
+
+const endpointId = (end: any): string => typeof end === 'string' ? end : end?.id;
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+function metrics(calls: number, errors: number, errorBase: number, windowSeconds: number): TopologyWindowMetrics {
+  return {
+    calls,
+    rate: round(calls / Math.max(1, windowSeconds), 3),
+    errorRate: errorBase > 0 ? round((errors / errorBase) * 100, 2) : 0
+  };
+}
+
+function edgeMetrics(edge: any, windowSeconds: number): TopologyWindowMetrics {
+  const calls = Number(edge.connectionCount || 0);
+  return metrics(calls, Number(edge.errorCount || 0), calls, windowSeconds);
+}
+
+// A node's traffic is its own call count; its error rate comes from the calls it received
+function nodeMetrics(node: any, edges: any[], windowSeconds: number): TopologyWindowMetrics {
+  const inbound = edges.filter(edge => endpointId(edge.target) === node.id);
+  const inboundCalls = inbound.reduce((sum, edge) => sum + Number(edge.connectionCount || 0), 0);
+  const inboundErrors = inbound.reduce((sum, edge) => sum + Number(edge.errorCount || 0), 0);
+  const calls = node.count !== undefined
+    ? Number(node.count)
+    : edges
+        .filter(edge => endpointId(edge.source) === node.id || endpointId(edge.target) === node.id)
+        .reduce((sum, edge) => sum + Number(edge.connectionCount || 0), 0);
+
+  return metrics(calls, inboundErrors, inboundCalls, windowSeconds);
+}
+
+function classify(baseline: TopologyWindowMetrics | null, comparison: TopologyWindowMetrics | null): TopologyChange[] {
+  if (!baseline) return ['added'];
+  if (!comparison) return ['removed'];
+
+  const changes: TopologyChange[] = [];
+  const errorDelta = comparison.errorRate - baseline.errorRate;
+  if (errorDelta >= ERROR_RATE_CHANGE) changes.push('errors-up');
+  if (errorDelta <= -ERROR_RATE_CHANGE) changes.push('errors-down');
+
+  if (baseline.rate > 0) {
+    const ratio = (comparison.rate - baseline.rate) / baseline.rate;
+    if (ratio >= TRAFFIC_CHANGE_RATIO) changes.push('traffic-up');
+    if (ratio <= -TRAFFIC_CHANGE_RATIO) changes.push('traffic-down');
+  } else if (comparison.rate > 0) {
+    changes.push('traffic-up');
+  }
+
+  return changes;
+}
+
+function diffElements<T>(
+  element: 'node' | 'edge',
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  labelOf: (item: T) => string,
+  measure: (item: T, side: 'baseline' | 'comparison') => TopologyWindowMetrics
+) {
+  const beforeMap = new Map(before.map(item => [keyOf(item), item]));
+  const afterMap = new Map(after.map(item => [keyOf(item), item]));
+  const keys = Array.from(new Set([...Array.from(afterMap.keys()), ...Array.from(beforeMap.keys())]));
+
+  return keys.map(key => {
+    const previous = beforeMap.get(key);
+    const current = afterMap.get(key);
+    const baseline = previous ? measure(previous, 'baseline') : null;
+    const comparison = current ? measure(current, 'comparison') : null;
+    const entry: TopologyDiffEntry = {
+      id: key,
+      element,
+      label: labelOf((current || previous)!),
+      changes: classify(baseline, comparison),
+      baseline,
+      comparison
+    };
+    return { ...(current || previous)!, diff: entry };
+  });
+}
+
+export function diffTopologies(baseline: TopologySnapshot, comparison: TopologySnapshot): TopologyDiff {
+  const seconds = (snapshot: TopologySnapshot) => (snapshot.to.getTime() - snapshot.from.getTime()) / 1000;
+  const windows = { baseline, comparison };
+
+  const nodes = diffElements(
+    'node',
+    baseline.data.nodes,
+    comparison.data.nodes,
+    node => node.id,
+    node => node.service && node.label !== node.service ? `${node.service}: ${node.label}` : node.label || node.id,
+    (node, side) => nodeMetrics(node, windows[side].data.edges, seconds(windows[side]))
+  );
+  const edges = diffElements(
+    'edge',
+    baseline.data.edges,
+    comparison.data.edges,
+    edge => `${endpointId(edge.source)}-${endpointId(edge.target)}`,
+    edge => `${endpointId(edge.source)} → ${endpointId(edge.target)}`,
+    (edge, side) => edgeMetrics(edge, seconds(windows[side]))
+  );
+
+  const changes = [...edges, ...nodes]
+    .map((item): TopologyDiffEntry => item.diff)
+    .filter(entry => entry.changes.length > 0)
+    .sort((a, b) => CHANGE_ORDER.indexOf(a.changes[0]) - CHANGE_ORDER.indexOf(b.changes[0]));
+
+  const summary = Object.fromEntries(CHANGE_ORDER.map(change => [change, 0])) as Record<TopologyChange, number>;
+  changes.forEach(entry => entry.changes.forEach(change => summary[change]++));
+
+  return {
+    baseline: { from: baseline.from.toISOString(), to: baseline.to.toISOString() },
+    comparison: { from: comparison.from.toISOString(), to: comparison.to.toISOString() },
+    data: { nodes, edges },
+    changes,
+    summary
+  };
+}